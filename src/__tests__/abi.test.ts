@@ -0,0 +1,159 @@
+import {
+    decodeNamed,
+    decodeParameters,
+    encodeFunctionData,
+    encodeParameters,
+    eventTopic,
+    findFunction,
+    formatSignature,
+    keccak256,
+    parseAbi,
+    parseSignature,
+    selector,
+    toChecksumAddress
+} from '../abi';
+import { ValidationCloudError } from '../types';
+
+describe('ABI Codec', () => {
+    describe('hashing', () => {
+        it('should compute selectors, topics and checksums', () => {
+            expect(keccak256('0x')).toBe('0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+            expect(selector('transfer(address,uint256)')).toBe('0xa9059cbb');
+            expect(eventTopic('Transfer(address,address,uint256)'))
+                .toBe('0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef');
+            expect(toChecksumAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'))
+                .toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+        });
+    });
+
+    describe('parseSignature', () => {
+        it('should parse functions with modifiers and named returns', () => {
+            expect(parseSignature('function balanceOf(address owner) external view returns (uint256 balance)')).toEqual({
+                type: 'function',
+                name: 'balanceOf',
+                inputs: [{ type: 'address', name: 'owner' }],
+                outputs: [{ type: 'uint256', name: 'balance' }],
+                stateMutability: 'view'
+            });
+        });
+
+        it('should parse bare signatures, tuples and arrays', () => {
+            const fragment = parseSignature('swap((address tokenIn, uint amount)[] legs, bytes calldata data, uint[2] limits)');
+            expect(formatSignature(fragment)).toBe('swap((address,uint256)[],bytes,uint256[2])');
+            expect(fragment.inputs[0].components![1]).toEqual({ type: 'uint256', name: 'amount' });
+            expect(fragment.outputs).toEqual([]);
+        });
+
+        it('should parse events with indexed parameters', () => {
+            const fragment = parseSignature('event Transfer(address indexed from, address indexed to, uint256 value)');
+            expect(fragment.type).toBe('event');
+            expect(fragment.inputs.map(input => input.indexed)).toEqual([true, true, undefined]);
+        });
+
+        it('should reject invalid types', () => {
+            expect(() => parseSignature('foo(uint7)')).toThrow('Unsupported ABI type "uint7"');
+            expect(() => parseSignature('foo(uint256')).toThrow(ValidationCloudError);
+        });
+    });
+
+    describe('parseAbi', () => {
+        it('should accept JSON ABI text and skip non-function entries', () => {
+            const abi = parseAbi(JSON.stringify([
+                { type: 'constructor', inputs: [] },
+                { type: 'function', name: 'decimals', inputs: [], outputs: [{ type: 'uint8', name: '' }] }
+            ]));
+            expect(abi).toHaveLength(1);
+            expect(abi[0].name).toBe('decimals');
+        });
+
+        it('should find functions by name or signature', () => {
+            const abi = parseAbi(['function f(uint256)', 'function f(address,uint256)', 'function g()']);
+            expect(formatSignature(findFunction(abi, 'f', 2))).toBe('f(address,uint256)');
+            expect(formatSignature(findFunction(abi, 'f(uint256)'))).toBe('f(uint256)');
+            expect(() => findFunction(abi, 'f')).toThrow('overloaded');
+            expect(() => findFunction(abi, 'h')).toThrow('not found');
+        });
+    });
+
+    describe('encoding', () => {
+        it('should match the Solidity specification example', () => {
+            const fragment = parseSignature('f(uint256,uint32[],bytes10,bytes)');
+            const data = encodeFunctionData(fragment, [
+                '0x123',
+                [0x456, 0x789],
+                '0x31323334353637383930',
+                '0x48656c6c6f2c20776f726c6421'
+            ]);
+            expect(data).toBe('0x8be65246' + [
+                '0000000000000000000000000000000000000000000000000000000000000123',
+                '0000000000000000000000000000000000000000000000000000000000000080',
+                '3132333435363738393000000000000000000000000000000000000000000000',
+                '00000000000000000000000000000000000000000000000000000000000000e0',
+                '0000000000000000000000000000000000000000000000000000000000000002',
+                '0000000000000000000000000000000000000000000000000000000000000456',
+                '0000000000000000000000000000000000000000000000000000000000000789',
+                '000000000000000000000000000000000000000000000000000000000000000d',
+                '48656c6c6f2c20776f726c642100000000000000000000000000000000000000'
+            ].join(''));
+        });
+
+        it('should accept named arguments', () => {
+            const fragment = parseSignature('transfer(address to, uint256 amount)');
+            expect(encodeFunctionData(fragment, { amount: '1', to: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' }))
+                .toBe(encodeFunctionData(fragment, ['0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', 1]));
+        });
+
+        it('should reject invalid values', () => {
+            expect(() => encodeParameters([{ type: 'uint8' }], [256])).toThrow('out of range');
+            expect(() => encodeParameters([{ type: 'address', name: 'to' }], ['vitalik'])).toThrow('to (address)');
+            expect(() => encodeParameters([{ type: 'uint256' }], [])).toThrow('Expected 1 arguments');
+        });
+    });
+
+    describe('decoding', () => {
+        const roundTrip = (types: string, values: unknown[]) => {
+            const params = parseSignature(`f(${types})`).inputs;
+            return decodeParameters(params, encodeParameters(params, values));
+        };
+
+        it('should round-trip nested dynamic types', () => {
+            expect(roundTrip('uint256[][],string[]', [[[1, 2], [3]], ['one', 'two', 'three']])).toEqual([
+                [['1', '2'], ['3']],
+                ['one', 'two', 'three']
+            ]);
+        });
+
+        it('should round-trip tuples, signed integers, booleans and fixed bytes', () => {
+            const [tuple, negative, flag, word] = roundTrip(
+                '(address owner, string label, uint256[2] pair)[] items, int128, bool, bytes4',
+                [
+                    [{ owner: '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed', label: 'héllo', pair: [1, '0xff'] }],
+                    -42,
+                    true,
+                    '0xa9059cbb'
+                ]
+            );
+            expect(tuple).toEqual([
+                { owner: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', label: 'héllo', pair: ['1', '255'] }
+            ]);
+            expect(negative).toBe('-42');
+            expect(flag).toBe(true);
+            expect(word).toBe('0xa9059cbb');
+        });
+
+        it('should keep large integers exact', () => {
+            const max = ((1n << 256n) - 1n).toString();
+            expect(roundTrip('uint256', [max])).toEqual([max]);
+        });
+
+        it('should name outputs and fall back to positions', () => {
+            const params = [{ type: 'uint256', name: 'amount' }, { type: 'bool' }];
+            expect(decodeNamed(params, encodeParameters(params, [5, false]))).toEqual({ amount: '5', 1: false });
+        });
+
+        it('should reject truncated or malicious data', () => {
+            expect(() => decodeParameters([{ type: 'uint256' }], '0x1234')).toThrow('ABI data too short');
+            expect(() => decodeParameters([{ type: 'string' }], '0x' + 'f'.repeat(64))).toThrow('exceeds data size');
+        });
+    });
+});
@@ -5,7 +5,7 @@ import axios, {
     InternalAxiosRequestConfig
 } from 'axios';
 import { ValidationCloudAPI } from '../api';
-import { ValidationCloudError } from '../types';
+import { Clock, EthereumErrorCode, PolicyViolationError, ValidationCloudError } from '../types';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -125,6 +125,20 @@ describe('ValidationCloudAPI', () => {
             });
         });
 
+        it('should return the raw result when requested', async () => {
+            mockedAxios.create.mockReturnValue(
+                createMockAxiosInstance(
+                    jest.fn().mockResolvedValue({
+                        data: { jsonrpc: '2.0', id: 1, result: '0x1234' }
+                    })
+                )
+            );
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            const response = await api.request({ method: 'eth_blockNumber', raw: true });
+            expect(response.result).toBe('0x1234');
+        });
+
         it('should validate eth_getBalance parameters', async () => {
             const api = new ValidationCloudAPI({ apiKey: 'test-key' });
             await expect(
@@ -156,6 +170,89 @@ describe('ValidationCloudAPI', () => {
         });
     });
 
+    describe('batchRequest', () => {
+        it('should send a JSON-RPC array and match responses by id', async () => {
+            const mockPost = jest.fn().mockImplementation(async (_url: string, body: any[]) => ({
+                data: [
+                    { jsonrpc: '2.0', id: body[1].id, result: '0xde0b6b3a7640000' },
+                    { jsonrpc: '2.0', id: body[0].id, result: '0x10' }
+                ]
+            }));
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            const results = await api.batchRequest([
+                { method: 'eth_blockNumber' },
+                { method: 'eth_getBalance', params: ['0x742d35Cc6634C0532925a3b844Bc454e4438f44e', 'latest'] }
+            ]);
+
+            expect(mockPost).toHaveBeenCalledTimes(1);
+            const body = mockPost.mock.calls[0][1];
+            expect(body.map((item: any) => item.method)).toEqual(['eth_blockNumber', 'eth_getBalance']);
+            expect(results).toEqual([
+                { id: body[0].id, method: 'eth_blockNumber', result: 16 },
+                {
+                    id: body[1].id,
+                    method: 'eth_getBalance',
+                    result: { wei: '1000000000000000000', ether: '1' }
+                }
+            ]);
+        });
+
+        it('should report per-item validation, node and missing-response errors', async () => {
+            const mockPost = jest.fn().mockImplementation(async (_url: string, body: any[]) => ({
+                data: [
+                    { jsonrpc: '2.0', id: body[0].id, error: { code: -32000, message: 'header not found' } }
+                ]
+            }));
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            const results = await api.batchRequest([
+                { method: 'eth_getBlockByNumber', params: ['0xffffffff', false] },
+                { method: 'eth_getTransactionByHash', params: ['invalid-hash'] },
+                { method: 'eth_blockNumber' }
+            ]);
+
+            expect(mockPost.mock.calls[0][1]).toHaveLength(2);
+            expect(results[0].error).toEqual({ code: -32000, message: 'header not found', category: 'not_found' });
+            expect(results[1].error).toEqual({
+                code: -32602,
+                message: 'Invalid transaction hash parameter'
+            });
+            expect(results[2].error?.message).toMatch(/No response received/);
+        });
+
+        it('should not send anything when every request is invalid', async () => {
+            const mockPost = jest.fn();
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            const results = await api.batchRequest([
+                { method: 'eth_getBalance', params: ['invalid-address', 'latest'] }
+            ]);
+
+            expect(mockPost).not.toHaveBeenCalled();
+            expect(results[0].error?.message).toBe('Invalid address parameter');
+        });
+
+        it('should reject an empty batch', async () => {
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            await expect(api.batchRequest([])).rejects.toThrow('at least one request');
+        });
+
+        it('should throw when the endpoint rejects the whole batch', async () => {
+            mockedAxios.create.mockReturnValue(
+                createMockAxiosInstance(jest.fn().mockResolvedValue({
+                    data: { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'batch too large' } }
+                }))
+            );
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            await expect(api.batchRequest([{ method: 'eth_blockNumber' }])).rejects.toThrow('batch too large');
+        });
+    });
+
     describe('error handling', () => {
         it('should handle API errors', async () => {
             const errorResponse = {
@@ -189,6 +286,31 @@ describe('ValidationCloudAPI', () => {
             ).rejects.toThrow(ValidationCloudError);
         });
 
+        it('should throw JSON-RPC error objects returned with HTTP 200', async () => {
+            mockedAxios.create.mockReturnValue(
+                createMockAxiosInstance(
+                    jest.fn().mockResolvedValue({
+                        data: {
+                            jsonrpc: '2.0',
+                            id: 1,
+                            error: { code: 3, message: 'execution reverted', data: '0x08c379a0' }
+                        }
+                    })
+                )
+            );
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            const error = await api.request({
+                method: 'eth_call',
+                params: [{ to: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', data: '0x' }, 'latest']
+            }).catch(e => e);
+
+            expect(error).toBeInstanceOf(ValidationCloudError);
+            expect(error.message).toBe('execution reverted');
+            expect(error.code).toBe(EthereumErrorCode.EXECUTION_REVERTED);
+            expect(error.data).toBe('0x08c379a0');
+        });
+
         it('should handle network errors', async () => {
             const networkError = new Error('Network error');
             (networkError as any).isAxiosError = true;
@@ -202,6 +324,240 @@ describe('ValidationCloudAPI', () => {
         });
     });
 
+    describe('retries and rate limiting', () => {
+        const createFakeClock = () => {
+            let now = 0;
+            const sleeps: number[] = [];
+            const clock: Clock = {
+                now: () => now,
+                sleep: async (ms: number) => {
+                    sleeps.push(ms);
+                    now += ms;
+                }
+            };
+            return { clock, sleeps };
+        };
+
+        const transientError = (status: number, headers: Record<string, string> = {}) => ({
+            isAxiosError: true,
+            message: `Request failed with status code ${status}`,
+            response: { status, headers, data: {} }
+        });
+
+        it('should retry transient failures with backoff', async () => {
+            const { clock, sleeps } = createFakeClock();
+            const mockPost = jest.fn()
+                .mockRejectedValueOnce(transientError(503))
+                .mockRejectedValueOnce({ isAxiosError: true, code: 'ECONNRESET', message: 'socket hang up' })
+                .mockResolvedValue({ data: { jsonrpc: '2.0', id: 1, result: '0x10' } });
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({
+                apiKey: 'test-key',
+                clock,
+                retry: { baseDelayMs: 100, jitter: 0 },
+                logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+            });
+            const response = await api.request({ method: 'eth_blockNumber' });
+
+            expect(response.result).toBe(16);
+            expect(mockPost).toHaveBeenCalledTimes(3);
+            expect(sleeps).toEqual([100, 200]);
+        });
+
+        it('should honour Retry-After and give up after maxRetries', async () => {
+            const { clock, sleeps } = createFakeClock();
+            const mockPost = jest.fn().mockRejectedValue(transientError(429, { 'retry-after': '2' }));
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({
+                apiKey: 'test-key',
+                clock,
+                retry: { maxRetries: 2 },
+                logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+            });
+
+            await expect(api.request({ method: 'eth_blockNumber' })).rejects.toThrow(ValidationCloudError);
+            expect(mockPost).toHaveBeenCalledTimes(3);
+            expect(sleeps).toEqual([2000, 2000]);
+        });
+
+        it('should never retry eth_sendRawTransaction', async () => {
+            const { clock } = createFakeClock();
+            const mockPost = jest.fn().mockRejectedValue(transientError(502));
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key', clock });
+
+            await expect(api.request({ method: 'eth_sendRawTransaction', params: ['0x02'] }))
+                .rejects.toThrow(ValidationCloudError);
+            expect(mockPost).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not send faster than the rate limit', async () => {
+            const { clock } = createFakeClock();
+            const mockPost = jest.fn().mockResolvedValue({ data: { jsonrpc: '2.0', id: 1, result: '0x1' } });
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({
+                apiKey: 'test-key',
+                clock,
+                rateLimit: { requestsPerSecond: 4, burst: 1 }
+            });
+            for (let i = 0; i < 5; i++) {
+                await api.request({ method: 'eth_blockNumber' });
+            }
+
+            expect(mockPost).toHaveBeenCalledTimes(5);
+            expect(clock.now()).toBe(1000);
+        });
+    });
+
+    describe('response cache', () => {
+        it('should serve repeated requests from the cache when enabled', async () => {
+            const mockPost = jest.fn().mockImplementation(async (_url: string, body: any) => ({
+                data: {
+                    jsonrpc: '2.0',
+                    id: body.id,
+                    result: body.params[0] === 'finalized' ? { number: '0x100' } : { number: '0x10', hash: '0xabc' }
+                }
+            }));
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key', cache: {} });
+            await api.request({ method: 'eth_getBlockByNumber', params: ['0x10', false] });
+            const response = await api.request({ method: 'eth_getBlockByNumber', params: [16, false] });
+
+            expect(response.result.number).toBe(16);
+            // One block request plus one finalized head lookup
+            expect(mockPost).toHaveBeenCalledTimes(2);
+            expect(api.cacheStats()).toMatchObject({ hits: 1, immutableEntries: 1, finalizedBlock: 256 });
+
+            api.clearCache();
+            expect(api.cacheStats()).toMatchObject({ entries: 0 });
+        });
+
+        it('should share cache entries between raw and converted requests', async () => {
+            const mockPost = jest.fn().mockImplementation(async (_url: string, body: any) => ({
+                data: { jsonrpc: '2.0', id: body.id, result: '0x1234' }
+            }));
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key', cache: {} });
+            const converted = await api.request({ method: 'eth_chainId' });
+            const raw = await api.request({ method: 'eth_chainId', raw: true });
+
+            expect(converted.result).toBe(4660);
+            expect(raw.result).toBe('0x1234');
+            expect(mockPost).toHaveBeenCalledTimes(1);
+        });
+
+        it('should report no stats when caching is disabled', () => {
+            const api = new ValidationCloudAPI({ apiKey: 'test-key' });
+            expect(api.cacheStats()).toBeUndefined();
+        });
+    });
+
+    describe('request policy', () => {
+        it('should refuse blocked requests without sending them', async () => {
+            const mockPost = jest.fn();
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key', policy: { readOnly: true } });
+
+            await expect(api.request({ method: 'eth_sendRawTransaction', params: ['0x02'] }))
+                .rejects.toBeInstanceOf(PolicyViolationError);
+            const [item] = await api.batchRequest([{ method: 'eth_sendRawTransaction', params: ['0x02'] }]);
+            expect(item.error?.message).toContain('Blocked by policy "readOnly"');
+            expect(mockPost).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('API key redaction', () => {
+        const API_KEY = 'secret-api-key-0123456789';
+
+        const expectNoKey = (error: any) => {
+            expect(error).toBeInstanceOf(ValidationCloudError);
+            for (const text of [error.message, error.stack, JSON.stringify(error), JSON.stringify(error.details)]) {
+                expect(text ?? '').not.toContain(API_KEY);
+            }
+        };
+
+        it('should send the key as a header when configured', () => {
+            new ValidationCloudAPI({ apiKey: API_KEY, apiKeyLocation: 'header' });
+
+            const config = mockedAxios.create.mock.calls[0][0]!;
+            expect(config.baseURL).not.toContain(API_KEY);
+            expect((config.headers as any)['X-API-Key']).toBe(API_KEY);
+        });
+
+        it('should put the key in the path by default', () => {
+            new ValidationCloudAPI({ apiKey: API_KEY, baseURL: 'https://node.example/v1' });
+
+            expect(mockedAxios.create.mock.calls[0][0]!.baseURL).toBe(`https://node.example/v1/${API_KEY}`);
+        });
+
+        it('should redact the key from axios errors', async () => {
+            const axiosError = {
+                isAxiosError: true,
+                message: `getaddrinfo ENOTFOUND https://node.example/v1/${API_KEY}`,
+                config: { baseURL: `https://node.example/v1/${API_KEY}` },
+                response: {
+                    status: 404,
+                    data: { message: `No route for /v1/${API_KEY}`, path: `/v1/${API_KEY}` }
+                }
+            };
+            mockedAxios.isAxiosError.mockReturnValue(true);
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(jest.fn().mockRejectedValue(axiosError)));
+
+            const api = new ValidationCloudAPI({ apiKey: API_KEY });
+            expectNoKey(await api.request({ method: 'eth_blockNumber' }).catch(e => e));
+            expectNoKey(await api.batchRequest([{ method: 'eth_blockNumber' }]).catch(e => e));
+            mockedAxios.isAxiosError.mockReset();
+        });
+
+        it('should redact the key from JSON-RPC error objects', async () => {
+            mockedAxios.create.mockReturnValue(
+                createMockAxiosInstance(jest.fn().mockResolvedValue({
+                    data: { jsonrpc: '2.0', id: 1, error: { code: -32000, message: `bad key ${API_KEY}`, data: API_KEY } }
+                }))
+            );
+
+            const api = new ValidationCloudAPI({ apiKey: API_KEY });
+            const error = await api.request({ method: 'eth_blockNumber' }).catch(e => e);
+            expectNoKey(error);
+            expect(error.data).toBe('[REDACTED]');
+        });
+
+        it('should redact the key from other thrown errors', async () => {
+            mockedAxios.create.mockReturnValue(
+                createMockAxiosInstance(jest.fn().mockRejectedValue(new Error(`Invalid URL /v1/${API_KEY}`)))
+            );
+
+            const api = new ValidationCloudAPI({ apiKey: API_KEY });
+            expectNoKey(await api.request({ method: 'eth_blockNumber' }).catch(e => e));
+        });
+
+        it('should redact the key from log output', async () => {
+            const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+            mockedAxios.isAxiosError.mockReturnValue(true);
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(jest.fn()
+                .mockRejectedValueOnce({ isAxiosError: true, code: `ECONNRESET`, message: API_KEY })
+                .mockResolvedValue({ data: { jsonrpc: '2.0', id: 1, result: '0x1' } })));
+
+            const api = new ValidationCloudAPI({
+                apiKey: API_KEY,
+                logger,
+                retry: { baseDelayMs: 0 }
+            });
+            await api.request({ method: 'eth_blockNumber' });
+
+            expect(logger.warn).toHaveBeenCalled();
+            expect(JSON.stringify(logger.warn.mock.calls)).not.toContain(API_KEY);
+            mockedAxios.isAxiosError.mockReset();
+        });
+    });
+
     describe('testConnection', () => {
         it('should return true for successful connection', async () => {
             mockedAxios.create.mockReturnValue(
@@ -226,5 +582,18 @@ describe('ValidationCloudAPI', () => {
             const result = await api.testConnection();
             expect(result).toBe(false);
         });
+
+        it('should probe once with a short timeout, outside retries and the rate limit', async () => {
+            const mockPost = jest.fn().mockRejectedValue(Object.assign(new Error('timeout of 2000ms exceeded'), { code: 'ECONNABORTED' }));
+            mockedAxios.create.mockReturnValue(createMockAxiosInstance(mockPost));
+            const rateLimit = { acquire: jest.fn().mockResolvedValue(undefined) };
+
+            const api = new ValidationCloudAPI({ apiKey: 'test-key', rateLimit, retry: { maxRetries: 3 } });
+
+            await expect(api.testConnection(2000)).resolves.toBe(false);
+            expect(mockPost).toHaveBeenCalledTimes(1);
+            expect(mockPost).toHaveBeenCalledWith('', expect.objectContaining({ method: 'eth_blockNumber' }), { timeout: 2000 });
+            expect(rateLimit.acquire).not.toHaveBeenCalled();
+        });
     });
 });
@@ -0,0 +1,95 @@
+import { ValidationCloudAPI } from '../api';
+import { findBlockByTimestamp, parseTimestamp } from '../blockSearch';
+import { transformResponse } from '../utils';
+
+const GENESIS_TIME = 1438269973;
+
+/**
+ * Fake node serving blocks with the given timestamps; results go through
+ * transformResponse as they do in the API client
+ */
+const createFakeChain = (timestamps: number[]) => {
+    const request = jest.fn(async ({ params }: { method: string; params: any[] }) => {
+        const number = params[0] === 'latest' ? timestamps.length - 1 : parseInt(params[0], 16);
+        const block = {
+            number: `0x${number.toString(16)}`,
+            hash: `0x${number.toString(16).padStart(64, '0')}`,
+            timestamp: `0x${timestamps[number].toString(16)}`
+        };
+        return { jsonrpc: '2.0', id: 1, result: transformResponse('eth_getBlockByNumber', block) };
+    });
+    return { request } as unknown as ValidationCloudAPI & { request: jest.Mock };
+};
+
+/** 20000 blocks at 14s, then 100000 blocks at 12s */
+const MAINNET_LIKE = Array.from({ length: 120000 }, (_, n) =>
+    n < 20000 ? GENESIS_TIME + n * 14 : GENESIS_TIME + 20000 * 14 + (n - 20000) * 12);
+
+const lastAtOrBefore = (timestamps: number[], target: number) => timestamps.filter(t => t <= target).length - 1;
+const firstAtOrAfter = (timestamps: number[], target: number) => timestamps.findIndex(t => t >= target);
+
+describe('Block search', () => {
+    it('should find the block at or before a time in a few requests', async () => {
+        const api = createFakeChain(MAINNET_LIKE);
+        const target = MAINNET_LIKE[87654] + 5;
+
+        const result = await findBlockByTimestamp(api, target);
+
+        expect(result.block.number).toBe(87654);
+        expect(result.block.timestamp).toBe(MAINNET_LIKE[87654]);
+        expect(result.offsetSeconds).toBe(-5);
+        expect(result.requests).toBeLessThanOrEqual(6);
+        expect(result.requests).toBe(api.request.mock.calls.length);
+    });
+
+    it('should find the first block at or after a time', async () => {
+        const api = createFakeChain(MAINNET_LIKE);
+
+        const result = await findBlockByTimestamp(api, MAINNET_LIKE[1234] + 1, 'after');
+
+        expect(result.block.number).toBe(1235);
+        expect(result.offsetSeconds).toBe(13);
+    });
+
+    it('should match a linear scan for random times', async () => {
+        let seed = 7;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        // Uneven block times, with runs of blocks sharing a timestamp
+        const timestamps = [GENESIS_TIME];
+        for (let n = 1; n < 5000; n++) {
+            timestamps.push(timestamps[n - 1] + (random() < 0.3 ? 0 : Math.floor(random() * 30)));
+        }
+        const first = timestamps[0];
+        const last = timestamps[timestamps.length - 1];
+
+        for (let i = 0; i < 50; i++) {
+            const target = first + Math.floor(random() * (last - first));
+            const before = await findBlockByTimestamp(createFakeChain(timestamps), target, 'before');
+            const after = await findBlockByTimestamp(createFakeChain(timestamps), target, 'after');
+
+            expect(before.block.number).toBe(lastAtOrBefore(timestamps, target));
+            expect(after.block.number).toBe(firstAtOrAfter(timestamps, target));
+            expect(before.requests).toBeLessThanOrEqual(40);
+        }
+    });
+
+    it('should handle times outside the chain', async () => {
+        const api = createFakeChain(MAINNET_LIKE);
+        const latest = MAINNET_LIKE.length - 1;
+
+        expect((await findBlockByTimestamp(api, MAINNET_LIKE[latest] + 100)).block.number).toBe(latest);
+        expect((await findBlockByTimestamp(api, GENESIS_TIME - 100, 'after')).block.number).toBe(0);
+        await expect(findBlockByTimestamp(api, MAINNET_LIKE[latest] + 100, 'after')).rejects.toThrow('No block at or after');
+        await expect(findBlockByTimestamp(api, GENESIS_TIME - 100)).rejects.toThrow('No block at or before');
+    });
+
+    it('should parse Unix seconds and ISO dates as UTC', () => {
+        expect(parseTimestamp(1704067200)).toBe(1704067200);
+        expect(parseTimestamp('1704067200')).toBe(1704067200);
+        expect(parseTimestamp('2024-01-01')).toBe(1704067200);
+        expect(parseTimestamp('2024-01-01T12:00')).toBe(1704110400);
+        expect(parseTimestamp('2024-01-01T12:00:00+02:00')).toBe(1704103200);
+        expect(() => parseTimestamp('yesterday')).toThrow('Invalid date');
+        expect(() => parseTimestamp(-1)).toThrow('Invalid timestamp');
+    });
+});
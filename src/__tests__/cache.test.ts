@@ -0,0 +1,149 @@
+import { ResponseCache, cacheKey, classifyRequest } from '../cache';
+import { ValidationCloudResponse } from '../types';
+
+const response = (result: any): ValidationCloudResponse => ({ jsonrpc: '2.0', id: 1, result });
+
+describe('Response Cache', () => {
+    describe('cacheKey', () => {
+        it('should canonicalise params', () => {
+            expect(cacheKey('eth_getBalance', ['0xABCDEF', 16])).toBe(cacheKey('eth_getBalance', ['0xabcdef', '0x10']));
+            expect(cacheKey('eth_call', [{ to: '0x01', data: '0x02' }, 'latest']))
+                .toBe(cacheKey('eth_call', [{ data: '0x02', to: '0x01' }, 'latest']));
+            expect(cacheKey('eth_getBalance', ['0x01', 'latest'])).not.toBe(cacheKey('eth_getCode', ['0x01', 'latest']));
+        });
+    });
+
+    describe('classifyRequest', () => {
+        it('should classify requests by finality', () => {
+            expect(classifyRequest('eth_getBlockByHash', ['0xabc', false])).toBe('immutable');
+            expect(classifyRequest('eth_getTransactionReceipt', ['0xabc'])).toBe('immutable');
+            expect(classifyRequest('eth_getCode', ['0x01', { blockHash: '0xabc' }])).toBe('immutable');
+            expect(classifyRequest('eth_getCode', ['0x01', '0x10'])).toBe('finality');
+            expect(classifyRequest('eth_getLogs', [{ fromBlock: '0x1', toBlock: '0x10' }])).toBe('finality');
+            expect(classifyRequest('eth_getLogs', [{ fromBlock: '0x1', toBlock: 'latest' }])).toBe('volatile');
+            expect(classifyRequest('eth_getBalance', ['0x01', 'latest'])).toBe('volatile');
+            expect(classifyRequest('eth_blockNumber', [])).toBe('volatile');
+            expect(classifyRequest('eth_sendRawTransaction', ['0x02'])).toBe('none');
+        });
+    });
+
+    describe('ResponseCache', () => {
+        let now: number;
+        let cache: ResponseCache;
+        const finalizedHead = jest.fn();
+
+        beforeEach(() => {
+            now = 0;
+            cache = new ResponseCache({ volatileTtlMs: 1000, finalizedHeadTtlMs: 5000 }, () => now);
+            finalizedHead.mockReset().mockResolvedValue(100);
+        });
+
+        it('should expire volatile responses after the TTL', async () => {
+            const fetch = jest.fn().mockResolvedValue(response(5));
+
+            await cache.wrap('eth_blockNumber', [], fetch, finalizedHead);
+            await cache.wrap('eth_blockNumber', [], fetch, finalizedHead);
+            expect(fetch).toHaveBeenCalledTimes(1);
+
+            now = 1000;
+            await cache.wrap('eth_blockNumber', [], fetch, finalizedHead);
+            expect(fetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should keep calls pinned below the finalized head indefinitely', async () => {
+            const fetch = jest.fn().mockResolvedValue(response('0x6080'));
+
+            await cache.wrap('eth_getCode', ['0x01', '0x50'], fetch, finalizedHead);
+            now = 1000000;
+            await cache.wrap('eth_getCode', ['0x01', 80], fetch, finalizedHead);
+
+            expect(fetch).toHaveBeenCalledTimes(1);
+            expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, immutableEntries: 1, finalizedBlock: 100 });
+        });
+
+        it('should use the short TTL above the finalized head', async () => {
+            const fetch = jest.fn().mockResolvedValue(response('0x6080'));
+
+            await cache.wrap('eth_getCode', ['0x01', '0x65'], fetch, finalizedHead);
+            now = 1000;
+            await cache.wrap('eth_getCode', ['0x01', '0x65'], fetch, finalizedHead);
+
+            expect(fetch).toHaveBeenCalledTimes(2);
+            expect(finalizedHead).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not cache missing receipts as immutable', async () => {
+            const fetch = jest.fn()
+                .mockResolvedValueOnce(response(null))
+                .mockResolvedValue(response({ status: '0x1' }));
+
+            await cache.wrap('eth_getTransactionReceipt', ['0xabc'], fetch, finalizedHead);
+            now = 1000;
+            await cache.wrap('eth_getTransactionReceipt', ['0xabc'], fetch, finalizedHead);
+            now = 1000000;
+            const cached = await cache.wrap('eth_getTransactionReceipt', ['0xabc'], fetch, finalizedHead);
+
+            expect(fetch).toHaveBeenCalledTimes(2);
+            expect(cached.result).toEqual({ status: '0x1' });
+        });
+
+        it('should coalesce identical in-flight requests', async () => {
+            let resolve!: (value: ValidationCloudResponse) => void;
+            const fetch = jest.fn().mockReturnValue(new Promise(r => { resolve = r; }));
+
+            const first = cache.wrap('eth_getBlockByHash', ['0xabc', false], fetch, finalizedHead);
+            const second = cache.wrap('eth_getBlockByHash', ['0xABC', false], fetch, finalizedHead);
+            expect(cache.stats().inFlight).toBe(1);
+
+            resolve(response({ number: 1 }));
+            expect(await first).toEqual(await second);
+            expect(fetch).toHaveBeenCalledTimes(1);
+            expect(cache.stats().coalesced).toBe(1);
+        });
+
+        it('should never cache broadcasts', async () => {
+            const fetch = jest.fn().mockResolvedValue(response('0xhash'));
+
+            await cache.wrap('eth_sendRawTransaction', ['0x02'], fetch, finalizedHead);
+            await cache.wrap('eth_sendRawTransaction', ['0x02'], fetch, finalizedHead);
+
+            expect(fetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not share mutations with cached entries', async () => {
+            const fetch = jest.fn().mockResolvedValue(response({ hash: '0xabc' }));
+
+            const first = await cache.wrap('eth_getBlockByHash', ['0xabc', false], fetch, finalizedHead);
+            first.result.hash = 'changed';
+            const second = await cache.wrap('eth_getBlockByHash', ['0xabc', false], fetch, finalizedHead);
+
+            expect(second.result.hash).toBe('0xabc');
+        });
+
+        it('should evict least recently used entries beyond the limits', () => {
+            cache = new ResponseCache({ maxEntries: 2 }, () => now);
+            cache.set('a', response(1), true);
+            cache.set('b', response(2), true);
+            cache.get('a');
+            cache.set('c', response(3), true);
+
+            expect(cache.get('a')).toBeDefined();
+            expect(cache.get('b')).toBeUndefined();
+            expect(cache.stats()).toMatchObject({ entries: 2, evictions: 1 });
+        });
+
+        it('should skip entries larger than maxEntryBytes', () => {
+            cache = new ResponseCache({ maxEntryBytes: 50 }, () => now);
+            cache.set('big', response('0x' + 'ff'.repeat(100)), true);
+
+            expect(cache.get('big')).toBeUndefined();
+        });
+
+        it('should clear entries and counters', async () => {
+            await cache.wrap('eth_blockNumber', [], jest.fn().mockResolvedValue(response(1)), finalizedHead);
+            cache.clear();
+
+            expect(cache.stats()).toMatchObject({ entries: 0, bytes: 0, misses: 0 });
+        });
+    });
+});
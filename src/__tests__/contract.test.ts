@@ -0,0 +1,61 @@
+import { ValidationCloudAPI } from '../api';
+import { callContract, resolveFunction, toBlockParam } from '../contract';
+
+const createFakeApi = (result: string) => ({
+    request: jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result })
+}) as unknown as ValidationCloudAPI & { request: jest.Mock };
+
+describe('Contract Calls', () => {
+    it('should encode the call, send eth_call and decode named outputs', async () => {
+        const api = createFakeApi('0x' + (10n ** 24n).toString(16).padStart(64, '0'));
+
+        const result = await callContract(api, {
+            address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+            function: 'function balanceOf(address owner) view returns (uint256 balance)',
+            args: ['0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'],
+            block: 19000000
+        });
+
+        expect(api.request).toHaveBeenCalledWith({
+            method: 'eth_call',
+            params: [
+                {
+                    to: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+                    data: '0x70a082310000000000000000000000005aaeb6053f3e94c9b9a09f33669435e7ef1beaed'
+                },
+                '0x121eac0'
+            ]
+        });
+        expect(result.function).toBe('balanceOf(address)');
+        expect(result.result).toEqual({ balance: '1000000000000000000000000' });
+        expect(result.outputTypes).toEqual(['uint256']);
+    });
+
+    it('should look functions up in a JSON ABI', () => {
+        const abi = [{ type: 'function', name: 'decimals', inputs: [], outputs: [{ name: '', type: 'uint8' }] }];
+        expect(resolveFunction('decimals', abi, 0).outputs).toEqual([{ name: '', type: 'uint8' }]);
+        expect(resolveFunction(abi[0], undefined).name).toBe('decimals');
+    });
+
+    it('should explain empty return data', async () => {
+        const api = createFakeApi('0x');
+        await expect(callContract(api, {
+            address: '0x0000000000000000000000000000000000000001',
+            function: 'decimals() returns (uint8)'
+        })).rejects.toThrow('decimals() returned no data');
+    });
+
+    it('should return raw data when outputs are unknown', async () => {
+        const api = createFakeApi('0x01');
+        const result = await callContract(api, { address: '0x01', function: 'ping()' });
+        expect(result.raw).toBe('0x01');
+        expect(result.result).toBeUndefined();
+    });
+
+    it('should normalise block parameters', () => {
+        expect(toBlockParam(undefined)).toBe('latest');
+        expect(toBlockParam(16)).toBe('0x10');
+        expect(toBlockParam('16')).toBe('0x10');
+        expect(toBlockParam('finalized')).toBe('finalized');
+    });
+});
@@ -0,0 +1,114 @@
+import { ValidationCloudAPI } from '../api';
+import {
+    ENS_REGISTRY,
+    getEnsText,
+    isEnsName,
+    lookupAddress,
+    namehash,
+    resolveEnsName,
+    resolveEnsParams,
+    withEnsResolutions
+} from '../ens';
+
+const RESOLVER = '0x4976fb03C32e5B8cfe2b6cCB31c09Ba78EBaBa41';
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const word = (hex: string) => hex.replace(/^0x/, '').toLowerCase().padStart(64, '0');
+const encodeString = (text: string) => {
+    const hex = Buffer.from(text).toString('hex');
+    return `0x${word('20')}${word(hex.length ? (hex.length / 2).toString(16) : '0')}${hex.padEnd(Math.ceil(hex.length / 64) * 64, '0')}`;
+};
+
+/**
+ * Fake ENS deployment: the registry maps nodes to resolvers and the resolver
+ * answers addr, name and text lookups
+ */
+const createFakeNode = (records: { resolvers: Record<string, string>; addrs?: Record<string, string>; names?: Record<string, string>; texts?: Record<string, string> }) => {
+    const request = jest.fn(async ({ params }: { method: string; params: any[] }) => {
+        const { to, data } = params[0];
+        const selector = data.slice(0, 10);
+        const node = `0x${data.slice(10, 74)}`;
+        const respond = (result: string) => ({ jsonrpc: '2.0', id: 1, result });
+
+        if (to.toLowerCase() === ENS_REGISTRY.toLowerCase() && selector === '0x0178b8bf') {
+            return respond(`0x${word(records.resolvers[node] ?? '0')}`);
+        }
+        if (to.toLowerCase() === RESOLVER.toLowerCase()) {
+            if (selector === '0x3b3b57de') return respond(`0x${word(records.addrs?.[node] ?? '0')}`);
+            if (selector === '0x691f3431') return respond(encodeString(records.names?.[node] ?? ''));
+            if (selector === '0x59d1d43c') return respond(encodeString(records.texts?.[node] ?? ''));
+        }
+        return respond('0x');
+    });
+    return { request } as unknown as ValidationCloudAPI & { request: jest.Mock };
+};
+
+const VITALIK_NODE = namehash('vitalik.eth');
+const REVERSE_NODE = namehash(`${VITALIK.slice(2).toLowerCase()}.addr.reverse`);
+
+describe('ENS', () => {
+    it('should compute namehashes of normalised names', () => {
+        expect(namehash('')).toBe(`0x${'00'.repeat(32)}`);
+        expect(namehash('eth')).toBe('0x93cdeb708b7545dc668eb9280176169d1c33cfd8ed6f04690a0bcc88a93fc4ae');
+        expect(namehash('foo.eth')).toBe('0xde9b09fd7c5f901e23a3f19fecc54828e9c848539801e86591bd9801b019f84f');
+        expect(namehash('Foo.ETH')).toBe(namehash('foo.eth'));
+        expect(() => namehash('foo..eth')).toThrow('Invalid ENS name');
+    });
+
+    it('should tell names from addresses', () => {
+        expect(isEnsName('vitalik.eth')).toBe(true);
+        expect(isEnsName(VITALIK)).toBe(false);
+        expect(isEnsName('latest')).toBe(false);
+    });
+
+    it('should resolve a name through the registry and resolver', async () => {
+        const api = createFakeNode({ resolvers: { [VITALIK_NODE]: RESOLVER }, addrs: { [VITALIK_NODE]: VITALIK } });
+
+        expect(await resolveEnsName(api, 'Vitalik.eth')).toEqual({ name: 'vitalik.eth', resolver: RESOLVER, address: VITALIK });
+        expect(await resolveEnsName(api, 'unregistered.eth')).toEqual({ name: 'unregistered.eth', resolver: null, address: null });
+    });
+
+    it('should only return reverse names that resolve back to the address', async () => {
+        const verified = createFakeNode({
+            resolvers: { [VITALIK_NODE]: RESOLVER, [REVERSE_NODE]: RESOLVER },
+            addrs: { [VITALIK_NODE]: VITALIK },
+            names: { [REVERSE_NODE]: 'vitalik.eth' }
+        });
+        const spoofed = createFakeNode({
+            resolvers: { [REVERSE_NODE]: RESOLVER },
+            names: { [REVERSE_NODE]: 'vitalik.eth' }
+        });
+
+        expect(await lookupAddress(verified, VITALIK)).toEqual({ address: VITALIK, name: 'vitalik.eth', verified: true });
+        expect(await lookupAddress(spoofed, VITALIK)).toEqual({
+            address: VITALIK, name: null, verified: false, unverifiedName: 'vitalik.eth'
+        });
+    });
+
+    it('should read text records', async () => {
+        const api = createFakeNode({ resolvers: { [VITALIK_NODE]: RESOLVER }, texts: { [VITALIK_NODE]: 'https://vitalik.ca' } });
+
+        const result = await getEnsText(api, 'vitalik.eth', ['url']);
+
+        expect(result).toEqual({ name: 'vitalik.eth', resolver: RESOLVER, records: { url: 'https://vitalik.ca' } });
+    });
+
+    it('should resolve names in the address positions of JSON-RPC parameters', async () => {
+        const api = createFakeNode({ resolvers: { [VITALIK_NODE]: RESOLVER }, addrs: { [VITALIK_NODE]: VITALIK } });
+
+        expect(await resolveEnsParams(api, 'eth_getBalance', ['vitalik.eth', 'latest'])).toEqual({
+            params: [VITALIK, 'latest'],
+            resolved: { 'vitalik.eth': VITALIK }
+        });
+        expect((await resolveEnsParams(api, 'eth_call', [{ to: 'vitalik.eth', data: '0x' }, 'latest'])).params)
+            .toEqual([{ to: VITALIK, data: '0x' }, 'latest']);
+        expect((await resolveEnsParams(api, 'eth_getLogs', [{ address: ['vitalik.eth'] }])).params)
+            .toEqual([{ address: [VITALIK] }]);
+        await expect(resolveEnsParams(api, 'eth_getBalance', ['nobody.eth', 'latest'])).rejects.toThrow('does not resolve');
+    });
+
+    it('should show resolutions next to the result', () => {
+        expect(withEnsResolutions('0x1', {})).toBe('0x1');
+        expect(withEnsResolutions({ wei: '1' }, { 'a.eth': VITALIK })).toEqual({ wei: '1', ens: { 'a.eth': VITALIK } });
+        expect(withEnsResolutions(5, { 'a.eth': VITALIK })).toEqual({ result: 5, ens: { 'a.eth': VITALIK } });
+    });
+});
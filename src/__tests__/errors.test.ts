@@ -0,0 +1,44 @@
+import { categorizeError, describeError } from '../errors';
+import { ValidationCloudError } from '../types';
+
+describe('Error Descriptions', () => {
+    describe('categorizeError', () => {
+        it('should categorise provider messages', () => {
+            expect(categorizeError({ code: -32005, message: 'daily request limit reached' })).toBe('rate_limit');
+            expect(categorizeError({ code: -32005, message: 'query returned more than 10000 results' }))
+                .toBe('range_too_large');
+            expect(categorizeError({ code: -32602, message: 'block range is too wide' })).toBe('range_too_large');
+            expect(categorizeError({ code: -32000, message: 'missing trie node 1a2b (path )' })).toBe('pruned_state');
+            expect(categorizeError({ code: -32000, message: 'header not found' })).toBe('not_found');
+            expect(categorizeError({ code: -32000, message: 'nonce too low' })).toBe('transaction_rejected');
+            expect(categorizeError({ code: -32601, message: 'the method eth_foo does not exist/is not available' }))
+                .toBe('method_not_supported');
+        });
+
+        it('should fall back to codes when the message is not recognised', () => {
+            expect(categorizeError({ code: 429, message: 'Request failed with status code 429' })).toBe('rate_limit');
+            expect(categorizeError({ code: 3, message: 'VM error' })).toBe('execution_reverted');
+            expect(categorizeError({ code: 503, message: 'Service Unavailable' })).toBe('server_error');
+            expect(categorizeError({ code: -32005, message: 'limit exceeded' })).toBe('rate_limit');
+            expect(categorizeError({ message: 'something odd' })).toBe('unknown');
+        });
+    });
+
+    describe('describeError', () => {
+        it('should include category, code, hint and data', () => {
+            const error = new ValidationCloudError('execution reverted', 3, undefined, '0x08c379a0');
+            expect(describeError(error)).toBe([
+                'Validation Cloud API error (execution reverted, code 3): execution reverted',
+                'The contract call reverted. The data field holds the revert payload.',
+                'Data: 0x08c379a0'
+            ].join('\n'));
+        });
+
+        it('should omit missing code and data', () => {
+            expect(describeError({ message: 'socket hang up' })).toBe([
+                'Validation Cloud API error (unknown): socket hang up',
+                'The node returned an error.'
+            ].join('\n'));
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import { eventTopic } from '../abi';
+import { EventDecoder, decodeResultLogs } from '../events';
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const FROM_TOPIC = '0x0000000000000000000000005aaeb6053f3e94c9b9a09f33669435e7ef1beaed';
+const TO_TOPIC = '0x000000000000000000000000fb6916095ca1df60bb79ce92ce3ea74c37c5d359';
+const word = (value: bigint) => value.toString(16).padStart(64, '0');
+
+describe('Event Decoding', () => {
+    const decoder = new EventDecoder();
+
+    it('should decode ERC-20 transfers from the built-in registry', () => {
+        const event = decoder.decodeLog({
+            address: '0x6b175474e89094c44da98b954eedeac495271d0f',
+            topics: [TRANSFER_TOPIC, FROM_TOPIC, TO_TOPIC],
+            data: '0x' + word(10n ** 18n)
+        });
+
+        expect(event).toEqual({
+            name: 'Transfer',
+            signature: 'Transfer(address,address,uint256)',
+            args: {
+                from: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+                to: '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+                value: '1000000000000000000'
+            }
+        });
+    });
+
+    it('should tell ERC-721 transfers apart by their indexed token id', () => {
+        const event = decoder.decodeLog({
+            topics: [TRANSFER_TOPIC, FROM_TOPIC, TO_TOPIC, '0x' + word(42n)],
+            data: '0x'
+        });
+
+        expect(event?.args).toEqual({
+            from: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+            to: '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+            tokenId: '42'
+        });
+    });
+
+    it('should decode Uniswap V3 swaps with signed amounts', () => {
+        const event = decoder.decodeLog({
+            topics: [
+                '0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67',
+                FROM_TOPIC,
+                TO_TOPIC
+            ],
+            data: '0x' + [
+                word(1000n),
+                word((1n << 256n) - 500n),
+                word(79228162514264337593543950336n),
+                word(123n),
+                word((1n << 256n) - 10n)
+            ].join('')
+        });
+
+        expect(event?.name).toBe('Swap');
+        expect(event?.args).toMatchObject({ amount0: '1000', amount1: '-500', tick: '-10' });
+    });
+
+    it('should use custom ABIs and keep hashed indexed values as topics', () => {
+        const custom = new EventDecoder(['event Named(string indexed label, address owner)'], false);
+        const labelHash = '0x' + 'ab'.repeat(32);
+
+        const event = custom.decodeLog({
+            topics: [eventTopic('Named(string,address)'), labelHash],
+            data: '0x' + FROM_TOPIC.slice(2)
+        });
+
+        expect(event?.args).toEqual({ label: labelHash, owner: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' });
+        expect(custom.decodeLog({ topics: [TRANSFER_TOPIC, FROM_TOPIC, TO_TOPIC], data: '0x' })).toBeUndefined();
+    });
+
+    it('should leave unknown or malformed logs untouched', () => {
+        const logs = [
+            { topics: ['0x' + '00'.repeat(32)], data: '0x' },
+            { topics: [TRANSFER_TOPIC, FROM_TOPIC, TO_TOPIC], data: '0x1234' },
+            { topics: [], data: '0x' }
+        ];
+        expect(decoder.decodeLogs(logs)).toEqual(logs);
+    });
+
+    it('should decode eth_getLogs results and receipt logs', () => {
+        const log = { topics: [TRANSFER_TOPIC, FROM_TOPIC, TO_TOPIC], data: '0x' + word(1n) };
+
+        const logs = decodeResultLogs('eth_getLogs', [log], decoder);
+        expect(logs[0].event.name).toBe('Transfer');
+
+        const receipt = decodeResultLogs('eth_getTransactionReceipt', { status: '0x1', logs: [log] }, decoder);
+        expect(receipt.status).toBe('0x1');
+        expect(receipt.logs[0].event.args.value).toBe('1');
+
+        expect(decodeResultLogs('eth_blockNumber', 5, decoder)).toBe(5);
+    });
+});
@@ -0,0 +1,221 @@
+import { createHash } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { ServerResponse } from 'node:http';
+import { HttpConfig, HttpGateway, McpSessionHandler, SessionTable, authenticate, checkReadiness, checkRequestSource, isAuthorized, loadHttpConfig, sendJson } from '../http';
+import { NetworkRegistry } from '../networks';
+
+const CONFIG: HttpConfig = {
+    host: '127.0.0.1',
+    port: 0,
+    tokens: ['secret'],
+    allowedOrigins: ['http://localhost:6274'],
+    allowedHosts: ['127.0.0.1'],
+    shutdownTimeoutMs: 1000,
+    readyCacheMs: 0,
+    sessionIdleMs: 60000,
+    maxSessionsPerClient: 4
+};
+
+const createHandler = () => {
+    const handle = jest.fn<ReturnType<McpSessionHandler['handle']>, Parameters<McpSessionHandler['handle']>>(
+        async (route, request, response, body) => sendJson(response, 200, { route, body: body ?? null })
+    );
+    return { handle, sessionCount: () => 2, close: jest.fn().mockResolvedValue(undefined) };
+};
+
+describe('HTTP transport', () => {
+    it('should read transport settings from the environment', () => {
+        expect(loadHttpConfig({})).toBeUndefined();
+        expect(loadHttpConfig({ VALIDATION_CLOUD_TRANSPORT: 'http' })).toEqual({
+            host: '127.0.0.1',
+            port: 3000,
+            tokens: [],
+            allowedOrigins: [],
+            allowedHosts: ['localhost', '127.0.0.1', '[::1]'],
+            shutdownTimeoutMs: 10000,
+            readyCacheMs: 5000,
+            sessionIdleMs: 1800000,
+            maxSessionsPerClient: 32
+        });
+        expect(loadHttpConfig({
+            VALIDATION_CLOUD_TRANSPORT: 'HTTP',
+            VALIDATION_CLOUD_HTTP_HOST: '0.0.0.0',
+            VALIDATION_CLOUD_HTTP_PORT: '8080',
+            VALIDATION_CLOUD_HTTP_TOKENS: 'a, b,',
+            VALIDATION_CLOUD_HTTP_ALLOWED_ORIGINS: 'https://App.example.com/'
+        })).toMatchObject({ host: '0.0.0.0', port: 8080, tokens: ['a', 'b'], allowedOrigins: ['https://app.example.com'], allowedHosts: [] });
+        expect(() => loadHttpConfig({ VALIDATION_CLOUD_TRANSPORT: 'ws' })).toThrow('Unknown transport');
+        expect(() => loadHttpConfig({ VALIDATION_CLOUD_TRANSPORT: 'http', VALIDATION_CLOUD_HTTP_PORT: 'x' })).toThrow('Invalid HTTP port');
+        expect(() => loadHttpConfig({ VALIDATION_CLOUD_TRANSPORT: 'http', VALIDATION_CLOUD_HTTP_MAX_SESSIONS_PER_CLIENT: '0' }))
+            .toThrow('Invalid session limit');
+        expect(() => loadHttpConfig({ VALIDATION_CLOUD_TRANSPORT: 'http', VALIDATION_CLOUD_HTTP_HOST: '0.0.0.0' }))
+            .toThrow('VALIDATION_CLOUD_HTTP_TOKENS');
+    });
+
+    it('should check bearer tokens', () => {
+        expect(isAuthorized('Bearer secret', ['other', 'secret'])).toBe(true);
+        expect(isAuthorized('bearer  secret', ['secret'])).toBe(true);
+        expect(isAuthorized('Bearer wrong', ['secret'])).toBe(false);
+        expect(isAuthorized('Basic c2VjcmV0', ['secret'])).toBe(false);
+        expect(isAuthorized(undefined, ['secret'])).toBe(false);
+        expect(isAuthorized(undefined, [])).toBe(true);
+        expect(authenticate('Bearer secret', ['other', 'secret'])).toBe(createHash('sha256').update('secret').digest('hex'));
+    });
+
+    it('should refuse requests from other origins and hosts', () => {
+        const config = { allowedOrigins: ['http://localhost:6274'], allowedHosts: ['localhost', '127.0.0.1', '[::1]'] };
+
+        expect(checkRequestSource({ host: '127.0.0.1:3000' }, config)).toBeUndefined();
+        expect(checkRequestSource({ host: '[::1]:3000', origin: 'http://localhost:6274' }, config)).toBeUndefined();
+        expect(checkRequestSource({ host: 'localhost:3000', origin: 'https://evil.example' }, config)).toBe('Origin https://evil.example is not allowed');
+        expect(checkRequestSource({ host: 'rebound.evil.example:3000' }, config)).toBe('Host rebound.evil.example:3000 is not allowed');
+        expect(checkRequestSource({}, config)).toBe('Host (none) is not allowed');
+        expect(checkRequestSource({ host: 'mcp.example.com' }, { allowedOrigins: [], allowedHosts: [] })).toBeUndefined();
+    });
+
+    it('should report readiness from every network', async () => {
+        const testConnection = jest.fn();
+        const networks = {
+            names: () => ['mainnet', 'sepolia'],
+            get: (name: string) => ({ testConnection: async (timeoutMs?: number) => testConnection(timeoutMs) ?? name === 'mainnet' })
+        } as unknown as NetworkRegistry;
+
+        expect(await checkReadiness(networks)).toEqual({ ready: false, networks: { mainnet: true, sepolia: false } });
+        expect(testConnection).toHaveBeenCalledWith(2000);
+    });
+
+    describe('Sessions', () => {
+        const createTable = (maxPerClient = 4) => {
+            let time = 0;
+            const onExpire = jest.fn();
+            const table = new SessionTable<{ client: string }>({ idleMs: 1000, maxPerClient, onExpire, now: () => time });
+            return { table, onExpire, advance: (ms: number) => { time += ms; } };
+        };
+
+        it('should expire sessions idle for the idle time, but not while a request is open', () => {
+            const { table, onExpire, advance } = createTable();
+            table.add('a', { client: 'x' });
+            table.add('b', { client: 'x' });
+            const stream = new EventEmitter() as ServerResponse;
+            table.track('b', stream);
+
+            advance(1000);
+            expect(table.expireIdle()).toBe(1);
+            expect(onExpire).toHaveBeenCalledWith({ client: 'x' }, 'a');
+            expect(table.get('a')).toBeUndefined();
+
+            stream.emit('close');
+            advance(999);
+            expect(table.expireIdle()).toBe(0);
+            advance(1);
+            expect(table.expireIdle()).toBe(1);
+            expect(table.size).toBe(0);
+        });
+
+        it('should close the least recently used session of a client over its limit', () => {
+            const { table, onExpire, advance } = createTable(2);
+            table.add('a', { client: 'x' });
+            advance(10);
+            table.add('b', { client: 'x' });
+            table.add('other', { client: 'y' });
+            advance(10);
+            table.track('a', new EventEmitter() as ServerResponse);
+
+            table.add('c', { client: 'x' });
+
+            expect(onExpire).toHaveBeenCalledTimes(1);
+            expect(onExpire).toHaveBeenCalledWith({ client: 'x' }, 'b');
+            expect(table.values()).toHaveLength(3);
+        });
+    });
+
+    describe('Gateway', () => {
+        let gateway: HttpGateway;
+        let handler: ReturnType<typeof createHandler>;
+        let readiness: jest.Mock;
+        let base: string;
+
+        beforeEach(async () => {
+            handler = createHandler();
+            readiness = jest.fn().mockResolvedValue({ ready: true, networks: { mainnet: true } });
+            gateway = new HttpGateway(CONFIG, handler, readiness);
+            const { port } = await gateway.listen();
+            base = `http://127.0.0.1:${port}`;
+        });
+
+        afterEach(() => gateway.close());
+
+        const post = (path: string, body: string, token = 'secret') => fetch(`${base}${path}`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body
+        });
+
+        it('should serve health and readiness without a token', async () => {
+            const health = await fetch(`${base}/health`);
+            expect(health.status).toBe(200);
+            expect(await health.json()).toMatchObject({ status: 'ok', sessions: 2 });
+
+            expect((await fetch(`${base}/ready`)).status).toBe(200);
+            readiness.mockResolvedValue({ ready: false, networks: { mainnet: false } });
+            const notReady = await fetch(`${base}/ready`);
+            expect(notReady.status).toBe(503);
+            expect(await notReady.json()).toEqual({ ready: false, networks: { mainnet: false } });
+        });
+
+        it('should reuse a recent readiness result', async () => {
+            const cached = new HttpGateway({ ...CONFIG, readyCacheMs: 60000 }, handler, readiness);
+            const { port } = await cached.listen();
+            try {
+                await Promise.all([fetch(`http://127.0.0.1:${port}/ready`), fetch(`http://127.0.0.1:${port}/ready`)]);
+                expect((await fetch(`http://127.0.0.1:${port}/ready`)).status).toBe(200);
+                expect(readiness).toHaveBeenCalledTimes(1);
+            } finally {
+                await cached.close();
+            }
+        });
+
+        it('should require a bearer token on MCP endpoints', async () => {
+            const response = await post('/mcp', '{}', 'wrong');
+
+            expect(response.status).toBe(401);
+            expect(response.headers.get('www-authenticate')).toBe('Bearer');
+            expect(handler.handle).not.toHaveBeenCalled();
+        });
+
+        it('should refuse MCP requests from a web page on another origin', async () => {
+            const response = await fetch(`${base}/mcp`, {
+                method: 'POST',
+                headers: { Authorization: 'Bearer secret', Origin: 'https://evil.example' },
+                body: '{}'
+            });
+
+            expect(response.status).toBe(403);
+            expect(handler.handle).not.toHaveBeenCalled();
+        });
+
+        it('should pass parsed bodies and the client identity to the session handler', async () => {
+            const response = await post('/messages?sessionId=abc', '{"jsonrpc":"2.0","id":1,"method":"ping"}');
+
+            expect(await response.json()).toEqual({ route: 'messages', body: { jsonrpc: '2.0', id: 1, method: 'ping' } });
+            expect(handler.handle.mock.calls[0][4]).toBe(authenticate('Bearer secret', ['secret']));
+        });
+
+        it('should reject bad requests before the session handler', async () => {
+            const invalid = await post('/mcp', '{not json');
+            expect(invalid.status).toBe(400);
+            expect(await invalid.json()).toMatchObject({ error: { code: -32700 } });
+
+            expect((await fetch(`${base}/sse`, { method: 'POST', headers: { Authorization: 'Bearer secret' } })).status).toBe(405);
+            expect((await fetch(`${base}/other`)).status).toBe(404);
+            expect(handler.handle).not.toHaveBeenCalled();
+        });
+
+        it('should close sessions and refuse new requests on shutdown', async () => {
+            await gateway.close();
+
+            expect(handler.close).toHaveBeenCalledTimes(1);
+            await expect(fetch(`${base}/health`)).rejects.toThrow();
+        });
+    });
+});
@@ -0,0 +1,164 @@
+import { ValidationCloudAPI } from '../api';
+import { PROXY_SLOTS, extractSelectors, inspectContract, parseBytecodeMetadata, summarizeCode } from '../inspect';
+import { ValidationCloudError } from '../types';
+
+const PROXY = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const IMPLEMENTATION = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const BEACON = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+
+const word = (address: string) => `0x${address.slice(2).toLowerCase().padStart(64, '0')}`;
+
+/** solc 0.8.24 trailer: {ipfs: 0x1220 + 32 bytes, solc: 0x000818} */
+const TRAILER = `a264697066735822${'1220'}${'11'.repeat(32)}64736f6c6343000818${'0033'}`;
+
+/** Dispatcher comparing transfer, balanceOf and an unknown selector; the PUSH32 hides a fake PUSH4 ... EQ */
+const DISPATCHER = '60003560e01c'
+    + '8063a9059cbb14610040' + '57'
+    + '806370a0823114610050' + '57'
+    + '80631234567814610060' + '57'
+    + `7f${'63deadbeef14'.padEnd(64, '0')}`
+    + '00';
+
+/**
+ * Fake node serving code, storage slots and view calls per address
+ */
+const createFakeNode = (state: {
+    code: Record<string, string>;
+    storage?: Record<string, Record<string, string>>;
+    calls?: Record<string, (data: string) => string | undefined>;
+}) => {
+    const request = jest.fn(async ({ method, params }: { method: string; params: any[] }) => {
+        let result: string | undefined;
+        if (method === 'eth_getCode') {
+            result = state.code[params[0].toLowerCase()] ?? '0x';
+        } else if (method === 'eth_getStorageAt') {
+            result = state.storage?.[params[0].toLowerCase()]?.[params[1]] ?? `0x${'0'.repeat(64)}`;
+        } else if (method === 'eth_call') {
+            result = state.calls?.[params[0].to.toLowerCase()]?.(params[0].data);
+            if (result === undefined) throw new ValidationCloudError('execution reverted', 3);
+        }
+        return { jsonrpc: '2.0', id: 1, result };
+    });
+    return { request } as unknown as ValidationCloudAPI & { request: jest.Mock };
+};
+
+/** supportsInterface(bytes4) answering true for the given IDs */
+const erc165 = (...ids: string[]) => (data: string) => {
+    if (!data.startsWith('0x01ffc9a7')) return undefined;
+    const id = `0x${data.slice(10, 18)}`;
+    return `0x${(ids.includes(id) || id === '0x01ffc9a7' ? '1' : '0').padStart(64, '0')}`;
+};
+
+describe('Contract inspection', () => {
+    it('should extract dispatcher selectors and skip push data', () => {
+        expect(extractSelectors(Buffer.from(DISPATCHER, 'hex'))).toEqual(['0xa9059cbb', '0x70a08231', '0x12345678']);
+    });
+
+    it('should parse the solc metadata trailer', () => {
+        const { code, metadata } = parseBytecodeMetadata(Buffer.from(`${DISPATCHER}${TRAILER}`, 'hex'));
+
+        expect(Buffer.from(code).toString('hex')).toBe(DISPATCHER);
+        expect(metadata).toEqual({ compiler: 'solc 0.8.24', ipfs: 'QmPVGjYFugq4XUyBfoTHG6c3qxfBS26jEdaFM1gdAVuMZ2' });
+    });
+
+    it('should leave code without a valid trailer whole', () => {
+        const bytes = Buffer.from(`${DISPATCHER}0033`, 'hex');
+
+        expect(parseBytecodeMetadata(bytes)).toEqual({ code: bytes });
+    });
+
+    it('should name known selectors in a code summary', () => {
+        const summary = summarizeCode(`0x${DISPATCHER}${TRAILER}`);
+
+        expect(summary.codeSize).toBe((DISPATCHER.length + TRAILER.length) / 2);
+        expect(summary.selectors).toEqual([
+            { selector: '0xa9059cbb', signature: 'transfer(address,uint256)' },
+            { selector: '0x70a08231', signature: 'balanceOf(address)' },
+            { selector: '0x12345678' }
+        ]);
+        expect(summary.metadata?.compiler).toBe('solc 0.8.24');
+    });
+
+    it('should report an address without code as an EOA', async () => {
+        const api = createFakeNode({ code: {} });
+
+        expect(await inspectContract(api, PROXY.toLowerCase())).toEqual({ address: PROXY, block: 'latest', kind: 'eoa' });
+        expect(api.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report EIP-7702 delegated accounts', async () => {
+        const api = createFakeNode({
+            code: {
+                [PROXY.toLowerCase()]: `0xef0100${IMPLEMENTATION.slice(2).toLowerCase()}`,
+                [IMPLEMENTATION.toLowerCase()]: `0x${DISPATCHER}`
+            }
+        });
+
+        const result = await inspectContract(api, PROXY);
+
+        expect(result.kind).toBe('delegated');
+        expect(result.delegatedTo).toBe(IMPLEMENTATION);
+        expect(result.implementation?.selectors).toHaveLength(3);
+    });
+
+    it('should detect an EIP-1967 proxy and inspect its implementation', async () => {
+        const api = createFakeNode({
+            code: { [PROXY.toLowerCase()]: '0x363d3d37', [IMPLEMENTATION.toLowerCase()]: `0x${DISPATCHER}${TRAILER}` },
+            storage: {
+                [PROXY.toLowerCase()]: {
+                    [PROXY_SLOTS.eip1967Implementation]: word(IMPLEMENTATION),
+                    [PROXY_SLOTS.eip1967Admin]: word(BEACON)
+                }
+            },
+            calls: { [PROXY.toLowerCase()]: erc165('0x80ac58cd', '0x5b5e139f') }
+        });
+
+        const result = await inspectContract(api, PROXY, 18000000);
+
+        expect(result.block).toBe('0x112a880');
+        expect(result.proxy).toEqual({ standard: 'eip1967', implementation: IMPLEMENTATION, admin: BEACON });
+        expect(result.implementation?.metadata?.compiler).toBe('solc 0.8.24');
+        expect(result.interfaces).toEqual({ erc165: true, supported: ['ERC721', 'ERC721Metadata'] });
+    });
+
+    it('should read the implementation of a beacon proxy from the beacon', async () => {
+        const api = createFakeNode({
+            code: { [PROXY.toLowerCase()]: '0x6080', [IMPLEMENTATION.toLowerCase()]: '0x6080' },
+            storage: { [PROXY.toLowerCase()]: { [PROXY_SLOTS.eip1967Beacon]: word(BEACON) } },
+            calls: { [BEACON.toLowerCase()]: data => data === '0x5c60da1b' ? word(IMPLEMENTATION) : undefined }
+        });
+
+        const result = await inspectContract(api, PROXY);
+
+        expect(result.proxy).toEqual({ standard: 'eip1967-beacon', implementation: IMPLEMENTATION, beacon: BEACON });
+        expect(result.interfaces).toEqual({ erc165: false, supported: [] });
+    });
+
+    it('should detect EIP-1822 and EIP-1167 minimal proxies', async () => {
+        const uups = createFakeNode({
+            code: { [PROXY.toLowerCase()]: '0x6080' },
+            storage: { [PROXY.toLowerCase()]: { [PROXY_SLOTS.eip1822]: word(IMPLEMENTATION) } }
+        });
+        const clone = createFakeNode({
+            code: {
+                [PROXY.toLowerCase()]: `0x363d3d373d3d3d363d73${IMPLEMENTATION.slice(2).toLowerCase()}5af43d82803e903d91602b57fd5bf3`
+            }
+        });
+
+        expect((await inspectContract(uups, PROXY)).proxy).toEqual({ standard: 'eip1822', implementation: IMPLEMENTATION });
+        expect((await inspectContract(clone, PROXY)).proxy).toEqual({ standard: 'eip1167', implementation: IMPLEMENTATION });
+    });
+
+    it('should not trust contracts that claim to support 0xffffffff', async () => {
+        const api = createFakeNode({
+            code: { [PROXY.toLowerCase()]: '0x6080' },
+            calls: { [PROXY.toLowerCase()]: () => `0x${'1'.padStart(64, '0')}` }
+        });
+
+        expect((await inspectContract(api, PROXY)).interfaces).toEqual({ erc165: false, supported: [] });
+    });
+
+    it('should reject invalid addresses', async () => {
+        await expect(inspectContract(createFakeNode({ code: {} }), 'nope')).rejects.toThrow('Invalid address');
+    });
+});
@@ -0,0 +1,46 @@
+import { validateSchema } from '../jsonSchema';
+
+describe('JSON Schema validation', () => {
+    const schema = {
+        type: 'object' as const,
+        properties: {
+            address: { type: 'string' as const, pattern: '^0x[0-9a-fA-F]{40}$' },
+            block: { oneOf: [{ type: 'integer' as const, minimum: 0 }, { type: 'string' as const }] },
+            action: { type: 'string' as const, enum: ['stats', 'clear'] },
+            items: { type: 'array' as const, items: { type: 'number' as const }, minItems: 1 }
+        },
+        required: ['address'],
+        additionalProperties: false
+    };
+
+    it('should accept valid arguments', () => {
+        expect(validateSchema(schema, {
+            address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+            block: 12,
+            action: 'clear',
+            items: [1, 2.5]
+        })).toEqual([]);
+    });
+
+    it('should report missing, unknown and mistyped arguments with their path', () => {
+        expect(validateSchema(schema, { blok: 1, items: ['x'] })).toEqual([
+            'address is required',
+            'blok is not a known argument',
+            'items[0] must be number, got string'
+        ]);
+    });
+
+    it('should check patterns, enums, bounds and alternatives', () => {
+        expect(validateSchema(schema, { address: '0x1234' })).toEqual(['address must match ^0x[0-9a-fA-F]{40}$']);
+        expect(validateSchema(schema, { address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', action: 'drop' }))
+            .toEqual(['action must be one of "stats", "clear"']);
+        expect(validateSchema(schema, { address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', block: -1 }))
+            .toEqual(['block must match exactly one of: integer | string']);
+        expect(validateSchema(schema, { address: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', items: [] }))
+            .toEqual(['items must have at least 1 items']);
+    });
+
+    it('should reject non-object arguments', () => {
+        expect(validateSchema(schema, [])).toEqual(['arguments must be object, got array']);
+    });
+});
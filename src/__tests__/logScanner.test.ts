@@ -0,0 +1,161 @@
+import { ValidationCloudAPI } from '../api';
+import { resolveBlockNumber, scanLogs } from '../logScanner';
+import { ValidationCloudError } from '../types';
+
+const hex = (n: number) => `0x${n.toString(16)}`;
+
+const log = (block: number, index: number) => ({
+    blockNumber: hex(block),
+    blockHash: `0xhash${block}`,
+    transactionHash: `0xtx${block}`,
+    logIndex: hex(index),
+    topics: [],
+    data: '0x'
+});
+
+/**
+ * Fake node with the given logs that rejects eth_getLogs spans wider than `maxSpan`
+ */
+const createFakeNode = (logs: any[], latest: number, maxSpan = Infinity) => {
+    const request = jest.fn(async ({ method, params }: { method: string; params?: any[] }) => {
+        if (method === 'eth_blockNumber') {
+            return { jsonrpc: '2.0', id: 1, result: latest };
+        }
+        if (method === 'eth_getBlockByNumber') {
+            return { jsonrpc: '2.0', id: 1, result: { number: hex(latest - 64) } };
+        }
+        const from = parseInt(params![0].fromBlock, 16);
+        const to = parseInt(params![0].toBlock, 16);
+        if (to - from + 1 > maxSpan) {
+            throw new ValidationCloudError('query returned more than 10000 results', -32005);
+        }
+        return {
+            jsonrpc: '2.0',
+            id: 1,
+            result: logs.filter(entry => {
+                const block = parseInt(entry.blockNumber, 16);
+                return block >= from && block <= to;
+            })
+        };
+    });
+    return { request } as unknown as ValidationCloudAPI & { request: jest.Mock };
+};
+
+const getLogsCalls = (api: { request: jest.Mock }) =>
+    api.request.mock.calls.filter(([params]) => params.method === 'eth_getLogs');
+
+describe('Log Scanner', () => {
+    it('should resolve block tags to numbers', async () => {
+        const api = createFakeNode([], 1000);
+        expect(await resolveBlockNumber(api, 'latest')).toBe(1000);
+        expect(await resolveBlockNumber(api, 'finalized')).toBe(936);
+        expect(await resolveBlockNumber(api, 'earliest')).toBe(0);
+        expect(await resolveBlockNumber(api, '0x10')).toBe(16);
+    });
+
+    it('should scan up to latest in chunks and return logs in order', async () => {
+        const logs = [log(10, 0), log(10, 1), log(2500, 0), log(4999, 3)];
+        const api = createFakeNode(logs, 5000);
+
+        const result = await scanLogs(api, { filter: { fromBlock: 0, address: '0xabc' }, initialChunkSize: 1000 });
+
+        expect(result.logs).toEqual(logs);
+        expect(result.complete).toBe(true);
+        expect(result.cursor).toBeUndefined();
+        expect(result.scannedTo).toBe(5000);
+        expect(getLogsCalls(api)[0][0].params[0]).toEqual({ fromBlock: '0x0', toBlock: '0x3e7', address: '0xabc' });
+    });
+
+    it('should shrink the chunk when the provider reports too many results', async () => {
+        const logs = [log(100, 0), log(700, 0), log(1900, 0)];
+        const api = createFakeNode(logs, 2000, 300);
+
+        const result = await scanLogs(api, { filter: { fromBlock: 0, toBlock: 1999 } });
+
+        expect(result.logs).toEqual(logs);
+        expect(result.complete).toBe(true);
+        const spans = getLogsCalls(api).map(([params]) =>
+            parseInt(params.params[0].toBlock, 16) - parseInt(params.params[0].fromBlock, 16) + 1);
+        expect(spans.slice(0, 4)).toEqual([2000, 1000, 500, 250]);
+        expect(Math.max(...spans.slice(3))).toBeLessThanOrEqual(300);
+    });
+
+    it('should jump to the block range suggested by the provider', async () => {
+        const api = createFakeNode([], 2000);
+        api.request.mockRejectedValueOnce(new ValidationCloudError(
+            'query returned more than 10000 results. Try with this block range [0x0, 0x63].', -32005));
+
+        await scanLogs(api, { filter: { fromBlock: 0, toBlock: 99 } });
+
+        expect(getLogsCalls(api)[1][0].params[0].toBlock).toBe('0x63');
+    });
+
+    it('should keep chunks within the policy block span', async () => {
+        const api = createFakeNode([], 2000);
+        (api as any).policy = { maxLogsBlockRange: 500 };
+
+        await scanLogs(api, { filter: { fromBlock: 0, toBlock: 1999 } });
+
+        expect(getLogsCalls(api).map(([params]) => params.params[0].toBlock)).toEqual(['0x1f3', '0x3e7', '0x5db', '0x7cf']);
+    });
+
+    it('should rethrow other errors', async () => {
+        const api = createFakeNode([], 100);
+        api.request.mockRejectedValueOnce(new ValidationCloudError('invalid argument 0', -32602));
+
+        await expect(scanLogs(api, { filter: { fromBlock: 0, toBlock: 10 } })).rejects.toThrow('invalid argument 0');
+    });
+
+    it('should page through results with a cursor, including within a block', async () => {
+        const logs = [log(1, 0), log(2, 0), log(2, 1), log(2, 2), log(5, 0)];
+        const api = createFakeNode(logs, 10);
+
+        const first = await scanLogs(api, { filter: { fromBlock: 0, toBlock: 10 }, maxResults: 2 });
+        expect(first.logs).toEqual([log(1, 0), log(2, 0)]);
+        expect(first.complete).toBe(false);
+        expect(first.scannedTo).toBe(1);
+
+        const second = await scanLogs(api, { cursor: first.cursor, maxResults: 2 });
+        expect(second.logs).toEqual([log(2, 1), log(2, 2)]);
+
+        const third = await scanLogs(api, { cursor: second.cursor, maxResults: 2 });
+        expect(third.logs).toEqual([log(5, 0)]);
+        expect(third.complete).toBe(true);
+        expect(third.cursor).toBeUndefined();
+    });
+
+    it('should drop duplicate logs', async () => {
+        const api = createFakeNode([log(3, 0), log(3, 0), log(4, 0)], 10);
+        const result = await scanLogs(api, { filter: { fromBlock: 0, toBlock: 10 } });
+        expect(result.logs).toEqual([log(3, 0), log(4, 0)]);
+    });
+
+    it('should reject invalid ranges and cursors', async () => {
+        const api = createFakeNode([], 10);
+        await expect(scanLogs(api, { filter: { fromBlock: 20, toBlock: 10 } })).rejects.toThrow('is after toBlock');
+        await expect(scanLogs(api, { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid log scan cursor');
+        await expect(scanLogs(api, { filter: { blockHash: '0xhash5' } })).rejects.toThrow('Log scans need a block range');
+    });
+
+    it('should reject tampered cursors that would stall or rewind the scan', async () => {
+        const api = createFakeNode([], 10);
+        const cursor = (state: object) => Buffer.from(JSON.stringify({ from: 0, to: 10, chunk: 5, skip: 0, ...state })).toString('base64url');
+
+        for (const state of [{ chunk: 0 }, { chunk: -5 }, { skip: -1 }, { from: 12 }, { from: -1 }, { ceiling: 0 }]) {
+            await expect(scanLogs(api, { cursor: cursor(state) })).rejects.toThrow('Invalid log scan cursor');
+        }
+        expect(getLogsCalls(api)).toHaveLength(0);
+        expect((await scanLogs(api, { cursor: cursor({ from: 11 }) })).complete).toBe(true);
+    });
+
+    it('should clamp the chunk of an older cursor to the current limit', async () => {
+        const api = createFakeNode([log(5, 0)], 10);
+        const cursor = Buffer.from(JSON.stringify({ from: 0, to: 10, chunk: 500000, ceiling: 500000, skip: 0 })).toString('base64url');
+
+        const result = await scanLogs(api, { cursor, maxChunkSize: 4 });
+
+        expect(result.logs).toEqual([log(5, 0)]);
+        expect(getLogsCalls(api).map(([params]) => [params.params[0].fromBlock, params.params[0].toBlock]))
+            .toEqual([['0x0', '0x3'], ['0x4', '0x7'], ['0x8', '0xa']]);
+    });
+});
@@ -0,0 +1,139 @@
+import { ValidationCloudAPI } from '../api';
+import { NetworkRegistry, loadNetworkConfigs } from '../networks';
+import { ValidationCloudError } from '../types';
+
+const createFakeClient = (chainId: number | Error) => ({
+    request: jest.fn().mockImplementation(async () => {
+        if (chainId instanceof Error) throw chainId;
+        return { jsonrpc: '2.0', id: 1, result: chainId };
+    })
+}) as unknown as ValidationCloudAPI;
+
+describe('loadNetworkConfigs', () => {
+    it('should default to mainnet with the shared API key', () => {
+        expect(loadNetworkConfigs({ VALIDATION_CLOUD_API_KEY: 'shared' })).toEqual([
+            {
+                name: 'mainnet',
+                baseURL: 'https://mainnet.ethereum.validationcloud.io/v1',
+                apiKey: 'shared',
+                expectedChainId: 1,
+                webSocketURL: 'wss://mainnet.ethereum.validationcloud.io/v1/wss'
+            }
+        ]);
+    });
+
+    it('should take WebSocket endpoints from the environment or turn them off', () => {
+        const [custom] = loadNetworkConfigs({
+            VALIDATION_CLOUD_NETWORKS: 'base',
+            VALIDATION_CLOUD_API_KEY: 'shared',
+            VALIDATION_CLOUD_NETWORK_BASE_URL: 'https://base.example/v1',
+            VALIDATION_CLOUD_NETWORK_BASE_WS_URL: 'wss://base.example/v1'
+        });
+        expect(custom.webSocketURL).toBe('wss://base.example/v1');
+
+        const [mainnet] = loadNetworkConfigs({ VALIDATION_CLOUD_API_KEY: 'shared', VALIDATION_CLOUD_WEBSOCKET: 'off' });
+        expect(mainnet).not.toHaveProperty('webSocketURL');
+    });
+
+    it('should prefer per-network API keys', () => {
+        const configs = loadNetworkConfigs({
+            VALIDATION_CLOUD_NETWORKS: 'mainnet, Sepolia',
+            VALIDATION_CLOUD_API_KEY: 'shared',
+            VALIDATION_CLOUD_API_KEY_SEPOLIA: 'sepolia-key'
+        });
+        expect(configs.map(config => [config.name, config.apiKey, config.expectedChainId])).toEqual([
+            ['mainnet', 'shared', 1],
+            ['sepolia', 'sepolia-key', 11155111]
+        ]);
+    });
+
+    it('should configure custom networks from URL and chain ID variables', () => {
+        const [config] = loadNetworkConfigs({
+            VALIDATION_CLOUD_NETWORKS: 'base-mainnet',
+            VALIDATION_CLOUD_API_KEY: 'shared',
+            VALIDATION_CLOUD_NETWORK_BASE_MAINNET_URL: 'https://base.example/v1',
+            VALIDATION_CLOUD_NETWORK_BASE_MAINNET_CHAIN_ID: '8453'
+        });
+        expect(config).toEqual({
+            name: 'base-mainnet',
+            baseURL: 'https://base.example/v1',
+            apiKey: 'shared',
+            expectedChainId: 8453
+        });
+    });
+
+    it('should treat an empty chain ID as unset and reject ones that are not positive integers', () => {
+        const env = { VALIDATION_CLOUD_API_KEY: 'shared', VALIDATION_CLOUD_NETWORKS: 'sepolia' };
+        expect(loadNetworkConfigs({ ...env, VALIDATION_CLOUD_NETWORK_SEPOLIA_CHAIN_ID: '' })[0].expectedChainId).toBe(11155111);
+        for (const chainId of ['0', '-1', '1.5', 'abc']) {
+            expect(() => loadNetworkConfigs({ ...env, VALIDATION_CLOUD_NETWORK_SEPOLIA_CHAIN_ID: chainId }))
+                .toThrow(`Invalid chain ID for network "sepolia": ${chainId}`);
+        }
+    });
+
+    it('should reject unknown networks without a URL', () => {
+        expect(() => loadNetworkConfigs({
+            VALIDATION_CLOUD_NETWORKS: 'arbitrum',
+            VALIDATION_CLOUD_API_KEY: 'shared'
+        })).toThrow('VALIDATION_CLOUD_NETWORK_ARBITRUM_URL');
+    });
+
+    it('should require an API key', () => {
+        expect(() => loadNetworkConfigs({})).toThrow('Missing API key for network "mainnet"');
+    });
+});
+
+describe('NetworkRegistry', () => {
+    const configs = loadNetworkConfigs({
+        VALIDATION_CLOUD_NETWORKS: 'mainnet,sepolia,holesky',
+        VALIDATION_CLOUD_API_KEY: 'shared'
+    });
+
+    it('should route to the default network when none is given', () => {
+        const clients: Record<string, ValidationCloudAPI> = {};
+        const registry = new NetworkRegistry(configs, {
+            defaultNetwork: 'sepolia',
+            createClient: config => (clients[config.baseURL!] = createFakeClient(1))
+        });
+        expect(registry.get()).toBe(clients['https://sepolia.ethereum.validationcloud.io/v1']);
+        expect(registry.get('Holesky')).toBe(clients['https://holesky.ethereum.validationcloud.io/v1']);
+    });
+
+    it('should throw ValidationCloudError for unknown networks', () => {
+        const registry = new NetworkRegistry(configs, { createClient: () => createFakeClient(1) });
+        expect(() => registry.get('goerli')).toThrow(ValidationCloudError);
+        expect(() => registry.get('goerli')).toThrow('Configured networks: mainnet, sepolia, holesky');
+    });
+
+    it('should reject a default network that is not configured', () => {
+        expect(() => new NetworkRegistry(configs, {
+            defaultNetwork: 'goerli',
+            createClient: () => createFakeClient(1)
+        })).toThrow('Default network "goerli" is not configured');
+    });
+
+    it('should verify chain IDs with eth_chainId', async () => {
+        const chainIds: Record<string, number | Error> = {
+            'https://mainnet.ethereum.validationcloud.io/v1': 1,
+            'https://sepolia.ethereum.validationcloud.io/v1': 5,
+            'https://holesky.ethereum.validationcloud.io/v1': new Error('Network error')
+        };
+        const registry = new NetworkRegistry(configs, {
+            createClient: config => createFakeClient(chainIds[config.baseURL!])
+        });
+
+        const statuses = await registry.verify();
+        expect(statuses.map(({ name, chainId, verified, isDefault, error }) =>
+            ({ name, chainId, verified, isDefault, error }))).toEqual([
+            { name: 'mainnet', chainId: 1, verified: true, isDefault: true, error: undefined },
+            {
+                name: 'sepolia',
+                chainId: 5,
+                verified: false,
+                isDefault: false,
+                error: 'Expected chain ID 11155111 but endpoint reported 5'
+            },
+            { name: 'holesky', chainId: undefined, verified: false, isDefault: false, error: 'Network error' }
+        ]);
+    });
+});
@@ -0,0 +1,78 @@
+import { projectFields, requestFingerprint, shapeOutput } from '../output';
+
+const BLOCK = {
+    number: 19000000,
+    hash: '0xabc',
+    transactions: Array.from({ length: 10 }, (_, index) => ({ hash: `0x${index}`, from: '0xf', input: '0x' + 'ab'.repeat(100) })),
+    withdrawals: [{ index: 1, amount: 100 }, { index: 2, amount: 200 }]
+};
+
+const REQUEST = requestFingerprint('get_block', { block: 19000000 });
+
+describe('Output shaping', () => {
+    it('should project dotted field paths through arrays', () => {
+        expect(projectFields(BLOCK, ['number', 'transactions.hash', 'missing'])).toEqual({
+            number: 19000000,
+            transactions: BLOCK.transactions.map(({ hash }) => ({ hash }))
+        });
+        expect(projectFields([{ a: 1, b: 2 }], ['a'])).toEqual([{ a: 1 }]);
+        expect(projectFields(BLOCK, [])).toBe(BLOCK);
+    });
+
+    it('should let a shorter path keep the whole field', () => {
+        expect(projectFields(BLOCK, ['transactions.hash', 'transactions'])).toEqual({ transactions: BLOCK.transactions });
+    });
+
+    it('should leave results within budget untouched', () => {
+        expect(shapeOutput(BLOCK, {}, REQUEST)).toEqual({ result: BLOCK });
+        expect(shapeOutput('0x1234', { maxItems: 1 }, REQUEST)).toEqual({ result: '0x1234' });
+    });
+
+    it('should page through every array part with a cursor', () => {
+        const first = shapeOutput(BLOCK, { maxItems: 4 }, REQUEST);
+
+        expect(first.result).toMatchObject({ number: 19000000, transactions: BLOCK.transactions.slice(0, 4), withdrawals: BLOCK.withdrawals });
+        expect(first.page).toMatchObject({
+            arrays: { transactions: { offset: 0, returned: 4, total: 10 }, withdrawals: { offset: 0, returned: 2, total: 2 } },
+            truncated: 'truncated, 6 more (transactions: 6); pass the cursor to get the next page',
+            cursor: expect.any(String)
+        });
+
+        const second = shapeOutput(BLOCK, { maxItems: 4, cursor: first.page!.cursor }, REQUEST);
+        expect(second.result).toMatchObject({ transactions: BLOCK.transactions.slice(4, 8), withdrawals: [] });
+
+        const last = shapeOutput(BLOCK, { maxItems: 4, cursor: second.page!.cursor }, REQUEST);
+        expect(last.result).toMatchObject({ transactions: BLOCK.transactions.slice(8) });
+        expect(last.page).toEqual({
+            arrays: { transactions: { offset: 8, returned: 2, total: 10 }, withdrawals: { offset: 2, returned: 0, total: 2 } }
+        });
+    });
+
+    it('should cut arrays to the byte budget and always make progress', () => {
+        const { result, page } = shapeOutput(BLOCK, { maxBytes: 600 }, REQUEST);
+
+        expect(JSON.stringify(result).length).toBeLessThanOrEqual(600);
+        expect((result as typeof BLOCK).transactions.length).toBeGreaterThan(0);
+        expect(page?.truncated).toMatch(/^truncated, \d+ more \(transactions: \d+, withdrawals: 2\)/);
+
+        const tiny = shapeOutput(BLOCK, { maxBytes: 10 }, REQUEST);
+        expect(tiny.page?.arrays.transactions.returned).toBe(1);
+    });
+
+    it('should page array results', () => {
+        const logs = Array.from({ length: 5 }, (_, logIndex) => ({ logIndex }));
+
+        const { result, page } = shapeOutput(logs, { maxItems: 2, fields: ['logIndex'] }, REQUEST);
+
+        expect(result).toEqual([{ logIndex: 0 }, { logIndex: 1 }]);
+        expect(page?.arrays).toEqual({ items: { offset: 0, returned: 2, total: 5 } });
+    });
+
+    it('should reject cursors from another request', () => {
+        const { page } = shapeOutput(BLOCK, { maxItems: 1 }, REQUEST);
+
+        expect(() => shapeOutput(BLOCK, { cursor: page!.cursor }, requestFingerprint('get_block', { block: 1 })))
+            .toThrow('different request');
+        expect(() => shapeOutput(BLOCK, { cursor: 'not-a-cursor' }, REQUEST)).toThrow('Invalid cursor');
+    });
+});
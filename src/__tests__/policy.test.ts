@@ -0,0 +1,77 @@
+import { Policy, isWriteMethod, loadPolicyConfig } from '../policy';
+import { PolicyViolationError } from '../types';
+
+const violation = (fn: () => void): PolicyViolationError | undefined => {
+    try {
+        fn();
+    } catch (error) {
+        return error as PolicyViolationError;
+    }
+    return undefined;
+};
+
+describe('Request Policy', () => {
+    describe('loadPolicyConfig', () => {
+        it('should read a policy file and let environment variables override it', () => {
+            const readFile = jest.fn().mockReturnValue(JSON.stringify({ readOnly: false, denyMethods: ['debug_*'] }));
+            const config = loadPolicyConfig({
+                VALIDATION_CLOUD_POLICY_FILE: '/etc/policy.json',
+                VALIDATION_CLOUD_READ_ONLY: 'true',
+                VALIDATION_CLOUD_ALLOW_METHODS: 'eth_*, net_version',
+                VALIDATION_CLOUD_MAX_LOGS_BLOCK_RANGE: '5000'
+            }, readFile);
+
+            expect(readFile).toHaveBeenCalledWith('/etc/policy.json');
+            expect(config).toEqual({
+                readOnly: true,
+                denyMethods: ['debug_*'],
+                allowMethods: ['eth_*', 'net_version'],
+                maxLogsBlockRange: 5000
+            });
+        });
+
+        it('should reject unreadable files and invalid limits', () => {
+            expect(() => loadPolicyConfig({ VALIDATION_CLOUD_POLICY_FILE: 'x' }, () => 'not json'))
+                .toThrow('Could not read policy file x');
+            expect(() => loadPolicyConfig({ VALIDATION_CLOUD_MAX_LOGS_BLOCK_RANGE: 'lots' }))
+                .toThrow('Invalid maxLogsBlockRange');
+        });
+    });
+
+    it('should block broadcasts unless explicitly enabled', () => {
+        const error = violation(() => new Policy({}).check('eth_sendRawTransaction', ['0x02']));
+        expect(error).toBeInstanceOf(PolicyViolationError);
+        expect(error?.policy).toBe('allowBroadcast');
+        expect(error?.message).toContain('VALIDATION_CLOUD_ALLOW_BROADCAST=true');
+
+        expect(() => new Policy({ allowBroadcast: true }).check('eth_sendRawTransaction', ['0x02'])).not.toThrow();
+    });
+
+    it('should block state-changing methods in read-only mode', () => {
+        const policy = new Policy({ readOnly: true, allowBroadcast: true });
+        expect(violation(() => policy.check('eth_sendRawTransaction'))?.policy).toBe('readOnly');
+        expect(violation(() => policy.check('personal_unlockAccount'))?.policy).toBe('readOnly');
+        expect(() => policy.check('eth_call')).not.toThrow();
+        expect(isWriteMethod('eth_signTypedData_v4')).toBe(true);
+        expect(isWriteMethod('eth_getBalance')).toBe(false);
+    });
+
+    it('should apply deny lists before allow lists', () => {
+        const policy = new Policy({ allowMethods: ['eth_*'], denyMethods: ['eth_getProof'] });
+        expect(() => policy.check('eth_blockNumber')).not.toThrow();
+        expect(violation(() => policy.check('eth_getProof'))?.policy).toBe('denyMethods');
+        expect(violation(() => policy.check('debug_traceTransaction'))?.message)
+            .toBe('Blocked by policy "allowMethods": debug_traceTransaction is not on the allow list (eth_*)');
+    });
+
+    it('should limit the eth_getLogs block span', () => {
+        const policy = new Policy({ maxLogsBlockRange: 1000 });
+        expect(() => policy.check('eth_getLogs', [{ fromBlock: '0x0', toBlock: '0x3e7' }])).not.toThrow();
+        expect(() => policy.check('eth_getLogs', [{ blockHash: '0xabc' }])).not.toThrow();
+        expect(() => policy.check('eth_getLogs', [{}])).not.toThrow();
+        expect(violation(() => policy.check('eth_getLogs', [{ fromBlock: '0x0', toBlock: '0x3e8' }]))?.message)
+            .toContain('covers 1001 blocks but at most 1000');
+        expect(violation(() => policy.check('eth_getLogs', [{ fromBlock: '0x0', toBlock: 'latest' }]))?.policy)
+            .toBe('maxLogsBlockRange');
+    });
+});
@@ -0,0 +1,62 @@
+import { TokenBucket } from '../rateLimiter';
+import { Clock } from '../types';
+
+const createFakeClock = () => {
+    let now = 0;
+    const sleeps: number[] = [];
+    const clock: Clock = {
+        now: () => now,
+        sleep: async (ms: number) => {
+            sleeps.push(ms);
+            now += ms;
+        }
+    };
+    return { clock, sleeps, advance: (ms: number) => { now += ms; } };
+};
+
+describe('TokenBucket', () => {
+    it('should allow a burst and then refill at the configured rate', () => {
+        const { clock, advance } = createFakeClock();
+        const bucket = new TokenBucket({ requestsPerSecond: 2, burst: 3 }, clock);
+
+        expect(bucket.tryAcquire()).toBe(true);
+        expect(bucket.tryAcquire()).toBe(true);
+        expect(bucket.tryAcquire()).toBe(true);
+        expect(bucket.tryAcquire()).toBe(false);
+
+        advance(500);
+        expect(bucket.tryAcquire()).toBe(true);
+        expect(bucket.tryAcquire()).toBe(false);
+
+        advance(10000);
+        expect(bucket.available()).toBe(3);
+    });
+
+    it('should wait for tokens instead of exceeding the rate', async () => {
+        const { clock, sleeps } = createFakeClock();
+        const bucket = new TokenBucket({ requestsPerSecond: 10 }, clock);
+
+        for (let i = 0; i < 15; i++) {
+            await bucket.acquire();
+        }
+
+        expect(sleeps.reduce((total, ms) => total + ms, 0)).toBe(500);
+        expect(clock.now()).toBe(500);
+    });
+
+    it('should let batches larger than the burst go into debt', async () => {
+        const { clock, sleeps } = createFakeClock();
+        const bucket = new TokenBucket({ requestsPerSecond: 5 }, clock);
+
+        await bucket.acquire(20);
+        expect(sleeps).toEqual([]);
+        expect(bucket.available()).toBe(-15);
+
+        await bucket.acquire();
+        expect(clock.now()).toBe(3200);
+    });
+
+    it('should reject invalid rates', () => {
+        expect(() => new TokenBucket({ requestsPerSecond: 0 })).toThrow('requestsPerSecond');
+    });
+});
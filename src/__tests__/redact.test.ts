@@ -0,0 +1,72 @@
+import { RedactingLogger } from '../logger';
+import { REDACTED, redactSecrets, redactString, sanitizeError } from '../redact';
+import { ValidationCloudError } from '../types';
+
+const SECRET = 'super-secret-key-123';
+
+describe('Redaction', () => {
+    describe('redactString', () => {
+        it('should mask every occurrence of every secret', () => {
+            expect(redactString(`https://host/v1/${SECRET}?again=${SECRET}`, [SECRET, 'other']))
+                .toBe(`https://host/v1/${REDACTED}?again=${REDACTED}`);
+        });
+
+        it('should ignore empty secrets', () => {
+            expect(redactString('unchanged', [''])).toBe('unchanged');
+        });
+    });
+
+    describe('redactSecrets', () => {
+        it('should mask nested values without touching the original', () => {
+            const original = { config: { url: `/v1/${SECRET}`, headers: [`X-API-Key: ${SECRET}`] }, status: 500 };
+            const redacted = redactSecrets(original, [SECRET]);
+
+            expect(JSON.stringify(redacted)).not.toContain(SECRET);
+            expect(redacted.status).toBe(500);
+            expect(original.config.url).toContain(SECRET);
+        });
+
+        it('should turn errors into plain objects and cut cycles', () => {
+            const error: any = new Error(`connect ECONNREFUSED /v1/${SECRET}`);
+            error.self = error;
+
+            const redacted: any = redactSecrets(error, [SECRET]);
+            expect(redacted.message).toBe(`connect ECONNREFUSED /v1/${REDACTED}`);
+            expect(redacted.self).toBe('[Circular]');
+            expect(JSON.stringify(redacted)).not.toContain(SECRET);
+        });
+    });
+
+    describe('sanitizeError', () => {
+        it('should mask message, stack, details and data', () => {
+            const error = new ValidationCloudError(
+                `Request to /v1/${SECRET} failed`,
+                500,
+                { url: `/v1/${SECRET}` },
+                { echo: SECRET }
+            );
+            const sanitized = sanitizeError(error, [SECRET]);
+
+            expect(sanitized).toBeInstanceOf(ValidationCloudError);
+            expect(sanitized.code).toBe(500);
+            for (const text of [sanitized.message, sanitized.stack, JSON.stringify(sanitized)]) {
+                expect(text).not.toContain(SECRET);
+            }
+        });
+    });
+
+    describe('RedactingLogger', () => {
+        it('should mask secrets in messages and arguments', () => {
+            const inner = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+            const logger = new RedactingLogger(inner, [SECRET]);
+            logger.addSecret('late-secret');
+
+            logger.error(`failed for ${SECRET}`, new Error(`late-secret ${SECRET}`), { key: SECRET });
+            logger.info('plain');
+
+            expect(JSON.stringify(inner.error.mock.calls)).not.toMatch(/super-secret-key-123|late-secret/);
+            expect(inner.error.mock.calls[0][0]).toBe(`failed for ${REDACTED}`);
+            expect(inner.info).toHaveBeenCalledWith('plain');
+        });
+    });
+});
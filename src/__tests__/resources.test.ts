@@ -0,0 +1,135 @@
+import { NetworkRegistry } from '../networks';
+import { ResourceProvider, parseResourceUri } from '../resources';
+import { EthereumErrorCode, ValidationCloudError } from '../types';
+import { transformResponse } from '../utils';
+
+const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const HASH = '0x88df016429689c079f3b2f6ad39fa052532c56795b733da78a91ebe6a713944b';
+
+/**
+ * Fake node whose head can be moved; results go through transformResponse as
+ * they do in the API client
+ */
+const createFakeNode = () => {
+    const state = { head: 100 };
+    const request = jest.fn(async ({ method, params = [] }: { method: string; params?: any[] }) => {
+        const raw = (() => {
+            switch (method) {
+                case 'eth_blockNumber':
+                    return `0x${state.head.toString(16)}`;
+                case 'eth_getBlockByNumber':
+                case 'eth_getBlockByHash': {
+                    const number = params[0] === 'latest' || params[0] === HASH ? state.head : params[0] === 'finalized' ? state.head - 64 : parseInt(params[0], 16);
+                    return number > state.head ? null : { number: `0x${number.toString(16)}`, hash: HASH, timestamp: '0x65920080', transactions: [] };
+                }
+                case 'eth_getTransactionReceipt':
+                    return null;
+                case 'eth_getBalance':
+                    return '0xde0b6b3a7640000';
+                case 'eth_getTransactionCount':
+                    return '0x5';
+                case 'eth_getCode':
+                    return '0x6080';
+                default:
+                    throw new Error(`Unexpected ${method}`);
+            }
+        })();
+        return { jsonrpc: '2.0', id: 1, result: transformResponse(method, raw) };
+    });
+    const networks = {
+        get: jest.fn((network = 'mainnet') => {
+            if (network !== 'mainnet') {
+                throw new ValidationCloudError(`Unknown network: ${network}`, EthereumErrorCode.INVALID_PARAMS);
+            }
+            return { request };
+        }),
+        names: () => ['mainnet']
+    } as unknown as NetworkRegistry;
+    return { state, request, networks };
+};
+
+describe('Resources', () => {
+    it('should parse eth:// URIs and reject malformed ones', () => {
+        expect(parseResourceUri('eth://Mainnet/block/latest')).toEqual({ network: 'mainnet', kind: 'block', id: 'latest' });
+        expect(parseResourceUri(`eth://mainnet/tx/${HASH}`)).toEqual({ network: 'mainnet', kind: 'tx', id: HASH });
+        expect(parseResourceUri('eth://mainnet/address/vitalik.eth').id).toBe('vitalik.eth');
+        expect(() => parseResourceUri('https://example.com')).toThrow('Unknown resource URI');
+        expect(() => parseResourceUri('eth://mainnet/tx/0x1234')).toThrow('Invalid tx identifier');
+        expect(() => parseResourceUri('eth://mainnet/block/newest')).toThrow('Invalid block identifier');
+    });
+
+    it('should list the latest block and recent numbered blocks', async () => {
+        const { networks } = createFakeNode();
+        const provider = new ResourceProvider(networks, jest.fn(), { recentBlocks: 3 });
+
+        const uris = (await provider.list()).map(resource => resource.uri);
+
+        expect(uris).toEqual(['eth://mainnet/block/latest', 'eth://mainnet/block/100', 'eth://mainnet/block/99', 'eth://mainnet/block/98']);
+        expect(provider.templates().map(template => template.uriTemplate)).toContain('eth://{network}/receipt/{hash}');
+    });
+
+    it('should read blocks with converted fields', async () => {
+        const { networks, request } = createFakeNode();
+        const provider = new ResourceProvider(networks, jest.fn());
+
+        const contents = await provider.read('eth://mainnet/block/42');
+
+        expect(request).toHaveBeenCalledWith({ method: 'eth_getBlockByNumber', params: ['0x2a', false] });
+        expect(contents.mimeType).toBe('application/json');
+        expect(JSON.parse(contents.text)).toMatchObject({ number: 42, timestamp: 1704067200 });
+
+        await provider.read(`eth://mainnet/block/${HASH}`);
+        expect(request).toHaveBeenCalledWith({ method: 'eth_getBlockByHash', params: [HASH, false] });
+    });
+
+    it('should read address state at one block', async () => {
+        const { networks } = createFakeNode();
+        const provider = new ResourceProvider(networks, jest.fn());
+
+        const contents = await provider.read(`eth://mainnet/address/${ADDRESS}`);
+
+        expect(JSON.parse(contents.text)).toMatchObject({
+            address: ADDRESS,
+            block: 100,
+            transactionCount: 5,
+            codeSize: 2,
+            isContract: true
+        });
+    });
+
+    it('should report missing data and unknown networks', async () => {
+        const { networks } = createFakeNode();
+        const provider = new ResourceProvider(networks, jest.fn());
+
+        await expect(provider.read(`eth://mainnet/receipt/${HASH}`)).rejects.toMatchObject({ reason: 'not_found' });
+        await expect(provider.read('eth://mainnet/block/1000')).rejects.toThrow('Block 1000 not found on mainnet');
+        await expect(provider.read('eth://goerli/block/latest')).rejects.toMatchObject({ reason: 'invalid_uri' });
+    });
+
+    it('should notify subscribers when a block tag moves', async () => {
+        const { networks, state } = createFakeNode();
+        const onUpdated = jest.fn();
+        const provider = new ResourceProvider(networks, onUpdated, { pollIntervalMs: 60000 });
+
+        provider.subscribe('eth://mainnet/block/latest');
+        provider.subscribe('eth://mainnet/block/finalized');
+        provider.subscribe('eth://mainnet/block/42');
+        await provider.poll();
+        expect(onUpdated).not.toHaveBeenCalled();
+
+        state.head = 101;
+        await provider.poll();
+        expect(onUpdated.mock.calls).toEqual([['eth://mainnet/block/latest'], ['eth://mainnet/block/finalized']]);
+
+        provider.unsubscribe('eth://mainnet/block/finalized');
+        state.head = 102;
+        await provider.poll();
+        expect(onUpdated).toHaveBeenCalledTimes(3);
+        expect(onUpdated).toHaveBeenLastCalledWith('eth://mainnet/block/latest');
+
+        provider.unsubscribe('eth://mainnet/block/latest');
+        provider.unsubscribe('eth://mainnet/block/42');
+        expect(() => provider.subscribe('eth://goerli/block/latest')).toThrow('Unknown network');
+        provider.close();
+    });
+});
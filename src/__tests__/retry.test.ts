@@ -0,0 +1,91 @@
+import {
+    DEFAULT_RETRY_POLICY,
+    computeBackoff,
+    isIdempotent,
+    isRetryableError,
+    parseRetryAfter,
+    retryDelay
+} from '../retry';
+import { Clock } from '../types';
+
+const fixedClock: Clock = { now: () => Date.parse('2024-01-01T00:00:00Z'), sleep: async () => undefined };
+
+const httpError = (status: number, headers: Record<string, string> = {}) => ({
+    isAxiosError: true,
+    message: `Request failed with status code ${status}`,
+    response: { status, headers, data: {} }
+});
+
+describe('Retry Policy', () => {
+    describe('isIdempotent', () => {
+        it('should never retry broadcasts', () => {
+            expect(isIdempotent('eth_sendRawTransaction')).toBe(false);
+            expect(isIdempotent('eth_getBalance')).toBe(true);
+            expect(isIdempotent('eth_call')).toBe(true);
+        });
+    });
+
+    describe('isRetryableError', () => {
+        it('should retry transient HTTP statuses', () => {
+            expect(isRetryableError(httpError(429), DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError(httpError(502), DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError(httpError(503), DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError(httpError(400), DEFAULT_RETRY_POLICY)).toBe(false);
+            expect(isRetryableError(httpError(401), DEFAULT_RETRY_POLICY)).toBe(false);
+        });
+
+        it('should retry network errors by code', () => {
+            expect(isRetryableError({ isAxiosError: true, code: 'ECONNRESET' }, DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError({ isAxiosError: true, code: 'ECONNABORTED' }, DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError({ isAxiosError: true, code: 'ERR_BAD_REQUEST' }, DEFAULT_RETRY_POLICY)).toBe(false);
+            expect(isRetryableError(new Error('ECONNRESET'), DEFAULT_RETRY_POLICY)).toBe(false);
+        });
+    });
+
+    describe('parseRetryAfter', () => {
+        const now = Date.parse('2024-01-01T00:00:00Z');
+
+        it('should parse delay seconds', () => {
+            expect(parseRetryAfter('2', now)).toBe(2000);
+            expect(parseRetryAfter(' 0.5 ', now)).toBe(500);
+        });
+
+        it('should parse HTTP dates', () => {
+            expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:03 GMT', now)).toBe(3000);
+            expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+        });
+
+        it('should ignore missing or invalid values', () => {
+            expect(parseRetryAfter(undefined, now)).toBeUndefined();
+            expect(parseRetryAfter('soon', now)).toBeUndefined();
+        });
+    });
+
+    describe('computeBackoff', () => {
+        const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 };
+
+        it('should grow exponentially up to the maximum', () => {
+            expect(computeBackoff(0, { ...policy, jitter: 0 })).toBe(100);
+            expect(computeBackoff(2, { ...policy, jitter: 0 })).toBe(400);
+            expect(computeBackoff(10, { ...policy, jitter: 0 })).toBe(1000);
+        });
+
+        it('should randomise the jittered fraction', () => {
+            expect(computeBackoff(1, policy, () => 0)).toBe(100);
+            expect(computeBackoff(1, policy, () => 0.999999)).toBe(200);
+        });
+    });
+
+    describe('retryDelay', () => {
+        it('should prefer Retry-After, capped at maxDelayMs', () => {
+            expect(retryDelay(httpError(429, { 'retry-after': '3' }), 0, DEFAULT_RETRY_POLICY, fixedClock)).toBe(3000);
+            expect(retryDelay(httpError(429, { 'retry-after': '3600' }), 0, DEFAULT_RETRY_POLICY, fixedClock))
+                .toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+        });
+
+        it('should fall back to backoff', () => {
+            const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+            expect(retryDelay(httpError(503), 1, policy, fixedClock)).toBe(policy.baseDelayMs * 2);
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { RevertDecoder, decodeRevertError, revertDataOf } from '../revert';
+import { ValidationCloudError } from '../types';
+
+const word = (hex: string) => hex.padStart(64, '0');
+
+// Error("not allowed")
+const ERROR_DATA = `0x08c379a0${word('20')}${word('b')}${Buffer.from('not allowed').toString('hex').padEnd(64, '0')}`;
+// Panic(0x11)
+const PANIC_DATA = `0x4e487b71${word('11')}`;
+// ERC20InsufficientBalance(0x742d..., 5, 10)
+const CUSTOM_DATA = `0xe450d38c${word('742d35cc6634c0532925a3b844bc454e4438f44e')}${word('5')}${word('a')}`;
+
+describe('Revert Decoder', () => {
+    const decoder = new RevertDecoder();
+
+    it('should decode Error(string) reasons', () => {
+        expect(decoder.decode(ERROR_DATA)).toMatchObject({
+            kind: 'error',
+            reason: 'not allowed',
+            message: 'reverted: not allowed',
+            signature: 'Error(string)'
+        });
+    });
+
+    it('should explain panic codes', () => {
+        expect(decoder.decode(PANIC_DATA)).toMatchObject({
+            kind: 'panic',
+            panic: { code: 0x11, description: 'arithmetic overflow or underflow' },
+            message: 'panicked with code 0x11: arithmetic overflow or underflow'
+        });
+    });
+
+    it('should decode known custom errors without an ABI', () => {
+        expect(decoder.decode(CUSTOM_DATA)).toMatchObject({
+            kind: 'custom',
+            signature: 'ERC20InsufficientBalance(address,uint256,uint256)',
+            args: { sender: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e', balance: '5', needed: '10' }
+        });
+    });
+
+    it('should decode custom errors from a supplied ABI and report unknown selectors', () => {
+        const withAbi = new RevertDecoder(['error Unauthorized(address caller)']);
+        const data = `0x8e4a23d6${word('742d35cc6634c0532925a3b844bc454e4438f44e')}`;
+
+        expect(withAbi.decode(data)).toMatchObject({ kind: 'custom', message: expect.stringContaining('Unauthorized(caller=') });
+        expect(decoder.decode(data)).toMatchObject({ kind: 'unknown', selector: '0x8e4a23d6' });
+        expect(decoder.decode('0x')).toMatchObject({ kind: 'empty' });
+    });
+
+    it('should find revert data in nested error payloads', () => {
+        expect(revertDataOf(new ValidationCloudError('reverted', 3, undefined, PANIC_DATA))).toBe(PANIC_DATA);
+        expect(revertDataOf(new ValidationCloudError('reverted', 3, undefined, { data: PANIC_DATA }))).toBe(PANIC_DATA);
+        expect(revertDataOf(new ValidationCloudError('reverted', 3, undefined, 'Reverted'))).toBeUndefined();
+    });
+
+    it('should rewrite errors with the decoded revert and leave others alone', () => {
+        const error = decodeRevertError(new ValidationCloudError('execution reverted', 3, undefined, ERROR_DATA), decoder);
+        const other = new Error('network down');
+
+        expect(error).toBeInstanceOf(ValidationCloudError);
+        expect(error).toMatchObject({
+            message: 'execution reverted (reverted: not allowed)',
+            code: 3,
+            details: { revert: { kind: 'error' } }
+        });
+        expect(decodeRevertError(other, decoder)).toBe(other);
+    });
+});
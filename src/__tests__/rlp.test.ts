@@ -0,0 +1,35 @@
+import { hexToBytes, bytesToHex } from '@noble/hashes/utils';
+import { decodeRlp, encodeRlp } from '../rlp';
+
+const bytes = (hex: string) => hexToBytes(hex);
+
+describe('RLP', () => {
+    it('should round-trip strings and nested lists', () => {
+        const cases: [any, string][] = [
+            [new Uint8Array(), '80'],
+            [bytes('0f'), '0f'],
+            [bytes('80'), '8180'],
+            [[], 'c0'],
+            [[bytes('636174'), bytes('646f67')], 'c88363617483646f67'],
+            [[[], [[]], [[], [[]]]], 'c7c0c1c0c3c0c1c0']
+        ];
+        for (const [item, hex] of cases) {
+            expect(bytesToHex(encodeRlp(item))).toBe(hex);
+            expect(decodeRlp(bytes(hex))).toEqual(item);
+        }
+    });
+
+    it('should use the long form for items over 55 bytes', () => {
+        const long = new Uint8Array(56).fill(0x61);
+        const encoded = encodeRlp(long);
+        expect(bytesToHex(encoded.slice(0, 2))).toBe('b838');
+        expect(decodeRlp(encoded)).toEqual(long);
+    });
+
+    it('should reject non-canonical and truncated input', () => {
+        expect(() => decodeRlp(bytes('817f'))).toThrow('must not be prefixed');
+        expect(() => decodeRlp(bytes('b80161'))).toThrow('long string form');
+        expect(() => decodeRlp(bytes('83616263ff'))).toThrow('1 trailing bytes');
+        expect(() => decodeRlp(bytes('8361'))).toThrow('past the end');
+    });
+});
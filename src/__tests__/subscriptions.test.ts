@@ -0,0 +1,278 @@
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { ValidationCloudAPI } from '../api';
+import { Policy } from '../policy';
+import { SocketLike, SubscriptionManager } from '../subscriptions';
+import { transformResponse } from '../utils';
+
+/**
+ * Fake WebSocket that opens on the next tick and answers eth_subscribe with
+ * a new ID on every connection
+ */
+class FakeSocket implements SocketLike {
+    static connections = 0;
+    readonly sent: any[] = [];
+    private readonly listeners: Record<string, ((...args: any[]) => void)[]> = {};
+    private readonly connection = ++FakeSocket.connections;
+
+    constructor(readonly url: string, readonly headers: Record<string, string>, fail = false) {
+        setImmediate(() => fail ? (this.emit('error', new Error('ECONNREFUSED')), this.emit('close')) : this.emit('open'));
+    }
+
+    on(event: string, listener: (...args: any[]) => void): this {
+        (this.listeners[event] ??= []).push(listener);
+        return this;
+    }
+
+    emit(event: string, ...args: unknown[]): void {
+        this.listeners[event]?.forEach(listener => listener(...args));
+    }
+
+    send(data: string): void {
+        const message = JSON.parse(data);
+        this.sent.push(message);
+        const result = message.method === 'eth_subscribe' ? `0xsub${this.connection}` : true;
+        setImmediate(() => this.emit('message', JSON.stringify({ jsonrpc: '2.0', id: message.id, result })));
+    }
+
+    close(): void {
+        this.emit('close');
+    }
+
+    notify(result: unknown): void {
+        this.emit('message', Buffer.from(JSON.stringify({
+            jsonrpc: '2.0',
+            method: 'eth_subscription',
+            params: { subscription: `0xsub${this.connection}`, result }
+        })));
+    }
+}
+
+/** Fake HTTP client serving a chain whose head can be moved */
+const createFakeApi = () => {
+    const state = { head: 100 };
+    const request = jest.fn(async ({ method, params = [] }: { method: string; params?: any[] }) => {
+        const raw = (() => {
+            switch (method) {
+                case 'eth_blockNumber':
+                    return `0x${state.head.toString(16)}`;
+                case 'eth_getBlockByNumber':
+                    return { number: params[0], hash: `0x${'ab'.repeat(32)}`, timestamp: '0x65920080', transactions: ['0x1'] };
+                case 'eth_getLogs':
+                    return [{ blockNumber: params[0].fromBlock, logIndex: '0x0', topics: [] }];
+                case 'eth_newPendingTransactionFilter':
+                    return '0xf1';
+                case 'eth_getFilterChanges':
+                    return ['0xaa', '0xbb'];
+                default:
+                    return true;
+            }
+        })();
+        return { jsonrpc: '2.0', id: 1, result: transformResponse(method, raw) };
+    });
+    return { state, request, api: { request } as unknown as ValidationCloudAPI };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+describe('Subscriptions', () => {
+    let sockets: FakeSocket[];
+    let failing: boolean;
+    const createSocket = (url: string, headers: Record<string, string>) => {
+        const socket = new FakeSocket(url, headers, failing);
+        sockets.push(socket);
+        return socket;
+    };
+
+    beforeEach(() => {
+        sockets = [];
+        failing = false;
+    });
+
+    it('should subscribe over the WebSocket and convert events', async () => {
+        const { api, request } = createFakeApi();
+        const manager = new SubscriptionManager(api, { url: 'wss://node/key', headers: { 'X-API-Key': 'k' }, createSocket });
+        const events: any[] = [];
+
+        const subscription = await manager.subscribe('newHeads', undefined, event => events.push(event));
+        sockets[0].notify({ number: '0x65', hash: '0x01', timestamp: '0x65920080' });
+
+        expect(subscription.source).toBe('websocket');
+        expect(sockets[0].url).toBe('wss://node/key');
+        expect(sockets[0].headers).toEqual({ 'X-API-Key': 'k' });
+        expect(sockets[0].sent[0]).toMatchObject({ method: 'eth_subscribe', params: ['newHeads'] });
+        expect(events).toEqual([expect.objectContaining({ number: 101, timestamp: 1704067200 })]);
+        expect(request).not.toHaveBeenCalled();
+
+        await subscription.unsubscribe();
+        expect(sockets[0].sent[1]).toMatchObject({ method: 'eth_unsubscribe', params: [expect.stringMatching(/^0xsub\d+$/)] });
+        await manager.close();
+    });
+
+    it('should reconnect and subscribe again after the socket drops', async () => {
+        const { api } = createFakeApi();
+        const manager = new SubscriptionManager(api, { url: 'wss://node', createSocket, reconnectDelayMs: 1 });
+        const events: any[] = [];
+        await manager.subscribe('logs', { address: '0xabc' }, event => events.push(event));
+
+        sockets[0].close();
+        await waitFor(() => sockets.length === 2 && sockets[1].sent.length === 1);
+        await new Promise(resolve => setImmediate(resolve));
+        sockets[1].notify({ blockNumber: '0x66', logIndex: '0x1' });
+
+        expect(sockets[1].sent[0]).toMatchObject({ method: 'eth_subscribe', params: ['logs', { address: '0xabc' }] });
+        expect(events).toEqual([expect.objectContaining({ blockNumber: 102, logIndex: 1 })]);
+        await manager.close();
+    });
+
+    it('should read the blocks missed while reconnecting before live heads resume', async () => {
+        const { api, state, request } = createFakeApi();
+        const serve = request.getMockImplementation()!;
+        request.mockImplementation(async params => {
+            // Arrives while the gap is being read, so it is held back and dropped as already reported
+            if (params.method === 'eth_getBlockByNumber' && params.params?.[0] === '0x65') {
+                sockets[1].notify({ number: '0x67', hash: '0x03' });
+            }
+            return serve(params);
+        });
+        const manager = new SubscriptionManager(api, { url: 'wss://node', createSocket, reconnectDelayMs: 1 });
+        const heads: any[] = [];
+        await manager.subscribe('newHeads', undefined, event => heads.push(event));
+        sockets[0].notify({ number: '0x64', hash: '0x01' });
+
+        state.head = 103;
+        sockets[0].close();
+        await waitFor(() => heads.length === 4);
+        sockets[1].notify({ number: '0x68', hash: '0x04' });
+
+        expect(heads.map(head => head.number)).toEqual([100, 101, 102, 103, 104]);
+        await manager.close();
+    });
+
+    it('should poll over HTTP when the WebSocket cannot connect', async () => {
+        failing = true;
+        const { api, state } = createFakeApi();
+        const manager = new SubscriptionManager(api, { url: 'wss://node', createSocket, pollIntervalMs: 5 });
+        const heads: any[] = [];
+
+        const subscription = await manager.subscribe('newHeads', undefined, event => heads.push(event));
+        state.head = 102;
+        await waitFor(() => heads.length === 2);
+
+        expect(subscription.source).toBe('polling');
+        expect(heads.map(head => head.number)).toEqual([101, 102]);
+        expect(heads[0]).not.toHaveProperty('transactions');
+        await manager.close();
+    });
+
+    it('should switch to polling after reconnecting fails, resuming after the last block', async () => {
+        const { api, state, request } = createFakeApi();
+        const manager = new SubscriptionManager(api, {
+            url: 'wss://node', createSocket, pollIntervalMs: 5, reconnectDelayMs: 1, maxReconnectAttempts: 2
+        });
+        const logs: any[] = [];
+        const subscription = await manager.subscribe('logs', { address: '0xabc' }, event => logs.push(event));
+        sockets[0].notify({ blockNumber: '0x60', logIndex: '0x0' });
+
+        failing = true;
+        sockets[0].close();
+        await waitFor(() => subscription.source === 'polling' && logs.length === 2);
+
+        expect(sockets).toHaveLength(3);
+        expect(request).toHaveBeenCalledWith({
+            method: 'eth_getLogs',
+            params: [{ address: '0xabc', fromBlock: '0x61', toBlock: `0x${state.head.toString(16)}` }]
+        });
+        expect(logs.map(log => log.blockNumber)).toEqual([96, 97]);
+        await manager.close();
+    });
+
+    it('should keep log polling within the policy\'s block range', async () => {
+        const { api, state, request } = createFakeApi();
+        const policy = new Policy({ maxLogsBlockRange: 3 });
+        Object.assign(api, { policy });
+        request.mockImplementation(async ({ method, params = [] }) => {
+            policy.check(method as any, params);
+            const result = method === 'eth_blockNumber' ? state.head : [{ blockNumber: parseInt(params[0].fromBlock, 16) }];
+            return { jsonrpc: '2.0', id: 1, result };
+        });
+        const manager = new SubscriptionManager(api, { pollIntervalMs: 5 });
+        const logs: any[] = [];
+
+        await manager.subscribe('logs', { address: '0xabc' }, event => logs.push(event));
+        state.head = 107;
+        await waitFor(() => logs.length === 3);
+        await manager.close();
+
+        expect(logs.map(log => log.blockNumber)).toEqual([101, 104, 107]);
+    });
+
+    it('should poll pending transactions with a filter and remove it afterwards', async () => {
+        const { api, request } = createFakeApi();
+        const manager = new SubscriptionManager(api, { pollIntervalMs: 5 });
+        const hashes: string[] = [];
+
+        const subscription = await manager.subscribe('newPendingTransactions', undefined, hash => hashes.push(hash));
+        await waitFor(() => hashes.length >= 2);
+        await subscription.unsubscribe();
+
+        expect(hashes.slice(0, 2)).toEqual(['0xaa', '0xbb']);
+        expect(request).toHaveBeenCalledWith({ method: 'eth_uninstallFilter', params: ['0xf1'] });
+    });
+
+    it('should keep every subscription log line off stdout with the default logger', async () => {
+        const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+        await once(server, 'listening');
+        server.on('connection', socket => socket.on('message', data => {
+            const { id, method } = JSON.parse(String(data));
+            socket.send(JSON.stringify(method === 'eth_subscribe'
+                ? { jsonrpc: '2.0', id, result: '0xsub' }
+                : { jsonrpc: '2.0', id, error: { code: -32000, message: 'unknown subscription' } }));
+        }));
+        const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+        const consoleOut = (['log', 'info', 'debug'] as const).map(level => jest.spyOn(console, level).mockImplementation(() => {}));
+        const stderr = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const request = async ({ method }: { method: string }) => {
+            if (method === 'eth_uninstallFilter') throw new Error('filter not found');
+            return { jsonrpc: '2.0', id: 1, result: method === 'eth_newPendingTransactionFilter' ? '0xf1' : [] };
+        };
+        const { port } = server.address() as AddressInfo;
+        const streaming = new ValidationCloudAPI({ apiKey: 'key', webSocketURL: `ws://127.0.0.1:${port}` });
+        const polling = new ValidationCloudAPI({ apiKey: 'key' });
+        try {
+            jest.spyOn(streaming, 'request').mockImplementation(request as any);
+            jest.spyOn(polling, 'request').mockImplementation(request as any);
+
+            const heads = await streaming.subscribe('newHeads', undefined, () => {});
+            const reconnected = once(server, 'connection');
+            server.clients.forEach(client => client.terminate());
+            await reconnected;
+            await waitFor(() => stderr.mock.calls.some(([message]) => String(message).includes('reconnected')));
+            await heads.unsubscribe();
+            const pending = await polling.subscribe('newPendingTransactions', undefined, () => {});
+            await pending.unsubscribe();
+
+            expect(stderr.mock.calls.map(([message]) => String(message))).toEqual(expect.arrayContaining([
+                expect.stringContaining('reconnected'),
+                expect.stringContaining('eth_unsubscribe failed'),
+                expect.stringContaining('eth_uninstallFilter failed')
+            ]));
+            expect(stdout).not.toHaveBeenCalled();
+            consoleOut.forEach(spy => expect(spy).not.toHaveBeenCalled());
+        } finally {
+            await Promise.all([streaming.closeSubscriptions(), polling.closeSubscriptions()]);
+            stdout.mockRestore();
+            stderr.mockRestore();
+            consoleOut.forEach(spy => spy.mockRestore());
+            server.clients.forEach(client => client.terminate());
+            server.close();
+        }
+    });
+});
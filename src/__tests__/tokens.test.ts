@@ -0,0 +1,159 @@
+import { ValidationCloudAPI } from '../api';
+import { decodeStringOrBytes32, getNft, getTokenAllowance, getTokenBalance, getTokenBalances, getTokenMetadata } from '../tokens';
+import { ValidationCloudError } from '../types';
+
+const TOKEN = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const OWNER = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+const word = (value: bigint | number | string) =>
+    (typeof value === 'string' ? value : BigInt(value).toString(16)).padStart(64, '0');
+const encodeString = (text: string) => {
+    const hex = Buffer.from(text).toString('hex');
+    return `0x${word(32)}${word(hex.length / 2)}${hex.padEnd(Math.ceil(hex.length / 64) * 64, '0')}`;
+};
+const bytes32 = (text: string) => `0x${Buffer.from(text).toString('hex').padEnd(64, '0')}`;
+
+const SELECTORS: Record<string, string> = {
+    '0x06fdde03': 'name',
+    '0x95d89b41': 'symbol',
+    '0x313ce567': 'decimals',
+    '0x18160ddd': 'totalSupply',
+    '0x70a08231': 'balanceOf',
+    '0xdd62ed3e': 'allowance',
+    '0x6352211e': 'ownerOf',
+    '0xc87b56dd': 'tokenURI'
+};
+
+/**
+ * Fake node answering view calls from per-contract return data; missing functions revert
+ */
+const createFakeNode = (contracts: Record<string, Record<string, string>>) => {
+    const request = jest.fn(async ({ params }: { method: string; params: any[] }) => {
+        const { to, data } = params[0];
+        const fn = SELECTORS[data.slice(0, 10)];
+        const result = contracts[to.toLowerCase()]?.[fn];
+        if (result === undefined) throw new ValidationCloudError('execution reverted', 3);
+        return { jsonrpc: '2.0', id: 1, result };
+    });
+    const batchRequest = jest.fn(async (requests: { method: string; params: any[] }[]) =>
+        Promise.all(requests.map(async (params, id) => {
+            try {
+                return { id, method: params.method, result: (await request(params)).result };
+            } catch (error) {
+                return { id, method: params.method, error: { code: (error as ValidationCloudError).code, message: (error as Error).message } };
+            }
+        }))
+    );
+    return { request, batchRequest } as unknown as ValidationCloudAPI & { request: jest.Mock; batchRequest: jest.Mock };
+};
+
+const DAI = {
+    name: encodeString('Dai Stablecoin'),
+    symbol: encodeString('DAI'),
+    decimals: `0x${word(18)}`,
+    totalSupply: `0x${word(5n * 10n ** 27n)}`,
+    balanceOf: `0x${word(1500000000000000000n)}`,
+    allowance: `0x${word(2n ** 256n - 1n)}`
+};
+
+describe('Tokens', () => {
+    it('should read token metadata with the total supply formatted', async () => {
+        const api = createFakeNode({ [TOKEN.toLowerCase()]: DAI });
+
+        expect(await getTokenMetadata(api, TOKEN)).toEqual({
+            address: TOKEN,
+            name: 'Dai Stablecoin',
+            symbol: 'DAI',
+            decimals: 18,
+            totalSupply: { raw: '5000000000000000000000000000', formatted: '5000000000' }
+        });
+    });
+
+    it('should decode bytes32 names and symbols of legacy tokens', async () => {
+        const api = createFakeNode({
+            [TOKEN.toLowerCase()]: { name: bytes32('Maker'), symbol: bytes32('MKR'), decimals: `0x${word(18)}` }
+        });
+
+        expect(await getTokenMetadata(api, TOKEN)).toEqual({ address: TOKEN, name: 'Maker', symbol: 'MKR', decimals: 18 });
+        expect(decodeStringOrBytes32('0x1234')).toBeUndefined();
+    });
+
+    it('should cache name, symbol and decimals per contract', async () => {
+        const api = createFakeNode({ [TOKEN.toLowerCase()]: DAI });
+
+        await getTokenBalance(api, TOKEN, OWNER);
+        await getTokenBalance(api, TOKEN.toLowerCase(), OWNER);
+
+        const calls = api.request.mock.calls.map(([params]) => SELECTORS[params.params[0].data.slice(0, 10)]);
+        expect(calls.filter(fn => fn === 'name')).toHaveLength(1);
+        expect(calls.filter(fn => fn === 'balanceOf')).toHaveLength(2);
+    });
+
+    it('should format balances and allowances with the token decimals', async () => {
+        const api = createFakeNode({ [TOKEN.toLowerCase()]: DAI });
+
+        expect(await getTokenBalance(api, TOKEN, OWNER, 19000000)).toEqual({
+            token: TOKEN,
+            owner: OWNER,
+            symbol: 'DAI',
+            decimals: 18,
+            balance: { raw: '1500000000000000000', formatted: '1.5' }
+        });
+        expect(api.request).toHaveBeenCalledWith({
+            method: 'eth_call',
+            params: [{ to: TOKEN, data: `0x70a08231${word(OWNER.slice(2).toLowerCase())}` }, '0x121eac0']
+        });
+
+        const allowance = await getTokenAllowance(api, TOKEN, OWNER, OWNER);
+        expect(allowance.allowance.raw).toBe((2n ** 256n - 1n).toString());
+    });
+
+    it('should report failing tokens in place in multi-token queries', async () => {
+        const other = '0x0000000000000000000000000000000000000001';
+        const api = createFakeNode({ [TOKEN.toLowerCase()]: DAI });
+
+        const balances = await getTokenBalances(api, OWNER, [TOKEN, other]);
+
+        expect(balances[0]).toMatchObject({ token: TOKEN, balance: { formatted: '1.5' } });
+        expect(balances[1]).toEqual({ token: other, error: expect.stringContaining('check that it is a token contract') });
+    });
+
+    it('should read many token balances in sequential batches', async () => {
+        const tokens = Array.from({ length: 60 }, (_, i) => `0x${(i + 1).toString(16).padStart(40, '0')}`);
+        const api = createFakeNode(Object.fromEntries(tokens.map(token => [token, DAI])));
+
+        const balances = await getTokenBalances(api, OWNER, tokens);
+
+        expect(balances).toHaveLength(60);
+        expect(balances.every(balance => 'balance' in balance)).toBe(true);
+        expect(api.batchRequest.mock.calls.map(([requests]) => requests.length)).toEqual([100, 100, 40]);
+
+        await getTokenBalances(api, OWNER, tokens.slice(0, 2));
+        expect(api.batchRequest.mock.calls[3][0]).toHaveLength(2);
+    });
+
+    it('should read NFT owners and token URIs', async () => {
+        const api = createFakeNode({
+            [TOKEN.toLowerCase()]: {
+                name: encodeString('Punks'),
+                symbol: encodeString('PNK'),
+                ownerOf: `0x${word(OWNER.slice(2).toLowerCase())}`,
+                tokenURI: encodeString('ipfs://QmHash/1')
+            }
+        });
+
+        expect(await getNft(api, TOKEN, '0x1')).toEqual({
+            token: TOKEN,
+            tokenId: '1',
+            name: 'Punks',
+            symbol: 'PNK',
+            owner: OWNER,
+            tokenURI: 'ipfs://QmHash/1'
+        });
+    });
+
+    it('should reject invalid addresses', async () => {
+        const api = createFakeNode({});
+        await expect(getTokenBalance(api, 'dai', OWNER)).rejects.toThrow('Invalid token address');
+    });
+});
@@ -0,0 +1,71 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { EventDecoder } from '../events';
+import { NetworkRegistry } from '../networks';
+import { RevertDecoder } from '../revert';
+import { registerToolHandlers } from '../toolHandlers';
+import { ToolRegistry } from '../tools';
+
+describe('Tool handlers', () => {
+    it('should deliver progress and logging notifications over Streamable HTTP', async () => {
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const tools = new ToolRegistry({ networks: {} as NetworkRegistry, eventDecoder: new EventDecoder(), revertDecoder: new RevertDecoder(), logger })
+            .register({
+                name: 'count',
+                description: 'Count to two',
+                inputSchema: { type: 'object', properties: {} },
+                async handler(_args, _context, call) {
+                    call.progress?.(1, 2, 'one');
+                    call.log?.({ reached: 1 });
+                    call.progress?.(2, 2, 'two');
+                    return { count: 2 };
+                }
+            });
+        const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {}, logging: {} } });
+        registerToolHandlers(server, tools, logger);
+        const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => randomUUID() });
+        await server.connect(transport);
+        // Refusing the standalone GET stream leaves the call's own response as the only way to notify
+        const http = createServer((request, response) => {
+            if (request.method === 'GET') {
+                response.writeHead(405).end();
+                return;
+            }
+            void transport.handleRequest(request, response);
+        });
+        await new Promise<void>(resolve => http.listen(0, '127.0.0.1', resolve));
+        const client = new Client({ name: 'test-client', version: '0.0.0' });
+
+        try {
+            const { port } = http.address() as AddressInfo;
+            const messages: unknown[] = [];
+            client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+                messages.push(notification.params.data);
+            });
+            await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+            const progress: unknown[] = [];
+
+            const result = await client.callTool({ name: 'count', arguments: {} }, undefined, {
+                onprogress: update => progress.push(update)
+            });
+
+            expect(result.structuredContent).toEqual({ count: 2 });
+            expect(progress).toEqual([
+                { progress: 1, total: 2, message: 'one' },
+                { progress: 2, total: 2, message: 'two' }
+            ]);
+            expect(messages).toEqual([{ reached: 1 }]);
+        } finally {
+            await client.close();
+            await server.close();
+            http.closeAllConnections();
+            await new Promise(resolve => http.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,347 @@
+import { ENS_TOOLS } from '../ensTools';
+import { EventDecoder } from '../events';
+import { METHOD_TOOLS } from '../methodTools';
+import { NetworkRegistry } from '../networks';
+import { RevertDecoder } from '../revert';
+import { TOKEN_TOOLS } from '../tokenTools';
+import { CORE_TOOLS, ToolInputError, ToolRegistry } from '../tools';
+import { WATCH_TOOLS } from '../watchTools';
+import { PolicyViolationError, ValidationCloudError } from '../types';
+
+const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const HASH = '0x88df016429689c079f3b2f6ad39fa052532c56795b733da78a91ebe6a713944b';
+
+const createRegistry = (request: jest.Mock, secrets: string[] = [], api: Record<string, unknown> = {}) => {
+    const networks = {
+        get: jest.fn().mockReturnValue({ request, ...api }),
+        names: () => ['mainnet'],
+        list: () => []
+    } as unknown as NetworkRegistry;
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const registry = new ToolRegistry({ networks, eventDecoder: new EventDecoder(), revertDecoder: new RevertDecoder(), logger }, secrets)
+        .register(...CORE_TOOLS, ...METHOD_TOOLS, ...TOKEN_TOOLS, ...ENS_TOOLS, ...WATCH_TOOLS);
+    return { registry, networks };
+};
+
+describe('Tool Registry', () => {
+    it('should list every tool once with its schema', () => {
+        const { registry } = createRegistry(jest.fn());
+        const names = registry.list().map(tool => tool.name);
+
+        expect(names).toEqual(expect.arrayContaining([
+            'ethereum_request', 'contract_call', 'get_balance', 'get_block', 'get_transaction_receipt', 'estimate_gas'
+        ]));
+        expect(new Set(names).size).toBe(names.length);
+        expect(() => registry.register(CORE_TOOLS[0])).toThrow('already registered');
+    });
+
+    it('should map named arguments onto JSON-RPC parameters', async () => {
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: { wei: '1', ether: '0.000000000000000001' } });
+        const { registry, networks } = createRegistry(request);
+
+        const result = await registry.call('get_balance', { address: ADDRESS, block: 19000000, network: 'sepolia' });
+
+        expect(networks.get).toHaveBeenCalledWith('sepolia');
+        expect(request).toHaveBeenCalledWith({ method: 'eth_getBalance', params: [ADDRESS, '0x121eac0'], raw: false });
+        expect(result).toEqual({
+            content: [
+                { type: 'text', text: 'Balance 0.000000000000000001 ether' },
+                { type: 'text', text: '{"wei":"1","ether":"0.000000000000000001"}' }
+            ],
+            structuredContent: { wei: '1', ether: '0.000000000000000001' }
+        });
+    });
+
+    it('should resolve ENS names in address arguments and show the resolution', async () => {
+        const request = jest.fn(async ({ method, params }: { method: string; params: any[] }) => {
+            if (method === 'eth_call') {
+                // Registry returns a resolver, which returns ADDRESS
+                const resolver = '0x4976fb03c32e5b8cfe2b6ccb31c09ba78ebaba41';
+                const answer = params[0].to.toLowerCase() === resolver ? ADDRESS : resolver;
+                return { jsonrpc: '2.0', id: 1, result: `0x${answer.slice(2).toLowerCase().padStart(64, '0')}` };
+            }
+            return { jsonrpc: '2.0', id: 1, result: { wei: '1', ether: '0.000000000000000001' } };
+        });
+        const { registry } = createRegistry(request);
+
+        const result = await registry.call('get_balance', { address: 'vitalik.eth' });
+
+        expect(request).toHaveBeenLastCalledWith({ method: 'eth_getBalance', params: [ADDRESS, 'latest'], raw: false });
+        expect(result).toMatchObject({ structuredContent: { wei: '1', ether: '0.000000000000000001', ens: { 'vitalik.eth': ADDRESS } } });
+    });
+
+    it('should pick eth_getBlockByHash when a hash is given', async () => {
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} });
+        const { registry } = createRegistry(request);
+
+        await registry.call('get_block', { hash: HASH, includeTransactions: true });
+        await registry.call('get_block', {});
+
+        expect(request.mock.calls[0][0]).toMatchObject({ method: 'eth_getBlockByHash', params: [HASH, true] });
+        expect(request.mock.calls[1][0]).toMatchObject({ method: 'eth_getBlockByNumber', params: ['latest', false] });
+    });
+
+    it('should normalise quantities for estimate_gas', async () => {
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: 21000 });
+        const { registry } = createRegistry(request);
+
+        await registry.call('estimate_gas', { from: ADDRESS, to: ADDRESS, value: '1000000000000000000' });
+
+        expect(request.mock.calls[0][0].params).toEqual([{ from: ADDRESS, to: ADDRESS, value: '0xde0b6b3a7640000' }]);
+    });
+
+    it('should pass state and block overrides to eth_call', async () => {
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '0x' });
+        const { registry } = createRegistry(request);
+
+        await registry.call('call', {
+            to: ADDRESS,
+            data: '0x70a08231',
+            stateOverrides: { [ADDRESS]: { balance: '1000000000000000000', code: '0x00' } },
+            blockOverrides: { time: 1700000000 }
+        });
+
+        expect(request.mock.calls[0][0].params).toEqual([
+            { to: ADDRESS, data: '0x70a08231' },
+            'latest',
+            { [ADDRESS]: { balance: '0xde0b6b3a7640000', code: '0x00' } },
+            { time: '0x6553f100' }
+        ]);
+    });
+
+    it('should report a malformed override amount as an error result', async () => {
+        const request = jest.fn();
+        const { registry } = createRegistry(request);
+
+        const result = await registry.call('call', { to: ADDRESS, stateOverrides: { [ADDRESS]: { balance: '1e18' } } });
+
+        expect(result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('Invalid quantity: 1e18') }] });
+        expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should decode custom errors from the supplied ABI when a call reverts', async () => {
+        const data = `0x8e4a23d6${ADDRESS.slice(2).toLowerCase().padStart(64, '0')}`;
+        const request = jest.fn().mockRejectedValue(new ValidationCloudError('execution reverted', 3, undefined, data));
+        const { registry } = createRegistry(request);
+
+        const result = await registry.call('call', { to: ADDRESS, abi: ['error Unauthorized(address caller)'] });
+
+        expect(result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining(`reverted with Unauthorized(caller="${ADDRESS}")`) }] });
+    });
+
+    it('should return the result of ethereum_request without the JSON-RPC envelope', async () => {
+        const block = { number: 19000000, timestamp: 1705173443, transactions: ['0x1', '0x2'], gasUsed: 12345678, baseFeePerGas: 25000000000 };
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: block });
+        const { registry } = createRegistry(request);
+
+        const result = await registry.call('ethereum_request', { method: 'eth_getBlockByNumber', params: ['0x121eac0', false] });
+
+        expect(result).toMatchObject({
+            content: [{ type: 'text', text: 'Block 19,000,000 mined 2024-01-13T19:17:23Z with 2 txs, 12.3M gas used, base fee 25 gwei' }, { type: 'text' }],
+            structuredContent: { result: block }
+        });
+    });
+
+    it('should wrap non-object results and fall back to a generic summary', async () => {
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: 19000000 });
+        const { registry } = createRegistry(request);
+
+        expect(await registry.call('get_block_number', {})).toMatchObject({
+            content: [{ text: 'Latest block is 19,000,000' }, { text: '{"result":19000000}' }],
+            structuredContent: { result: 19000000 }
+        });
+        expect(await registry.call('ethereum_request', { method: 'web3_clientVersion' })).toMatchObject({
+            content: [{ text: 'web3_clientVersion returned 19000000' }, { text: '{"result":19000000}' }]
+        });
+        expect(await registry.call('list_networks', {})).toMatchObject({
+            content: [{ text: 'list_networks returned 0 items' }, { text: '{"result":[]}' }]
+        });
+    });
+
+    it('should project and page large results of pageable tools', async () => {
+        const block = { number: 19000000, timestamp: 1705173443, gasUsed: 21000, transactions: [{ hash: '0x1', nonce: 1 }, { hash: '0x2', nonce: 2 }] };
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: block });
+        const { registry } = createRegistry(request);
+
+        const first = await registry.call('get_block', { block: 19000000, includeTransactions: true, fields: ['number', 'transactions.hash'], maxItems: 1 });
+        const cursor = (first as any).structuredContent.page.cursor;
+        const second = await registry.call('get_block', { block: 19000000, includeTransactions: true, fields: ['number', 'transactions.hash'], cursor });
+
+        expect(request).toHaveBeenCalledWith({ method: 'eth_getBlockByNumber', params: ['0x121eac0', true], raw: false });
+        expect(first).toMatchObject({
+            content: [{ text: expect.stringMatching(/with 2 txs, 21,000 gas used \(truncated, 1 more \(transactions: 1\)/) }, { type: 'text' }],
+            structuredContent: { number: 19000000, transactions: [{ hash: '0x1' }], page: { cursor: expect.any(String) } }
+        });
+        expect((second as any).structuredContent).toEqual({
+            number: 19000000,
+            transactions: [{ hash: '0x2' }],
+            page: { arrays: { transactions: { offset: 1, returned: 1, total: 2 } } }
+        });
+        await expect(registry.call('get_block', { block: 1, cursor })).resolves.toMatchObject({
+            isError: true,
+            content: [{ text: expect.stringContaining('different request') }]
+        });
+        await expect(registry.call('get_balance', { address: ADDRESS, maxItems: 1 })).rejects.toBeInstanceOf(ToolInputError);
+    });
+
+    it('should summarize each response of a batch', async () => {
+        const batchRequest = jest.fn().mockResolvedValue([
+            { id: 1, method: 'eth_blockNumber', result: 100 },
+            { id: 2, method: 'eth_getCode', error: { message: 'boom' } }
+        ]);
+        const { registry } = createRegistry(jest.fn(), [], { batchRequest });
+
+        const result = await registry.call('ethereum_batch_request', {
+            requests: [{ method: 'eth_blockNumber' }, { method: 'eth_getCode', params: [ADDRESS, 'latest'] }]
+        });
+
+        expect(result).toMatchObject({
+            content: [{ text: '2 responses, 1 failed:\n- eth_blockNumber: Latest block is 100\n- eth_getCode: error: boom' }, { type: 'text' }],
+            structuredContent: { result: expect.any(Array) }
+        });
+    });
+
+    it('should page batch results and cap the batch size', async () => {
+        const batchRequest = jest.fn(async (requests: unknown[]) =>
+            requests.map((_, id) => ({ id, method: 'eth_getBlockByNumber', result: { number: id, hash: HASH, transactions: [HASH, HASH] } })));
+        const { registry } = createRegistry(jest.fn(), [], { batchRequest });
+        const requests = Array.from({ length: 3 }, (_, block) => ({ method: 'eth_getBlockByNumber', params: [`0x${block}`, false] }));
+
+        const result = await registry.call('ethereum_batch_request', { requests, fields: ['result.number'], maxItems: 2 });
+
+        expect(result).toMatchObject({
+            structuredContent: {
+                result: [{ result: { number: 0 } }, { result: { number: 1 } }],
+                page: { cursor: expect.any(String) }
+            }
+        });
+        await expect(registry.call('ethereum_batch_request', { requests: Array(101).fill({ method: 'eth_blockNumber' }) }))
+            .rejects.toMatchObject({ message: expect.stringContaining('at most 100 items') });
+    });
+
+    it('should report an unresolvable ENS name in its batch item and send the rest', async () => {
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: `0x${'0'.repeat(64)}` });
+        const batchRequest = jest.fn().mockResolvedValue([{ id: 7, method: 'eth_blockNumber', result: 100 }]);
+        const { registry } = createRegistry(request, [], { batchRequest });
+
+        const result = await registry.call('ethereum_batch_request', {
+            requests: [{ method: 'eth_getBalance', params: ['nobody.eth', 'latest'] }, { method: 'eth_blockNumber' }]
+        });
+
+        expect(batchRequest).toHaveBeenCalledWith([{ method: 'eth_blockNumber', params: [], raw: false }]);
+        expect(result).toMatchObject({
+            structuredContent: {
+                result: [
+                    { method: 'eth_getBalance', error: { code: -32602, message: expect.stringContaining('nobody.eth') } },
+                    { id: 7, method: 'eth_blockNumber', result: 100 }
+                ]
+            }
+        });
+    });
+
+    it('should pre-flight raw transactions in a batch and not send those that fail', async () => {
+        const batchRequest = jest.fn().mockResolvedValue([{ id: 7, method: 'eth_blockNumber', result: 100 }]);
+        const { registry } = createRegistry(jest.fn(), [], { batchRequest });
+
+        const result = await registry.call('ethereum_batch_request', {
+            requests: [{ method: 'eth_sendRawTransaction', params: ['0xc0'] }, { method: 'eth_blockNumber' }]
+        });
+
+        expect(batchRequest).toHaveBeenCalledWith([{ method: 'eth_blockNumber', params: [], raw: false }]);
+        expect(result).toMatchObject({
+            structuredContent: {
+                result: [
+                    { method: 'eth_sendRawTransaction', error: { code: -32602, message: expect.stringContaining('legacy transactions have 9 fields') } },
+                    { id: 7, method: 'eth_blockNumber', result: 100 }
+                ]
+            }
+        });
+    });
+
+    it('should reject invalid arguments before sending anything', async () => {
+        const request = jest.fn();
+        const { registry } = createRegistry(request);
+
+        await expect(registry.call('get_balance', { address: 'vitalik' })).rejects.toMatchObject({
+            reason: 'invalid_arguments',
+            message: expect.stringContaining('address must match')
+        });
+        await expect(registry.call('get_balance', { address: ADDRESS, blockTag: 'latest' })).rejects.toMatchObject({
+            message: expect.stringContaining('blockTag is not a known argument')
+        });
+        await expect(registry.call('no_such_tool', {})).rejects.toBeInstanceOf(ToolInputError);
+        expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should let policy violations through as errors', async () => {
+        const request = jest.fn().mockRejectedValue(new PolicyViolationError('readOnly', 'eth_sendRawTransaction', 'blocked'));
+        const { registry } = createRegistry(request);
+
+        await expect(registry.call('ethereum_request', { method: 'eth_sendRawTransaction', params: ['0x02'], preflight: false }))
+            .rejects.toMatchObject({ policy: 'readOnly' });
+    });
+
+    it('should apply the policy before pre-flighting a broadcast', async () => {
+        const request = jest.fn();
+        const check = jest.fn(() => { throw new PolicyViolationError('allowBroadcast', 'eth_sendRawTransaction', 'blocked'); });
+        const { registry } = createRegistry(request, [], { policy: { check } });
+
+        await expect(registry.call('ethereum_request', { method: 'eth_sendRawTransaction', params: ['0x02'] }))
+            .rejects.toMatchObject({ policy: 'allowBroadcast' });
+        expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should not broadcast a transaction that fails pre-flight', async () => {
+        const request = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '0x' });
+        const { registry } = createRegistry(request);
+
+        const result = await registry.call('ethereum_request', { method: 'eth_sendRawTransaction', params: ['0xc0'] });
+
+        expect(result).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('legacy transactions have 9 fields') }] });
+        expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should turn Validation Cloud errors into redacted error results', async () => {
+        const request = jest.fn().mockRejectedValue(new ValidationCloudError('bad key secret-key', -32000));
+        const { registry } = createRegistry(request, ['secret-key']);
+
+        const result = await registry.call('get_block_number', {});
+
+        expect(result).toMatchObject({ isError: true });
+        expect(JSON.stringify(result)).not.toContain('secret-key');
+    });
+
+    it('should watch for a decoded event with indexed arguments filtered by the node, skipping removed logs', async () => {
+        const recipient = `0x000000000000000000000000${ADDRESS.slice(2).toLowerCase()}`;
+        const transfer = {
+            address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+            topics: ['0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef', `0x${'0'.repeat(63)}1`, recipient],
+            data: `0x${'0'.repeat(62)}64`,
+            blockNumber: 19000000,
+            transactionHash: HASH
+        };
+        const subscribe = jest.fn(async (_kind: string, _filter: unknown, listener: (log: unknown) => void) => {
+            setImmediate(() => {
+                listener({ ...transfer, transactionHash: `0x${'11'.repeat(32)}`, removed: true });
+                listener(transfer);
+            });
+            return { source: 'websocket', unsubscribe: jest.fn().mockResolvedValue(undefined) };
+        });
+        const log = jest.fn();
+        const { registry } = createRegistry(jest.fn(), [], { subscribe });
+
+        const result = await registry.call('watch_logs', {
+            address: transfer.address,
+            event: 'Transfer(address indexed from, address indexed to, uint256 value)',
+            where: { to: ADDRESS },
+            stream: true
+        }, { log });
+
+        expect(subscribe).toHaveBeenCalledWith('logs', { address: transfer.address, topics: [transfer.topics[0], null, recipient] }, expect.any(Function));
+        expect(result.content[0].text).toBe('1 matching log: Transfer in tx 0x88df0164... (block 19000000) after 0 s, via websocket');
+        expect(result).toMatchObject({
+            structuredContent: { ended: 'count', matches: [{ event: { name: 'Transfer', args: { value: '100' } } }] }
+        });
+        expect(log).toHaveBeenCalledWith({ tool: 'watch_logs', match: expect.objectContaining({ transactionHash: HASH }) });
+    });
+});
@@ -0,0 +1,163 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { keccak256 } from '../abi';
+import { ValidationCloudAPI } from '../api';
+import { RlpItem, decodeRlp, encodeRlp } from '../rlp';
+import { checkBeforeBroadcast, decodeRawTransaction, preflightTransaction } from '../transaction';
+import { ValidationCloudError } from '../types';
+
+// EIP-155 example transaction signed with private key 0x4646...46
+const LEGACY_TX = '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+const PRIVATE_KEY = hexToBytes('46'.repeat(32));
+const SENDER = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+const RECIPIENT = '0x3535353535353535353535353535353535353535';
+// Error("not allowed")
+const REVERT_DATA = '0x08c379a00000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000000b6e6f7420616c6c6f776564000000000000000000000000000000000000000000';
+
+const int = (value: number | bigint) => {
+    if (BigInt(value) === 0n) return new Uint8Array();
+    const hex = BigInt(value).toString(16);
+    return hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+};
+
+/**
+ * Sign a typed transaction body with the test key
+ */
+const signTyped = (type: number, fields: any[]) => {
+    const payload = Uint8Array.of(type, ...encodeRlp(fields));
+    const signature = secp256k1.sign(hexToBytes(keccak256(payload).slice(2)), PRIVATE_KEY);
+    const signed = encodeRlp([...fields, int(signature.recovery), int(signature.r), int(signature.s)]);
+    return `0x${bytesToHex(Uint8Array.of(type, ...signed))}`;
+};
+
+const eip1559 = (nonce = 3) => signTyped(2, [
+    int(1), int(nonce), int(2e9), int(30e9), int(21000), hexToBytes(RECIPIENT.slice(2)), int(10n ** 17n), hexToBytes('abcd'),
+    [[hexToBytes(RECIPIENT.slice(2)), [new Uint8Array(32)]]]
+]);
+
+const createFakeNode = (overrides: { chainId?: number; mined?: number; pending?: number; wei?: string; callError?: Error } = {}) => {
+    const { chainId = 1, mined = 3, pending = 3, wei = '10000000000000000000', callError } = overrides;
+    const request = jest.fn(async ({ method, params }: { method: string; params?: any[] }) => {
+        const respond = (result: unknown) => ({ jsonrpc: '2.0', id: 1, result });
+        switch (method) {
+            case 'eth_chainId': return respond(chainId);
+            case 'eth_getTransactionCount': return respond(params![1] === 'pending' ? pending : mined);
+            case 'eth_getBalance': return respond({ wei, ether: '' });
+            case 'eth_call':
+                if (callError) throw callError;
+                return respond('0x');
+            default: return respond('0x1234');
+        }
+    });
+    return { request } as unknown as ValidationCloudAPI & { request: jest.Mock };
+};
+
+describe('Raw Transactions', () => {
+    it('should decode an EIP-155 legacy transaction and recover its sender', () => {
+        const tx = decodeRawTransaction(LEGACY_TX);
+
+        expect(tx).toMatchObject({
+            type: 0,
+            typeName: 'legacy',
+            from: SENDER,
+            to: RECIPIENT,
+            nonce: 9,
+            chainId: 1,
+            gasLimit: '21000',
+            gasPrice: '20000000000',
+            value: { wei: '1000000000000000000', ether: '1' },
+            data: '0x',
+            signature: { v: 37, yParity: 0 },
+            maxCost: '1000420000000000000'
+        });
+        expect(tx.hash).toBe(keccak256(LEGACY_TX));
+    });
+
+    it('should decode an EIP-1559 transaction with an access list', () => {
+        const tx = decodeRawTransaction(eip1559());
+
+        expect(tx).toMatchObject({
+            type: 2,
+            typeName: 'eip1559',
+            from: SENDER,
+            nonce: 3,
+            chainId: 1,
+            maxFeePerGas: '30000000000',
+            maxPriorityFeePerGas: '2000000000',
+            data: '0xabcd',
+            accessList: [{ address: RECIPIENT, storageKeys: [`0x${'00'.repeat(32)}`] }],
+            maxCost: (21000n * 30000000000n + 10n ** 17n).toString()
+        });
+        expect(tx.gasPrice).toBeUndefined();
+    });
+
+    it('should decode blob transactions in network form and hash the body only', () => {
+        const body = [
+            int(1), int(0), int(1e9), int(2e9), int(21000), hexToBytes(RECIPIENT.slice(2)), int(0), new Uint8Array(), [],
+            int(5), [hexToBytes(`01${'11'.repeat(31)}`), hexToBytes(`01${'22'.repeat(31)}`)]
+        ];
+        const signed = hexToBytes(signTyped(3, body).slice(2));
+        const wrapped = `0x${bytesToHex(Uint8Array.of(3, ...encodeRlp([
+            [...body, ...(decodeRlp(signed.slice(1)) as RlpItem[]).slice(-3)],
+            [new Uint8Array(4)], [new Uint8Array(48)], [new Uint8Array(48)]
+        ])))}`;
+
+        const tx = decodeRawTransaction(wrapped);
+
+        expect(tx.hash).toBe(keccak256(signed));
+        expect(tx.from).toBe(SENDER);
+        expect(tx.blobVersionedHashes).toHaveLength(2);
+        expect(tx.maxCost).toBe((21000n * 2000000000n + 2n * 131072n * 5n).toString());
+    });
+
+    it('should reject malformed transactions', () => {
+        expect(() => decodeRawTransaction('0x1234')).toThrow('Invalid raw transaction');
+        expect(() => decodeRawTransaction('0x05c0')).toThrow('unsupported transaction type 5');
+        expect(() => decodeRawTransaction('0xc0')).toThrow('legacy transactions have 9 fields');
+    });
+
+    it('should pass pre-flight checks for a transaction that matches the chain', async () => {
+        const api = createFakeNode();
+        const report = await preflightTransaction(api, decodeRawTransaction(eip1559()));
+
+        expect(report.ok).toBe(true);
+        expect(report.checks.map(check => check.status)).toEqual(['pass', 'pass', 'pass', 'pass']);
+        expect(api.request).toHaveBeenCalledWith({
+            method: 'eth_call',
+            params: [{ from: SENDER, to: RECIPIENT, data: '0xabcd', value: '0x16345785d8a0000', gas: '0x5208' }, 'latest']
+        });
+    });
+
+    it('should report each mismatch', async () => {
+        const api = createFakeNode({
+            chainId: 11155111,
+            mined: 5,
+            pending: 5,
+            wei: '1',
+            callError: new ValidationCloudError('execution reverted', 3, undefined, REVERT_DATA)
+        });
+        const report = await preflightTransaction(api, decodeRawTransaction(eip1559()));
+
+        expect(report.ok).toBe(false);
+        expect(report.checks).toEqual([
+            expect.objectContaining({ name: 'chainId', status: 'fail', message: expect.stringContaining('chain 1 but the network is chain 11155111') }),
+            expect.objectContaining({ name: 'nonce', status: 'fail', message: expect.stringContaining('already used') }),
+            expect.objectContaining({ name: 'balance', status: 'fail' }),
+            expect.objectContaining({ name: 'simulation', status: 'fail', message: expect.stringContaining('reverted: not allowed') })
+        ]);
+    });
+
+    it('should warn about nonce gaps and replacements', async () => {
+        const gap = await preflightTransaction(createFakeNode({ mined: 1, pending: 1 }), decodeRawTransaction(eip1559()));
+        const replacement = await preflightTransaction(createFakeNode({ mined: 2, pending: 4 }), decodeRawTransaction(eip1559()));
+
+        expect(gap.checks[1]).toMatchObject({ status: 'warn', message: expect.stringContaining('nonces 1 to 2') });
+        expect(replacement.checks[1]).toMatchObject({ status: 'warn', message: expect.stringContaining('replaces a pending') });
+        expect(gap.ok).toBe(true);
+    });
+
+    it('should refuse to broadcast when a check fails', async () => {
+        const api = createFakeNode({ wei: '0' });
+        await expect(checkBeforeBroadcast(api, eip1559())).rejects.toThrow('Pre-flight checks failed');
+    });
+});
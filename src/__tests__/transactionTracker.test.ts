@@ -0,0 +1,222 @@
+import { ValidationCloudAPI } from '../api';
+import { sendAndConfirm } from '../transactionTracker';
+import { ValidationCloudError } from '../types';
+
+// EIP-155 example transaction: nonce 9 from 0x9d8A...5A4F
+const RAW_TX = '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83';
+const TX_HASH = '0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788';
+
+const createFakeClock = () => {
+    let time = 0;
+    return { now: () => time, sleep: jest.fn(async (ms: number) => { time += ms; }) };
+};
+
+interface ChainState {
+    head: number;
+    receipt: any;
+    mined: number;
+    pending: boolean;
+    /** Canonical block hashes that differ from `0xblock<number>` */
+    reorged: Record<number, string>;
+    /** Transaction mined with the same nonce, before which the sender's nonce was still 9 */
+    replacement?: { block: number; hash: string };
+}
+
+/**
+ * Fake node whose state `advance` changes before every receipt poll
+ */
+const createFakeNode = (advance: (state: ChainState, poll: number) => void, sendError?: Error) => {
+    const state: ChainState = { head: 100, receipt: null, mined: 9, pending: true, reorged: {} };
+    let poll = 0;
+    const request = jest.fn(async ({ method, params = [] }: { method: string; params?: any[] }) => {
+        const respond = (result: unknown) => ({ jsonrpc: '2.0', id: 1, result });
+        switch (method) {
+            case 'eth_sendRawTransaction':
+                if (sendError) throw sendError;
+                return respond(TX_HASH);
+            case 'eth_getTransactionReceipt':
+                advance(state, poll++);
+                return respond(state.receipt);
+            case 'eth_blockNumber': return respond(state.head);
+            case 'eth_getTransactionCount': {
+                const block = params[1] === 'latest' ? state.head : Number(params[1]);
+                return respond(state.replacement && block < state.replacement.block ? 9 : state.mined);
+            }
+            case 'eth_getTransactionByHash': return respond(state.pending ? { hash: TX_HASH } : null);
+            case 'eth_getBlockByNumber': {
+                const number = Number(params[0]);
+                const transactions = params[1] && state.replacement?.block === number
+                    ? [{ from: '0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f', nonce: '0x9', hash: state.replacement.hash }]
+                    : [];
+                return respond({ number, hash: state.reorged[number] ?? `0xblock${number}`, transactions });
+            }
+            default: throw new Error(`unexpected ${method}`);
+        }
+    });
+    return { request } as unknown as ValidationCloudAPI & { request: jest.Mock };
+};
+
+const receipt = (blockNumber: number, status = 1) => ({
+    transactionHash: TX_HASH,
+    blockNumber,
+    blockHash: `0xblock${blockNumber}`,
+    status,
+    gasUsed: 21000,
+    effectiveGasPrice: 20000000000
+});
+
+describe('Transaction Tracker', () => {
+    it('should wait for the requested confirmations and report the gas cost', async () => {
+        const api = createFakeNode((state, poll) => {
+            if (poll === 2) {
+                state.receipt = receipt(101);
+                state.head = 101;
+            }
+            if (poll > 2) state.head++;
+        });
+        const onProgress = jest.fn();
+
+        const result = await sendAndConfirm(api, RAW_TX, {
+            preflight: false, confirmations: 3, onProgress, clock: createFakeClock()
+        });
+
+        expect(result).toMatchObject({
+            status: 'confirmed',
+            hash: TX_HASH,
+            from: '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F',
+            nonce: 9,
+            confirmations: 3,
+            blockNumber: 101,
+            gasUsed: '21000',
+            gasCost: { wei: '420000000000000', ether: '0.00042' }
+        });
+        expect(onProgress.mock.calls).toEqual([[0, 3], [1, 3], [2, 3], [3, 3]]);
+    });
+
+    it('should report reverted transactions', async () => {
+        const api = createFakeNode(state => { state.receipt = receipt(100, 0); });
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, clock: createFakeClock() });
+        expect(result.status).toBe('reverted');
+    });
+
+    it('should detect a replacement with the same nonce', async () => {
+        const api = createFakeNode((state, poll) => { if (poll === 1) state.mined = 10; });
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, clock: createFakeClock() });
+        expect(result).toMatchObject({ status: 'replaced', message: expect.stringContaining('Nonce 9') });
+        expect(result.message).toContain('could not be found');
+        expect(result.replacedBy).toBeUndefined();
+    });
+
+    it('should name the transaction that replaced it', async () => {
+        const replacement = `0x${'ab'.repeat(32)}`;
+        const api = createFakeNode((state, poll) => {
+            if (poll === 1) {
+                state.head = 110;
+                state.mined = 10;
+                state.replacement = { block: 104, hash: replacement };
+            }
+        });
+
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, clock: createFakeClock() });
+
+        expect(result).toMatchObject({ status: 'replaced', replacedBy: replacement, message: expect.stringContaining(replacement) });
+    });
+
+    it('should only report progress that increases', async () => {
+        const api = createFakeNode((state, poll) => {
+            if (poll === 1) {
+                state.receipt = receipt(101);
+                state.head = 102;
+            }
+            // A reorg drops the receipt again before it is mined for good
+            if (poll === 2) state.receipt = null;
+            if (poll === 4) {
+                state.receipt = receipt(103);
+                state.head = 105;
+            }
+        });
+        const onProgress = jest.fn();
+
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, confirmations: 3, onProgress, clock: createFakeClock() });
+
+        expect(result).toMatchObject({ status: 'confirmed', blockNumber: 103 });
+        expect(onProgress.mock.calls).toEqual([[0, 3], [2, 3], [3, 3]]);
+    });
+
+    it('should report a dropped transaction after repeated misses', async () => {
+        const api = createFakeNode(state => { state.pending = false; });
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, maxMissingPolls: 3, clock: createFakeClock() });
+        expect(result).toMatchObject({ status: 'dropped', confirmations: 0 });
+        expect(api.request.mock.calls.filter(([params]) => params.method === 'eth_getTransactionReceipt')).toHaveLength(3);
+    });
+
+    it('should time out while the transaction is pending', async () => {
+        const clock = createFakeClock();
+        const api = createFakeNode(() => undefined);
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, timeoutMs: 10000, pollIntervalMs: 4000, clock });
+        expect(result.status).toBe('timeout');
+        expect(clock.sleep).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep tracking a transaction the node already knows', async () => {
+        const api = createFakeNode(state => { state.receipt = receipt(100); }, new ValidationCloudError('already known', -32000));
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, clock: createFakeClock() });
+        expect(result).toMatchObject({ status: 'confirmed', hash: TX_HASH });
+    });
+
+    it('should read the receipt from the node when the response cache is on', async () => {
+        const clock = createFakeClock();
+        const api = new ValidationCloudAPI({ apiKey: 'test-key', cache: {}, clock });
+        let receiptReads = 0;
+        // The transaction is mined between the first receipt read and the nonce read
+        jest.spyOn(api as any, 'send').mockImplementation(async (...args: unknown[]) => {
+            const { method } = args[0] as { method: string };
+            const respond = (result: unknown) => ({ jsonrpc: '2.0', id: 1, result });
+            switch (method) {
+                case 'eth_sendRawTransaction': return respond(TX_HASH);
+                case 'eth_getTransactionReceipt':
+                    return respond(receiptReads++ === 0 ? null : {
+                        transactionHash: TX_HASH, blockNumber: '0x64', blockHash: '0xblock100', status: '0x1', gasUsed: '0x5208', effectiveGasPrice: '0x1'
+                    });
+                case 'eth_getTransactionCount': return respond('0xa');
+                case 'eth_blockNumber': return respond('0x64');
+                case 'eth_getBlockByNumber': return respond({ number: '0x64', hash: '0xblock100' });
+                default: throw new Error(`unexpected ${method}`);
+            }
+        });
+
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, clock });
+
+        expect(result).toMatchObject({ status: 'confirmed', blockNumber: 100 });
+    });
+
+    it('should keep waiting when the receipt\'s block was reorged out', async () => {
+        const api = createFakeNode((state, poll) => {
+            if (poll === 0) {
+                state.receipt = receipt(101);
+                state.head = 101;
+                state.reorged[101] = '0xother';
+            }
+            if (poll === 1) state.receipt = receipt(102);
+            if (poll === 1) state.head = 102;
+        });
+        const onProgress = jest.fn();
+
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, onProgress, clock: createFakeClock() });
+
+        expect(result).toMatchObject({ status: 'confirmed', blockNumber: 102, blockHash: '0xblock102' });
+        expect(onProgress.mock.calls).toEqual([[0, 1], [1, 1]]);
+    });
+
+    it('should stop waiting as soon as the call is cancelled', async () => {
+        const controller = new AbortController();
+        const api = createFakeNode(() => undefined);
+        const clock = { now: () => 0, sleep: jest.fn(() => new Promise<void>(() => undefined)) };
+        setImmediate(() => controller.abort());
+
+        const result = await sendAndConfirm(api, RAW_TX, { preflight: false, signal: controller.signal, clock });
+
+        expect(result.status).toBe('timeout');
+        expect(clock.sleep).toHaveBeenCalledTimes(1);
+    });
+});
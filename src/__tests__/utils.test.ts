@@ -1,4 +1,16 @@
-import { hexToDecimal, hexToDecimalString, weiToEther, transformResponse } from '../utils';
+import {
+    hexToDecimal,
+    hexToDecimalString,
+    hexToQuantity,
+    toQuantity,
+    weiToEther,
+    formatUnits,
+    parseUnits,
+    convertUnits,
+    numberToDecimalString,
+    summarizeResponse,
+    transformResponse
+} from '../utils';
 
 describe('Utility Functions', () => {
     describe('hexToDecimal', () => {
@@ -13,6 +25,11 @@ describe('Utility Functions', () => {
             expect(hexToDecimal('')).toBe(0);
             expect(hexToDecimal('0x')).toBe(0);
         });
+
+        it('should refuse values above 2^53 instead of rounding them', () => {
+            expect(hexToDecimal('0x1fffffffffffff')).toBe(Number.MAX_SAFE_INTEGER);
+            expect(() => hexToDecimal('0x20000000000001')).toThrow('exceeds Number.MAX_SAFE_INTEGER');
+        });
     });
 
     describe('hexToDecimalString', () => {
@@ -43,6 +60,70 @@ describe('Utility Functions', () => {
         it('should handle empty input', () => {
             expect(weiToEther('')).toBe('0');
         });
+
+        it('should be exact for tiny and very large amounts', () => {
+            expect(weiToEther('0x1')).toBe('0.000000000000000001');
+            // 123456789.123456789123456789 ether
+            expect(weiToEther('0x661efdf2e3b19f7c045f15')).toBe('123456789.123456789123456789');
+        });
+    });
+
+    describe('hexToQuantity', () => {
+        it('should return numbers up to 2^53 and decimal strings above', () => {
+            expect(hexToQuantity('0x1fffffffffffff')).toBe(9007199254740991);
+            expect(hexToQuantity('0x20000000000000')).toBe('9007199254740992');
+        });
+    });
+
+    describe('toQuantity', () => {
+        it('should convert decimal and hex input to hex quantities', () => {
+            expect(toQuantity(255)).toBe('0xff');
+            expect(toQuantity('1000000000000000000')).toBe('0xde0b6b3a7640000');
+            expect(toQuantity('0x0A')).toBe('0xa');
+        });
+
+        it('should reject input that is not a non-negative integer', () => {
+            for (const value of ['1e18', '1.5', 'ten', '-1', -1]) {
+                expect(() => toQuantity(value)).toThrow(`Invalid quantity: ${value}`);
+            }
+        });
+    });
+
+    describe('unit conversion', () => {
+        it('should format integer amounts in any unit', () => {
+            expect(formatUnits(1500000000n, 'gwei')).toBe('1.5');
+            expect(formatUnits('0xde0b6b3a7640000', 'ether')).toBe('1');
+            expect(formatUnits('1234567', 6)).toBe('1.234567');
+            expect(formatUnits(-5n, 1)).toBe('-0.5');
+            expect(formatUnits(42n, 'wei')).toBe('42');
+        });
+
+        it('should parse decimal amounts exactly', () => {
+            expect(parseUnits('1.5', 'ether')).toBe(1500000000000000000n);
+            expect(parseUnits('.25', 'gwei')).toBe(250000000n);
+            expect(parseUnits('1.230000', 2)).toBe(123n);
+            expect(() => parseUnits('0.0000000001', 'gwei')).toThrow('more than 9 decimal places');
+            expect(() => parseUnits('1e18', 'wei')).toThrow('Invalid decimal amount');
+        });
+
+        it('should convert between units', () => {
+            expect(convertUnits('1.5', 'ether', 'gwei')).toBe('1500000000');
+            expect(convertUnits('0xde0b6b3a7640000', 'wei', 'ether')).toBe('1');
+            expect(convertUnits('2500000', 0, 6)).toBe('2.5');
+            expect(() => convertUnits('1', 'finney' as any, 'wei')).toThrow('Unknown unit');
+            // Hex amounts count whole units of from
+            expect(convertUnits('0x2', 'gwei', 'wei')).toBe('2000000000');
+        });
+
+        it('should write numbers without exponents', () => {
+            expect(numberToDecimalString(1e21)).toBe('1000000000000000000000');
+            expect(numberToDecimalString(1.5e21)).toBe('1500000000000000000000');
+            expect(numberToDecimalString(1e-7)).toBe('0.0000001');
+            expect(numberToDecimalString(-2.5e-8)).toBe('-0.000000025');
+            expect(numberToDecimalString(1.5)).toBe('1.5');
+            expect(convertUnits(numberToDecimalString(1e-7), 'ether', 'gwei')).toBe('100');
+            expect(() => numberToDecimalString(Infinity)).toThrow('Invalid decimal amount');
+        });
     });
 
     describe('transformResponse', () => {
@@ -122,6 +203,92 @@ describe('Utility Functions', () => {
             });
         });
 
+        it('should convert EIP-1559 and EIP-4844 transaction fields', () => {
+            const result = transformResponse('eth_getTransactionByHash', {
+                type: '0x3',
+                chainId: '0x1',
+                nonce: '0x7',
+                gas: '0x5208',
+                maxFeePerGas: '0x77359400',
+                maxPriorityFeePerGas: '0x3b9aca00',
+                maxFeePerBlobGas: '0x1',
+                value: '0x0',
+                accessList: [{ address: '0xabc', storageKeys: ['0x01'] }],
+                blobVersionedHashes: ['0x01ff'],
+                yParity: '0x1',
+                r: '0x1f',
+                input: '0x'
+            });
+            expect(result).toEqual({
+                type: 3,
+                chainId: 1,
+                nonce: 7,
+                gas: 21000,
+                maxFeePerGas: 2000000000,
+                maxPriorityFeePerGas: 1000000000,
+                maxFeePerBlobGas: 1,
+                value: { wei: '0', ether: '0' },
+                accessList: [{ address: '0xabc', storageKeys: ['0x01'] }],
+                blobVersionedHashes: ['0x01ff'],
+                yParity: 1,
+                r: '0x1f',
+                input: '0x'
+            });
+        });
+
+        it('should convert receipts and their logs', () => {
+            const result = transformResponse('eth_getTransactionReceipt', {
+                status: '0x1',
+                type: '0x2',
+                blockNumber: '0xa',
+                gasUsed: '0x5208',
+                blobGasUsed: '0x20000',
+                contractAddress: null,
+                logs: [{ blockNumber: '0xa', logIndex: '0x3', transactionIndex: '0x0', topics: ['0xdd'], data: '0x', removed: false }]
+            });
+            expect(result).toEqual({
+                status: 1,
+                type: 2,
+                blockNumber: 10,
+                gasUsed: 21000,
+                blobGasUsed: 131072,
+                contractAddress: null,
+                logs: [{ blockNumber: 10, logIndex: 3, transactionIndex: 0, topics: ['0xdd'], data: '0x', removed: false }]
+            });
+        });
+
+        it('should convert block fee, blob and withdrawal fields', () => {
+            const result = transformResponse('eth_getBlockByNumber', {
+                number: '0xa',
+                nonce: '0x0000000000000000',
+                baseFeePerGas: '0x7',
+                totalDifficulty: '0xc70d815d562d3cfa955',
+                excessBlobGas: '0x0',
+                withdrawals: [{ index: '0x1', validatorIndex: '0x2', address: '0xabc', amount: '0x3b9aca00' }],
+                transactions: ['0xaaa']
+            });
+            expect(result).toEqual({
+                number: 10,
+                nonce: '0x0000000000000000',
+                baseFeePerGas: 7,
+                totalDifficulty: '58750003716598352816469',
+                excessBlobGas: 0,
+                withdrawals: [{ index: 1, validatorIndex: 2, address: '0xabc', amount: 1000000000 }],
+                transactions: ['0xaaa']
+            });
+        });
+
+        it('should convert eth_getTransactionCount and eth_getLogs results', () => {
+            expect(transformResponse('eth_getTransactionCount', '0x10')).toBe(16);
+            expect(transformResponse('eth_getLogs', [{ blockNumber: '0x1', logIndex: '0x0' }]))
+                .toEqual([{ blockNumber: 1, logIndex: 0 }]);
+        });
+
+        it('should leave unknown methods and data results unchanged', () => {
+            expect(transformResponse('eth_call', '0x0001')).toBe('0x0001');
+            expect(transformResponse('debug_traceTransaction', { gas: '0x1' })).toEqual({ gas: '0x1' });
+        });
+
         it('should pass through non-numeric values unchanged', () => {
             const mockResult = {
                 hash: '0x123',
@@ -132,4 +299,46 @@ describe('Utility Functions', () => {
             expect(result.parentHash).toBe('0x456');
         });
     });
+
+    describe('summarizeResponse', () => {
+        const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+        it('should summarize converted and raw blocks alike', () => {
+            const raw = {
+                number: '0x121eac0',
+                timestamp: '0x65a2e1c3',
+                gasUsed: '0xbc614e',
+                baseFeePerGas: '0x5d21dba00',
+                transactions: ['0xaaa']
+            };
+            const expected = 'Block 19,000,000 mined 2024-01-13T19:17:23Z with 1 txs, 12.3M gas used, base fee 25 gwei';
+
+            expect(summarizeResponse('eth_getBlockByNumber', raw)).toBe(expected);
+            expect(summarizeResponse('eth_getBlockByNumber', transformResponse('eth_getBlockByNumber', raw))).toBe(expected);
+            expect(summarizeResponse('eth_getBlockByHash', null)).toBe('Block not found');
+        });
+
+        it('should summarize transactions, receipts and logs', () => {
+            expect(summarizeResponse('eth_getTransactionByHash', {
+                from: ADDRESS, to: null, value: { wei: '0', ether: '0' }, input: '0x6080', blockNumber: null
+            })).toBe(`Transaction from ${ADDRESS} creating a contract sending 0 ether with 2 bytes of calldata, pending`);
+            expect(summarizeResponse('eth_getTransactionReceipt', {
+                status: 0, blockNumber: 5, gasUsed: 21000, logs: []
+            })).toBe('Failed in block 5, 21,000 gas used, 0 logs');
+            expect(summarizeResponse('eth_getLogs', [{ blockNumber: 12 }, { blockNumber: 10, event: {} }]))
+                .toBe('2 logs from blocks 10 to 12, 1 decoded');
+        });
+
+        it('should summarize scalar results', () => {
+            expect(summarizeResponse('eth_getBalance', { wei: '1500000000000000000', ether: '1.5' })).toBe('Balance 1.5 ether');
+            expect(summarizeResponse('eth_gasPrice', '0x2540be400')).toBe('Gas price 10 gwei');
+            expect(summarizeResponse('eth_getCode', '0x')).toBe('No code: an externally owned account');
+            expect(summarizeResponse('eth_call', '0x' + '00'.repeat(32))).toBe('Call returned 32 bytes');
+        });
+
+        it('should return undefined for methods without a summary or unexpected shapes', () => {
+            expect(summarizeResponse('debug_traceTransaction', {})).toBeUndefined();
+            expect(summarizeResponse('eth_feeHistory', { get baseFeePerGas() { throw new Error('bad'); } })).toBeUndefined();
+        });
+    });
 });
@@ -0,0 +1,115 @@
+import { ValidationCloudAPI } from '../api';
+import { eventTopics, matchesArgs, parseEventSignature, watchEvents } from '../watch';
+
+const TRANSFER = parseEventSignature('Transfer(address indexed from, address indexed to, uint256 value)');
+const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+/** Fake client whose subscription delivers events when the test emits them */
+const createFakeApi = () => {
+    let listener: ((event: unknown) => void) | undefined;
+    const unsubscribe = jest.fn().mockResolvedValue(undefined);
+    const subscribe = jest.fn(async (_kind: string, _filter: unknown, onEvent: (event: unknown) => void) => {
+        listener = onEvent;
+        return { source: 'websocket', unsubscribe };
+    });
+    return {
+        api: { subscribe } as unknown as ValidationCloudAPI,
+        subscribe,
+        unsubscribe,
+        emit: (...events: unknown[]) => events.forEach(event => listener!(event))
+    };
+};
+
+describe('Watching events', () => {
+    it('should return once enough events match', async () => {
+        const { api, emit, unsubscribe } = createFakeApi();
+        const onMatch = jest.fn();
+
+        const watching = watchEvents(api, 'newHeads', undefined, (head: any) => head.number % 2 === 0 ? head : undefined, { count: 2, onMatch });
+        await Promise.resolve();
+        emit({ number: 1 }, { number: 2 }, { number: 3 }, { number: 4 }, { number: 6 });
+        const result = await watching;
+
+        expect(result).toMatchObject({ matches: [{ number: 2 }, { number: 4 }], requested: 2, ended: 'count', source: 'websocket' });
+        expect(onMatch.mock.calls).toEqual([[{ number: 2 }, 1], [{ number: 4 }, 2]]);
+        expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return what matched when the timeout passes', async () => {
+        jest.useFakeTimers();
+        try {
+            const { api, emit } = createFakeApi();
+            const watching = watchEvents(api, 'logs', {}, log => log, { count: 3, timeoutSeconds: 5 });
+            await Promise.resolve();
+            emit({ logIndex: 0 });
+            jest.advanceTimersByTime(5000);
+
+            expect(await watching).toMatchObject({ matches: [{ logIndex: 0 }], ended: 'timeout' });
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('should stop when the call is cancelled', async () => {
+        const { api } = createFakeApi();
+        const controller = new AbortController();
+
+        const watching = watchEvents(api, 'newPendingTransactions', undefined, hash => hash, { signal: controller.signal });
+        controller.abort();
+
+        expect(await watching).toMatchObject({ matches: [], ended: 'cancelled' });
+    });
+
+    it('should queue events while too many checks are running', async () => {
+        const { api, emit } = createFakeApi();
+        const lookups: ((value: string | undefined) => void)[] = [];
+
+        const watching = watchEvents(api, 'newPendingTransactions', undefined,
+            () => new Promise<string | undefined>(resolve => lookups.push(resolve)), { count: 1 });
+        await Promise.resolve();
+        emit(...Array.from({ length: 10 }, (_, index) => `0x${index}`));
+        expect(lookups).toHaveLength(8);
+
+        lookups[0](undefined);
+        await new Promise(resolve => setImmediate(resolve));
+        expect(lookups).toHaveLength(9);
+        lookups[8]('0x8');
+
+        const result = await watching;
+        expect(result).toMatchObject({ matches: ['0x8'] });
+        expect(result).not.toHaveProperty('skipped');
+    });
+
+    it('should skip events once the queue is full', async () => {
+        const { api, emit } = createFakeApi();
+        const lookups: ((value: string | undefined) => void)[] = [];
+
+        const watching = watchEvents(api, 'newPendingTransactions', undefined,
+            () => new Promise<string | undefined>(resolve => lookups.push(resolve)), { count: 1 });
+        await Promise.resolve();
+        emit(...Array.from({ length: 8 + 1000 + 2 }, (_, index) => `0x${index.toString(16)}`));
+        lookups[3]('0x3');
+
+        expect(await watching).toMatchObject({ matches: ['0x3'], skipped: 2 });
+    });
+
+    it('should turn indexed argument values into topics', () => {
+        const topic0 = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+        expect(eventTopics(TRANSFER)).toEqual([topic0]);
+        expect(eventTopics(TRANSFER, { to: ADDRESS, value: '5' })).toEqual([
+            topic0,
+            null,
+            `0x000000000000000000000000${ADDRESS.slice(2).toLowerCase()}`
+        ]);
+        expect(() => eventTopics(TRANSFER, { recipient: ADDRESS })).toThrow('has no argument "recipient"');
+    });
+
+    it('should compare decoded arguments by value', () => {
+        const args = { from: ADDRESS, to: ADDRESS, value: '16' };
+
+        expect(matchesArgs(args, { to: ADDRESS.toLowerCase(), value: '0x10' })).toBe(true);
+        expect(matchesArgs(args, { value: 17 })).toBe(false);
+        expect(matchesArgs(args, { missing: 1 })).toBe(false);
+    });
+});
@@ -0,0 +1,649 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { AbiFragment, AbiParameter, EthereumErrorCode, ValidationCloudError } from './types.js';
+
+const WORD_SIZE = 32;
+
+/**
+ * Keccak-256 hash
+ * @param data - Hex string (with '0x' prefix) or raw bytes; other strings are hashed as UTF-8
+ * @returns Hash as 0x-prefixed hex
+ */
+export function keccak256(data: string | Uint8Array): string {
+    const bytes = typeof data === 'string'
+        ? (/^0x([0-9a-fA-F]{2})*$/.test(data) ? hexToBytes(data.slice(2)) : utf8ToBytes(data))
+        : data;
+    return `0x${bytesToHex(keccak_256(bytes))}`;
+}
+
+/**
+ * Convert an address to its EIP-55 mixed-case checksum form
+ * @param address - 20-byte hex address
+ * @returns Checksummed address
+ */
+export function toChecksumAddress(address: string): string {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        throw new ValidationCloudError(`Invalid address: ${address}`, EthereumErrorCode.INVALID_PARAMS);
+    }
+
+    const lower = address.slice(2).toLowerCase();
+    const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+    let result = '0x';
+    for (let i = 0; i < lower.length; i++) {
+        result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+    }
+    return result;
+}
+
+/**
+ * Split a comma-separated list at the top level, ignoring commas inside parentheses
+ */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+/**
+ * Find the parenthesis closing the one at `start`
+ */
+function matchingParen(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        if (text[i] === ')' && --depth === 0) return i;
+    }
+    throw new ValidationCloudError(`Unbalanced parentheses in "${text}"`, EthereumErrorCode.INVALID_PARAMS);
+}
+
+function normalizeBaseType(type: string): string {
+    if (type === 'uint') return 'uint256';
+    if (type === 'int') return 'int256';
+    if (type === 'byte') return 'bytes1';
+    return type;
+}
+
+/**
+ * Parse one human-readable parameter such as `address indexed from` or
+ * `(uint256 amount, address to)[] transfers`
+ * @param text - Parameter declaration
+ * @returns JSON ABI parameter
+ */
+export function parseParameter(text: string): AbiParameter {
+    let rest = text.trim();
+    let param: AbiParameter;
+
+    if (rest.startsWith('(') || rest.startsWith('tuple(')) {
+        const open = rest.indexOf('(');
+        const close = matchingParen(rest, open);
+        const suffix = rest.slice(close + 1).match(/^(\[\d*\])*/)![0];
+        param = {
+            type: `tuple${suffix}`,
+            components: splitTopLevel(rest.slice(open + 1, close)).map(parseParameter)
+        };
+        rest = rest.slice(close + 1 + suffix.length).trim();
+    } else {
+        const [type, ...words] = rest.split(/\s+/);
+        const match = type.match(/^([a-z]+\d*)((\[\d*\])*)$/);
+        if (!match) {
+            throw new ValidationCloudError(`Invalid parameter type "${type}"`, EthereumErrorCode.INVALID_PARAMS);
+        }
+        param = { type: normalizeBaseType(match[1]) + match[2] };
+        rest = words.join(' ');
+    }
+
+    for (const word of rest.split(/\s+/).filter(Boolean)) {
+        if (word === 'indexed') {
+            param.indexed = true;
+        } else if (!['memory', 'calldata', 'storage', 'payable'].includes(word)) {
+            param.name = word;
+        }
+    }
+
+    validateType(param);
+    return param;
+}
+
+/**
+ * Parse a human-readable signature such as
+ * `function balanceOf(address owner) view returns (uint256)`,
+ * `event Transfer(address indexed from, address indexed to, uint256 value)` or
+ * `transfer(address,uint256)`
+ * @param signature - Human-readable signature; defaults to a function without a keyword
+ * @returns JSON ABI fragment
+ */
+export function parseSignature(signature: string): AbiFragment {
+    const text = signature.trim();
+    const keywordMatch = text.match(/^(function|event|error)\s+/);
+    const type = (keywordMatch?.[1] || 'function') as AbiFragment['type'];
+    const body = keywordMatch ? text.slice(keywordMatch[0].length) : text;
+
+    const open = body.indexOf('(');
+    const name = body.slice(0, open).trim();
+    if (open < 0 || !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)) {
+        throw new ValidationCloudError(`Invalid signature "${signature}"`, EthereumErrorCode.INVALID_PARAMS);
+    }
+
+    const close = matchingParen(body, open);
+    const fragment: AbiFragment = {
+        type,
+        name,
+        inputs: splitTopLevel(body.slice(open + 1, close)).map(parseParameter)
+    };
+
+    const modifiers = body.slice(close + 1).trim();
+    const returnsIndex = modifiers.search(/\breturns\s*\(/);
+    const words = (returnsIndex >= 0 ? modifiers.slice(0, returnsIndex) : modifiers).split(/\s+/).filter(Boolean);
+
+    if (type === 'event') {
+        fragment.anonymous = words.includes('anonymous');
+    }
+    if (type === 'function') {
+        fragment.stateMutability = words.find(word => ['view', 'pure', 'payable', 'nonpayable'].includes(word))
+            || 'nonpayable';
+        fragment.outputs = [];
+        if (returnsIndex >= 0) {
+            const returnsOpen = modifiers.indexOf('(', returnsIndex);
+            const returnsClose = matchingParen(modifiers, returnsOpen);
+            fragment.outputs = splitTopLevel(modifiers.slice(returnsOpen + 1, returnsClose)).map(parseParameter);
+        }
+    }
+
+    return fragment;
+}
+
+/**
+ * Normalise an ABI given as JSON text, a JSON ABI array or fragment, or
+ * human-readable signatures
+ * @param abi - ABI in any supported form
+ * @returns Function, event and error fragments; other entries are dropped
+ */
+export function parseAbi(abi: unknown): AbiFragment[] {
+    if (typeof abi === 'string') {
+        const trimmed = abi.trim();
+        if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+            try {
+                return parseAbi(JSON.parse(trimmed));
+            } catch (error) {
+                if (error instanceof ValidationCloudError) throw error;
+                throw new ValidationCloudError('ABI is not valid JSON', EthereumErrorCode.INVALID_PARAMS);
+            }
+        }
+        return [parseSignature(trimmed)];
+    }
+
+    if (Array.isArray(abi)) {
+        return abi.flatMap(entry => parseAbi(entry));
+    }
+
+    if (abi && typeof abi === 'object') {
+        const entry = abi as Record<string, any>;
+        if (!['function', 'event', 'error'].includes(entry.type ?? 'function')) {
+            return [];
+        }
+        const fragment: AbiFragment = {
+            type: entry.type ?? 'function',
+            name: entry.name,
+            inputs: entry.inputs ?? [],
+            ...(entry.outputs && { outputs: entry.outputs }),
+            ...(entry.stateMutability && { stateMutability: entry.stateMutability }),
+            ...(entry.anonymous !== undefined && { anonymous: entry.anonymous })
+        };
+        if (typeof fragment.name !== 'string' || !Array.isArray(fragment.inputs)) {
+            throw new ValidationCloudError('ABI fragment requires a name and inputs', EthereumErrorCode.INVALID_PARAMS);
+        }
+        [...fragment.inputs, ...(fragment.outputs ?? [])].forEach(validateType);
+        return [fragment];
+    }
+
+    throw new ValidationCloudError('ABI must be a JSON ABI or a list of signatures', EthereumErrorCode.INVALID_PARAMS);
+}
+
+/**
+ * Canonical type string used in signatures, e.g. `(uint256,address)[]`
+ * @param param - ABI parameter
+ * @returns Canonical type
+ */
+export function formatType(param: AbiParameter): string {
+    if (param.type.startsWith('tuple')) {
+        return `(${(param.components ?? []).map(formatType).join(',')})${param.type.slice('tuple'.length)}`;
+    }
+    return param.type;
+}
+
+/**
+ * Canonical signature, e.g. `transfer(address,uint256)`
+ * @param fragment - ABI fragment
+ * @returns Signature used to derive the selector
+ */
+export function formatSignature(fragment: AbiFragment): string {
+    return `${fragment.name}(${fragment.inputs.map(formatType).join(',')})`;
+}
+
+/**
+ * Four-byte selector of a function or error
+ * @param fragment - ABI fragment or canonical signature
+ * @returns Selector as 0x-prefixed hex
+ */
+export function selector(fragment: AbiFragment | string): string {
+    const signature = typeof fragment === 'string' ? fragment : formatSignature(fragment);
+    return keccak256(utf8ToBytes(signature)).slice(0, 10);
+}
+
+/**
+ * Topic hash of an event
+ * @param fragment - Event fragment or canonical signature
+ * @returns Topic as 0x-prefixed hex
+ */
+export function eventTopic(fragment: AbiFragment | string): string {
+    const signature = typeof fragment === 'string' ? fragment : formatSignature(fragment);
+    return keccak256(utf8ToBytes(signature));
+}
+
+interface ArrayType {
+    child: AbiParameter;
+    length?: number;
+}
+
+function arrayType(param: AbiParameter): ArrayType | undefined {
+    const match = param.type.match(/^(.*)\[(\d*)\]$/);
+    if (!match) return undefined;
+    return {
+        child: { ...param, type: match[1], name: undefined },
+        length: match[2] === '' ? undefined : Number(match[2])
+    };
+}
+
+function validateType(param: AbiParameter): void {
+    const array = arrayType(param);
+    if (array) {
+        validateType(array.child);
+        return;
+    }
+
+    const { type } = param;
+    const intMatch = type.match(/^u?int(\d+)$/);
+    const bytesMatch = type.match(/^bytes(\d+)$/);
+    const valid = (intMatch && Number(intMatch[1]) % 8 === 0 && Number(intMatch[1]) >= 8 && Number(intMatch[1]) <= 256)
+        || (bytesMatch && Number(bytesMatch[1]) >= 1 && Number(bytesMatch[1]) <= 32)
+        || ['address', 'bool', 'string', 'bytes', 'function'].includes(type)
+        || (type === 'tuple' && Array.isArray(param.components));
+    if (!valid) {
+        throw new ValidationCloudError(`Unsupported ABI type "${type}"`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    param.components?.forEach(validateType);
+}
+
+function isDynamic(param: AbiParameter): boolean {
+    const array = arrayType(param);
+    if (array) return array.length === undefined || isDynamic(array.child);
+    if (param.type === 'string' || param.type === 'bytes') return true;
+    if (param.type === 'tuple') return (param.components ?? []).some(isDynamic);
+    return false;
+}
+
+function staticSize(param: AbiParameter): number {
+    const array = arrayType(param);
+    if (array) return array.length! * staticSize(array.child);
+    if (param.type === 'tuple') return (param.components ?? []).reduce((total, c) => total + staticSize(c), 0);
+    return WORD_SIZE;
+}
+
+function headSize(param: AbiParameter): number {
+    return isDynamic(param) ? WORD_SIZE : staticSize(param);
+}
+
+function encodeError(param: AbiParameter, value: unknown, reason: string): ValidationCloudError {
+    const label = param.name ? `${param.name} (${param.type})` : param.type;
+    return new ValidationCloudError(
+        `Cannot encode ${JSON.stringify(value)} as ${label}: ${reason}`,
+        EthereumErrorCode.INVALID_PARAMS
+    );
+}
+
+function toBigInt(param: AbiParameter, value: unknown): bigint {
+    try {
+        if (typeof value === 'bigint') return value;
+        if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+        if (typeof value === 'string' && /^-?(0x[0-9a-fA-F]+|\d+)$/.test(value.trim())) {
+            const trimmed = value.trim();
+            return trimmed.startsWith('-') ? -BigInt(trimmed.slice(1)) : BigInt(trimmed);
+        }
+    } catch (error) {
+        // Fall through to the error below
+    }
+    throw encodeError(param, value, 'expected an integer, decimal string or hex string');
+}
+
+function wordHex(value: bigint): string {
+    return value.toString(16).padStart(WORD_SIZE * 2, '0');
+}
+
+function padRight(hex: string): string {
+    const padded = Math.ceil(hex.length / (WORD_SIZE * 2)) * WORD_SIZE * 2;
+    return hex.padEnd(padded, '0');
+}
+
+function bytesHex(param: AbiParameter, value: unknown): string {
+    if (value instanceof Uint8Array) return bytesToHex(value);
+    if (typeof value === 'string' && /^0x([0-9a-fA-F]{2})*$/.test(value)) return value.slice(2).toLowerCase();
+    throw encodeError(param, value, 'expected 0x-prefixed hex bytes');
+}
+
+function tupleValues(param: AbiParameter, components: AbiParameter[], value: unknown): unknown[] {
+    if (Array.isArray(value)) {
+        if (value.length !== components.length) {
+            throw encodeError(param, value, `expected ${components.length} values`);
+        }
+        return value;
+    }
+    if (value && typeof value === 'object') {
+        return components.map((component, index) => {
+            const key = component.name || String(index);
+            if (!(key in (value as object))) {
+                throw encodeError(param, value, `missing member "${key}"`);
+            }
+            return (value as Record<string, unknown>)[key];
+        });
+    }
+    throw encodeError(param, value, 'expected an array or object');
+}
+
+function encodeSequence(params: AbiParameter[], values: unknown[]): string {
+    let offset = params.reduce((total, param) => total + headSize(param), 0);
+    const heads: string[] = [];
+    const tails: string[] = [];
+
+    params.forEach((param, index) => {
+        const encoded = encodeValue(param, values[index]);
+        if (isDynamic(param)) {
+            heads.push(wordHex(BigInt(offset)));
+            tails.push(encoded);
+            offset += encoded.length / 2;
+        } else {
+            heads.push(encoded);
+        }
+    });
+
+    return heads.join('') + tails.join('');
+}
+
+function encodeValue(param: AbiParameter, value: unknown): string {
+    const array = arrayType(param);
+    if (array) {
+        if (!Array.isArray(value)) throw encodeError(param, value, 'expected an array');
+        if (array.length !== undefined && value.length !== array.length) {
+            throw encodeError(param, value, `expected ${array.length} elements`);
+        }
+        const encoded = encodeSequence(value.map(() => array.child), value);
+        return array.length === undefined ? wordHex(BigInt(value.length)) + encoded : encoded;
+    }
+
+    const { type } = param;
+    if (type === 'tuple') {
+        const components = param.components ?? [];
+        return encodeSequence(components, tupleValues(param, components, value));
+    }
+
+    if (type === 'address') {
+        if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+            throw encodeError(param, value, 'expected a 20-byte hex address');
+        }
+        return value.slice(2).toLowerCase().padStart(WORD_SIZE * 2, '0');
+    }
+
+    if (type === 'bool') {
+        if (value === true || value === 'true') return wordHex(1n);
+        if (value === false || value === 'false') return wordHex(0n);
+        throw encodeError(param, value, 'expected a boolean');
+    }
+
+    if (type === 'string') {
+        if (typeof value !== 'string') throw encodeError(param, value, 'expected a string');
+        const hex = bytesToHex(utf8ToBytes(value));
+        return wordHex(BigInt(hex.length / 2)) + padRight(hex);
+    }
+
+    if (type === 'bytes') {
+        const hex = bytesHex(param, value);
+        return wordHex(BigInt(hex.length / 2)) + padRight(hex);
+    }
+
+    const fixedBytes = type.match(/^bytes(\d+)$/);
+    if (fixedBytes) {
+        const hex = bytesHex(param, value);
+        if (hex.length / 2 > Number(fixedBytes[1])) {
+            throw encodeError(param, value, `expected at most ${fixedBytes[1]} bytes`);
+        }
+        return hex.padEnd(WORD_SIZE * 2, '0');
+    }
+
+    const int = type.match(/^(u?)int(\d+)$/);
+    if (int) {
+        const bits = BigInt(int[2]);
+        const n = toBigInt(param, value);
+        const unsigned = int[1] === 'u';
+        const min = unsigned ? 0n : -(1n << (bits - 1n));
+        const max = unsigned ? (1n << bits) - 1n : (1n << (bits - 1n)) - 1n;
+        if (n < min || n > max) throw encodeError(param, value, 'out of range');
+        return wordHex(n < 0n ? (1n << 256n) + n : n);
+    }
+
+    if (type === 'function') {
+        const hex = bytesHex(param, value);
+        if (hex.length !== 48) throw encodeError(param, value, 'expected 24 bytes');
+        return hex.padEnd(WORD_SIZE * 2, '0');
+    }
+
+    throw encodeError(param, value, 'unsupported type');
+}
+
+/**
+ * ABI-encode values
+ * @param params - Parameter types
+ * @param values - Values, positionally matching `params`
+ * @returns Encoded data as 0x-prefixed hex
+ */
+export function encodeParameters(params: AbiParameter[], values: unknown[]): string {
+    if (values.length !== params.length) {
+        throw new ValidationCloudError(
+            `Expected ${params.length} arguments but received ${values.length}`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+    return `0x${encodeSequence(params, values)}`;
+}
+
+/**
+ * Encode a function call as calldata
+ * @param fragment - Function fragment
+ * @param args - Arguments as an array, or an object keyed by parameter name
+ * @returns Selector followed by the encoded arguments
+ */
+export function encodeFunctionData(fragment: AbiFragment, args: unknown[] | Record<string, unknown> = []): string {
+    const values = Array.isArray(args)
+        ? args
+        : tupleValues({ type: 'tuple', name: fragment.name }, fragment.inputs, args);
+    return selector(fragment) + encodeParameters(fragment.inputs, values).slice(2);
+}
+
+class Reader {
+    constructor(readonly data: Uint8Array) {}
+
+    word(offset: number): Uint8Array {
+        if (offset < 0 || offset + WORD_SIZE > this.data.length) {
+            throw new ValidationCloudError(
+                `ABI data too short: need ${offset + WORD_SIZE} bytes but have ${this.data.length}`
+            );
+        }
+        return this.data.subarray(offset, offset + WORD_SIZE);
+    }
+
+    uint(offset: number): bigint {
+        return BigInt(`0x${bytesToHex(this.word(offset))}`);
+    }
+
+    /** Read a word used as a length or offset, which must fit in the data */
+    size(offset: number): number {
+        const value = this.uint(offset);
+        if (value > BigInt(this.data.length)) {
+            throw new ValidationCloudError(`ABI offset or length ${value} exceeds data size ${this.data.length}`);
+        }
+        return Number(value);
+    }
+
+    bytes(offset: number, length: number): Uint8Array {
+        if (offset + length > this.data.length) {
+            throw new ValidationCloudError(`ABI data too short for ${length} bytes at offset ${offset}`);
+        }
+        return this.data.subarray(offset, offset + length);
+    }
+}
+
+function decodeSequence(params: AbiParameter[], reader: Reader, base: number): unknown[] {
+    let position = base;
+    return params.map(param => {
+        const value = isDynamic(param)
+            ? decodeValue(param, reader, base + reader.size(position))
+            : decodeValue(param, reader, position);
+        position += headSize(param);
+        return value;
+    });
+}
+
+/**
+ * Turn decoded values into an object keyed by parameter name when every
+ * parameter is named, otherwise keep them as an array
+ */
+function nameValues(params: AbiParameter[], values: unknown[]): unknown[] | Record<string, unknown> {
+    if (params.length === 0 || params.some(param => !param.name)) return values;
+    return Object.fromEntries(params.map((param, index) => [param.name!, values[index]]));
+}
+
+function decodeValue(param: AbiParameter, reader: Reader, offset: number): unknown {
+    const array = arrayType(param);
+    if (array) {
+        let length = array.length;
+        let start = offset;
+        if (length === undefined) {
+            length = reader.size(offset);
+            start += WORD_SIZE;
+        }
+        // Every element needs at least one word, which bounds malicious lengths
+        if (start + length * WORD_SIZE > reader.data.length && length > 0) {
+            throw new ValidationCloudError(`ABI array length ${length} exceeds data size`);
+        }
+        return decodeSequence(Array.from({ length }, () => array.child), reader, start);
+    }
+
+    const { type } = param;
+    if (type === 'tuple') {
+        const components = param.components ?? [];
+        return nameValues(components, decodeSequence(components, reader, offset));
+    }
+
+    if (type === 'address') {
+        return toChecksumAddress(`0x${bytesToHex(reader.word(offset).subarray(12))}`);
+    }
+
+    if (type === 'bool') {
+        const value = reader.uint(offset);
+        if (value > 1n) throw new ValidationCloudError(`Invalid bool value ${value}`);
+        return value === 1n;
+    }
+
+    if (type === 'string' || type === 'bytes') {
+        const length = reader.size(offset);
+        const bytes = reader.bytes(offset + WORD_SIZE, length);
+        return type === 'string' ? new TextDecoder().decode(bytes) : `0x${bytesToHex(bytes)}`;
+    }
+
+    const fixedBytes = type.match(/^bytes(\d+)$/);
+    if (fixedBytes) {
+        return `0x${bytesToHex(reader.word(offset).subarray(0, Number(fixedBytes[1])))}`;
+    }
+
+    const int = type.match(/^(u?)int(\d+)$/);
+    if (int) {
+        const value = reader.uint(offset);
+        if (int[1] === 'u') return value.toString();
+        return (value >= 1n << 255n ? value - (1n << 256n) : value).toString();
+    }
+
+    if (type === 'function') {
+        return `0x${bytesToHex(reader.word(offset).subarray(0, 24))}`;
+    }
+
+    throw new ValidationCloudError(`Unsupported ABI type "${type}"`);
+}
+
+/**
+ * ABI-decode data into JSON-safe values: integers become decimal strings,
+ * addresses are checksummed, bytes are hex and tuples become objects when
+ * all members are named
+ * @param params - Parameter types
+ * @param data - Encoded data as 0x-prefixed hex
+ * @returns Decoded values in parameter order
+ */
+export function decodeParameters(params: AbiParameter[], data: string): unknown[] {
+    if (!/^0x([0-9a-fA-F]{2})*$/.test(data)) {
+        throw new ValidationCloudError('ABI data must be 0x-prefixed hex');
+    }
+    return decodeSequence(params, new Reader(hexToBytes(data.slice(2))), 0);
+}
+
+/**
+ * Decode data into an object keyed by parameter name, using the position
+ * for unnamed parameters
+ * @param params - Parameter types
+ * @param data - Encoded data as 0x-prefixed hex
+ * @returns Named values
+ */
+export function decodeNamed(params: AbiParameter[], data: string): Record<string, unknown> {
+    const values = decodeParameters(params, data);
+    return Object.fromEntries(params.map((param, index) => [param.name || String(index), values[index]]));
+}
+
+/**
+ * Find a function in an ABI by name or signature
+ * @param abi - Parsed ABI
+ * @param nameOrSignature - `balanceOf` or `balanceOf(address)`
+ * @param argCount - Number of arguments, used to pick between overloads
+ * @returns Matching function fragment
+ */
+export function findFunction(abi: AbiFragment[], nameOrSignature: string, argCount?: number): AbiFragment {
+    const functions = abi.filter(fragment => fragment.type === 'function');
+    const wanted = nameOrSignature.includes('(')
+        ? formatSignature(parseSignature(nameOrSignature))
+        : undefined;
+
+    const matches = functions.filter(fragment => wanted
+        ? formatSignature(fragment) === wanted
+        : fragment.name === nameOrSignature && (argCount === undefined || fragment.inputs.length === argCount));
+
+    if (matches.length === 0) {
+        throw new ValidationCloudError(
+            `Function "${nameOrSignature}" not found in ABI`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+    if (matches.length > 1) {
+        throw new ValidationCloudError(
+            `Function "${nameOrSignature}" is overloaded; use one of ${matches.map(formatSignature).join(', ')}`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+    return matches[0];
+}
@@ -1,13 +1,26 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import {
+    CacheStats,
+    Clock,
+    RateLimiter,
+    RetryPolicy,
     ValidationCloudConfig,
     ValidationCloudError,
     NodeRequestParams,
     ValidationCloudResponse,
+    BatchResponseItem,
     EthereumParams,
     EthereumErrorCode
 } from './types.js';
 import { transformResponse } from './utils.js';
+import { categorizeError } from './errors.js';
+import { DEFAULT_RETRY_POLICY, isIdempotent, isRetryableError, retryDelay, systemClock } from './retry.js';
+import { TokenBucket } from './rateLimiter.js';
+import { ResponseCache, blockNumberOf } from './cache.js';
+import { Policy } from './policy.js';
+import { sanitizeError } from './redact.js';
+import { RedactingLogger, StderrLogger } from './logger.js';
+import { LogSubscriptionFilter, Subscription, SubscriptionKind, SubscriptionManager, SubscriptionOptions } from './subscriptions.js';
 
 export interface Logger {
     debug(message: string, ...args: any[]): void;
@@ -16,29 +29,21 @@ export interface Logger {
     error(message: string, ...args: any[]): void;
 }
 
-class DefaultLogger implements Logger {
-    debug(message: string, ...args: any[]): void {
-        console.debug(`[ValidationCloudAPI] ${message}`, ...args);
-    }
-
-    info(message: string, ...args: any[]): void {
-        console.log(`[ValidationCloudAPI] ${message}`, ...args);
-    }
-
-    warn(message: string, ...args: any[]): void {
-        console.warn(`[ValidationCloudAPI] ${message}`, ...args);
-    }
-
-    error(message: string, ...args: any[]): void {
-        console.error(`[ValidationCloudAPI] ${message}`, ...args);
-    }
-}
-
 export class ValidationCloudAPI {
     private readonly client: AxiosInstance;
     private readonly logger: Logger;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly rateLimiter?: RateLimiter;
+    private readonly clock: Clock;
+    private readonly cache?: ResponseCache;
+    private readonly secrets: string[];
+    /** Request policy, if one is configured */
+    readonly policy?: Policy;
+    private readonly subscriptionOptions: SubscriptionOptions;
+    private subscriptions?: SubscriptionManager;
     private static readonly DEFAULT_BASE_URL = 'https://mainnet.ethereum.validationcloud.io/v1';
     private static readonly DEFAULT_TIMEOUT = 30000;
+    private static readonly DEFAULT_API_KEY_HEADER = 'X-API-Key';
     private messageId = 1;
 
     constructor(config: ValidationCloudConfig & { logger?: Logger }) {
@@ -46,14 +51,45 @@ export class ValidationCloudAPI {
             throw new Error('API key is required');
         }
 
-        this.logger = config.logger || new DefaultLogger();
-        const baseUrl = `${config.baseURL || ValidationCloudAPI.DEFAULT_BASE_URL}/${config.apiKey}`;
+        this.secrets = [config.apiKey];
+        this.logger = new RedactingLogger(config.logger || new StderrLogger('[ValidationCloudAPI]'), this.secrets);
+        this.clock = config.clock || systemClock;
+        this.retryPolicy = config.retry === false
+            ? { ...DEFAULT_RETRY_POLICY, maxRetries: 0 }
+            : { ...DEFAULT_RETRY_POLICY, ...config.retry };
+        if (config.cache) {
+            this.cache = new ResponseCache(config.cache, () => this.clock.now());
+        }
+        if (config.policy) {
+            this.policy = new Policy(config.policy);
+        }
+        if (config.rateLimit) {
+            this.rateLimiter = 'acquire' in config.rateLimit
+                ? config.rateLimit
+                : new TokenBucket(config.rateLimit, this.clock);
+        }
+        const useHeader = config.apiKeyLocation === 'header';
+        const baseUrl = useHeader
+            ? config.baseURL || ValidationCloudAPI.DEFAULT_BASE_URL
+            : `${config.baseURL || ValidationCloudAPI.DEFAULT_BASE_URL}/${config.apiKey}`;
+
+        this.subscriptionOptions = {
+            ...(config.webSocketURL && {
+                url: useHeader ? config.webSocketURL : `${config.webSocketURL}/${config.apiKey}`,
+                headers: useHeader ? { [config.apiKeyHeader || ValidationCloudAPI.DEFAULT_API_KEY_HEADER]: config.apiKey } : {}
+            }),
+            pollIntervalMs: config.subscriptionPollIntervalMs,
+            logger: this.logger
+        };
 
         this.client = axios.create({
             baseURL: baseUrl,
             timeout: config.timeout || ValidationCloudAPI.DEFAULT_TIMEOUT,
             headers: {
-                'Content-Type': 'application/json'
+                'Content-Type': 'application/json',
+                ...(useHeader && {
+                    [config.apiKeyHeader || ValidationCloudAPI.DEFAULT_API_KEY_HEADER]: config.apiKey
+                })
             }
         });
     }
@@ -96,6 +132,30 @@ export class ValidationCloudAPI {
     }
 
     async request(params: NodeRequestParams): Promise<ValidationCloudResponse> {
+        // Checked before the cache so a stricter policy also covers cached results
+        this.policy?.check(params.method, params.params);
+
+        // The cache holds results as the node sent them so raw and converted
+        // requests share entries
+        const response = !this.cache || params.fresh
+            ? await this.send(params)
+            : await this.cache.wrap(
+                params.method,
+                params.params,
+                () => this.send(params),
+                async () => {
+                    const head = await this.send({ method: 'eth_getBlockByNumber', params: ['finalized', false] });
+                    return blockNumberOf(head.result?.number);
+                }
+            );
+
+        if (params.raw || response.result === undefined) {
+            return response;
+        }
+        return { ...response, result: transformResponse(params.method, response.result) };
+    }
+
+    private async send(params: NodeRequestParams): Promise<ValidationCloudResponse> {
         try {
             this.validateParams(params.method, params.params);
 
@@ -106,38 +166,220 @@ export class ValidationCloudAPI {
                 params: params.params || []
             };
 
-            const response = await this.client.post<ValidationCloudResponse>('', requestBody);
+            const response = await this.post<ValidationCloudResponse>(
+                requestBody,
+                isIdempotent(params.method)
+            );
 
-            if (response.data.result !== undefined) {
-                response.data.result = transformResponse(params.method, response.data.result);
+            if (response.data.error) {
+                throw new ValidationCloudError(
+                    response.data.error.message,
+                    response.data.error.code,
+                    undefined,
+                    response.data.error.data
+                );
             }
 
             return response.data;
         } catch (error) {
-            if (axios.isAxiosError(error)) {
+            throw this.toValidationCloudError(error);
+        }
+    }
+
+    /**
+     * Send several requests as one JSON-RPC batch
+     *
+     * Each request is validated on its own; requests that fail validation are
+     * reported in place and not sent. Responses are matched to requests by id
+     * and returned in request order.
+     * @param requests - Requests to send
+     * @returns One entry per request, with either a result or an error
+     */
+    async batchRequest(requests: NodeRequestParams[]): Promise<BatchResponseItem[]> {
+        if (requests.length === 0) {
+            throw new ValidationCloudError(
+                'Batch request requires at least one request',
+                EthereumErrorCode.INVALID_PARAMS
+            );
+        }
+
+        const items: BatchResponseItem[] = [];
+        const requestBodies: { jsonrpc: string; id: number; method: keyof EthereumParams; params: any[] }[] = [];
+
+        for (const params of requests) {
+            const id = this.messageId++;
+            try {
+                this.policy?.check(params.method, params.params);
+                this.validateParams(params.method, params.params);
+                requestBodies.push({
+                    jsonrpc: '2.0',
+                    id,
+                    method: params.method,
+                    params: params.params || []
+                });
+                items.push({ id, method: params.method });
+            } catch (error) {
+                const validationError = this.toValidationCloudError(error);
+                items.push({
+                    id,
+                    method: params.method,
+                    error: { code: validationError.code, message: validationError.message }
+                });
+            }
+        }
+
+        if (requestBodies.length === 0) {
+            return items;
+        }
+
+        let responses: ValidationCloudResponse[];
+        try {
+            const response = await this.post<ValidationCloudResponse[] | ValidationCloudResponse>(
+                requestBodies,
+                requestBodies.every(body => isIdempotent(body.method))
+            );
+            if (!Array.isArray(response.data)) {
                 throw new ValidationCloudError(
-                    error.response?.data?.message || error.message,
-                    error.response?.status,
-                    error.response?.data as Record<string, any>
+                    response.data?.error?.message || 'Batch request did not return an array',
+                    response.data?.error?.code,
+                    response.data?.error
                 );
             }
+            responses = response.data;
+        } catch (error) {
+            throw this.toValidationCloudError(error);
+        }
+
+        const responsesById = new Map(responses.map(response => [response.id, response]));
+        items.forEach((item, index) => {
+            if (item.error) return;
 
-            if (error instanceof ValidationCloudError) {
-                throw error;
+            const response = responsesById.get(item.id);
+            if (!response) {
+                item.error = { message: `No response received for request ${item.id}` };
+            } else if (response.error) {
+                item.error = { ...response.error, category: categorizeError(response.error) };
+            } else {
+                item.result = requests[index].raw ? response.result : transformResponse(item.method, response.result);
             }
+        });
 
-            throw new ValidationCloudError(
-                error instanceof Error ? error.message : 'Unknown error',
-                undefined,
-                undefined
-            );
+        return items;
+    }
+
+    /**
+     * POST a JSON-RPC body, waiting for the rate limiter and retrying
+     * transient failures when the request is idempotent
+     */
+    private async post<T>(body: object | object[], idempotent: boolean): Promise<AxiosResponse<T>> {
+        const tokens = Array.isArray(body) ? body.length : 1;
+
+        for (let attempt = 0; ; attempt++) {
+            await this.rateLimiter?.acquire(tokens);
+            try {
+                return await this.client.post<T>('', body);
+            } catch (error) {
+                if (!idempotent || attempt >= this.retryPolicy.maxRetries || !isRetryableError(error, this.retryPolicy)) {
+                    throw error;
+                }
+
+                const delay = retryDelay(error, attempt, this.retryPolicy, this.clock);
+                const reason = axios.isAxiosError(error)
+                    ? error.response?.status ?? error.code
+                    : error instanceof Error ? error.message : String(error);
+                this.logger.warn(
+                    `Request failed (${reason}), retry ${attempt + 1}/${this.retryPolicy.maxRetries} in ${delay}ms`
+                );
+                await this.clock.sleep(delay);
+            }
         }
     }
 
-    async testConnection(): Promise<boolean> {
+    /**
+     * Convert any thrown value into a ValidationCloudError with the API key
+     * masked. Axios errors are rebuilt from their message and response body
+     * only, since their request config carries the full endpoint URL.
+     */
+    private toValidationCloudError(error: unknown): ValidationCloudError {
+        if (axios.isAxiosError(error)) {
+            return sanitizeError(new ValidationCloudError(
+                error.response?.data?.message || error.message,
+                error.response?.status,
+                error.response?.data as Record<string, any>
+            ), this.secrets);
+        }
+
+        if (error instanceof ValidationCloudError) {
+            return sanitizeError(error, this.secrets);
+        }
+
+        return sanitizeError(new ValidationCloudError(
+            error instanceof Error ? error.message : 'Unknown error',
+            undefined,
+            undefined
+        ), this.secrets);
+    }
+
+    /**
+     * Response cache statistics
+     * @returns Statistics, or undefined if caching is disabled
+     */
+    cacheStats(): CacheStats | undefined {
+        return this.cache?.stats();
+    }
+
+    /**
+     * Drop all cached responses
+     */
+    clearCache(): void {
+        this.cache?.clear();
+    }
+
+    /**
+     * Subscribe to new blocks, logs or pending transactions over the WebSocket
+     * endpoint, polling over HTTP when there is none or it cannot be reached
+     * @param kind - Subscription type
+     * @param filter - Address and topic filter for `logs`
+     * @param listener - Called with each event, converted like request results
+     * @returns The subscription
+     */
+    async subscribe(
+        kind: SubscriptionKind,
+        filter: LogSubscriptionFilter | undefined,
+        listener: (event: any) => void
+    ): Promise<Subscription> {
+        this.policy?.check('eth_subscribe', filter ? [kind, filter] : [kind]);
+        this.subscriptions ??= new SubscriptionManager(this, this.subscriptionOptions);
+        return this.subscriptions.subscribe(kind, filter, listener);
+    }
+
+    /**
+     * End every subscription and close the WebSocket
+     */
+    async closeSubscriptions(): Promise<void> {
+        await this.subscriptions?.close();
+        this.subscriptions = undefined;
+    }
+
+    /**
+     * Check that the node answers `eth_blockNumber`
+     * @param timeoutMs - When set, send a single probe with this timeout that
+     * skips retries, the rate limit and the cache, so health checks stay fast
+     * and leave the request budget alone
+     * @returns True when the node answered
+     */
+    async testConnection(timeoutMs?: number): Promise<boolean> {
         try {
-            await this.request({ method: 'eth_blockNumber' });
-            return true;
+            if (timeoutMs === undefined) {
+                await this.request({ method: 'eth_blockNumber' });
+                return true;
+            }
+            const response = await this.client.post<ValidationCloudResponse>(
+                '',
+                { jsonrpc: '2.0', id: this.messageId++, method: 'eth_blockNumber', params: [] },
+                { timeout: timeoutMs }
+            );
+            return !response.data.error;
         } catch (error) {
             return false;
         }
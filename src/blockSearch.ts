@@ -0,0 +1,141 @@
+import { ValidationCloudAPI } from './api.js';
+import { EthereumErrorCode, ValidationCloudError } from './types.js';
+
+/**
+ * Which block to return when no block has exactly the requested timestamp:
+ * `before` is the last block at or before it, `after` the first block at or after it
+ */
+export type BlockSearchDirection = 'before' | 'after';
+
+/**
+ * A block's number, hash and time
+ */
+export interface BlockTime {
+    number: number;
+    hash: string;
+    /** Unix time in seconds */
+    timestamp: number;
+    /** Timestamp as an ISO 8601 UTC date */
+    date: string;
+}
+
+/**
+ * Outcome of a block search
+ */
+export interface BlockSearchResult {
+    /** Requested time in Unix seconds */
+    timestamp: number;
+    /** Requested time as an ISO 8601 UTC date */
+    date: string;
+    direction: BlockSearchDirection;
+    block: BlockTime;
+    /** Seconds between the block and the requested time; negative when the block is earlier */
+    offsetSeconds: number;
+    /** Number of `eth_getBlockByNumber` calls made */
+    requests: number;
+}
+
+function searchError(reason: string): ValidationCloudError {
+    return new ValidationCloudError(reason, EthereumErrorCode.INVALID_PARAMS);
+}
+
+function isoDate(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString().replace('.000Z', 'Z');
+}
+
+/**
+ * Parse a time given as Unix seconds or an ISO 8601 date. Dates and times
+ * without an offset are read as UTC, so `2024-01-01` is midnight UTC.
+ * @param value - Unix seconds (number or decimal string) or ISO 8601 date
+ * @returns Unix time in seconds
+ */
+export function parseTimestamp(value: string | number): number {
+    if (typeof value === 'number' || /^\d+$/.test(value)) {
+        const seconds = Number(value);
+        if (!Number.isSafeInteger(seconds) || seconds < 0) {
+            throw searchError(`Invalid timestamp: ${value}`);
+        }
+        return seconds;
+    }
+    const text = /T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value) ? `${value}Z` : value;
+    const millis = /^\d{4}-\d{2}-\d{2}/.test(text) ? Date.parse(text) : NaN;
+    if (Number.isNaN(millis)) {
+        throw searchError(`Invalid date: ${value}; use Unix seconds or an ISO 8601 date such as 2024-01-01T00:00:00Z`);
+    }
+    return Math.floor(millis / 1000);
+}
+
+/**
+ * Find the block at, before or after a time with as few block reads as possible.
+ *
+ * Interpolates between the bracketing blocks' timestamps, which lands within a
+ * few blocks on chains with steady block times. Each guess leans a little further
+ * towards the end that has not moved, so both ends of the bracket close in; uneven
+ * block times cost extra reads but the bracket still shrinks every step.
+ * Blocks sharing a timestamp, as on some L2s, are handled: `before` returns the
+ * last of them and `after` the first.
+ * @param api - API client
+ * @param time - Unix seconds or ISO 8601 date
+ * @param direction - Block to return when none matches exactly (default `before`)
+ * @returns The block and how far it is from the requested time
+ */
+export async function findBlockByTimestamp(
+    api: ValidationCloudAPI,
+    time: string | number,
+    direction: BlockSearchDirection = 'before'
+): Promise<BlockSearchResult> {
+    const target = parseTimestamp(time);
+    let requests = 0;
+
+    const getBlock = async (block: number | 'latest'): Promise<BlockTime> => {
+        requests++;
+        const param = typeof block === 'number' ? `0x${block.toString(16)}` : block;
+        const { result } = await api.request({ method: 'eth_getBlockByNumber', params: [param, false] });
+        if (!result || typeof result.number !== 'number' || typeof result.timestamp !== 'number') {
+            throw new ValidationCloudError(`Block ${block} is not available`);
+        }
+        return { number: result.number, hash: result.hash, timestamp: result.timestamp, date: isoDate(result.timestamp) };
+    };
+
+    // `lo` always satisfies isBelow and `hi` never does
+    const isBelow = (timestamp: number) => direction === 'before' ? timestamp <= target : timestamp < target;
+    const done = (block: BlockTime): BlockSearchResult => ({
+        timestamp: target,
+        date: isoDate(target),
+        direction,
+        block,
+        offsetSeconds: block.timestamp - target,
+        requests
+    });
+
+    let [lo, hi] = await Promise.all([getBlock(0), getBlock('latest')]);
+    if (isBelow(hi.timestamp)) {
+        if (direction === 'before') return done(hi);
+        throw searchError(`No block at or after ${isoDate(target)} yet; the latest block ${hi.number} is from ${hi.date}`);
+    }
+    if (!isBelow(lo.timestamp)) {
+        if (direction === 'after') return done(lo);
+        throw searchError(`No block at or before ${isoDate(target)}; the genesis block is from ${lo.date}`);
+    }
+
+    let lean = 0;
+    let lastSide: 'lo' | 'hi' | undefined;
+    while (hi.number - lo.number > 1) {
+        const span = hi.number - lo.number;
+        let guess = lo.number + Math.round((target - lo.timestamp) * span / (hi.timestamp - lo.timestamp));
+        if (lastSide === 'lo') guess += lean;
+        if (lastSide === 'hi') guess -= lean;
+        guess = Math.min(Math.max(guess, lo.number + 1), hi.number - 1);
+
+        const block = await getBlock(guess);
+        const side = isBelow(block.timestamp) ? 'lo' : 'hi';
+        if (side === 'lo') {
+            lo = block;
+        } else {
+            hi = block;
+        }
+        lean = side === lastSide ? Math.max(1, lean * 2) : 1;
+        lastSide = side;
+    }
+    return done(direction === 'before' ? lo : hi);
+}
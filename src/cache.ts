@@ -0,0 +1,347 @@
+import { CacheOptions, CacheStats, EthereumParams, ValidationCloudResponse } from './types.js';
+import { isIdempotent } from './retry.js';
+
+/**
+ * How long a response may be reused
+ * - `immutable`: forever, the data cannot change (subject to eviction)
+ * - `finality`: forever if the pinned block is at or below the finalized head,
+ *   otherwise like `volatile`
+ * - `volatile`: for the short TTL only
+ * - `none`: never cached
+ */
+export type CacheClass = 'immutable' | 'finality' | 'volatile' | 'none';
+
+export const DEFAULT_CACHE_OPTIONS: Required<CacheOptions> = {
+    maxEntries: 5000,
+    maxBytes: 50 * 1024 * 1024,
+    maxEntryBytes: 2 * 1024 * 1024,
+    volatileTtlMs: 2000,
+    finalizedHeadTtlMs: 60000
+};
+
+/** Position of the block parameter for methods that read state at a block */
+const BLOCK_PARAM_INDEX: Record<string, number> = {
+    eth_getBalance: 1,
+    eth_getCode: 1,
+    eth_getTransactionCount: 1,
+    eth_getStorageAt: 2,
+    eth_call: 1,
+    eth_getProof: 2,
+    eth_getBlockByNumber: 0,
+    eth_getBlockTransactionCountByNumber: 0,
+    eth_getUncleCountByBlockNumber: 0,
+    eth_getBlockReceipts: 0
+};
+
+const IMMUTABLE_METHODS = new Set([
+    'eth_chainId',
+    'net_version',
+    'eth_getBlockByHash',
+    'eth_getBlockTransactionCountByHash',
+    'eth_getTransactionByHash',
+    'eth_getTransactionReceipt',
+    'eth_getTransactionByBlockHashAndIndex'
+]);
+
+const UNCACHEABLE_METHODS = new Set([
+    'eth_getFilterChanges',
+    'eth_getFilterLogs',
+    'eth_syncing'
+]);
+
+/**
+ * Serialise params so that equivalent requests share a key: object keys are
+ * sorted, hex strings are lower-cased and numbers become hex quantities.
+ * @param value - Params or a nested value
+ * @returns Canonical JSON
+ */
+export function canonicalize(value: any): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalize).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value)
+            .filter(key => value[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+            .join(',')}}`;
+    }
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+        return JSON.stringify(`0x${value.toString(16)}`);
+    }
+    if (typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value)) {
+        return JSON.stringify(value.toLowerCase());
+    }
+    return JSON.stringify(value === undefined ? null : value);
+}
+
+/**
+ * Build the cache key for a request
+ * @param method - JSON-RPC method
+ * @param params - Method parameters
+ * @returns Cache key
+ */
+export function cacheKey(method: keyof EthereumParams, params: any[] = []): string {
+    return `${String(method)}:${canonicalize(params)}`;
+}
+
+/**
+ * Parse a block parameter into a block number
+ * @param block - Block number, hex quantity or tag
+ * @returns Block number, or undefined for tags and block hashes
+ */
+export function blockNumberOf(block: any): number | undefined {
+    if (typeof block === 'number' && Number.isInteger(block)) return block;
+    if (typeof block === 'string' && /^0x[0-9a-fA-F]{1,16}$/.test(block)) return parseInt(block, 16);
+    if (typeof block === 'string' && /^\d+$/.test(block)) return Number(block);
+    return undefined;
+}
+
+/**
+ * Highest block a request depends on, for methods whose result is fixed
+ * once that block is final
+ * @param method - JSON-RPC method
+ * @param params - Method parameters
+ * @returns Block number, `'hash'` if pinned by block hash, or undefined if
+ * the request is not pinned to a block
+ */
+export function pinnedBlock(method: keyof EthereumParams, params: any[] = []): number | 'hash' | undefined {
+    if (method === 'eth_getLogs') {
+        const filter = params[0];
+        if (!filter || typeof filter !== 'object') return undefined;
+        if (filter.blockHash) return 'hash';
+        const from = blockNumberOf(filter.fromBlock);
+        const to = blockNumberOf(filter.toBlock);
+        return from !== undefined && to !== undefined ? to : undefined;
+    }
+
+    const index = BLOCK_PARAM_INDEX[String(method)];
+    if (index === undefined) return undefined;
+
+    const block = params[index];
+    if (block === 'earliest') return 0;
+    if (block && typeof block === 'object' && typeof block.blockHash === 'string') return 'hash';
+    return blockNumberOf(block);
+}
+
+/**
+ * Classify a request by how long its response may be reused
+ * @param method - JSON-RPC method
+ * @param params - Method parameters
+ * @returns Cache class
+ */
+export function classifyRequest(method: keyof EthereumParams, params: any[] = []): CacheClass {
+    const name = String(method);
+    if (!isIdempotent(method) || UNCACHEABLE_METHODS.has(name)) return 'none';
+    if (IMMUTABLE_METHODS.has(name)) return 'immutable';
+
+    const pinned = pinnedBlock(method, params);
+    if (pinned === 'hash') return 'immutable';
+    if (pinned !== undefined) return 'finality';
+    return 'volatile';
+}
+
+interface CacheEntry {
+    response: ValidationCloudResponse;
+    bytes: number;
+    /** Expiry in ms since epoch, or undefined for immutable entries */
+    expiresAt?: number;
+}
+
+/**
+ * Response cache with LRU eviction, TTLs for volatile data and coalescing of
+ * identical in-flight requests
+ */
+export class ResponseCache {
+    private readonly options: Required<CacheOptions>;
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly inFlight = new Map<string, Promise<ValidationCloudResponse>>();
+    private bytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private coalesced = 0;
+    private evictions = 0;
+    private finalizedHead?: { number: number; fetchedAt: number };
+
+    constructor(options: CacheOptions = {}, private readonly now: () => number = Date.now) {
+        this.options = { ...DEFAULT_CACHE_OPTIONS };
+        for (const [key, value] of Object.entries(options) as [keyof CacheOptions, number | undefined][]) {
+            if (value !== undefined) this.options[key] = value;
+        }
+    }
+
+    /**
+     * Look up a fresh entry
+     * @param key - Cache key
+     * @returns A copy of the cached response, or undefined
+     */
+    get(key: string): ValidationCloudResponse | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+            this.delete(key);
+            return undefined;
+        }
+
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return structuredClone(entry.response);
+    }
+
+    /**
+     * Store a response
+     * @param key - Cache key
+     * @param response - Response to store
+     * @param immutable - Whether the entry never expires
+     */
+    set(key: string, response: ValidationCloudResponse, immutable: boolean): void {
+        const bytes = JSON.stringify(response).length;
+        if (bytes > this.options.maxEntryBytes || this.options.maxEntries <= 0) return;
+
+        this.delete(key);
+        this.entries.set(key, {
+            response: structuredClone(response),
+            bytes,
+            expiresAt: immutable ? undefined : this.now() + this.options.volatileTtlMs
+        });
+        this.bytes += bytes;
+
+        for (const oldest of this.entries.keys()) {
+            if (this.entries.size <= this.options.maxEntries && this.bytes <= this.options.maxBytes) break;
+            this.delete(oldest);
+            this.evictions++;
+        }
+    }
+
+    /**
+     * Serve a request from the cache, join an identical in-flight request, or
+     * fetch it and store the result according to its cache class
+     * @param method - JSON-RPC method
+     * @param params - Method parameters
+     * @param fetch - Performs the request on a miss
+     * @param resolveFinalizedHead - Returns the finalized block number, used for `finality` requests
+     * @returns Response, a copy when served from the cache or shared with another caller
+     */
+    async wrap(
+        method: keyof EthereumParams,
+        params: any[] | undefined,
+        fetch: () => Promise<ValidationCloudResponse>,
+        resolveFinalizedHead: () => Promise<number | undefined>
+    ): Promise<ValidationCloudResponse> {
+        const cacheClass = classifyRequest(method, params);
+        if (cacheClass === 'none') return fetch();
+
+        const key = cacheKey(method, params);
+        const cached = this.get(key);
+        if (cached) {
+            this.hits++;
+            return cached;
+        }
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            this.coalesced++;
+            return structuredClone(await pending);
+        }
+
+        this.misses++;
+        const promise = (async () => {
+            const response = await fetch();
+            this.set(key, response, await this.isImmutable(cacheClass, method, params, response, resolveFinalizedHead));
+            return response;
+        })();
+
+        this.inFlight.set(key, promise);
+        try {
+            return await promise;
+        } finally {
+            this.inFlight.delete(key);
+        }
+    }
+
+    private async isImmutable(
+        cacheClass: CacheClass,
+        method: keyof EthereumParams,
+        params: any[] | undefined,
+        response: ValidationCloudResponse,
+        resolveFinalizedHead: () => Promise<number | undefined>
+    ): Promise<boolean> {
+        // A missing block, transaction or receipt may appear later
+        if (response.result === null || response.result === undefined) return false;
+        // Pending transactions have no block yet
+        if (method === 'eth_getTransactionByHash' && !response.result.blockHash) return false;
+        if (cacheClass === 'immutable') return true;
+        if (cacheClass !== 'finality') return false;
+
+        const pinned = pinnedBlock(method, params);
+        if (typeof pinned !== 'number') return false;
+
+        const finalized = await this.finalizedHeadNumber(resolveFinalizedHead);
+        return finalized !== undefined && pinned <= finalized;
+    }
+
+    private async finalizedHeadNumber(resolve: () => Promise<number | undefined>): Promise<number | undefined> {
+        const now = this.now();
+        if (this.finalizedHead && now - this.finalizedHead.fetchedAt < this.options.finalizedHeadTtlMs) {
+            return this.finalizedHead.number;
+        }
+
+        try {
+            const number = await resolve();
+            if (number !== undefined) {
+                this.finalizedHead = { number, fetchedAt: now };
+            }
+            return number;
+        } catch (error) {
+            // Nodes without the `finalized` tag fall back to short TTLs
+            return undefined;
+        }
+    }
+
+    private delete(key: string): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.bytes -= entry.bytes;
+            this.entries.delete(key);
+        }
+    }
+
+    /**
+     * Drop all entries and reset the counters
+     */
+    clear(): void {
+        this.entries.clear();
+        this.bytes = 0;
+        this.hits = 0;
+        this.misses = 0;
+        this.coalesced = 0;
+        this.evictions = 0;
+        this.finalizedHead = undefined;
+    }
+
+    /**
+     * Current cache statistics
+     */
+    stats(): CacheStats {
+        let immutableEntries = 0;
+        for (const entry of this.entries.values()) {
+            if (entry.expiresAt === undefined) immutableEntries++;
+        }
+
+        return {
+            entries: this.entries.size,
+            immutableEntries,
+            bytes: this.bytes,
+            hits: this.hits,
+            misses: this.misses,
+            coalesced: this.coalesced,
+            evictions: this.evictions,
+            inFlight: this.inFlight.size,
+            finalizedBlock: this.finalizedHead?.number,
+            maxEntries: this.options.maxEntries,
+            maxBytes: this.options.maxBytes
+        };
+    }
+}
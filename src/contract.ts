@@ -0,0 +1,172 @@
+import { ValidationCloudAPI } from './api.js';
+import {
+    decodeNamed,
+    encodeFunctionData,
+    findFunction,
+    formatSignature,
+    formatType,
+    parseAbi
+} from './abi.js';
+import { AbiFragment, BlockOverrides, EthereumErrorCode, StateOverrides, ValidationCloudError } from './types.js';
+import { toQuantity } from './utils.js';
+
+/**
+ * Options for a read-only contract call
+ */
+export interface ContractCallOptions {
+    /** Contract address */
+    address: string;
+    /**
+     * Function to call: a human-readable signature, a JSON ABI fragment, or a
+     * function name or signature to look up in `abi`
+     */
+    function: string | Record<string, any>;
+    /** Contract ABI used to look up `function` by name */
+    abi?: unknown;
+    /** Arguments as an array, or an object keyed by parameter name */
+    args?: unknown[] | Record<string, unknown>;
+    /** Block number or tag, defaults to `latest` */
+    block?: string | number;
+    /** Caller address */
+    from?: string;
+    /** Wei sent with the call, as a hex quantity */
+    value?: string;
+    /** Account balance, nonce, code or storage to replace for the call */
+    stateOverrides?: Record<string, Record<string, any>>;
+    /** Block header fields to replace for the call */
+    blockOverrides?: Record<string, any>;
+}
+
+/**
+ * Decoded result of a contract call
+ */
+export interface ContractCallResult {
+    /** Contract address */
+    address: string;
+    /** Canonical function signature */
+    function: string;
+    /** Block the call ran against */
+    block: string;
+    /** Encoded calldata */
+    data: string;
+    /** Return values keyed by output name (or position), when outputs are known */
+    result?: Record<string, unknown>;
+    /** Output types, in order */
+    outputTypes?: string[];
+    /** Raw return data */
+    raw: string;
+}
+
+/**
+ * Resolve the function fragment for a call
+ * @param fn - Signature, JSON fragment, or name to look up in `abi`
+ * @param abi - Optional ABI
+ * @param argCount - Number of arguments, used to pick between overloads
+ * @returns Function fragment
+ */
+export function resolveFunction(fn: string | Record<string, any>, abi: unknown, argCount?: number): AbiFragment {
+    if (abi !== undefined && typeof fn === 'string') {
+        return findFunction(parseAbi(abi), fn, argCount);
+    }
+
+    const [fragment] = parseAbi(fn);
+    if (!fragment || fragment.type !== 'function') {
+        throw new ValidationCloudError('Expected a function signature or fragment', EthereumErrorCode.INVALID_PARAMS);
+    }
+    return fragment;
+}
+
+/**
+ * Normalise a block parameter to a hex quantity or tag
+ * @param block - Block number, hex quantity or tag
+ * @returns Block parameter suitable for JSON-RPC
+ */
+export function toBlockParam(block: string | number | undefined): string {
+    if (block === undefined) return 'latest';
+    if (typeof block === 'number') return `0x${block.toString(16)}`;
+    if (/^\d+$/.test(block)) return `0x${BigInt(block).toString(16)}`;
+    return block;
+}
+
+const BLOCK_OVERRIDE_QUANTITIES = ['number', 'time', 'gasLimit', 'baseFee', 'blobBaseFee'];
+
+/**
+ * Normalise `eth_call` override parameters, accepting decimal or hex quantities
+ * @param stateOverrides - Per-address balance, nonce, code, state or stateDiff
+ * @param blockOverrides - Block header fields
+ * @returns Trailing `eth_call` parameters; empty when there is nothing to override
+ */
+export function callOverrides(
+    stateOverrides?: Record<string, Record<string, any>>,
+    blockOverrides?: Record<string, any>
+): [] | [StateOverrides] | [StateOverrides, BlockOverrides] {
+    const state: StateOverrides = {};
+    for (const [address, account] of Object.entries(stateOverrides ?? {})) {
+        state[address] = {
+            ...account,
+            ...(account.balance !== undefined && { balance: toQuantity(account.balance) }),
+            ...(account.nonce !== undefined && { nonce: toQuantity(account.nonce) })
+        };
+    }
+    if (blockOverrides === undefined) {
+        return stateOverrides === undefined ? [] : [state];
+    }
+
+    const block: BlockOverrides = { ...blockOverrides };
+    for (const field of BLOCK_OVERRIDE_QUANTITIES) {
+        if (blockOverrides[field] !== undefined) {
+            (block as Record<string, string>)[field] = toQuantity(blockOverrides[field]);
+        }
+    }
+    return [state, block];
+}
+
+/**
+ * ABI-encode a call, run it with `eth_call` and decode the return values
+ * @param api - API client
+ * @param options - Call options
+ * @returns Decoded result
+ */
+export async function callContract(api: ValidationCloudAPI, options: ContractCallOptions): Promise<ContractCallResult> {
+    const argCount = Array.isArray(options.args)
+        ? options.args.length
+        : options.args ? Object.keys(options.args).length : 0;
+    const fragment = resolveFunction(options.function, options.abi, argCount);
+    const data = encodeFunctionData(fragment, options.args ?? []);
+    const block = toBlockParam(options.block);
+
+    const response = await api.request({
+        method: 'eth_call',
+        params: [
+            {
+                to: options.address,
+                data,
+                ...(options.from && { from: options.from }),
+                ...(options.value && { value: options.value })
+            },
+            block,
+            ...callOverrides(options.stateOverrides, options.blockOverrides)
+        ]
+    });
+
+    const raw: string = response.result;
+    const result: ContractCallResult = {
+        address: options.address,
+        function: formatSignature(fragment),
+        block,
+        data,
+        raw
+    };
+
+    if (fragment.outputs && fragment.outputs.length > 0) {
+        if (raw === '0x') {
+            throw new ValidationCloudError(
+                `${result.function} returned no data; check that ${options.address} is a contract implementing it`
+            );
+        }
+        result.result = decodeNamed(fragment.outputs, raw);
+        result.outputTypes = fragment.outputs.map(formatType);
+    }
+
+    return result;
+}
@@ -0,0 +1,302 @@
+import { bytesToHex, concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { decodeParameters, encodeFunctionData, parseSignature, toChecksumAddress } from './abi.js';
+import { ValidationCloudAPI } from './api.js';
+import { AbiFragment, EthereumErrorCode, EthereumParams, ValidationCloudError } from './types.js';
+
+/**
+ * ENS registry, deployed at the same address on mainnet, Sepolia and Holesky
+ */
+export const ENS_REGISTRY = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+
+const ENS_FUNCTIONS = {
+    resolver: parseSignature('function resolver(bytes32 node) view returns (address)'),
+    addr: parseSignature('function addr(bytes32 node) view returns (address)'),
+    name: parseSignature('function name(bytes32 node) view returns (string)'),
+    text: parseSignature('function text(bytes32 node, string key) view returns (string)')
+};
+
+/**
+ * Text record keys read when none are requested
+ */
+export const DEFAULT_TEXT_KEYS = ['avatar', 'description', 'url', 'email', 'com.twitter', 'com.github'];
+
+/** Dotted names that are not hex: `vitalik.eth`, `sub.name.eth` */
+const ENS_NAME = /^(?!0x[0-9a-fA-F]*$)[^\s.]+(\.[^\s.]+)+$/;
+
+/**
+ * Whether a value looks like an ENS name rather than an address
+ * @param value - Value to check
+ */
+export function isEnsName(value: unknown): value is string {
+    return typeof value === 'string' && ENS_NAME.test(value.trim());
+}
+
+/**
+ * Normalise a name for hashing: trimmed, NFC and lowercased. This covers
+ * the names people type; it is not a full ENSIP-15 implementation, so
+ * names relying on its emoji and confusable rules may not resolve.
+ * @param name - ENS name
+ * @returns Normalised name
+ */
+export function normalizeEnsName(name: string): string {
+    const normalized = name.trim().normalize('NFC').toLowerCase();
+    const labels = normalized.split('.');
+    if (labels.some(label => label.length === 0) || /[\s/\\?#@:%]/.test(normalized)) {
+        throw new ValidationCloudError(`Invalid ENS name: ${name}`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    return normalized;
+}
+
+/**
+ * ENS namehash of a normalised name
+ * @param name - ENS name
+ * @returns Node as 0x-prefixed 32-byte hex
+ */
+export function namehash(name: string): string {
+    let node: Uint8Array = new Uint8Array(32);
+    if (name.length > 0) {
+        const labels = normalizeEnsName(name).split('.');
+        for (let i = labels.length - 1; i >= 0; i--) {
+            node = keccak_256(concatBytes(node, keccak_256(utf8ToBytes(labels[i]))));
+        }
+    }
+    return `0x${bytesToHex(node)}`;
+}
+
+async function call(
+    api: ValidationCloudAPI,
+    to: string,
+    fragment: AbiFragment,
+    args: unknown[]
+): Promise<unknown | undefined> {
+    const { result } = await api.request({
+        method: 'eth_call',
+        params: [{ to, data: encodeFunctionData(fragment, args) }, 'latest']
+    });
+    if (typeof result !== 'string' || result === '0x') return undefined;
+    return decodeParameters(fragment.outputs ?? [], result)[0];
+}
+
+async function resolverOf(api: ValidationCloudAPI, node: string): Promise<string | null> {
+    const resolver = await call(api, ENS_REGISTRY, ENS_FUNCTIONS.resolver, [node]) as string | undefined;
+    return resolver && resolver !== toChecksumAddress(ZERO_ADDRESS) ? resolver : null;
+}
+
+/**
+ * Result of resolving a name
+ */
+export interface EnsResolution {
+    /** Normalised name */
+    name: string;
+    /** Resolver contract, or null if the name has none */
+    resolver: string | null;
+    /** Address the name points to, or null if it has none */
+    address: string | null;
+}
+
+/**
+ * Resolve a name to an address through the registry and its resolver
+ * @param api - API client for an Ethereum network with the ENS registry
+ * @param name - ENS name
+ * @returns Resolver and address; both null for unregistered names
+ */
+export async function resolveEnsName(api: ValidationCloudAPI, name: string): Promise<EnsResolution> {
+    const normalized = normalizeEnsName(name);
+    const node = namehash(normalized);
+    const resolver = await resolverOf(api, node);
+    if (!resolver) {
+        return { name: normalized, resolver: null, address: null };
+    }
+    const address = await call(api, resolver, ENS_FUNCTIONS.addr, [node]) as string | undefined;
+    return {
+        name: normalized,
+        resolver,
+        address: address && address !== toChecksumAddress(ZERO_ADDRESS) ? address : null
+    };
+}
+
+/**
+ * Result of a reverse lookup
+ */
+export interface EnsReverseLookup {
+    address: string;
+    /** Primary name, only when it resolves back to the address */
+    name: string | null;
+    /** Whether the reverse record's name resolves back to the address */
+    verified: boolean;
+    /** Name claimed by the reverse record, when it failed verification */
+    unverifiedName?: string;
+}
+
+/**
+ * Find the primary name of an address and check that the name resolves back to it
+ * @param api - API client for an Ethereum network with the ENS registry
+ * @param address - Address to look up
+ * @returns Verified primary name, or null
+ */
+export async function lookupAddress(api: ValidationCloudAPI, address: string): Promise<EnsReverseLookup> {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        throw new ValidationCloudError(`Invalid address: ${address}`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    const checksummed = toChecksumAddress(address);
+    const node = namehash(`${address.slice(2).toLowerCase()}.addr.reverse`);
+    const resolver = await resolverOf(api, node);
+    const claimed = resolver ? await call(api, resolver, ENS_FUNCTIONS.name, [node]) as string | undefined : undefined;
+    if (!claimed) {
+        return { address: checksummed, name: null, verified: false };
+    }
+
+    let forward: EnsResolution | undefined;
+    try {
+        forward = await resolveEnsName(api, claimed);
+    } catch (error) {
+        // An invalid claimed name fails verification below
+        if (!(error instanceof ValidationCloudError)) throw error;
+    }
+    return forward?.address === checksummed
+        ? { address: checksummed, name: forward.name, verified: true }
+        : { address: checksummed, name: null, verified: false, unverifiedName: claimed };
+}
+
+/**
+ * Read text records of a name
+ * @param api - API client for an Ethereum network with the ENS registry
+ * @param name - ENS name
+ * @param keys - Record keys such as `avatar`, `url` or `com.twitter`
+ * @returns Records keyed by key; unset records are null
+ */
+export async function getEnsText(
+    api: ValidationCloudAPI,
+    name: string,
+    keys: string[] = DEFAULT_TEXT_KEYS
+): Promise<{ name: string; resolver: string | null; records: Record<string, string | null> }> {
+    const normalized = normalizeEnsName(name);
+    const node = namehash(normalized);
+    const resolver = await resolverOf(api, node);
+    const values = resolver
+        ? await Promise.all(keys.map(key => call(api, resolver, ENS_FUNCTIONS.text, [node, key]) as Promise<string | undefined>))
+        : keys.map(() => undefined);
+    return {
+        name: normalized,
+        resolver,
+        records: Object.fromEntries(keys.map((key, index) => [key, values[index] || null]))
+    };
+}
+
+/**
+ * Resolve a value that may be an ENS name; addresses are returned unchanged
+ * @param api - API client
+ * @param value - Address or ENS name
+ * @param resolved - Collects name-to-address resolutions for the response
+ * @returns Address
+ * @throws ValidationCloudError if the name does not resolve
+ */
+export async function resolveAddress(
+    api: ValidationCloudAPI,
+    value: string,
+    resolved: Record<string, string>
+): Promise<string> {
+    if (!isEnsName(value)) return value;
+    const { name, address } = await resolveEnsName(api, value);
+    if (!address) {
+        throw new ValidationCloudError(`ENS name ${name} does not resolve to an address`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    resolved[value] = address;
+    return address;
+}
+
+/**
+ * Resolve ENS names in named tool arguments
+ * @param api - API client
+ * @param args - Tool arguments
+ * @param keys - Arguments that hold an address or a list of addresses
+ * @returns Arguments with addresses, and the resolutions made
+ */
+export async function resolveAddressArgs(
+    api: ValidationCloudAPI,
+    args: Record<string, any>,
+    keys: string[]
+): Promise<{ args: Record<string, any>; resolved: Record<string, string> }> {
+    const resolved: Record<string, string> = {};
+    const result = { ...args };
+    for (const key of keys) {
+        const value = args[key];
+        if (typeof value === 'string') {
+            result[key] = await resolveAddress(api, value, resolved);
+        } else if (Array.isArray(value)) {
+            result[key] = await Promise.all(value.map(item =>
+                typeof item === 'string' ? resolveAddress(api, item, resolved) : item));
+        }
+    }
+    return { args: result, resolved };
+}
+
+/** Methods whose first parameter is an address */
+const ADDRESS_FIRST_METHODS = new Set([
+    'eth_getBalance',
+    'eth_getTransactionCount',
+    'eth_getCode',
+    'eth_getStorageAt',
+    'eth_getProof'
+]);
+
+/** Methods whose first parameter is a transaction object with `from` and `to` */
+const TRANSACTION_METHODS = new Set(['eth_call', 'eth_estimateGas', 'eth_createAccessList']);
+
+/**
+ * Resolve ENS names in the address positions of JSON-RPC parameters
+ * @param api - API client
+ * @param method - JSON-RPC method
+ * @param params - Positional parameters
+ * @returns Parameters with addresses, and the resolutions made
+ */
+export async function resolveEnsParams(
+    api: ValidationCloudAPI,
+    method: keyof EthereumParams,
+    params: any[] = []
+): Promise<{ params: any[]; resolved: Record<string, string> }> {
+    const resolved: Record<string, string> = {};
+    const name = String(method);
+    const first = params[0];
+    let resolvedFirst = first;
+
+    if (ADDRESS_FIRST_METHODS.has(name) && typeof first === 'string') {
+        resolvedFirst = await resolveAddress(api, first, resolved);
+    } else if (first && typeof first === 'object' && (TRANSACTION_METHODS.has(name) || name === 'eth_getLogs')) {
+        const result = await resolveAddressArgs(api, first, name === 'eth_getLogs' ? ['address'] : ['from', 'to']);
+        resolvedFirst = result.args;
+        Object.assign(resolved, result.resolved);
+    }
+    return { params: params.length > 0 ? [resolvedFirst, ...params.slice(1)] : params, resolved };
+}
+
+/**
+ * Show the ENS resolutions made for a call alongside its result
+ * @param result - Tool result
+ * @param resolved - Name-to-address resolutions
+ * @returns The result unchanged when nothing was resolved; otherwise objects gain
+ * an `ens` field and other results are wrapped as `{ result, ens }`
+ */
+export function withEnsResolutions(result: unknown, resolved: Record<string, string>): unknown {
+    if (Object.keys(resolved).length === 0) return result;
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+        return { ...result, ens: resolved };
+    }
+    return { result, ens: resolved };
+}
+
+/**
+ * The result {@link withEnsResolutions} was given, for code that reads the value
+ * @param result - Tool result, possibly wrapped as `{ result, ens }`
+ * @returns The unwrapped result; objects are returned as they are, `ens` field included
+ */
+export function withoutEnsResolutions(result: unknown): unknown {
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+        const keys = Object.keys(result);
+        if (keys.length === 2 && 'result' in result && 'ens' in result) return result.result;
+    }
+    return result;
+}
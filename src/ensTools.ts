@@ -0,0 +1,74 @@
+import { DEFAULT_TEXT_KEYS, EnsResolution, EnsReverseLookup, getEnsText, lookupAddress, resolveEnsName } from './ens.js';
+import { NETWORK_ARGUMENT, ToolDefinition } from './tools.js';
+
+const NAME_ARGUMENT = { type: 'string', pattern: '^[^\\s.]+(\\.[^\\s.]+)+$', description: 'ENS name such as vitalik.eth' } as const;
+
+/**
+ * ENS forward and reverse resolution and text records
+ */
+export const ENS_TOOLS: ToolDefinition[] = [
+    {
+        name: 'resolve_ens_name',
+        description: 'Resolve an ENS name to an address through the ENS registry and the name\'s resolver',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: NAME_ARGUMENT,
+                network: NETWORK_ARGUMENT
+            },
+            required: ['name'],
+            additionalProperties: false
+        },
+        async handler({ name, network }, context) {
+            return resolveEnsName(context.networks.get(network), name);
+        },
+        summarize({ name, address }: EnsResolution) {
+            return address ? `${name} resolves to ${address}` : `${name} does not resolve to an address`;
+        }
+    },
+    {
+        name: 'lookup_ens_name',
+        description: 'Find the primary ENS name of an address; the name is only returned if it resolves back to the same address',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                address: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$', description: '20-byte address, 0x-prefixed' },
+                network: NETWORK_ARGUMENT
+            },
+            required: ['address'],
+            additionalProperties: false
+        },
+        async handler({ address, network }, context) {
+            return lookupAddress(context.networks.get(network), address);
+        },
+        summarize({ address, name, unverifiedName }: EnsReverseLookup) {
+            if (name) return `The primary name of ${address} is ${name}`;
+            return unverifiedName
+                ? `${address} claims ${unverifiedName}, which does not resolve back to it`
+                : `${address} has no primary name`;
+        }
+    },
+    {
+        name: 'get_ens_text',
+        description: 'Read text records of an ENS name, such as avatar, url, email or com.twitter',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: NAME_ARGUMENT,
+                keys: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    minItems: 1,
+                    maxItems: 50,
+                    description: `Record keys to read (default ${DEFAULT_TEXT_KEYS.join(', ')})`
+                },
+                network: NETWORK_ARGUMENT
+            },
+            required: ['name'],
+            additionalProperties: false
+        },
+        async handler({ name, keys, network }, context) {
+            return getEnsText(context.networks.get(network), name, keys);
+        }
+    }
+];
@@ -0,0 +1,100 @@
+import { EthereumErrorCode, NodeErrorCategory } from './types.js';
+
+/**
+ * Minimal shape shared by {@link ValidationCloudError} and JSON-RPC error objects
+ */
+export interface NodeErrorLike {
+    code?: number;
+    message: string;
+    data?: any;
+}
+
+/**
+ * Message patterns used by common node implementations and providers.
+ * Checked in order, so the more specific categories come first.
+ */
+const MESSAGE_PATTERNS: [NodeErrorCategory, RegExp][] = [
+    ['rate_limit', /rate limit|too many requests|request limit reached|exceeded .*(capacity|quota|rps)|throughput/i],
+    ['range_too_large', /block range|range (is )?too (large|wide|big)|more than \d+ (results|logs)|too many (results|logs)|response size (exceeded|is larger)|query timeout exceeded|limit the query/i],
+    ['pruned_state', /missing trie node|pruned|historical state|state (is )?not available|state histories|archive/i],
+    ['execution_reverted', /execution reverted|revert/i],
+    ['transaction_rejected', /nonce too (low|high)|insufficient funds|already known|replacement transaction underpriced|intrinsic gas too low|transaction underpriced|exceeds block gas limit|max fee per gas less than block base fee/i],
+    ['method_not_supported', /method .*(not (found|supported|available)|does not exist)|unsupported method/i],
+    ['not_found', /header not found|block not found|unknown block|not found/i],
+    ['timeout', /timeout|timed out/i]
+];
+
+const CODE_CATEGORIES: Partial<Record<number, NodeErrorCategory>> = {
+    429: 'rate_limit',
+    408: 'timeout',
+    504: 'timeout',
+    [EthereumErrorCode.EXECUTION_REVERTED]: 'execution_reverted',
+    [EthereumErrorCode.LIMIT_EXCEEDED]: 'rate_limit',
+    [EthereumErrorCode.TRANSACTION_REJECTED]: 'transaction_rejected',
+    [EthereumErrorCode.METHOD_NOT_FOUND]: 'method_not_supported',
+    [EthereumErrorCode.METHOD_NOT_SUPPORTED]: 'method_not_supported',
+    [EthereumErrorCode.RESOURCE_NOT_FOUND]: 'not_found',
+    [EthereumErrorCode.INVALID_PARAMS]: 'invalid_params',
+    [EthereumErrorCode.INVALID_REQUEST]: 'invalid_params',
+    [EthereumErrorCode.PARSE_ERROR]: 'invalid_params',
+    [EthereumErrorCode.INTERNAL_ERROR]: 'server_error',
+    [EthereumErrorCode.SERVER_ERROR]: 'server_error',
+    [EthereumErrorCode.RESOURCE_UNAVAILABLE]: 'server_error'
+};
+
+const CATEGORY_HINTS: Record<NodeErrorCategory, string> = {
+    rate_limit: 'The provider rate limit was reached. Wait before retrying or reduce the number of requests.',
+    range_too_large: 'The query covers too many blocks or returns too many results. Narrow the block range or add address/topic filters.',
+    pruned_state: 'The node no longer holds state for that block. Query a more recent block or use an archive endpoint.',
+    not_found: 'The requested block or object does not exist on this node (yet).',
+    execution_reverted: 'The contract call reverted. The data field holds the revert payload.',
+    transaction_rejected: 'The node rejected the transaction. Check the nonce, fees and sender balance.',
+    method_not_supported: 'The endpoint does not support this method.',
+    invalid_params: 'The request parameters are invalid.',
+    timeout: 'The request timed out. Retry, or narrow the query if it is expensive.',
+    server_error: 'The node reported an internal error.',
+    unknown: 'The node returned an error.'
+};
+
+/**
+ * Classify a node or API error.
+ *
+ * Messages are checked before codes because providers reuse generic codes
+ * such as -32000 and -32005 for very different conditions.
+ * @param error - Error to classify
+ * @returns Error category
+ */
+export function categorizeError(error: NodeErrorLike): NodeErrorCategory {
+    for (const [category, pattern] of MESSAGE_PATTERNS) {
+        if (pattern.test(error.message)) {
+            return category;
+        }
+    }
+
+    if (error.code !== undefined) {
+        const category = CODE_CATEGORIES[error.code];
+        if (category) return category;
+        if (error.code >= 500 && error.code < 600) return 'server_error';
+    }
+
+    return 'unknown';
+}
+
+/**
+ * Explain a node or API error for the model
+ * @param error - Error to describe
+ * @returns Multi-line description with category, code, message and data
+ */
+export function describeError(error: NodeErrorLike): string {
+    const category = categorizeError(error);
+    const lines = [
+        `Validation Cloud API error (${category.replace(/_/g, ' ')}${error.code !== undefined ? `, code ${error.code}` : ''}): ${error.message}`,
+        CATEGORY_HINTS[category]
+    ];
+
+    if (error.data !== undefined && error.data !== null) {
+        lines.push(`Data: ${typeof error.data === 'string' ? error.data : JSON.stringify(error.data)}`);
+    }
+
+    return lines.join('\n');
+}
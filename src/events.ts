@@ -0,0 +1,163 @@
+import { decodeParameters, eventTopic, formatSignature, parseAbi } from './abi.js';
+import { AbiFragment, AbiParameter, EthereumParams } from './types.js';
+
+/**
+ * Events decoded without an ABI: ERC-20, ERC-721, ERC-1155, WETH and Uniswap V2/V3.
+ * ERC-20 and ERC-721 share `Transfer` and `Approval` topics and are told apart
+ * by the number of indexed parameters.
+ */
+export const KNOWN_EVENT_SIGNATURES = [
+    // ERC-20
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    // ERC-721
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+    // ERC-1155
+    'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+    'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+    'event URI(string value, uint256 indexed id)',
+    // WETH
+    'event Deposit(address indexed dst, uint256 wad)',
+    'event Withdrawal(address indexed src, uint256 wad)',
+    // Uniswap V2
+    'event PairCreated(address indexed token0, address indexed token1, address pair, uint256 index)',
+    'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+    'event Sync(uint112 reserve0, uint112 reserve1)',
+    'event Mint(address indexed sender, uint256 amount0, uint256 amount1)',
+    'event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)',
+    // Uniswap V3
+    'event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)',
+    'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+    'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Collect(address indexed owner, address recipient, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount0, uint128 amount1)'
+];
+
+/**
+ * A log with its decoded event
+ */
+export interface DecodedEvent {
+    /** Event name */
+    name: string;
+    /** Canonical event signature */
+    signature: string;
+    /** Indexed and non-indexed arguments keyed by name (or position) */
+    args: Record<string, unknown>;
+}
+
+interface Log {
+    topics?: string[];
+    data?: string;
+    [key: string]: any;
+}
+
+function isHashedTopic(param: AbiParameter): boolean {
+    return param.type === 'string' || param.type === 'bytes' || param.type.startsWith('tuple') || param.type.endsWith(']');
+}
+
+/**
+ * Matches logs to event fragments by `topics[0]` and decodes their arguments
+ */
+export class EventDecoder {
+    private readonly events = new Map<string, AbiFragment[]>();
+
+    /**
+     * @param abi - Extra events as a JSON ABI or event signatures; non-event entries are ignored
+     * @param includeKnownEvents - Whether to include {@link KNOWN_EVENT_SIGNATURES}
+     */
+    constructor(abi?: unknown, includeKnownEvents = true) {
+        // User events go first so they win over built-ins with the same topic
+        if (abi !== undefined) {
+            this.add(parseAbi(abi));
+        }
+        if (includeKnownEvents) {
+            this.add(parseAbi(KNOWN_EVENT_SIGNATURES));
+        }
+    }
+
+    private add(fragments: AbiFragment[]): void {
+        for (const fragment of fragments) {
+            if (fragment.type !== 'event' || fragment.anonymous) continue;
+            const topic = eventTopic(fragment);
+            const candidates = this.events.get(topic) ?? [];
+            const signature = formatSignature(fragment);
+            const indexed = fragment.inputs.filter(input => input.indexed).length;
+            const duplicate = candidates.some(candidate =>
+                formatSignature(candidate) === signature
+                && candidate.inputs.filter(input => input.indexed).length === indexed);
+            if (!duplicate) {
+                candidates.push(fragment);
+                this.events.set(topic, candidates);
+            }
+        }
+    }
+
+    /**
+     * Decode one log
+     * @param log - Raw log with `topics` and `data`
+     * @returns Decoded event, or undefined if no known event matches
+     */
+    decodeLog(log: Log): DecodedEvent | undefined {
+        const [topic0, ...indexedTopics] = log.topics ?? [];
+        if (!topic0) return undefined;
+
+        for (const fragment of this.events.get(topic0.toLowerCase()) ?? []) {
+            const indexedInputs = fragment.inputs.filter(input => input.indexed);
+            if (indexedInputs.length !== indexedTopics.length) continue;
+
+            try {
+                const dataInputs = fragment.inputs.filter(input => !input.indexed);
+                const dataValues = decodeParameters(dataInputs, log.data || '0x');
+                let indexedPosition = 0;
+                let dataPosition = 0;
+
+                const args = Object.fromEntries(fragment.inputs.map((input, index) => {
+                    const key = input.name || String(index);
+                    if (!input.indexed) {
+                        return [key, dataValues[dataPosition++]];
+                    }
+                    const topic = indexedTopics[indexedPosition++];
+                    // Dynamic indexed values are stored as their keccak hash
+                    return [key, isHashedTopic(input) ? topic : decodeParameters([input], topic)[0]];
+                }));
+
+                return { name: fragment.name, signature: formatSignature(fragment), args };
+            } catch (error) {
+                // Try the next candidate; undecodable logs stay raw
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Add an `event` field to every log that can be decoded
+     * @param logs - Raw logs
+     * @returns Logs with decoded events attached
+     */
+    decodeLogs<T extends Log>(logs: T[]): (T & { event?: DecodedEvent })[] {
+        return logs.map(log => {
+            const event = log && typeof log === 'object' ? this.decodeLog(log) : undefined;
+            return event ? { ...log, event } : log;
+        });
+    }
+}
+
+/**
+ * Decode the logs in an `eth_getLogs` or `eth_getTransactionReceipt` result
+ * @param method - JSON-RPC method that produced the result
+ * @param result - Transformed result of the request
+ * @param decoder - Event decoder
+ * @returns Result with decoded events attached to its logs
+ */
+export function decodeResultLogs(method: keyof EthereumParams, result: any, decoder: EventDecoder): any {
+    if (method === 'eth_getLogs' && Array.isArray(result)) {
+        return decoder.decodeLogs(result);
+    }
+    if (method === 'eth_getTransactionReceipt' && result && Array.isArray(result.logs)) {
+        return { ...result, logs: decoder.decodeLogs(result.logs) };
+    }
+    return result;
+}
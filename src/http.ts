@@ -0,0 +1,484 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { NetworkRegistry } from './networks.js';
+import { Logger } from './types.js';
+
+/** Largest request body accepted on the MCP endpoints */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Hosts that only accept local connections */
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+/** `Host` header names accepted by default when listening on loopback */
+const LOOPBACK_HOST_HEADERS = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Client identity when no tokens are configured */
+const ANONYMOUS = 'anonymous';
+
+/** Time each network gets to answer a readiness probe */
+const READINESS_TIMEOUT_MS = 2000;
+
+/**
+ * HTTP transport settings
+ */
+export interface HttpConfig {
+    host: string;
+    port: number;
+    /** Bearer tokens accepted from clients; no authentication when empty */
+    tokens: string[];
+    /** Browser origins allowed to call the MCP endpoints; requests with any other `Origin` are refused */
+    allowedOrigins: string[];
+    /** Host names accepted in the `Host` header of MCP requests; any host when empty */
+    allowedHosts: string[];
+    /** How long shutdown waits for open requests before closing their connections */
+    shutdownTimeoutMs: number;
+    /** How long a readiness result is reused for later `/ready` probes */
+    readyCacheMs: number;
+    /** How long a session may go without requests before it is closed */
+    sessionIdleMs: number;
+    /** Sessions one client may hold; opening another closes its least recently used one */
+    maxSessionsPerClient: number;
+}
+
+/**
+ * Read the HTTP transport settings.
+ *
+ * `VALIDATION_CLOUD_TRANSPORT=http` serves MCP over HTTP on
+ * `VALIDATION_CLOUD_HTTP_HOST` (default `127.0.0.1`) and
+ * `VALIDATION_CLOUD_HTTP_PORT` (default `3000`). Clients authenticate with one
+ * of the comma-separated `VALIDATION_CLOUD_HTTP_TOKENS`; tokens are required
+ * on hosts other than loopback. Browsers may only call the MCP endpoints from
+ * the origins in `VALIDATION_CLOUD_HTTP_ALLOWED_ORIGINS`, and on loopback the
+ * `Host` header must name loopback too, unless `VALIDATION_CLOUD_HTTP_ALLOWED_HOSTS`
+ * lists other names; together these stop DNS rebinding. Sessions without
+ * requests for `VALIDATION_CLOUD_HTTP_SESSION_IDLE_MS` (default 30 minutes)
+ * are closed, and each client holds at most
+ * `VALIDATION_CLOUD_HTTP_MAX_SESSIONS_PER_CLIENT` (default 32).
+ * @param env - Environment to read from
+ * @returns HTTP settings, or undefined to serve over stdio
+ */
+export function loadHttpConfig(env: Record<string, string | undefined>): HttpConfig | undefined {
+    const transport = (env.VALIDATION_CLOUD_TRANSPORT || 'stdio').toLowerCase();
+    if (transport === 'stdio') return undefined;
+    if (transport !== 'http') {
+        throw new Error(`Unknown transport "${transport}"; use stdio or http`);
+    }
+
+    const host = env.VALIDATION_CLOUD_HTTP_HOST || '127.0.0.1';
+    const port = Number(env.VALIDATION_CLOUD_HTTP_PORT || 3000);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid HTTP port: ${env.VALIDATION_CLOUD_HTTP_PORT}`);
+    }
+    const tokens = splitList(env.VALIDATION_CLOUD_HTTP_TOKENS);
+    if (tokens.length === 0 && !LOOPBACK_HOSTS.has(host)) {
+        throw new Error(`Set VALIDATION_CLOUD_HTTP_TOKENS to serve on ${host}; only loopback hosts may run without authentication`);
+    }
+    const allowedHosts = splitList(env.VALIDATION_CLOUD_HTTP_ALLOWED_HOSTS).map(name => name.toLowerCase());
+    const readyCacheMs = Number(env.VALIDATION_CLOUD_HTTP_READY_CACHE_MS ?? 5000);
+    if (!Number.isFinite(readyCacheMs) || readyCacheMs < 0) {
+        throw new Error(`Invalid readiness cache time: ${env.VALIDATION_CLOUD_HTTP_READY_CACHE_MS}`);
+    }
+    const sessionIdleMs = Number(env.VALIDATION_CLOUD_HTTP_SESSION_IDLE_MS || 1800000);
+    if (!Number.isFinite(sessionIdleMs) || sessionIdleMs <= 0) {
+        throw new Error(`Invalid session idle time: ${env.VALIDATION_CLOUD_HTTP_SESSION_IDLE_MS}`);
+    }
+    const maxSessionsPerClient = Number(env.VALIDATION_CLOUD_HTTP_MAX_SESSIONS_PER_CLIENT || 32);
+    if (!Number.isInteger(maxSessionsPerClient) || maxSessionsPerClient < 1) {
+        throw new Error(`Invalid session limit: ${env.VALIDATION_CLOUD_HTTP_MAX_SESSIONS_PER_CLIENT}`);
+    }
+    return {
+        host,
+        port,
+        tokens,
+        allowedOrigins: splitList(env.VALIDATION_CLOUD_HTTP_ALLOWED_ORIGINS).map(origin => origin.toLowerCase().replace(/\/+$/, '')),
+        allowedHosts: allowedHosts.length > 0 || !LOOPBACK_HOSTS.has(host) ? allowedHosts : LOOPBACK_HOST_HEADERS,
+        shutdownTimeoutMs: Number(env.VALIDATION_CLOUD_HTTP_SHUTDOWN_TIMEOUT_MS) || 10000,
+        readyCacheMs,
+        sessionIdleMs,
+        maxSessionsPerClient
+    };
+}
+
+function splitList(value: string | undefined): string[] {
+    return (value || '')
+        .split(',')
+        .map(item => item.trim())
+        .filter(item => item.length > 0);
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Identify the client of a request by its bearer token, comparing against
+ * every configured token in constant time
+ * @param header - `Authorization` header value from the request
+ * @param tokens - Accepted tokens; every request is the same anonymous client when empty
+ * @returns Digest of the matching token, or undefined when the request is not authorized
+ */
+export function authenticate(header: string | undefined, tokens: readonly string[]): string | undefined {
+    if (tokens.length === 0) return ANONYMOUS;
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    if (!match) return undefined;
+    const presented = digest(match[1].trim());
+    // Compare against every token so timing does not reveal which one matched
+    const found = tokens.reduce((found, token) => timingSafeEqual(presented, digest(token)) || found, false);
+    return found ? presented.toString('hex') : undefined;
+}
+
+/**
+ * Check an `Authorization` header against the configured bearer tokens in
+ * constant time
+ * @param header - Header value from the request
+ * @param tokens - Accepted tokens; any request is accepted when empty
+ */
+export function isAuthorized(header: string | undefined, tokens: readonly string[]): boolean {
+    return authenticate(header, tokens) !== undefined;
+}
+
+/**
+ * Check where an MCP request comes from. A web page the user visits can send
+ * requests to a local server, by its own origin or by rebinding a DNS name to
+ * loopback; both show in the `Origin` and `Host` headers.
+ * @param headers - Request headers
+ * @param config - Allowed origins and hosts
+ * @returns Why the request is refused, or undefined when it may proceed
+ */
+export function checkRequestSource(
+    headers: IncomingMessage['headers'],
+    config: Pick<HttpConfig, 'allowedOrigins' | 'allowedHosts'>
+): string | undefined {
+    const origin = headers.origin?.toLowerCase().replace(/\/+$/, '');
+    if (origin !== undefined && !config.allowedOrigins.includes(origin)) {
+        return `Origin ${headers.origin} is not allowed`;
+    }
+    if (config.allowedHosts.length > 0) {
+        let hostname: string | undefined;
+        try {
+            hostname = headers.host ? new URL(`http://${headers.host}`).hostname.toLowerCase() : undefined;
+        } catch (error) {
+            hostname = undefined;
+        }
+        if (hostname === undefined || !config.allowedHosts.includes(hostname)) {
+            return `Host ${headers.host ?? '(none)'} is not allowed`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Readiness of every network, from a live request to each
+ */
+export interface Readiness {
+    ready: boolean;
+    networks: Record<string, boolean>;
+}
+
+/**
+ * Check that every configured network answers, with one short probe each
+ * @param networks - Networks to check
+ * @param timeoutMs - Time each network gets to answer
+ */
+export async function checkReadiness(networks: NetworkRegistry, timeoutMs = READINESS_TIMEOUT_MS): Promise<Readiness> {
+    const results = await Promise.all(networks.names().map(async name =>
+        [name, await networks.get(name).testConnection(timeoutMs)] as const));
+    return { ready: results.every(([, connected]) => connected), networks: Object.fromEntries(results) };
+}
+
+/**
+ * Write a JSON response
+ * @param response - Response to write
+ * @param status - HTTP status
+ * @param body - Value to send as JSON
+ * @param headers - Extra headers
+ */
+export function sendJson(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+}
+
+/**
+ * Send a JSON-RPC error that is not tied to a request
+ * @param response - Response to write
+ * @param status - HTTP status
+ * @param code - JSON-RPC error code
+ * @param message - Error message
+ */
+export function sendRpcError(response: ServerResponse, status: number, code: number, message: string): void {
+    sendJson(response, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw Object.assign(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`), { status: 413 });
+        }
+        chunks.push(chunk);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw Object.assign(new Error('Request body is not valid JSON'), { status: 400 });
+    }
+}
+
+/**
+ * MCP endpoints served by the gateway:
+ * - `mcp`: Streamable HTTP (`POST`, `GET` and `DELETE /mcp`)
+ * - `sse`: the older HTTP+SSE transport's event stream (`GET /sse`)
+ * - `messages`: the older transport's client messages (`POST /messages?sessionId=...`)
+ */
+export type McpRoute = 'mcp' | 'sse' | 'messages';
+
+/**
+ * Serves MCP sessions; implemented where the MCP SDK is available
+ */
+export interface McpSessionHandler {
+    /**
+     * Handle an authenticated request to an MCP endpoint
+     * @param route - Endpoint requested
+     * @param request - HTTP request, with its body already read
+     * @param response - HTTP response
+     * @param body - Parsed JSON body of `POST` requests
+     * @param client - Identity of the client from {@link authenticate}; sessions belong to the client that opened them
+     */
+    handle(route: McpRoute, request: IncomingMessage, response: ServerResponse, body: unknown, client: string): Promise<void>;
+    /** Number of open sessions */
+    sessionCount(): number;
+    /** Close every session */
+    close(): Promise<void>;
+}
+
+/**
+ * Open MCP sessions by id. A session is idle while none of its requests or
+ * streams are open; idle sessions are expired after the idle time, and a
+ * client over its limit loses its least recently used session. Expired
+ * sessions are handed to `onExpire` to be closed.
+ */
+export class SessionTable<T extends { client: string }> {
+    private readonly entries = new Map<string, { session: T; lastActive: number; open: number }>();
+
+    /**
+     * @param options - Idle time, per-client limit and what to do with expired sessions
+     */
+    constructor(private readonly options: {
+        idleMs: number;
+        maxPerClient: number;
+        onExpire: (session: T, id: string) => void;
+        now?: () => number;
+    }) {}
+
+    private now(): number {
+        return (this.options.now ?? Date.now)();
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(id: string): T | undefined {
+        return this.entries.get(id)?.session;
+    }
+
+    values(): T[] {
+        return [...this.entries.values()].map(entry => entry.session);
+    }
+
+    /**
+     * Add a session, expiring the client's least recently used sessions over its limit
+     */
+    add(id: string, session: T): void {
+        this.entries.set(id, { session, lastActive: this.now(), open: 0 });
+        const owned = [...this.entries].filter(([, entry]) => entry.session.client === session.client);
+        const excess = owned.length - this.options.maxPerClient;
+        if (excess > 0) {
+            owned
+                .filter(([key]) => key !== id)
+                .sort(([, a], [, b]) => Number(a.open > 0) - Number(b.open > 0) || a.lastActive - b.lastActive)
+                .slice(0, excess)
+                .forEach(([key]) => this.expire(key));
+        }
+    }
+
+    delete(id: string): void {
+        this.entries.delete(id);
+    }
+
+    /**
+     * Count a request or stream of the session as open until its response closes
+     */
+    track(id: string, response: ServerResponse): void {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+        entry.open++;
+        entry.lastActive = this.now();
+        response.once('close', () => {
+            entry.open--;
+            entry.lastActive = this.now();
+        });
+    }
+
+    /**
+     * Expire every session that has been idle for the idle time
+     * @returns Number of sessions expired
+     */
+    expireIdle(): number {
+        const cutoff = this.now() - this.options.idleMs;
+        const idle = [...this.entries].filter(([, entry]) => entry.open === 0 && entry.lastActive <= cutoff);
+        idle.forEach(([id]) => this.expire(id));
+        return idle.length;
+    }
+
+    private expire(id: string): void {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+        this.entries.delete(id);
+        this.options.onExpire(entry.session, id);
+    }
+}
+
+const ROUTES: Record<string, { route: McpRoute; methods: string[] }> = {
+    '/mcp': { route: 'mcp', methods: ['GET', 'POST', 'DELETE'] },
+    '/sse': { route: 'sse', methods: ['GET'] },
+    '/messages': { route: 'messages', methods: ['POST'] }
+};
+
+/**
+ * HTTP server in front of the MCP endpoints: origin and host checks, bearer
+ * authentication, body parsing, `/health` and `/ready`, and graceful shutdown.
+ * The probes are not authenticated so load balancers can reach them.
+ */
+export class HttpGateway {
+    private readonly server: Server;
+    private readonly startedAt = Date.now();
+    private closing?: Promise<void>;
+    private lastReadiness?: { checkedAt: number; result: Promise<Readiness> };
+
+    /**
+     * @param config - Host, port, tokens and shutdown timeout
+     * @param sessions - MCP session handler
+     * @param readiness - Readiness check for `/ready`
+     * @param logger - Logger
+     */
+    constructor(
+        private readonly config: HttpConfig,
+        private readonly sessions: McpSessionHandler,
+        private readonly readiness: () => Promise<Readiness>,
+        private readonly logger?: Logger
+    ) {
+        this.server = createServer((request, response) => {
+            this.route(request, response).catch(error => {
+                this.logger?.error('HTTP request failed:', error);
+                if (!response.headersSent) {
+                    sendRpcError(response, 500, -32603, 'Internal server error');
+                } else {
+                    response.end();
+                }
+            });
+        });
+    }
+
+    private async route(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+        if (path === '/health' && request.method === 'GET') {
+            sendJson(response, 200, {
+                status: this.closing ? 'closing' : 'ok',
+                uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+                sessions: this.sessions.sessionCount()
+            });
+            return;
+        }
+        if (path === '/ready' && request.method === 'GET') {
+            const readiness = this.closing ? { ready: false, networks: {} } : await this.currentReadiness();
+            sendJson(response, readiness.ready ? 200 : 503, readiness);
+            return;
+        }
+
+        const endpoint = ROUTES[path];
+        if (!endpoint) {
+            sendJson(response, 404, { error: `Not found: ${path}` });
+            return;
+        }
+        if (!endpoint.methods.includes(request.method ?? '')) {
+            sendJson(response, 405, { error: `Method ${request.method} not allowed` }, { Allow: endpoint.methods.join(', ') });
+            return;
+        }
+        const refused = checkRequestSource(request.headers, this.config);
+        if (refused) {
+            sendJson(response, 403, { error: refused });
+            return;
+        }
+        const client = authenticate(request.headers.authorization, this.config.tokens);
+        if (client === undefined) {
+            sendJson(response, 401, { error: 'Missing or invalid bearer token' }, { 'WWW-Authenticate': 'Bearer' });
+            return;
+        }
+        if (this.closing) {
+            sendRpcError(response, 503, -32000, 'Server is shutting down');
+            return;
+        }
+
+        let body: unknown;
+        if (request.method === 'POST') {
+            try {
+                body = await readJsonBody(request);
+            } catch (error) {
+                const status = (error as { status?: number }).status ?? 400;
+                sendRpcError(response, status, -32700, (error as Error).message);
+                return;
+            }
+        }
+        await this.sessions.handle(endpoint.route, request, response, body, client);
+    }
+
+    /**
+     * Readiness from a recent check, so frequent probes do not each query
+     * every network; concurrent probes share one check
+     */
+    private currentReadiness(): Promise<Readiness> {
+        const now = Date.now();
+        if (!this.lastReadiness || now - this.lastReadiness.checkedAt >= this.config.readyCacheMs) {
+            this.lastReadiness = { checkedAt: now, result: this.readiness() };
+        }
+        return this.lastReadiness.result;
+    }
+
+    /**
+     * Start listening
+     * @returns Address the server listens on
+     */
+    async listen(): Promise<AddressInfo> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.config.port, this.config.host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+        return this.server.address() as AddressInfo;
+    }
+
+    /**
+     * Stop accepting connections, close every session and wait for open
+     * requests, closing their connections after the shutdown timeout
+     */
+    close(): Promise<void> {
+        this.closing ??= (async () => {
+            const closed = new Promise<void>(resolve => this.server.close(() => resolve()));
+            await this.sessions.close();
+            this.server.closeIdleConnections();
+            const timer = setTimeout(() => this.server.closeAllConnections(), this.config.shutdownTimeoutMs);
+            timer.unref();
+            await closed;
+            clearTimeout(timer);
+        })();
+        return this.closing;
+    }
+}
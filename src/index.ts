@@ -2,165 +2,347 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest,
   ErrorCode,
   McpError
 } from "@modelcontextprotocol/sdk/types.js";
 import dotenv from "dotenv";
-import { ValidationCloudAPI } from "./api.js";
-import { ValidationCloudError } from "./types.js";
+import { randomUUID } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { NetworkRegistry, loadNetworkConfigs } from "./networks.js";
+import { TokenBucket } from "./rateLimiter.js";
+import { EventDecoder } from "./events.js";
+import { RevertDecoder } from "./revert.js";
+import { RedactingLogger, StderrLogger } from "./logger.js";
+import { CORE_TOOLS, ToolRegistry } from "./tools.js";
+import { registerToolHandlers } from "./toolHandlers.js";
+import { loadPolicyConfig } from "./policy.js";
+import { EthereumErrorCode, PolicyViolationError, ValidationCloudError } from "./types.js";
+import { METHOD_TOOLS } from "./methodTools.js";
+import { TOKEN_TOOLS } from "./tokenTools.js";
+import { ENS_TOOLS } from "./ensTools.js";
+import { WATCH_TOOLS } from "./watchTools.js";
+import { ResourceError, ResourceProvider } from "./resources.js";
+import { redactString } from "./redact.js";
+import { HttpConfig, HttpGateway, McpRoute, SessionTable, checkReadiness, loadHttpConfig, sendRpcError } from "./http.js";
+
+/** JSON-RPC error code MCP uses for resources that do not exist */
+const RESOURCE_NOT_FOUND = -32002;
 
 dotenv.config();
 
+// Every configured API key and client token, so no log line or tool result can echo one back
+const secrets = [
+  ...Object.entries(process.env)
+    .filter(([name, value]) => name.startsWith("VALIDATION_CLOUD_API_KEY") && value)
+    .map(([, value]) => value as string),
+  ...(process.env.VALIDATION_CLOUD_HTTP_TOKENS ?? "").split(",").map(token => token.trim()).filter(Boolean)
+];
+const logger = new RedactingLogger(new StderrLogger("[ValidationCloudServer]"), secrets);
+
+/** A client's MCP server; tools are shared, resource subscriptions are per session */
+interface McpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Token digest of the client that opened the session; no other client may use it */
+  client: string;
+}
+
 class ValidationCloudServer {
-  private server: Server;
-  private validationCloudApi: ValidationCloudAPI;
+  private networks: NetworkRegistry;
+  private tools: ToolRegistry;
+  private close?: () => Promise<void>;
 
   constructor() {
-    console.error('[ValidationCloudServer] Starting server initialization');
+    logger.info('Starting server initialization');
 
-    const apiKey = process.env.VALIDATION_CLOUD_API_KEY;
-    if (!apiKey) {
-      console.error('[ValidationCloudServer] Missing API key');
-      throw new Error('VALIDATION_CLOUD_API_KEY environment variable is required');
-    }
-    console.error('[ValidationCloudServer] API key found, length:', apiKey.length);
-
-    this.validationCloudApi = new ValidationCloudAPI({ apiKey });
-
-    const ethereumTool = {
-      name: "ethereum_request",
-      description: "Make Ethereum JSON-RPC requests using Validation Cloud",
-      inputSchema: {
-        type: "object",
-        properties: {
-          method: { type: "string" },
-          params: {
-            type: "array",
-            items: {}
+    const requestsPerSecond = Number(process.env.VALIDATION_CLOUD_RATE_LIMIT_RPS);
+    const maxRetries = process.env.VALIDATION_CLOUD_MAX_RETRIES;
+
+    this.networks = new NetworkRegistry(loadNetworkConfigs(process.env), {
+      defaultNetwork: process.env.VALIDATION_CLOUD_DEFAULT_NETWORK,
+      logger,
+      clientConfig: {
+        apiKeyLocation: process.env.VALIDATION_CLOUD_AUTH_MODE === "header" ? "header" : "path",
+        apiKeyHeader: process.env.VALIDATION_CLOUD_AUTH_HEADER,
+        // One bucket for all networks, since the plan limit applies to the account
+        ...(requestsPerSecond > 0 && {
+          rateLimit: new TokenBucket({
+            requestsPerSecond,
+            burst: Number(process.env.VALIDATION_CLOUD_RATE_LIMIT_BURST) || undefined
+          })
+        }),
+        ...(maxRetries !== undefined && { retry: { maxRetries: Number(maxRetries) || 0 } }),
+        policy: loadPolicyConfig(process.env),
+        ...(process.env.VALIDATION_CLOUD_CACHE !== 'off' && {
+          cache: {
+            maxEntries: Number(process.env.VALIDATION_CLOUD_CACHE_MAX_ENTRIES) || undefined,
+            volatileTtlMs: Number(process.env.VALIDATION_CLOUD_CACHE_TTL_MS) || undefined
           }
-        },
-        required: ["method"]
+        }),
+        subscriptionPollIntervalMs: Number(process.env.VALIDATION_CLOUD_SUBSCRIPTION_POLL_MS) || undefined
       }
+    });
+    logger.info('Configured networks:', this.networks.names().join(', '));
+
+    this.tools = new ToolRegistry(
+      { networks: this.networks, eventDecoder: new EventDecoder(), revertDecoder: new RevertDecoder(), logger },
+      secrets
+    ).register(...CORE_TOOLS, ...METHOD_TOOLS, ...TOKEN_TOOLS, ...ENS_TOOLS, ...WATCH_TOOLS);
+
+    this.setupSignalHandlers();
+    logger.info('Server initialization complete');
+  }
+
+  private setupSignalHandlers(): void {
+    let stopping = false;
+    const shutdown = async (signal: string) => {
+      if (stopping) {
+        logger.warn(`Received ${signal} again, exiting`);
+        process.exit(1);
+      }
+      stopping = true;
+      logger.info(`Received ${signal}, shutting down`);
+      try {
+        await this.close?.();
+        await Promise.all(this.networks.names().map(name => this.networks.get(name).closeSubscriptions()));
+      } catch (error) {
+        logger.error('Shutdown failed:', error);
+      }
+      process.exit(0);
     };
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+  }
 
-    console.error('[ValidationCloudServer] Creating MCP server');
-    this.server = new Server(
+  /**
+   * Create the MCP server for one client session
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "validation-cloud-server",
         version: "0.1.0",
       },
       {
         capabilities: {
-          tools: {
-            ethereum_request: ethereumTool
-          },
+          tools: {},
+          resources: { subscribe: true },
+          logging: {},
         },
       }
     );
+    const resources = new ResourceProvider(
+      this.networks,
+      uri => server.sendResourceUpdated({ uri }).catch(error => logger.warn('Could not send resource update:', error)),
+      {
+        recentBlocks: Number(process.env.VALIDATION_CLOUD_RESOURCE_BLOCKS) || undefined,
+        pollIntervalMs: Number(process.env.VALIDATION_CLOUD_RESOURCE_POLL_MS) || undefined,
+        logger
+      }
+    );
+    server.onerror = (error) => {
+      logger.error("MCP Error:", error);
+    };
+    server.onclose = () => resources.close();
 
-    this.setupHandlers();
-    this.setupErrorHandling();
-    console.error('[ValidationCloudServer] Server initialization complete');
+    registerToolHandlers(server, this.tools, logger);
+    this.setupResourceHandlers(server, resources);
+    return server;
   }
 
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      console.error("[ValidationCloudServer] MCP Error:", error);
-    };
+  private setupResourceHandlers(server: Server, resources: ResourceProvider): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      logger.info('Handling list_resources request');
+      return { resources: await resources.list() };
+    });
 
-    process.on('SIGINT', async () => {
-      console.error('[ValidationCloudServer] Received SIGINT, shutting down');
-      await this.server.close();
-      process.exit(0);
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: resources.templates() };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      logger.info('Reading resource', request.params.uri);
+      return { contents: [await this.resourceCall(() => resources.read(request.params.uri))] };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      logger.info('Subscribing to resource', request.params.uri);
+      await this.resourceCall(async () => resources.subscribe(request.params.uri));
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      resources.unsubscribe(request.params.uri);
+      return {};
     });
   }
 
-  private setupHandlers(): void {
-    console.error('[ValidationCloudServer] Setting up request handlers');
-    this.setupToolHandlers();
+  /**
+   * Run a resource operation, turning its failures into MCP errors
+   */
+  private async resourceCall<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof ResourceError) {
+        throw new McpError(error.reason === "not_found" ? RESOURCE_NOT_FOUND : ErrorCode.InvalidParams, error.message);
+      }
+      if (error instanceof PolicyViolationError) {
+        throw new McpError(ErrorCode.InvalidRequest, error.message, { policy: error.policy, method: error.method });
+      }
+      if (error instanceof ValidationCloudError) {
+        throw new McpError(
+          error.code === EthereumErrorCode.INVALID_PARAMS ? ErrorCode.InvalidParams : ErrorCode.InternalError,
+          redactString(error.message, secrets)
+        );
+      }
+      throw error;
+    }
   }
 
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      console.error('[ValidationCloudServer] Handling list_tools request');
-      return {
-        tools: [
-          {
-            name: "ethereum_request",
-            description: "Make Ethereum JSON-RPC requests using Validation Cloud",
-            inputSchema: {
-              type: "object",
-              properties: {
-                method: { type: "string" },
-                params: {
-                  type: "array",
-                  items: {}
-                }
-              },
-              required: ["method"]
-            }
-          }
-        ]
-      };
-    });
+  async run(): Promise<void> {
+    logger.info('Starting server');
+    const httpConfig = loadHttpConfig(process.env);
+    if (httpConfig) {
+      await this.runHttp(httpConfig);
+    } else {
+      const server = this.createServer();
+      await server.connect(new StdioServerTransport());
+      this.close = () => server.close();
+      logger.info('Server running on stdio');
+    }
+    // Verified after connecting so a slow network cannot hold up the client's handshake
+    void this.verifyNetworks();
+  }
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      console.error('[ValidationCloudServer] Received tool call request:', JSON.stringify(request, null, 2));
+  private async verifyNetworks(): Promise<void> {
+    for (const status of await this.networks.verify()) {
+      if (status.verified) {
+        logger.info(`Network ${status.name} verified, chain ID ${status.chainId}`);
+      } else {
+        logger.error(`Network ${status.name} failed verification: ${status.error}`);
+      }
+    }
+  }
 
-      if (request.params.name === "ethereum_request") {
-        console.error('[ValidationCloudServer] Processing ethereum_request');
+  private async runHttp(config: HttpConfig): Promise<void> {
+    // Sessions of clients that went away without closing them are expired, so their servers and pollers stop
+    const sessions = new SessionTable<McpSession>({
+      idleMs: config.sessionIdleMs,
+      maxPerClient: config.maxSessionsPerClient,
+      onExpire: (session, id) => {
+        logger.info(`Closing expired session ${id}`);
+        session.server.close().catch(error => logger.warn(`Could not close session ${id}:`, error));
+      }
+    });
+    const sweep = setInterval(() => sessions.expireIdle(), Math.min(config.sessionIdleMs, 60000));
+    sweep.unref();
 
-        if (!request.params.arguments || typeof request.params.arguments !== 'object') {
-          console.error('[ValidationCloudServer] Invalid arguments format');
-          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for ethereum_request");
+    const gateway = new HttpGateway(
+      config,
+      {
+        handle: (route, request, response, body, client) => this.handleHttp(sessions, route, request, response, body, client),
+        sessionCount: () => sessions.size,
+        close: async () => {
+          clearInterval(sweep);
+          await Promise.all(sessions.values().map(session => session.server.close()));
         }
+      },
+      () => checkReadiness(this.networks),
+      logger
+    );
+    const address = await gateway.listen();
+    this.close = () => gateway.close();
+    logger.info(`Server running on http://${address.address}:${address.port} (Streamable HTTP at /mcp, SSE at /sse)`);
+    if (config.tokens.length === 0) {
+      logger.warn('No VALIDATION_CLOUD_HTTP_TOKENS set; clients are not authenticated');
+    }
+  }
 
-        const { method, params } = request.params.arguments as { method: string; params?: any[] };
-        console.error('[ValidationCloudServer] Extracted method and params:', { method, params });
+  private async handleHttp(
+    sessions: SessionTable<McpSession>,
+    route: McpRoute,
+    request: IncomingMessage,
+    response: ServerResponse,
+    body: unknown,
+    client: string
+  ): Promise<void> {
+    // Another client's session looks the same as one that does not exist
+    const findSession = (id: string | null | undefined) => {
+      const session = id ? sessions.get(id) : undefined;
+      return session?.client === client ? session : undefined;
+    };
 
-        if (typeof method !== 'string') {
-          console.error('[ValidationCloudServer] Invalid method type');
-          throw new McpError(ErrorCode.InvalidParams, "Method must be a string");
-        }
+    if (route === "sse") {
+      const transport = new SSEServerTransport("/messages", response);
+      const server = this.createServer();
+      sessions.add(transport.sessionId, { server, transport, client });
+      sessions.track(transport.sessionId, response);
+      transport.onclose = () => {
+        sessions.delete(transport.sessionId);
+      };
+      await server.connect(transport);
+      logger.info(`Opened SSE session ${transport.sessionId}`);
+      return;
+    }
 
-        try {
-          console.error('[ValidationCloudServer] Making API request');
-          const results = await this.validationCloudApi.request({
-            method,
-            params: params || []
-          });
-          console.error('[ValidationCloudServer] API request successful:', results);
-          return { toolResult: results };
-        } catch (error) {
-          console.error('[ValidationCloudServer] API request failed:', error);
-          if (error instanceof ValidationCloudError) {
-            return {
-              content: [{ type: "text", text: `Validation Cloud API error: ${error.message}` }],
-              isError: true,
-            };
-          }
-          throw error;
-        }
+    if (route === "messages") {
+      const session = findSession(new URL(request.url ?? "/", "http://localhost").searchParams.get("sessionId"));
+      if (!(session?.transport instanceof SSEServerTransport)) {
+        sendRpcError(response, 404, ErrorCode.InvalidRequest, "Unknown SSE session");
+        return;
       }
+      sessions.track(session.transport.sessionId, response);
+      await session.transport.handlePostMessage(request, response, body);
+      return;
+    }
 
-      console.error('[ValidationCloudServer] Unknown tool requested:', request.params.name);
-      throw new McpError(ErrorCode.MethodNotFound, "Unknown tool");
-    });
-  }
-
-  async run(): Promise<void> {
-    console.error('[ValidationCloudServer] Starting server');
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('[ValidationCloudServer] Server running on stdio');
+    const sessionId = request.headers["mcp-session-id"];
+    let session = typeof sessionId === "string" ? findSession(sessionId) : undefined;
+    if (sessionId !== undefined && !session) {
+      sendRpcError(response, 404, ErrorCode.InvalidRequest, "Unknown session; initialize a new one");
+      return;
+    }
+    if (session && !(session.transport instanceof StreamableHTTPServerTransport)) {
+      sendRpcError(response, 400, ErrorCode.InvalidRequest, "Session belongs to the SSE transport");
+      return;
+    }
+    if (!session) {
+      if (request.method !== "POST" || !isInitializeRequest(body)) {
+        sendRpcError(response, 400, ErrorCode.InvalidRequest, "Missing Mcp-Session-Id header; send an initialize request first");
+        return;
+      }
+      const server = this.createServer();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          sessions.add(id, { server, transport, client });
+          logger.info(`Opened session ${id}`);
+        }
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+      await server.connect(transport);
+      session = { server, transport, client };
+    } else {
+      sessions.track(sessionId as string, response);
+    }
+    await (session.transport as StreamableHTTPServerTransport).handleRequest(request, response, body);
   }
 }
 
-console.error('[ValidationCloudServer] Creating server instance');
+logger.info('Creating server instance');
 const server = new ValidationCloudServer();
 server.run().catch(error => {
-  console.error('[ValidationCloudServer] Server failed to start:', error);
+  logger.error('Server failed to start:', error);
 });
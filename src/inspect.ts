@@ -0,0 +1,427 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { encodeFunctionData, keccak256, parseSignature, selector, toChecksumAddress } from './abi.js';
+import { ValidationCloudAPI } from './api.js';
+import { toBlockParam } from './contract.js';
+import { EthereumErrorCode, ValidationCloudError } from './types.js';
+
+/** Storage slots that hold proxy pointers */
+export const PROXY_SLOTS = {
+    /** bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1) */
+    eip1967Implementation: '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc',
+    /** bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1) */
+    eip1967Beacon: '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50',
+    /** bytes32(uint256(keccak256('eip1967.proxy.admin')) - 1) */
+    eip1967Admin: '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103',
+    /** keccak256('PROXIABLE'), used by EIP-1822 (UUPS) */
+    eip1822: '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7'
+};
+
+/** ERC-165 interface IDs probed with `supportsInterface` */
+export const KNOWN_INTERFACES: Record<string, string> = {
+    '0x80ac58cd': 'ERC721',
+    '0x5b5e139f': 'ERC721Metadata',
+    '0x780e9d63': 'ERC721Enumerable',
+    '0xd9b67a26': 'ERC1155',
+    '0x0e89341c': 'ERC1155MetadataURI',
+    '0x2a55205a': 'ERC2981',
+    '0x49064906': 'ERC4906',
+    '0x7965db0b': 'AccessControl',
+    '0x5a05180f': 'AccessControlEnumerable',
+    '0xb0202a11': 'ERC1363',
+    '0x150b7a02': 'ERC721Receiver',
+    '0x4e2312e0': 'ERC1155Receiver'
+};
+
+/** Functions named in selector listings; others are reported by selector only */
+const KNOWN_FUNCTION_SIGNATURES = [
+    // ERC-20
+    'name()', 'symbol()', 'decimals()', 'totalSupply()', 'balanceOf(address)', 'transfer(address,uint256)',
+    'transferFrom(address,address,uint256)', 'approve(address,uint256)', 'allowance(address,address)',
+    'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)', 'nonces(address)', 'DOMAIN_SEPARATOR()',
+    // ERC-721 and ERC-1155
+    'ownerOf(uint256)', 'tokenURI(uint256)', 'safeTransferFrom(address,address,uint256)',
+    'safeTransferFrom(address,address,uint256,bytes)', 'setApprovalForAll(address,bool)', 'getApproved(uint256)',
+    'isApprovedForAll(address,address)', 'uri(uint256)', 'balanceOfBatch(address[],uint256[])',
+    'safeTransferFrom(address,address,uint256,uint256,bytes)',
+    'safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)', 'supportsInterface(bytes4)',
+    'royaltyInfo(uint256,uint256)', 'tokenByIndex(uint256)', 'tokenOfOwnerByIndex(address,uint256)',
+    // Ownership and access control
+    'owner()', 'transferOwnership(address)', 'renounceOwnership()', 'pendingOwner()', 'acceptOwnership()',
+    'hasRole(bytes32,address)', 'grantRole(bytes32,address)', 'revokeRole(bytes32,address)',
+    'renounceRole(bytes32,address)', 'getRoleAdmin(bytes32)', 'DEFAULT_ADMIN_ROLE()',
+    // Pausing, minting and WETH
+    'paused()', 'pause()', 'unpause()', 'mint(address,uint256)', 'burn(uint256)', 'burnFrom(address,uint256)',
+    'deposit()', 'withdraw(uint256)',
+    // Proxies and upgrades
+    'implementation()', 'admin()', 'upgradeTo(address)', 'upgradeToAndCall(address,bytes)', 'changeAdmin(address)',
+    'proxiableUUID()', 'initialize()',
+    // Multicall
+    'multicall(bytes[])', 'aggregate((address,bytes)[])'
+];
+
+const FUNCTION_NAMES = new Map(KNOWN_FUNCTION_SIGNATURES.map(signature => [selector(signature), signature]));
+
+/** Prefix of an EIP-7702 delegation designator: 0xef0100 followed by the delegate address */
+const DELEGATION_PREFIX = 'ef0100';
+
+/** EIP-1167 minimal proxy runtime code around the implementation address */
+const MINIMAL_PROXY = /^363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+
+const SUPPORTS_INTERFACE = parseSignature('function supportsInterface(bytes4 interfaceId) view returns (bool)');
+const BEACON_IMPLEMENTATION = parseSignature('function implementation() view returns (address)');
+
+/**
+ * Proxy pattern found at an address
+ */
+export interface ProxyInfo {
+    standard: 'eip1967' | 'eip1967-beacon' | 'eip1822' | 'eip1167';
+    /** Contract the proxy delegates to */
+    implementation: string;
+    /** Beacon the implementation was read from */
+    beacon?: string;
+    /** EIP-1967 admin, when set */
+    admin?: string;
+}
+
+/**
+ * Compiler metadata from the CBOR trailer solc and vyper append to runtime code
+ */
+export interface BytecodeMetadata {
+    /** Compiler and version, e.g. `solc 0.8.24` */
+    compiler?: string;
+    /** IPFS CIDv0 of the metadata JSON */
+    ipfs?: string;
+    /** Swarm hash of the metadata JSON (older solc) */
+    bzzr?: string;
+    /** Whether experimental compiler features were enabled */
+    experimental?: boolean;
+}
+
+/**
+ * Summary of the code at an address
+ */
+export interface CodeSummary {
+    /** Runtime code size in bytes */
+    codeSize: number;
+    /** keccak256 of the runtime code */
+    codeHash: string;
+    /** Function selectors found in the dispatcher, with signatures when known */
+    selectors: { selector: string; signature?: string }[];
+    metadata?: BytecodeMetadata;
+}
+
+/**
+ * What lives at an address
+ */
+export interface ContractInspection {
+    address: string;
+    /** Block the inspection ran against */
+    block: string;
+    /** `eoa` for no code, `delegated` for an EIP-7702 account, otherwise `contract` */
+    kind: 'eoa' | 'contract' | 'delegated';
+    /** Delegate of an EIP-7702 account */
+    delegatedTo?: string;
+    code?: CodeSummary;
+    proxy?: ProxyInfo;
+    /** Code of the proxy implementation or EIP-7702 delegate */
+    implementation?: CodeSummary;
+    /** ERC-165 support and the known interfaces the contract reports */
+    interfaces?: { erc165: boolean; supported: string[] };
+}
+
+function inspectError(reason: string): ValidationCloudError {
+    return new ValidationCloudError(reason, EthereumErrorCode.INVALID_PARAMS);
+}
+
+/**
+ * Find the selectors a Solidity or Vyper dispatcher compares calldata with:
+ * `PUSH4 <selector>` followed within two instructions by `EQ`
+ * @param code - Runtime code without the metadata trailer
+ * @returns Unique selectors in code order
+ */
+export function extractSelectors(code: Uint8Array): string[] {
+    const found = new Set<string>();
+    const pushes: { selector: string; index: number }[] = [];
+    let instruction = 0;
+
+    for (let pc = 0; pc < code.length; pc++, instruction++) {
+        const opcode = code[pc];
+        if (opcode === 0x63 && pc + 4 < code.length) {
+            pushes.push({ selector: `0x${bytesToHex(code.slice(pc + 1, pc + 5))}`, index: instruction });
+        } else if (opcode === 0x14) {
+            const candidate = pushes[pushes.length - 1];
+            if (candidate && instruction - candidate.index <= 2 && candidate.selector !== '0xffffffff') {
+                found.add(candidate.selector);
+            }
+        }
+        // Skip PUSH1..PUSH32 immediates
+        if (opcode >= 0x60 && opcode <= 0x7f) {
+            pc += opcode - 0x5f;
+        }
+    }
+    return [...found];
+}
+
+interface CborReader {
+    bytes: Uint8Array;
+    offset: number;
+}
+
+function readCborLength(reader: CborReader, info: number): number {
+    if (info < 24) return info;
+    const size = { 24: 1, 25: 2, 26: 4 }[info];
+    if (size === undefined) throw new Error('unsupported CBOR length');
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+        value = value * 256 + reader.bytes[reader.offset++];
+    }
+    return value;
+}
+
+function readCbor(reader: CborReader): unknown {
+    if (reader.offset >= reader.bytes.length) throw new Error('truncated CBOR');
+    const initial = reader.bytes[reader.offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+        if (info === 20) return false;
+        if (info === 21) return true;
+        throw new Error('unsupported CBOR simple value');
+    }
+    const length = readCborLength(reader, info);
+    switch (major) {
+        case 0:
+            return length;
+        case 2:
+        case 3: {
+            const end = reader.offset + length;
+            if (end > reader.bytes.length) throw new Error('truncated CBOR');
+            const value = reader.bytes.slice(reader.offset, end);
+            reader.offset = end;
+            return major === 2 ? value : new TextDecoder().decode(value);
+        }
+        case 4:
+            return Array.from({ length }, () => readCbor(reader));
+        case 5: {
+            const map: Record<string, unknown> = {};
+            for (let i = 0; i < length; i++) {
+                const key = readCbor(reader);
+                map[String(key)] = readCbor(reader);
+            }
+            return map;
+        }
+        default:
+            throw new Error('unsupported CBOR type');
+    }
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58(bytes: Uint8Array): string {
+    let value = BigInt(`0x${bytesToHex(bytes) || '0'}`);
+    let text = '';
+    while (value > 0n) {
+        text = BASE58_ALPHABET[Number(value % 58n)] + text;
+        value /= 58n;
+    }
+    for (const byte of bytes) {
+        if (byte !== 0) break;
+        text = `1${text}`;
+    }
+    return text;
+}
+
+/**
+ * Split runtime code into executable code and its CBOR metadata trailer.
+ * The last two bytes give the trailer length; code without a valid trailer
+ * is returned whole.
+ * @param code - Runtime code
+ * @returns Code without the trailer, and the decoded metadata if present
+ */
+export function parseBytecodeMetadata(code: Uint8Array): { code: Uint8Array; metadata?: BytecodeMetadata } {
+    if (code.length < 2) return { code };
+    const length = code[code.length - 2] * 256 + code[code.length - 1];
+    const start = code.length - 2 - length;
+    if (length === 0 || start < 0) return { code };
+
+    let map: unknown;
+    try {
+        const reader = { bytes: code.slice(start, code.length - 2), offset: 0 };
+        map = readCbor(reader);
+        if (reader.offset !== length) return { code };
+    } catch (error) {
+        return { code };
+    }
+    if (!map || typeof map !== 'object' || Array.isArray(map)) return { code };
+
+    const entries = map as Record<string, unknown>;
+    const metadata: BytecodeMetadata = {};
+    if (entries.solc instanceof Uint8Array) {
+        metadata.compiler = `solc ${Array.from(entries.solc).join('.')}`;
+    } else if (typeof entries.solc === 'string') {
+        metadata.compiler = `solc ${entries.solc}`;
+    }
+    if (Array.isArray(entries.vyper)) {
+        metadata.compiler = `vyper ${entries.vyper.join('.')}`;
+    }
+    if (entries.ipfs instanceof Uint8Array) {
+        metadata.ipfs = base58(entries.ipfs);
+    }
+    const swarm = entries.bzzr1 ?? entries.bzzr0;
+    if (swarm instanceof Uint8Array) {
+        metadata.bzzr = `0x${bytesToHex(swarm)}`;
+    }
+    if (entries.experimental === true) {
+        metadata.experimental = true;
+    }
+    return { code: code.slice(0, start), metadata };
+}
+
+/**
+ * Summarise runtime code: size, hash, dispatcher selectors and compiler metadata
+ * @param hex - Runtime code as hex
+ */
+export function summarizeCode(hex: string): CodeSummary {
+    const bytes = hexToBytes(hex.slice(2));
+    const { code, metadata } = parseBytecodeMetadata(bytes);
+    return {
+        codeSize: bytes.length,
+        codeHash: keccak256(bytes),
+        selectors: extractSelectors(code).map(value => ({
+            selector: value,
+            ...(FUNCTION_NAMES.has(value) && { signature: FUNCTION_NAMES.get(value) })
+        })),
+        ...(metadata && { metadata })
+    };
+}
+
+function addressFromWord(word: string | undefined): string | undefined {
+    if (!word || !/^0x[0-9a-fA-F]{64}$/.test(word)) return undefined;
+    const address = word.slice(-40);
+    return /^0+$/.test(address) ? undefined : toChecksumAddress(`0x${address}`);
+}
+
+async function getCode(api: ValidationCloudAPI, address: string, block: string): Promise<string> {
+    const { result } = await api.request({ method: 'eth_getCode', params: [address, block] });
+    return typeof result === 'string' ? result.toLowerCase() : '0x';
+}
+
+async function readSlot(api: ValidationCloudAPI, address: string, slot: string, block: string): Promise<string | undefined> {
+    const { result } = await api.request({ method: 'eth_getStorageAt', params: [address, slot, block] });
+    return addressFromWord(result);
+}
+
+async function viewCall(api: ValidationCloudAPI, to: string, data: string, block: string): Promise<string | undefined> {
+    try {
+        const { result } = await api.request({ method: 'eth_call', params: [{ to, data }, block] });
+        return typeof result === 'string' && result !== '0x' ? result : undefined;
+    } catch (error) {
+        if (error instanceof ValidationCloudError) return undefined;
+        throw error;
+    }
+}
+
+async function detectProxy(api: ValidationCloudAPI, address: string, code: string, block: string): Promise<ProxyInfo | undefined> {
+    const minimal = code.slice(2).match(MINIMAL_PROXY);
+    if (minimal) {
+        return { standard: 'eip1167', implementation: toChecksumAddress(`0x${minimal[1]}`) };
+    }
+
+    const [implementation, beacon, admin, proxiable] = await Promise.all([
+        readSlot(api, address, PROXY_SLOTS.eip1967Implementation, block),
+        readSlot(api, address, PROXY_SLOTS.eip1967Beacon, block),
+        readSlot(api, address, PROXY_SLOTS.eip1967Admin, block),
+        readSlot(api, address, PROXY_SLOTS.eip1822, block)
+    ]);
+    if (implementation) {
+        return { standard: 'eip1967', implementation, ...(admin && { admin }) };
+    }
+    if (beacon) {
+        const result = await viewCall(api, beacon, encodeFunctionData(BEACON_IMPLEMENTATION, []), block);
+        const beaconImplementation = addressFromWord(result?.slice(0, 66));
+        if (beaconImplementation) {
+            return { standard: 'eip1967-beacon', implementation: beaconImplementation, beacon, ...(admin && { admin }) };
+        }
+    }
+    if (proxiable) {
+        return { standard: 'eip1822', implementation: proxiable };
+    }
+    return undefined;
+}
+
+async function supportsInterface(api: ValidationCloudAPI, address: string, interfaceId: string, block: string): Promise<boolean> {
+    const result = await viewCall(api, address, encodeFunctionData(SUPPORTS_INTERFACE, [interfaceId]), block);
+    return result !== undefined && result.length >= 66 && BigInt(result.slice(0, 66)) === 1n;
+}
+
+/**
+ * Probe ERC-165 as the standard prescribes, then each known interface
+ * @returns Whether ERC-165 is supported and the supported interface names
+ */
+async function probeInterfaces(api: ValidationCloudAPI, address: string, block: string): Promise<{ erc165: boolean; supported: string[] }> {
+    const [erc165, invalid] = await Promise.all([
+        supportsInterface(api, address, '0x01ffc9a7', block),
+        supportsInterface(api, address, '0xffffffff', block)
+    ]);
+    if (!erc165 || invalid) {
+        return { erc165: false, supported: [] };
+    }
+    const ids = Object.keys(KNOWN_INTERFACES);
+    const results = await Promise.all(ids.map(id => supportsInterface(api, address, id, block)));
+    return { erc165: true, supported: ids.filter((_, index) => results[index]).map(id => KNOWN_INTERFACES[id]) };
+}
+
+/**
+ * Work out what lives at an address: an EOA, an EIP-7702 delegated account
+ * or a contract, and for contracts any proxy, ERC-165 interfaces, dispatcher
+ * selectors and compiler metadata
+ * @param api - API client
+ * @param address - Address to inspect
+ * @param block - Block to inspect at, defaults to latest
+ * @returns Inspection report
+ */
+export async function inspectContract(
+    api: ValidationCloudAPI,
+    address: string,
+    block?: string | number
+): Promise<ContractInspection> {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        throw inspectError(`Invalid address: ${address}`);
+    }
+    const checksummed = toChecksumAddress(address);
+    const blockParam = toBlockParam(block);
+    const code = await getCode(api, checksummed, blockParam);
+
+    if (code === '0x') {
+        return { address: checksummed, block: blockParam, kind: 'eoa' };
+    }
+
+    if (code.startsWith(`0x${DELEGATION_PREFIX}`) && code.length === 2 + 46) {
+        const delegate = toChecksumAddress(`0x${code.slice(2 + DELEGATION_PREFIX.length)}`);
+        const delegateCode = await getCode(api, delegate, blockParam);
+        return {
+            address: checksummed,
+            block: blockParam,
+            kind: 'delegated',
+            delegatedTo: delegate,
+            ...(delegateCode !== '0x' && { implementation: summarizeCode(delegateCode) })
+        };
+    }
+
+    const [proxy, interfaces] = await Promise.all([
+        detectProxy(api, checksummed, code, blockParam),
+        probeInterfaces(api, checksummed, blockParam)
+    ]);
+    const implementationCode = proxy ? await getCode(api, proxy.implementation, blockParam) : '0x';
+
+    return {
+        address: checksummed,
+        block: blockParam,
+        kind: 'contract',
+        code: summarizeCode(code),
+        ...(proxy && { proxy }),
+        ...(implementationCode !== '0x' && { implementation: summarizeCode(implementationCode) }),
+        interfaces
+    };
+}
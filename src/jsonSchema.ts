@@ -0,0 +1,116 @@
+/**
+ * The subset of JSON Schema used by tool input schemas
+ */
+export interface JsonSchema {
+    type?: JsonType | JsonType[];
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    enum?: unknown[];
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    oneOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    default?: unknown;
+}
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+function typeOf(value: unknown): JsonType | 'undefined' {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonType | 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function describe(path: string): string {
+    return path || 'arguments';
+}
+
+/**
+ * Validate a value against a schema
+ * @param schema - Schema to check against
+ * @param value - Value to check
+ * @param path - Location of the value, used in messages
+ * @returns One message per problem found; empty when the value is valid
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = ''): string[] {
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            return [`${describe(path)} must be ${types.join(' or ')}, got ${typeOf(value)}`];
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        return [`${describe(path)} must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`];
+    }
+
+    const alternatives = schema.oneOf ?? schema.anyOf;
+    if (alternatives) {
+        const matches = alternatives.filter(alternative => validateSchema(alternative, value, path).length === 0).length;
+        if (matches === 0 || (schema.oneOf && matches > 1)) {
+            const options = alternatives.map(alternative => alternative.description ?? alternative.type ?? 'schema').join(' | ');
+            return [`${describe(path)} must match exactly one of: ${options}`];
+        }
+    }
+
+    const errors: string[] = [];
+
+    if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${describe(path)} must match ${schema.pattern}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${describe(path)} must be at least ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${describe(path)} must be at most ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${describe(path)} must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${describe(path)} must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateSchema(schema.items!, item, `${path}[${index}]`)));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        const prefix = path ? `${path}.` : '';
+        for (const name of schema.required ?? []) {
+            if (object[name] === undefined) {
+                errors.push(`${prefix}${name} is required`);
+            }
+        }
+        for (const [name, nested] of Object.entries(object)) {
+            const propertySchema = schema.properties?.[name];
+            if (propertySchema) {
+                if (nested !== undefined) {
+                    errors.push(...validateSchema(propertySchema, nested, `${prefix}${name}`));
+                }
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${prefix}${name} is not a known argument`);
+            }
+        }
+    }
+
+    return errors;
+}
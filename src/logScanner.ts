@@ -0,0 +1,265 @@
+import { ValidationCloudAPI } from './api.js';
+import { blockNumberOf } from './cache.js';
+import { categorizeError } from './errors.js';
+import { EthereumErrorCode, ValidationCloudError } from './types.js';
+
+/**
+ * Log filter accepted by the scanner
+ */
+export interface LogFilter {
+    fromBlock?: string | number;
+    toBlock?: string | number;
+    address?: string | string[];
+    topics?: (string | string[] | null)[];
+    /** Not supported; a scan with a block hash is rejected */
+    blockHash?: string;
+}
+
+/**
+ * Options for a log scan
+ */
+export interface LogScanOptions {
+    /** Filter to scan; ignored when `cursor` is given */
+    filter?: LogFilter;
+    /** Continuation cursor from a previous scan */
+    cursor?: string;
+    /** Stop after this many logs (default 1000) */
+    maxResults?: number;
+    /** Block span of the first request (default 2000) */
+    initialChunkSize?: number;
+    /** Largest block span the scanner grows to (default 100000) */
+    maxChunkSize?: number;
+    /** Stop after this many `eth_getLogs` calls (default 200) */
+    maxRequests?: number;
+}
+
+/**
+ * Outcome of a log scan
+ */
+export interface LogScanResult {
+    /** Logs in block and log index order */
+    logs: any[];
+    /** First block of the scanned range */
+    fromBlock: number;
+    /** Last block of the requested range */
+    toBlock: number;
+    /** Last block whose logs are all included */
+    scannedTo: number;
+    /** Whether the whole range was scanned */
+    complete: boolean;
+    /** Pass to the next scan to continue where this one stopped */
+    cursor?: string;
+    /** Number of `eth_getLogs` calls made */
+    requests: number;
+}
+
+interface CursorState {
+    /** Next block to scan */
+    from: number;
+    /** Last block of the range */
+    to: number;
+    /** Current chunk size */
+    chunk: number;
+    /** Logs of block `from` that were already returned */
+    skip: number;
+    /** Largest chunk size known to work after the provider rejected a wider one */
+    ceiling?: number;
+    address?: string | string[];
+    topics?: (string | string[] | null)[];
+}
+
+export const DEFAULT_MAX_RESULTS = 1000;
+const DEFAULT_INITIAL_CHUNK = 2000;
+const DEFAULT_MAX_CHUNK = 100000;
+const DEFAULT_MAX_REQUESTS = 200;
+
+function encodeCursor(state: CursorState): string {
+    return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Read a cursor back, refusing states that would stall or rewind the scan
+ * @param cursor - Cursor from a previous scan
+ * @param maxChunk - Largest chunk allowed now; older cursors may carry a wider one
+ */
+function decodeCursor(cursor: string, maxChunk: number): CursorState {
+    try {
+        const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (Number.isInteger(state.from) && Number.isInteger(state.to)
+            && Number.isInteger(state.chunk) && Number.isInteger(state.skip)
+            && (state.ceiling === undefined || Number.isInteger(state.ceiling))
+            && state.from >= 0 && state.from <= state.to + 1
+            && state.chunk >= 1 && state.skip >= 0 && (state.ceiling === undefined || state.ceiling >= 1)) {
+            return {
+                ...state,
+                chunk: Math.min(state.chunk, maxChunk),
+                ...(state.ceiling !== undefined && { ceiling: Math.min(state.ceiling, maxChunk) })
+            };
+        }
+    } catch (error) {
+        // Fall through to the error below
+    }
+    throw new ValidationCloudError('Invalid log scan cursor', EthereumErrorCode.INVALID_PARAMS);
+}
+
+/**
+ * Resolve a block parameter to a number, querying the node for tags
+ * @param api - API client
+ * @param block - Block number, hex quantity or tag
+ * @returns Block number
+ */
+export async function resolveBlockNumber(api: ValidationCloudAPI, block: string | number | undefined): Promise<number> {
+    const number = blockNumberOf(block);
+    if (number !== undefined) return number;
+    if (block === 'earliest') return 0;
+
+    if (block === undefined || block === 'latest') {
+        const response = await api.request({ method: 'eth_blockNumber' });
+        return response.result;
+    }
+
+    const response = await api.request({ method: 'eth_getBlockByNumber', params: [block, false] });
+    const resolved = blockNumberOf(response.result?.number);
+    if (resolved === undefined) {
+        throw new ValidationCloudError(`Could not resolve block "${block}"`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    return resolved;
+}
+
+/**
+ * Read a block range some providers suggest in "too many results" errors,
+ * e.g. `Try with this block range [0x10, 0x20]`
+ */
+function suggestedChunkSize(error: ValidationCloudError): number | undefined {
+    const match = error.message.match(/\[(0x[0-9a-fA-F]+),\s*(0x[0-9a-fA-F]+)\]/);
+    if (!match) return undefined;
+    const size = parseInt(match[2], 16) - parseInt(match[1], 16) + 1;
+    return size > 0 ? size : undefined;
+}
+
+function logKey(log: any): string {
+    return `${log.blockHash ?? log.blockNumber}:${log.transactionHash}:${log.logIndex}`;
+}
+
+/**
+ * Scan a block range for logs in adaptive chunks.
+ *
+ * The chunk halves when the provider reports too many results (or jumps to
+ * the range it suggests) and doubles after chunks with few results, but never
+ * back past a size the provider rejected. Results
+ * are de-duplicated and returned in order; when `maxResults` is reached the
+ * scan stops and returns a cursor to continue from.
+ * @param api - API client
+ * @param options - Scan options
+ * @returns Logs and scan progress
+ */
+export async function scanLogs(api: ValidationCloudAPI, options: LogScanOptions): Promise<LogScanResult> {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    // Chunks never exceed the span the request policy allows
+    const maxChunk = Math.min(options.maxChunkSize ?? DEFAULT_MAX_CHUNK, api.policy?.maxLogsBlockRange ?? Infinity);
+    const maxRequests = options.maxRequests ?? DEFAULT_MAX_REQUESTS;
+
+    let state: CursorState;
+    if (options.cursor) {
+        state = decodeCursor(options.cursor, maxChunk);
+    } else {
+        const filter = options.filter ?? {};
+        if (filter.blockHash) {
+            throw new ValidationCloudError(
+                'Log scans need a block range; query blockHash filters with eth_getLogs directly',
+                EthereumErrorCode.INVALID_PARAMS
+            );
+        }
+        const toBlock = await resolveBlockNumber(api, filter.toBlock);
+        const fromBlock = filter.fromBlock === undefined ? toBlock : await resolveBlockNumber(api, filter.fromBlock);
+        if (fromBlock > toBlock) {
+            throw new ValidationCloudError(
+                `fromBlock ${fromBlock} is after toBlock ${toBlock}`,
+                EthereumErrorCode.INVALID_PARAMS
+            );
+        }
+        state = {
+            from: fromBlock,
+            to: toBlock,
+            chunk: Math.min(options.initialChunkSize ?? DEFAULT_INITIAL_CHUNK, maxChunk),
+            skip: 0,
+            address: filter.address,
+            topics: filter.topics
+        };
+    }
+
+    const startBlock = state.from;
+    const logs: any[] = [];
+    const seen = new Set<string>();
+    let requests = 0;
+
+    while (state.from <= state.to && logs.length < maxResults && requests < maxRequests) {
+        const chunkEnd = Math.min(state.to, state.from + state.chunk - 1);
+        let chunkLogs: any[];
+
+        try {
+            requests++;
+            const response = await api.request({
+                method: 'eth_getLogs',
+                params: [{
+                    fromBlock: `0x${state.from.toString(16)}`,
+                    toBlock: `0x${chunkEnd.toString(16)}`,
+                    ...(state.address && { address: state.address }),
+                    ...(state.topics && { topics: state.topics })
+                }]
+            });
+            chunkLogs = response.result ?? [];
+        } catch (error) {
+            if (error instanceof ValidationCloudError && categorizeError(error) === 'range_too_large' && state.chunk > 1) {
+                state.chunk = Math.max(1, Math.min(suggestedChunkSize(error) ?? Infinity, Math.floor(state.chunk / 2)));
+                state.ceiling = state.chunk;
+                continue;
+            }
+            throw error;
+        }
+
+        // Logs of the first block that an earlier page already returned
+        let skip = state.skip;
+        for (const log of chunkLogs) {
+            if (skip > 0 && blockNumberOf(log.blockNumber) === state.from) {
+                skip--;
+                continue;
+            }
+
+            const key = logKey(log);
+            if (seen.has(key)) continue;
+
+            if (logs.length === maxResults) {
+                const block = blockNumberOf(log.blockNumber)!;
+                const returnedFromBlock = logs.filter(l => blockNumberOf(l.blockNumber) === block).length;
+                state.skip = block === state.from ? state.skip + returnedFromBlock : returnedFromBlock;
+                state.from = block;
+                return finish(logs, startBlock, state, requests);
+            }
+
+            seen.add(key);
+            logs.push(log);
+        }
+
+        state.from = chunkEnd + 1;
+        state.skip = 0;
+        if (chunkLogs.length < maxResults / 4) {
+            state.chunk = Math.min(state.ceiling ?? maxChunk, maxChunk, state.chunk * 2);
+        }
+    }
+
+    return finish(logs, startBlock, state, requests);
+}
+
+function finish(logs: any[], fromBlock: number, state: CursorState, requests: number): LogScanResult {
+    const complete = state.from > state.to;
+    return {
+        logs,
+        fromBlock,
+        toBlock: state.to,
+        scannedTo: state.from - 1,
+        complete,
+        ...(!complete && { cursor: encodeCursor(state) }),
+        requests
+    };
+}
@@ -0,0 +1,62 @@
+import { Logger } from './types.js';
+import { redactSecrets, redactString } from './redact.js';
+
+/**
+ * Logger wrapper that masks secrets in the message and every argument
+ */
+export class RedactingLogger implements Logger {
+    private readonly secrets: string[];
+
+    constructor(private readonly inner: Logger, secrets: readonly string[] = []) {
+        this.secrets = secrets.filter(secret => secret.length > 0);
+    }
+
+    /**
+     * Add a value to mask in future log lines
+     * @param secret - Value to mask
+     */
+    addSecret(secret: string): void {
+        if (secret && !this.secrets.includes(secret)) {
+            this.secrets.push(secret);
+        }
+    }
+
+    debug(message: string, ...args: any[]): void {
+        this.inner.debug(redactString(message, this.secrets), ...redactSecrets(args, this.secrets));
+    }
+
+    info(message: string, ...args: any[]): void {
+        this.inner.info(redactString(message, this.secrets), ...redactSecrets(args, this.secrets));
+    }
+
+    warn(message: string, ...args: any[]): void {
+        this.inner.warn(redactString(message, this.secrets), ...redactSecrets(args, this.secrets));
+    }
+
+    error(message: string, ...args: any[]): void {
+        this.inner.error(redactString(message, this.secrets), ...redactSecrets(args, this.secrets));
+    }
+}
+
+/**
+ * Logger that writes every level to stderr, leaving stdout to the MCP stdio transport
+ */
+export class StderrLogger implements Logger {
+    constructor(private readonly prefix: string) {}
+
+    debug(message: string, ...args: any[]): void {
+        console.error(`${this.prefix} ${message}`, ...args);
+    }
+
+    info(message: string, ...args: any[]): void {
+        console.error(`${this.prefix} ${message}`, ...args);
+    }
+
+    warn(message: string, ...args: any[]): void {
+        console.error(`${this.prefix} ${message}`, ...args);
+    }
+
+    error(message: string, ...args: any[]): void {
+        console.error(`${this.prefix} ${message}`, ...args);
+    }
+}
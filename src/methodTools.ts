@@ -0,0 +1,252 @@
+import { callOverrides, toBlockParam } from './contract.js';
+import { resolveAddressArgs, withEnsResolutions, withoutEnsResolutions } from './ens.js';
+import { decodeResultLogs } from './events.js';
+import { JsonSchema } from './jsonSchema.js';
+import { decodeRevertError } from './revert.js';
+import {
+    BLOCK_OVERRIDES_ARGUMENT,
+    DECODE_LOGS_ARGUMENT,
+    ERROR_ABI_ARGUMENT,
+    EVENT_ABI_ARGUMENT,
+    NETWORK_ARGUMENT,
+    RAW_ARGUMENT,
+    STATE_OVERRIDES_ARGUMENT,
+    ToolDefinition,
+    eventDecoderFor,
+    revertDecoderFor
+} from './tools.js';
+import { EthereumParams, NodeRequestParams } from './types.js';
+import { summarizeResponse, toQuantity } from './utils.js';
+
+export const ADDRESS_ARGUMENT: JsonSchema = {
+    type: 'string',
+    pattern: '^(0x[0-9a-fA-F]{40}|[^\\s.]+(\\.[^\\s.]+)+)$',
+    description: '20-byte address, 0x-prefixed, or an ENS name such as vitalik.eth'
+};
+
+/**
+ * Names of the arguments in a tool schema that take an address or ENS name
+ * @param properties - Tool argument schemas
+ */
+export function addressArguments(properties: Record<string, JsonSchema>): string[] {
+    return Object.keys(properties).filter(key =>
+        properties[key].pattern === ADDRESS_ARGUMENT.pattern
+        || properties[key].items?.pattern === ADDRESS_ARGUMENT.pattern);
+}
+
+export const HASH_ARGUMENT: JsonSchema = {
+    type: 'string',
+    pattern: '^0x[0-9a-fA-F]{64}$',
+    description: '32-byte hash, 0x-prefixed'
+};
+
+export const BLOCK_TAG_ARGUMENT: JsonSchema = {
+    description: 'Block number (decimal or 0x hex) or tag: latest, earliest, pending, safe, finalized. Defaults to latest',
+    oneOf: [
+        { type: 'integer', minimum: 0 },
+        { type: 'string', pattern: '^(latest|earliest|pending|safe|finalized|0x[0-9a-fA-F]+|\\d+)$' }
+    ]
+};
+
+const QUANTITY_ARGUMENT: JsonSchema = {
+    oneOf: [
+        { type: 'integer', minimum: 0 },
+        { type: 'string', pattern: '^(0x[0-9a-fA-F]+|\\d+)$' }
+    ]
+};
+
+const DATA_ARGUMENT: JsonSchema = {
+    type: 'string',
+    pattern: '^0x([0-9a-fA-F]{2})*$',
+    description: 'Hex-encoded bytes, 0x-prefixed'
+};
+
+/**
+ * Build a request whose parameters are checked against {@link EthereumParams}
+ */
+function rpc<M extends keyof EthereumParams>(method: M, params: EthereumParams[M]): NodeRequestParams {
+    return { method, params };
+}
+
+/**
+ * A tool that maps named arguments onto one JSON-RPC request
+ */
+interface MethodToolSpec {
+    name: string;
+    description: string;
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+    /** Whether the result contains logs that can be decoded */
+    hasLogs?: boolean;
+    /** Whether the call can revert, so failures get their revert data decoded */
+    canRevert?: boolean;
+    /** Whether the result can be large, so it takes the output size arguments */
+    pageable?: boolean;
+    toRequest(args: Record<string, any>): NodeRequestParams;
+}
+
+function methodTool(spec: MethodToolSpec): ToolDefinition {
+    return {
+        name: spec.name,
+        description: spec.description,
+        ...(spec.pageable && { pageable: true }),
+        inputSchema: {
+            type: 'object',
+            properties: {
+                ...spec.properties,
+                ...(spec.hasLogs && { decodeLogs: DECODE_LOGS_ARGUMENT, abi: EVENT_ABI_ARGUMENT }),
+                ...(spec.canRevert && { abi: ERROR_ABI_ARGUMENT }),
+                network: NETWORK_ARGUMENT,
+                raw: RAW_ARGUMENT
+            },
+            ...(spec.required && { required: spec.required }),
+            additionalProperties: false
+        },
+        async handler(input, context) {
+            const api = context.networks.get(input.network);
+            const { args, resolved } = await resolveAddressArgs(api, input, addressArguments(spec.properties));
+            const request = spec.toRequest(args);
+            let response;
+            try {
+                response = await api.request({ ...request, raw: args.raw === true });
+            } catch (error) {
+                throw spec.canRevert ? decodeRevertError(error, revertDecoderFor(args.abi, context)) : error;
+            }
+            const result = spec.hasLogs && args.decodeLogs !== false
+                ? decodeResultLogs(request.method, response.result, eventDecoderFor(args.abi, context))
+                : response.result;
+            return withEnsResolutions(result, resolved);
+        },
+        summarize(result, args) {
+            return summarizeResponse(spec.toRequest(args).method, withoutEnsResolutions(result));
+        }
+    };
+}
+
+/**
+ * One tool per common JSON-RPC method, with named and validated arguments
+ */
+export const METHOD_TOOLS: ToolDefinition[] = [
+    methodTool({
+        name: 'get_block_number',
+        description: 'Get the latest block number (eth_blockNumber)',
+        properties: {},
+        toRequest: () => rpc('eth_blockNumber', [])
+    }),
+    methodTool({
+        name: 'get_chain_id',
+        description: 'Get the chain ID of the network (eth_chainId)',
+        properties: {},
+        toRequest: () => rpc('eth_chainId', [])
+    }),
+    methodTool({
+        name: 'get_gas_price',
+        description: 'Get the current gas price in wei (eth_gasPrice)',
+        properties: {},
+        toRequest: () => rpc('eth_gasPrice', [])
+    }),
+    methodTool({
+        name: 'get_balance',
+        description: 'Get the ether balance of an address, in wei and ether (eth_getBalance)',
+        properties: { address: ADDRESS_ARGUMENT, block: BLOCK_TAG_ARGUMENT },
+        required: ['address'],
+        toRequest: ({ address, block }) => rpc('eth_getBalance', [address, toBlockParam(block)])
+    }),
+    methodTool({
+        name: 'get_transaction_count',
+        description: 'Get the nonce of an address: the number of transactions it has sent (eth_getTransactionCount)',
+        properties: { address: ADDRESS_ARGUMENT, block: BLOCK_TAG_ARGUMENT },
+        required: ['address'],
+        toRequest: ({ address, block }) => rpc('eth_getTransactionCount', [address, toBlockParam(block)])
+    }),
+    methodTool({
+        name: 'get_code',
+        description: 'Get the bytecode deployed at an address; 0x for externally owned accounts (eth_getCode)',
+        properties: { address: ADDRESS_ARGUMENT, block: BLOCK_TAG_ARGUMENT },
+        required: ['address'],
+        toRequest: ({ address, block }) => rpc('eth_getCode', [address, toBlockParam(block)])
+    }),
+    methodTool({
+        name: 'get_storage_at',
+        description: 'Read one 32-byte storage slot of a contract (eth_getStorageAt)',
+        properties: {
+            address: ADDRESS_ARGUMENT,
+            slot: { ...QUANTITY_ARGUMENT, description: 'Storage slot as an integer or hex quantity' },
+            block: BLOCK_TAG_ARGUMENT
+        },
+        required: ['address', 'slot'],
+        toRequest: ({ address, slot, block }) => rpc('eth_getStorageAt', [address, toQuantity(slot), toBlockParam(block)])
+    }),
+    methodTool({
+        name: 'get_block',
+        description: 'Get a block by number, tag or hash (eth_getBlockByNumber / eth_getBlockByHash)',
+        properties: {
+            block: BLOCK_TAG_ARGUMENT,
+            hash: { ...HASH_ARGUMENT, description: 'Block hash; use instead of block' },
+            includeTransactions: {
+                type: 'boolean',
+                description: 'Return full transactions instead of hashes (default false)'
+            }
+        },
+        pageable: true,
+        toRequest: ({ block, hash, includeTransactions = false }) => hash
+            ? rpc('eth_getBlockByHash', [hash, includeTransactions])
+            : rpc('eth_getBlockByNumber', [toBlockParam(block), includeTransactions])
+    }),
+    methodTool({
+        name: 'get_transaction',
+        description: 'Get a transaction by hash (eth_getTransactionByHash)',
+        properties: { hash: { ...HASH_ARGUMENT, description: 'Transaction hash' } },
+        required: ['hash'],
+        toRequest: ({ hash }) => rpc('eth_getTransactionByHash', [hash])
+    }),
+    methodTool({
+        name: 'get_transaction_receipt',
+        description: 'Get the receipt of a mined transaction: status, gas used and decoded event logs (eth_getTransactionReceipt)',
+        properties: { hash: { ...HASH_ARGUMENT, description: 'Transaction hash' } },
+        required: ['hash'],
+        hasLogs: true,
+        pageable: true,
+        toRequest: ({ hash }) => rpc('eth_getTransactionReceipt', [hash])
+    }),
+    methodTool({
+        name: 'estimate_gas',
+        description: 'Estimate the gas a transaction would use (eth_estimateGas)',
+        properties: {
+            from: { ...ADDRESS_ARGUMENT, description: 'Sender address' },
+            to: { ...ADDRESS_ARGUMENT, description: 'Recipient or contract address; omit for contract creation' },
+            value: { ...QUANTITY_ARGUMENT, description: 'Wei to send, as an integer or hex quantity' },
+            data: { ...DATA_ARGUMENT, description: 'Calldata or init code' },
+            gas: { ...QUANTITY_ARGUMENT, description: 'Gas limit for the estimate' }
+        },
+        canRevert: true,
+        toRequest: ({ from, to, value, data, gas }) => rpc('eth_estimateGas', [{
+            ...(from && { from }),
+            ...(to && { to }),
+            ...(value !== undefined && { value: toQuantity(value) }),
+            ...(data && { data }),
+            ...(gas !== undefined && { gas: toQuantity(gas) })
+        }])
+    }),
+    methodTool({
+        name: 'call',
+        description: 'Execute a read-only call with raw calldata and return the raw result (eth_call). Use contract_call to encode arguments and decode results',
+        properties: {
+            to: { ...ADDRESS_ARGUMENT, description: 'Contract address' },
+            data: { ...DATA_ARGUMENT, description: 'Calldata' },
+            from: { ...ADDRESS_ARGUMENT, description: 'Caller address' },
+            value: { ...QUANTITY_ARGUMENT, description: 'Wei to send, as an integer or hex quantity' },
+            block: BLOCK_TAG_ARGUMENT,
+            stateOverrides: STATE_OVERRIDES_ARGUMENT,
+            blockOverrides: BLOCK_OVERRIDES_ARGUMENT
+        },
+        required: ['to'],
+        canRevert: true,
+        toRequest: ({ to, data, from, value, block, stateOverrides, blockOverrides }) => rpc('eth_call', [{
+            to,
+            ...(data && { data }),
+            ...(from && { from }),
+            ...(value !== undefined && { value: toQuantity(value) })
+        }, toBlockParam(block), ...callOverrides(stateOverrides, blockOverrides)])
+    })
+];
@@ -0,0 +1,204 @@
+import { ValidationCloudAPI } from './api.js';
+import {
+    EthereumErrorCode,
+    Logger,
+    NetworkConfig,
+    NetworkStatus,
+    ValidationCloudConfig,
+    ValidationCloudError
+} from './types.js';
+
+/**
+ * Validation Cloud endpoints that can be enabled by name alone
+ */
+export const KNOWN_NETWORKS: Record<string, { baseURL: string; webSocketURL: string; chainId: number }> = {
+    mainnet: {
+        baseURL: 'https://mainnet.ethereum.validationcloud.io/v1',
+        webSocketURL: 'wss://mainnet.ethereum.validationcloud.io/v1/wss',
+        chainId: 1
+    },
+    sepolia: {
+        baseURL: 'https://sepolia.ethereum.validationcloud.io/v1',
+        webSocketURL: 'wss://sepolia.ethereum.validationcloud.io/v1/wss',
+        chainId: 11155111
+    },
+    holesky: {
+        baseURL: 'https://holesky.ethereum.validationcloud.io/v1',
+        webSocketURL: 'wss://holesky.ethereum.validationcloud.io/v1/wss',
+        chainId: 17000
+    }
+};
+
+export const DEFAULT_NETWORK = 'mainnet';
+
+/**
+ * Build the network list from environment variables.
+ *
+ * `VALIDATION_CLOUD_NETWORKS` is a comma-separated list of network names
+ * (defaults to `mainnet`). Each network reads its key from
+ * `VALIDATION_CLOUD_API_KEY_<NAME>` and falls back to `VALIDATION_CLOUD_API_KEY`.
+ * Networks that are not in {@link KNOWN_NETWORKS} must set
+ * `VALIDATION_CLOUD_NETWORK_<NAME>_URL`, and may set
+ * `VALIDATION_CLOUD_NETWORK_<NAME>_CHAIN_ID` to have the chain ID checked.
+ * `VALIDATION_CLOUD_NETWORK_<NAME>_WS_URL` sets or overrides the WebSocket
+ * endpoint; `VALIDATION_CLOUD_WEBSOCKET=off` makes every network poll instead.
+ * @param env - Environment to read from
+ * @returns Network configurations in the order they were listed
+ */
+export function loadNetworkConfigs(env: Record<string, string | undefined>): NetworkConfig[] {
+    const names = (env.VALIDATION_CLOUD_NETWORKS || DEFAULT_NETWORK)
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name.length > 0);
+
+    return [...new Set(names)].map(name => {
+        const envName = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+        const known = KNOWN_NETWORKS[name];
+        const baseURL = env[`VALIDATION_CLOUD_NETWORK_${envName}_URL`] || known?.baseURL;
+        if (!baseURL) {
+            throw new Error(
+                `Network "${name}" is not a known network; set VALIDATION_CLOUD_NETWORK_${envName}_URL`
+            );
+        }
+
+        const apiKey = env[`VALIDATION_CLOUD_API_KEY_${envName}`] || env.VALIDATION_CLOUD_API_KEY;
+        if (!apiKey) {
+            throw new Error(
+                `Missing API key for network "${name}"; set VALIDATION_CLOUD_API_KEY_${envName} or VALIDATION_CLOUD_API_KEY`
+            );
+        }
+
+        const chainIdOverride = env[`VALIDATION_CLOUD_NETWORK_${envName}_CHAIN_ID`];
+        // An empty value counts as unset rather than chain ID 0
+        const expectedChainId = chainIdOverride ? Number(chainIdOverride) : known?.chainId;
+        if (expectedChainId !== undefined && !(Number.isInteger(expectedChainId) && expectedChainId > 0)) {
+            throw new Error(`Invalid chain ID for network "${name}": ${chainIdOverride}`);
+        }
+
+        const webSocketURL = env.VALIDATION_CLOUD_WEBSOCKET === 'off'
+            ? undefined
+            : env[`VALIDATION_CLOUD_NETWORK_${envName}_WS_URL`] || known?.webSocketURL;
+
+        return { name, baseURL, apiKey, expectedChainId, ...(webSocketURL && { webSocketURL }) };
+    });
+}
+
+interface NetworkEntry {
+    config: NetworkConfig;
+    client: ValidationCloudAPI;
+    chainId?: number;
+    verified: boolean;
+    error?: string;
+}
+
+/**
+ * Options for the network registry
+ */
+export interface NetworkRegistryOptions {
+    /** Name of the network used when a call does not pick one */
+    defaultNetwork?: string;
+    /** Optional custom logger implementation */
+    logger?: Logger;
+    /** Settings applied to every client, such as retry policy and a shared rate limiter */
+    clientConfig?: Omit<ValidationCloudConfig, 'apiKey' | 'baseURL'>;
+    /** Factory for API clients, mainly useful for tests */
+    createClient?: (config: ValidationCloudConfig) => ValidationCloudAPI;
+}
+
+/**
+ * Holds one API client per configured network and routes calls by name
+ */
+export class NetworkRegistry {
+    private readonly entries = new Map<string, NetworkEntry>();
+    readonly defaultNetwork: string;
+
+    constructor(configs: NetworkConfig[], options: NetworkRegistryOptions = {}) {
+        if (configs.length === 0) {
+            throw new Error('At least one network must be configured');
+        }
+
+        const createClient = options.createClient || ((config: ValidationCloudConfig) => new ValidationCloudAPI(config));
+        for (const config of configs) {
+            this.entries.set(config.name, {
+                config,
+                client: createClient({
+                    ...options.clientConfig,
+                    apiKey: config.apiKey,
+                    baseURL: config.baseURL,
+                    webSocketURL: config.webSocketURL,
+                    logger: options.logger
+                }),
+                verified: false
+            });
+        }
+
+        this.defaultNetwork = options.defaultNetwork?.toLowerCase() || configs[0].name;
+        if (!this.entries.has(this.defaultNetwork)) {
+            throw new Error(`Default network "${this.defaultNetwork}" is not configured`);
+        }
+    }
+
+    /**
+     * Get the client for a network
+     * @param network - Network name, or the default network when omitted
+     * @returns API client for that network
+     */
+    get(network?: string): ValidationCloudAPI {
+        const name = network ? network.toLowerCase() : this.defaultNetwork;
+        const entry = this.entries.get(name);
+        if (!entry) {
+            throw new ValidationCloudError(
+                `Unknown network "${network}". Configured networks: ${[...this.entries.keys()].join(', ')}`,
+                EthereumErrorCode.INVALID_PARAMS
+            );
+        }
+        return entry.client;
+    }
+
+    /**
+     * Names of all configured networks
+     */
+    names(): string[] {
+        return [...this.entries.keys()];
+    }
+
+    /**
+     * Query `eth_chainId` on every network and compare it to the expected chain ID
+     * @returns Status of every network after verification
+     */
+    async verify(): Promise<NetworkStatus[]> {
+        await Promise.all([...this.entries.values()].map(async entry => {
+            try {
+                const response = await entry.client.request({ method: 'eth_chainId' });
+                entry.chainId = response.result;
+                const expected = entry.config.expectedChainId;
+                if (expected !== undefined && expected !== entry.chainId) {
+                    entry.verified = false;
+                    entry.error = `Expected chain ID ${expected} but endpoint reported ${entry.chainId}`;
+                } else {
+                    entry.verified = true;
+                    entry.error = undefined;
+                }
+            } catch (error) {
+                entry.verified = false;
+                entry.error = error instanceof Error ? error.message : 'Unknown error';
+            }
+        }));
+        return this.list();
+    }
+
+    /**
+     * Current status of every configured network
+     */
+    list(): NetworkStatus[] {
+        return [...this.entries.values()].map(entry => ({
+            name: entry.config.name,
+            baseURL: entry.config.baseURL,
+            expectedChainId: entry.config.expectedChainId,
+            chainId: entry.chainId,
+            verified: entry.verified,
+            isDefault: entry.config.name === this.defaultNetwork,
+            ...(entry.error && { error: entry.error })
+        }));
+    }
+}
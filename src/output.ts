@@ -0,0 +1,198 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { EthereumErrorCode, ValidationCloudError } from './types.js';
+
+/** Byte budget applied when the caller sets none */
+export const DEFAULT_MAX_BYTES = 100000;
+
+/** Name of the array part when the result itself is an array */
+const ROOT = 'items';
+
+/**
+ * How much of a result to return
+ */
+export interface OutputOptions {
+    /** Field paths to keep, e.g. `number` or `transactions.hash`; all fields when empty */
+    fields?: string[];
+    /** Most items to return from each array part */
+    maxItems?: number;
+    /** Approximate size limit of the returned JSON in bytes (default {@link DEFAULT_MAX_BYTES}) */
+    maxBytes?: number;
+    /** Cursor from a previous page of the same request */
+    cursor?: string;
+}
+
+/**
+ * Which slice of each array part a page holds
+ */
+export interface OutputPage {
+    /** Offset, item count and total per array part; `items` when the result is an array */
+    arrays: Record<string, { offset: number; returned: number; total: number }>;
+    /** Marker such as `truncated, 43 more (transactions: 43); ...` when items were left out */
+    truncated?: string;
+    /** Pass with the same request to get the next page */
+    cursor?: string;
+}
+
+interface CursorState {
+    /** Fingerprint of the request the cursor belongs to */
+    request: string;
+    /** Next offset per array part */
+    offsets: Record<string, number>;
+}
+
+function outputError(reason: string): ValidationCloudError {
+    return new ValidationCloudError(reason, EthereumErrorCode.INVALID_PARAMS);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function byteSize(value: unknown): number {
+    return utf8ToBytes(JSON.stringify(value) ?? '').length;
+}
+
+/**
+ * Fingerprint of a request, so a cursor cannot be replayed against another one
+ * @param request - Values that identify the request, e.g. network, method and parameters
+ */
+export function requestFingerprint(...request: unknown[]): string {
+    return bytesToHex(sha256(utf8ToBytes(JSON.stringify(request)))).slice(0, 16);
+}
+
+function encodeCursor(state: CursorState): string {
+    return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, request: string): Record<string, number> {
+    let state: CursorState;
+    try {
+        state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch (error) {
+        throw outputError('Invalid cursor');
+    }
+    if (!isPlainObject(state) || !isPlainObject(state.offsets)) {
+        throw outputError('Invalid cursor');
+    }
+    if (state.request !== request) {
+        throw outputError('The cursor belongs to a different request; repeat the original arguments with the cursor');
+    }
+    return state.offsets;
+}
+
+/**
+ * Keep only the given fields. Paths are dotted (`transactions.hash`) and apply
+ * to every element of arrays along the way; missing fields are skipped.
+ * @param value - Result to project
+ * @param fields - Field paths to keep
+ * @returns Projected copy; the value itself when no fields are given
+ */
+export function projectFields(value: unknown, fields: string[] | undefined): unknown {
+    if (!fields || fields.length === 0) return value;
+
+    // Shorter paths first, so `transactions` keeps whole transactions even with `transactions.hash`
+    const tree: Record<string, any> = {};
+    for (const field of [...fields].sort((a, b) => a.split('.').length - b.split('.').length)) {
+        const keys = field.split('.');
+        let node = tree;
+        for (const [index, key] of keys.entries()) {
+            if (node[key] === true) break;
+            if (index === keys.length - 1) {
+                node[key] = true;
+            } else {
+                node = node[key] = node[key] ?? {};
+            }
+        }
+    }
+    return project(value, tree);
+}
+
+function project(value: unknown, tree: Record<string, any>): unknown {
+    if (Array.isArray(value)) return value.map(item => project(item, tree));
+    if (!isPlainObject(value)) return value;
+    const projected: Record<string, unknown> = {};
+    for (const [key, sub] of Object.entries(tree)) {
+        if (key in value) {
+            projected[key] = sub === true ? value[key] : project(value[key], sub);
+        }
+    }
+    return projected;
+}
+
+/**
+ * Project a result and fit it into a size budget, paging through its array
+ * parts: the result itself when it is an array, otherwise its array-valued
+ * fields such as a block's `transactions` and `withdrawals` or a receipt's `logs`.
+ * Every page repeats the other fields and returns at least one item, so
+ * following the cursor always makes progress.
+ * @param result - Result to shape
+ * @param options - Projection, budget and cursor
+ * @param request - {@link requestFingerprint} of the request
+ * @returns The shaped result, with a page description when items were left out or a cursor was given
+ */
+export function shapeOutput(
+    result: unknown,
+    options: OutputOptions,
+    request: string
+): { result: unknown; page?: OutputPage } {
+    const projected = projectFields(result, options.fields);
+    const offsets = options.cursor ? decodeCursor(options.cursor, request) : {};
+    const parts: Record<string, unknown[]> = Array.isArray(projected)
+        ? { [ROOT]: projected }
+        : isPlainObject(projected)
+            ? Object.fromEntries(Object.entries(projected).filter(([, value]) => Array.isArray(value))) as Record<string, unknown[]>
+            : {};
+    if (Object.keys(parts).length === 0) {
+        return { result: projected };
+    }
+
+    const shaped: Record<string, unknown> = isPlainObject(projected) ? { ...projected } : {};
+    for (const name of Object.keys(parts)) {
+        shaped[name] = [];
+    }
+    let budget = (options.maxBytes ?? DEFAULT_MAX_BYTES) - byteSize(shaped);
+    const maxItems = options.maxItems ?? Infinity;
+    let included = 0;
+    let full = false;
+
+    const arrays: OutputPage['arrays'] = {};
+    const next: Record<string, number> = {};
+    const remaining: string[] = [];
+    let more = 0;
+    for (const [name, items] of Object.entries(parts)) {
+        const offset = Math.min(Math.max(0, Number(offsets[name]) || 0), items.length);
+        const page: unknown[] = [];
+        for (let index = offset; index < items.length && page.length < maxItems && !full; index++) {
+            const cost = byteSize(items[index]) + 1;
+            if (cost > budget && included > 0) {
+                full = true;
+                break;
+            }
+            page.push(items[index]);
+            budget -= cost;
+            included++;
+        }
+        shaped[name] = page;
+        arrays[name] = { offset, returned: page.length, total: items.length };
+        const left = items.length - offset - page.length;
+        next[name] = offset + page.length;
+        if (left > 0) {
+            more += left;
+            remaining.push(`${name}: ${left}`);
+        }
+    }
+
+    const value = Array.isArray(projected) ? shaped[ROOT] : shaped;
+    if (more === 0) {
+        return options.cursor ? { result: value, page: { arrays } } : { result: value };
+    }
+    return {
+        result: value,
+        page: {
+            arrays,
+            truncated: `truncated, ${more} more (${remaining.join(', ')}); pass the cursor to get the next page`,
+            cursor: encodeCursor({ request, offsets: next })
+        }
+    };
+}
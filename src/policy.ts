@@ -0,0 +1,178 @@
+import { readFileSync } from 'fs';
+import { blockNumberOf } from './cache.js';
+import { EthereumParams, PolicyConfig, PolicyViolationError } from './types.js';
+
+/**
+ * Methods that broadcast a transaction to the network
+ */
+export const BROADCAST_METHODS = new Set([
+    'eth_sendRawTransaction',
+    'eth_sendTransaction',
+    'eth_sendRawTransactionConditional',
+    'eth_sendBundle',
+    'eth_sendPrivateTransaction'
+]);
+
+/**
+ * Methods and namespaces that sign, send or change node state, blocked in read-only mode
+ */
+const WRITE_METHODS = new Set([
+    ...BROADCAST_METHODS,
+    'eth_sign',
+    'eth_signTransaction',
+    'eth_signTypedData',
+    'eth_signTypedData_v3',
+    'eth_signTypedData_v4',
+    'eth_submitWork',
+    'eth_submitHashrate',
+    'eth_cancelPrivateTransaction'
+]);
+const WRITE_NAMESPACES = ['personal_', 'admin_', 'miner_', 'clique_', 'hardhat_', 'anvil_', 'evm_'];
+
+function parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined) return undefined;
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function parseFlag(value: string | undefined): boolean | undefined {
+    if (value === undefined) return undefined;
+    return ['1', 'true', 'yes', 'on'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Build the policy from an optional JSON file and environment variables.
+ *
+ * `VALIDATION_CLOUD_POLICY_FILE` names a JSON file with {@link PolicyConfig}
+ * fields. `VALIDATION_CLOUD_READ_ONLY`, `VALIDATION_CLOUD_ALLOW_METHODS`,
+ * `VALIDATION_CLOUD_DENY_METHODS` (comma-separated), `VALIDATION_CLOUD_ALLOW_BROADCAST`
+ * and `VALIDATION_CLOUD_MAX_LOGS_BLOCK_RANGE` override the file.
+ * @param env - Environment to read from
+ * @param readFile - Reads the policy file, injectable for tests
+ * @returns Policy configuration
+ */
+export function loadPolicyConfig(
+    env: Record<string, string | undefined>,
+    readFile: (path: string) => string = path => readFileSync(path, 'utf8')
+): PolicyConfig {
+    let config: PolicyConfig = {};
+    const file = env.VALIDATION_CLOUD_POLICY_FILE;
+    if (file) {
+        try {
+            config = JSON.parse(readFile(file));
+        } catch (error) {
+            throw new Error(`Could not read policy file ${file}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    const maxLogsBlockRange = env.VALIDATION_CLOUD_MAX_LOGS_BLOCK_RANGE;
+    const overrides: PolicyConfig = {
+        readOnly: parseFlag(env.VALIDATION_CLOUD_READ_ONLY),
+        allowMethods: parseList(env.VALIDATION_CLOUD_ALLOW_METHODS),
+        denyMethods: parseList(env.VALIDATION_CLOUD_DENY_METHODS),
+        allowBroadcast: parseFlag(env.VALIDATION_CLOUD_ALLOW_BROADCAST),
+        maxLogsBlockRange: maxLogsBlockRange === undefined ? undefined : Number(maxLogsBlockRange)
+    };
+    for (const [key, value] of Object.entries(overrides)) {
+        if (value !== undefined) {
+            (config as Record<string, unknown>)[key] = value;
+        }
+    }
+
+    if (config.maxLogsBlockRange !== undefined
+        && (!Number.isInteger(config.maxLogsBlockRange) || config.maxLogsBlockRange < 1)) {
+        throw new Error(`Invalid maxLogsBlockRange: ${config.maxLogsBlockRange}`);
+    }
+    return config;
+}
+
+function matchesAny(method: string, patterns: string[]): boolean {
+    return patterns.some(pattern => pattern.endsWith('*')
+        ? method.startsWith(pattern.slice(0, -1))
+        : method === pattern);
+}
+
+/**
+ * Whether a method signs, sends or changes node state
+ * @param method - JSON-RPC method
+ */
+export function isWriteMethod(method: string): boolean {
+    return WRITE_METHODS.has(method) || WRITE_NAMESPACES.some(namespace => method.startsWith(namespace));
+}
+
+/**
+ * Checks requests against a {@link PolicyConfig} before they are sent
+ */
+export class Policy {
+    constructor(private readonly config: PolicyConfig = {}) {}
+
+    /** Largest block span an `eth_getLogs` filter may cover, if limited */
+    get maxLogsBlockRange(): number | undefined {
+        return this.config.maxLogsBlockRange;
+    }
+
+    /**
+     * Throw if the policy forbids a request
+     * @param rpcMethod - JSON-RPC method
+     * @param params - Method parameters
+     * @throws PolicyViolationError naming the rule that blocked the request
+     */
+    check(rpcMethod: keyof EthereumParams, params: any[] = []): void {
+        const method = String(rpcMethod);
+        const { readOnly, allowMethods, denyMethods, allowBroadcast, maxLogsBlockRange } = this.config;
+
+        if (denyMethods && matchesAny(method, denyMethods)) {
+            throw new PolicyViolationError('denyMethods', method, `${method} is on the deny list`);
+        }
+        if (allowMethods && !matchesAny(method, allowMethods)) {
+            throw new PolicyViolationError(
+                'allowMethods',
+                method,
+                `${method} is not on the allow list (${allowMethods.join(', ')})`
+            );
+        }
+        if (readOnly && isWriteMethod(method)) {
+            throw new PolicyViolationError(
+                'readOnly',
+                method,
+                `${method} changes state and the server is in read-only mode`
+            );
+        }
+        if (BROADCAST_METHODS.has(method) && !allowBroadcast) {
+            throw new PolicyViolationError(
+                'allowBroadcast',
+                method,
+                `${method} broadcasts a transaction; set VALIDATION_CLOUD_ALLOW_BROADCAST=true to enable broadcasts`
+            );
+        }
+        if (method === 'eth_getLogs' && maxLogsBlockRange !== undefined) {
+            this.checkLogsRange(params[0] ?? {}, maxLogsBlockRange);
+        }
+    }
+
+    private checkLogsRange(filter: Record<string, any>, maxRange: number): void {
+        if (filter.blockHash) return;
+
+        const from = filter.fromBlock ?? 'latest';
+        const to = filter.toBlock ?? 'latest';
+        if (from === to) return;
+
+        const fromNumber = from === 'earliest' ? 0 : blockNumberOf(from);
+        const toNumber = blockNumberOf(to);
+        if (fromNumber === undefined || toNumber === undefined) {
+            throw new PolicyViolationError(
+                'maxLogsBlockRange',
+                'eth_getLogs',
+                `eth_getLogs spans are limited to ${maxRange} blocks, so fromBlock and toBlock must be block numbers; use scan_logs for longer ranges`
+            );
+        }
+
+        const span = toNumber - fromNumber + 1;
+        if (span > maxRange) {
+            throw new PolicyViolationError(
+                'maxLogsBlockRange',
+                'eth_getLogs',
+                `eth_getLogs covers ${span} blocks but at most ${maxRange} are allowed; use scan_logs for longer ranges`
+            );
+        }
+    }
+}
@@ -0,0 +1,65 @@
+import { Clock, RateLimitConfig, RateLimiter } from './types.js';
+import { systemClock } from './retry.js';
+
+/**
+ * Token bucket that refills continuously at `requestsPerSecond`
+ *
+ * Requests for more tokens than the bucket holds wait until it is full and
+ * then leave it in debt, so large batches still respect the average rate.
+ */
+export class TokenBucket implements RateLimiter {
+    private readonly capacity: number;
+    private readonly refillPerMs: number;
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(config: RateLimitConfig, private readonly clock: Clock = systemClock) {
+        if (!(config.requestsPerSecond > 0)) {
+            throw new Error('requestsPerSecond must be a positive number');
+        }
+
+        this.capacity = Math.max(1, config.burst ?? config.requestsPerSecond);
+        this.refillPerMs = config.requestsPerSecond / 1000;
+        this.tokens = this.capacity;
+        this.lastRefill = clock.now();
+    }
+
+    private refill(): void {
+        const now = this.clock.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Take tokens without waiting
+     * @param tokens - Number of requests
+     * @returns True if the tokens were available
+     */
+    tryAcquire(tokens = 1): boolean {
+        this.refill();
+        if (this.tokens < Math.min(tokens, this.capacity)) {
+            return false;
+        }
+        this.tokens -= tokens;
+        return true;
+    }
+
+    /**
+     * Wait until tokens are available and take them
+     * @param tokens - Number of requests
+     */
+    async acquire(tokens = 1): Promise<void> {
+        while (!this.tryAcquire(tokens)) {
+            const missing = Math.min(tokens, this.capacity) - this.tokens;
+            await this.clock.sleep(Math.ceil(missing / this.refillPerMs));
+        }
+    }
+
+    /**
+     * Tokens currently available
+     */
+    available(): number {
+        this.refill();
+        return this.tokens;
+    }
+}
@@ -0,0 +1,73 @@
+import { ValidationCloudError } from './types.js';
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Replace every occurrence of the secrets in a string
+ * @param text - Text to clean
+ * @param secrets - Values to mask; empty values are ignored
+ * @returns Text with secrets replaced by {@link REDACTED}
+ */
+export function redactString(text: string, secrets: readonly string[]): string {
+    let result = text;
+    for (const secret of secrets) {
+        if (secret) {
+            result = result.split(secret).join(REDACTED);
+        }
+    }
+    return result;
+}
+
+/**
+ * Deep-copy a value with every secret masked.
+ *
+ * Errors become plain objects so their message and stack survive JSON
+ * serialisation; functions are dropped and circular references are cut.
+ * @param value - Value to clean
+ * @param secrets - Values to mask
+ * @returns Cleaned copy
+ */
+export function redactSecrets<T>(value: T, secrets: readonly string[]): T {
+    const seen = new WeakSet<object>();
+
+    const visit = (current: any): any => {
+        if (typeof current === 'string') return redactString(current, secrets);
+        if (typeof current === 'function') return undefined;
+        if (!current || typeof current !== 'object') return current;
+        if (seen.has(current)) return '[Circular]';
+        seen.add(current);
+
+        if (Array.isArray(current)) return current.map(visit);
+
+        const source = current instanceof Error
+            ? { ...current, name: current.name, message: current.message, stack: current.stack }
+            : current;
+        const copy: Record<string, any> = {};
+        for (const [key, nested] of Object.entries(source)) {
+            const cleaned = visit(nested);
+            if (cleaned !== undefined) copy[key] = cleaned;
+        }
+        return copy;
+    };
+
+    return visit(value);
+}
+
+/**
+ * Rebuild an error with every secret masked in its message, stack, details and data
+ * @param error - Error to clean
+ * @param secrets - Values to mask
+ * @returns A new ValidationCloudError that is safe to log or return
+ */
+export function sanitizeError(error: ValidationCloudError, secrets: readonly string[]): ValidationCloudError {
+    const sanitized = new ValidationCloudError(
+        redactString(error.message, secrets),
+        error.code,
+        error.details === undefined ? undefined : redactSecrets(error.details, secrets),
+        error.data === undefined ? undefined : redactSecrets(error.data, secrets)
+    );
+    if (error.stack) {
+        sanitized.stack = redactString(error.stack, secrets);
+    }
+    return sanitized;
+}
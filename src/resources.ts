@@ -0,0 +1,320 @@
+import { ValidationCloudAPI } from './api.js';
+import { resolveAddress } from './ens.js';
+import { NetworkRegistry } from './networks.js';
+import { EthereumErrorCode, Logger, ValidationCloudError } from './types.js';
+
+const MIME_TYPE = 'application/json';
+
+/** Block tags whose block changes as the chain advances; `earliest` never does */
+const MOVING_TAGS = new Set(['latest', 'pending', 'safe', 'finalized']);
+
+/**
+ * MCP resource templates for chain data
+ */
+export const RESOURCE_TEMPLATES = [
+    {
+        uriTemplate: 'eth://{network}/block/{numberOrTag}',
+        name: 'Block',
+        description: 'Block by number (decimal or 0x hex), hash or tag (latest, safe, finalized, pending, earliest), with transaction hashes',
+        mimeType: MIME_TYPE
+    },
+    {
+        uriTemplate: 'eth://{network}/tx/{hash}',
+        name: 'Transaction',
+        description: 'Transaction by hash',
+        mimeType: MIME_TYPE
+    },
+    {
+        uriTemplate: 'eth://{network}/receipt/{hash}',
+        name: 'Transaction receipt',
+        description: 'Receipt of a mined transaction by hash: status, gas used and logs',
+        mimeType: MIME_TYPE
+    },
+    {
+        uriTemplate: 'eth://{network}/address/{address}',
+        name: 'Address',
+        description: 'Balance, transaction count and code size of an address or ENS name at the latest block',
+        mimeType: MIME_TYPE
+    }
+];
+
+/**
+ * A resource listing for `resources/list`
+ */
+export interface ResourceListing {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType: string;
+}
+
+/**
+ * Contents of a read resource
+ */
+export interface ResourceContents {
+    uri: string;
+    mimeType: string;
+    text: string;
+}
+
+/**
+ * A parsed `eth://` URI
+ */
+export interface ResourceUri {
+    network: string;
+    kind: 'block' | 'tx' | 'receipt' | 'address';
+    id: string;
+}
+
+/**
+ * A resource request that cannot be served: a malformed URI or missing data
+ */
+export class ResourceError extends Error {
+    constructor(message: string, public readonly reason: 'invalid_uri' | 'not_found') {
+        super(message);
+        this.name = 'ResourceError';
+    }
+}
+
+const HASH = /^0x[0-9a-fA-F]{64}$/;
+const BLOCK_ID = /^(latest|earliest|pending|safe|finalized|0x[0-9a-fA-F]+|\d+)$/;
+
+/**
+ * Parse an `eth://{network}/{kind}/{id}` URI
+ * @param uri - Resource URI
+ * @returns Network, resource kind and identifier
+ * @throws ResourceError for URIs that match no template
+ */
+export function parseResourceUri(uri: string): ResourceUri {
+    const match = uri.match(/^eth:\/\/([^/]+)\/(block|tx|receipt|address)\/([^/?#]+)$/);
+    if (!match) {
+        throw new ResourceError(`Unknown resource URI: ${uri}; expected eth://{network}/{block|tx|receipt|address}/{id}`, 'invalid_uri');
+    }
+    const [, network, kind, encoded] = match;
+    const id = decodeURIComponent(encoded);
+    const valid = kind === 'block'
+        ? BLOCK_ID.test(id) || HASH.test(id)
+        : kind === 'address'
+            ? /^0x[0-9a-fA-F]{40}$/.test(id) || /^[^\s.]+(\.[^\s.]+)+$/.test(id)
+            : HASH.test(id);
+    if (!valid) {
+        throw new ResourceError(`Invalid ${kind} identifier in ${uri}`, 'invalid_uri');
+    }
+    return { network: network.toLowerCase(), kind: kind as ResourceUri['kind'], id };
+}
+
+function blockParam(id: string): string {
+    return /^\d+$/.test(id) ? `0x${BigInt(id).toString(16)}` : id;
+}
+
+/**
+ * Options for a resource provider
+ */
+export interface ResourceProviderOptions {
+    /** Numbered blocks listed per network by `resources/list` (default 10) */
+    recentBlocks?: number;
+    /** How often subscribed block tags are checked for a new block (default 12000) */
+    pollIntervalMs?: number;
+    logger?: Logger;
+}
+
+/**
+ * Serves chain data as MCP resources and reports when subscribed block tags
+ * move to a new block
+ */
+export class ResourceProvider {
+    private readonly subscriptions = new Set<string>();
+    /** Last block number seen per network and tag, e.g. `mainnet/latest` */
+    private readonly heads = new Map<string, number>();
+    private timer?: ReturnType<typeof setInterval>;
+    private polling = false;
+
+    /**
+     * @param networks - Networks to serve
+     * @param onUpdated - Called with each subscribed URI whose resource changed
+     * @param options - Listing and polling settings
+     */
+    constructor(
+        private readonly networks: NetworkRegistry,
+        private readonly onUpdated: (uri: string) => void | Promise<void>,
+        private readonly options: ResourceProviderOptions = {}
+    ) {}
+
+    private api(network: string): ValidationCloudAPI {
+        try {
+            return this.networks.get(network);
+        } catch (error) {
+            if (error instanceof ValidationCloudError) throw new ResourceError(error.message, 'invalid_uri');
+            throw error;
+        }
+    }
+
+    /**
+     * Resource templates for `resources/templates/list`
+     */
+    templates(): typeof RESOURCE_TEMPLATES {
+        return RESOURCE_TEMPLATES;
+    }
+
+    /**
+     * The latest block tag and the most recent blocks of every network; networks
+     * that cannot be reached are left out
+     */
+    async list(): Promise<ResourceListing[]> {
+        const count = this.options.recentBlocks ?? 10;
+        const listings = await Promise.all(this.networks.names().map(async network => {
+            try {
+                const { result: head } = await this.networks.get(network).request({ method: 'eth_blockNumber' });
+                const blocks = Array.from({ length: Math.min(count, head + 1) }, (_, index) => head - index);
+                return [
+                    { uri: `eth://${network}/block/latest`, name: `${network} latest block`, description: 'Updates with every new block', mimeType: MIME_TYPE },
+                    ...blocks.map(number => ({ uri: `eth://${network}/block/${number}`, name: `${network} block ${number}`, mimeType: MIME_TYPE }))
+                ];
+            } catch (error) {
+                this.options.logger?.warn(`Could not list recent blocks of ${network}:`, error);
+                return [];
+            }
+        }));
+        return listings.flat();
+    }
+
+    /**
+     * Read a resource
+     * @param uri - `eth://` URI
+     * @returns JSON contents, converted as tool results are
+     * @throws ResourceError for invalid URIs and data the node does not have
+     */
+    async read(uri: string): Promise<ResourceContents> {
+        const { network, kind, id } = parseResourceUri(uri);
+        const api = this.api(network);
+
+        let value: unknown;
+        switch (kind) {
+            case 'block':
+                value = (await api.request(HASH.test(id)
+                    ? { method: 'eth_getBlockByHash', params: [id, false] }
+                    : { method: 'eth_getBlockByNumber', params: [blockParam(id), false] })).result;
+                break;
+            case 'tx':
+                value = (await api.request({ method: 'eth_getTransactionByHash', params: [id] })).result;
+                break;
+            case 'receipt':
+                value = (await api.request({ method: 'eth_getTransactionReceipt', params: [id] })).result;
+                break;
+            case 'address':
+                value = await this.readAddress(api, id);
+                break;
+        }
+        if (value === null || value === undefined) {
+            throw new ResourceError(`${RESOURCE_TEMPLATES.find(template => template.uriTemplate.includes(`/${kind}/`))!.name} ${id} not found on ${network}`, 'not_found');
+        }
+        return { uri, mimeType: MIME_TYPE, text: JSON.stringify(value) };
+    }
+
+    private async readAddress(api: ValidationCloudAPI, id: string): Promise<Record<string, unknown>> {
+        const resolved: Record<string, string> = {};
+        const address = await resolveAddress(api, id, resolved);
+        // Read everything at one block so the fields agree
+        const { result: block } = await api.request({ method: 'eth_blockNumber' });
+        const tag = `0x${block.toString(16)}`;
+        const [balance, transactionCount, code] = await Promise.all([
+            api.request({ method: 'eth_getBalance', params: [address, tag] }),
+            api.request({ method: 'eth_getTransactionCount', params: [address, tag] }),
+            api.request({ method: 'eth_getCode', params: [address, tag] })
+        ]);
+        const codeSize = Math.max(0, (String(code.result).length - 2) / 2);
+        return {
+            address,
+            ...(resolved[id] && { ens: id }),
+            block,
+            balance: balance.result,
+            transactionCount: transactionCount.result,
+            codeSize,
+            isContract: codeSize > 0
+        };
+    }
+
+    /**
+     * Start sending updates for a resource. Only block tags such as `latest`
+     * change; other resources are accepted but never updated.
+     * @param uri - `eth://` URI
+     */
+    subscribe(uri: string): void {
+        const { network } = parseResourceUri(uri);
+        this.api(network);
+        this.subscriptions.add(uri);
+        if (!this.timer) {
+            this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs ?? 12000);
+            this.timer.unref?.();
+        }
+    }
+
+    /**
+     * Stop sending updates for a resource
+     * @param uri - URI passed to {@link subscribe}
+     */
+    unsubscribe(uri: string): void {
+        this.subscriptions.delete(uri);
+        if (this.subscriptions.size === 0) {
+            this.close();
+        }
+    }
+
+    /**
+     * Check every subscribed block tag once and report the ones that moved.
+     * The first check of a tag only records its block.
+     */
+    async poll(): Promise<void> {
+        if (this.polling) return;
+        this.polling = true;
+        try {
+            const watched = new Map<string, string[]>();
+            for (const uri of this.subscriptions) {
+                const { network, kind, id } = parseResourceUri(uri);
+                if (kind !== 'block' || !MOVING_TAGS.has(id)) continue;
+                const key = `${network}/${id}`;
+                watched.set(key, [...(watched.get(key) ?? []), uri]);
+            }
+
+            await Promise.all([...watched].map(async ([key, uris]) => {
+                const [network, tag] = key.split('/');
+                let number: number;
+                try {
+                    number = await this.blockNumberOf(network, tag);
+                } catch (error) {
+                    this.options.logger?.warn(`Could not check ${key} for updates:`, error);
+                    return;
+                }
+                const previous = this.heads.get(key);
+                this.heads.set(key, number);
+                if (previous !== undefined && previous !== number) {
+                    await Promise.all(uris.map(uri => this.onUpdated(uri)));
+                }
+            }));
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private async blockNumberOf(network: string, tag: string): Promise<number> {
+        const api = this.networks.get(network);
+        if (tag === 'latest') {
+            return (await api.request({ method: 'eth_blockNumber' })).result;
+        }
+        const { result } = await api.request({ method: 'eth_getBlockByNumber', params: [tag, false] });
+        if (typeof result?.number !== 'number') {
+            throw new ValidationCloudError(`No ${tag} block`, EthereumErrorCode.INTERNAL_ERROR);
+        }
+        return result.number;
+    }
+
+    /**
+     * Stop polling; subscriptions are kept and polling restarts with the next subscribe
+     */
+    close(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
@@ -0,0 +1,190 @@
+import { EthereumParams } from './types.js';
+
+/**
+ * How a single result field is presented:
+ * - `quantity`: hex quantity converted to a decimal number, or a decimal string above 2^53
+ * - `bigQuantity`: hex quantity converted to a decimal string (may exceed 2^53)
+ * - `wei`: wei amount converted to `{ wei, ether }`
+ * - `hash`: 32-byte hash, left as hex
+ * - `address`: 20-byte address, left as hex
+ * - `data`: other byte strings, left as hex
+ */
+export type FieldType = 'quantity' | 'bigQuantity' | 'wei' | 'hash' | 'address' | 'data';
+
+/**
+ * Schema of a field: a scalar type, a nested object or an array of either
+ */
+export type FieldSpec = FieldType | { object: ResultShape } | { array: FieldSpec };
+
+/**
+ * Schema of an object result; fields not listed are passed through unchanged
+ */
+export type ResultShape = { [field: string]: FieldSpec };
+
+const hashes: FieldSpec = { array: 'hash' };
+
+export const ACCESS_LIST_ENTRY: ResultShape = {
+    address: 'address',
+    storageKeys: hashes
+};
+
+/** EIP-7702 authorization tuple */
+export const AUTHORIZATION: ResultShape = {
+    chainId: 'quantity',
+    address: 'address',
+    nonce: 'quantity',
+    yParity: 'quantity',
+    r: 'data',
+    s: 'data'
+};
+
+/** Transaction of any type (legacy, EIP-2930, EIP-1559, EIP-4844, EIP-7702) */
+export const TRANSACTION: ResultShape = {
+    type: 'quantity',
+    chainId: 'quantity',
+    hash: 'hash',
+    blockHash: 'hash',
+    blockNumber: 'quantity',
+    transactionIndex: 'quantity',
+    from: 'address',
+    to: 'address',
+    nonce: 'quantity',
+    gas: 'quantity',
+    gasPrice: 'quantity',
+    maxFeePerGas: 'quantity',
+    maxPriorityFeePerGas: 'quantity',
+    maxFeePerBlobGas: 'quantity',
+    value: 'wei',
+    input: 'data',
+    accessList: { array: { object: ACCESS_LIST_ENTRY } },
+    blobVersionedHashes: hashes,
+    authorizationList: { array: { object: AUTHORIZATION } },
+    v: 'quantity',
+    yParity: 'quantity',
+    r: 'data',
+    s: 'data'
+};
+
+export const LOG: ResultShape = {
+    address: 'address',
+    topics: hashes,
+    data: 'data',
+    blockHash: 'hash',
+    blockNumber: 'quantity',
+    blockTimestamp: 'quantity',
+    transactionHash: 'hash',
+    transactionIndex: 'quantity',
+    logIndex: 'quantity'
+};
+
+export const RECEIPT: ResultShape = {
+    type: 'quantity',
+    status: 'quantity',
+    root: 'hash',
+    transactionHash: 'hash',
+    transactionIndex: 'quantity',
+    blockHash: 'hash',
+    blockNumber: 'quantity',
+    from: 'address',
+    to: 'address',
+    contractAddress: 'address',
+    gasUsed: 'quantity',
+    cumulativeGasUsed: 'quantity',
+    effectiveGasPrice: 'quantity',
+    blobGasUsed: 'quantity',
+    blobGasPrice: 'quantity',
+    logs: { array: { object: LOG } },
+    logsBloom: 'data'
+};
+
+/** Beacon chain withdrawal; `amount` is in gwei */
+export const WITHDRAWAL: ResultShape = {
+    index: 'quantity',
+    validatorIndex: 'quantity',
+    address: 'address',
+    amount: 'quantity'
+};
+
+/** Block; `transactions` may hold hashes or full transactions */
+export const BLOCK: ResultShape = {
+    number: 'quantity',
+    hash: 'hash',
+    parentHash: 'hash',
+    nonce: 'data',
+    mixHash: 'hash',
+    sha3Uncles: 'hash',
+    logsBloom: 'data',
+    transactionsRoot: 'hash',
+    stateRoot: 'hash',
+    receiptsRoot: 'hash',
+    miner: 'address',
+    difficulty: 'bigQuantity',
+    totalDifficulty: 'bigQuantity',
+    extraData: 'data',
+    size: 'quantity',
+    gasLimit: 'quantity',
+    gasUsed: 'quantity',
+    timestamp: 'quantity',
+    baseFeePerGas: 'quantity',
+    transactions: { array: { object: TRANSACTION } },
+    uncles: hashes,
+    withdrawalsRoot: 'hash',
+    withdrawals: { array: { object: WITHDRAWAL } },
+    blobGasUsed: 'quantity',
+    excessBlobGas: 'quantity',
+    parentBeaconBlockRoot: 'hash',
+    requestsHash: 'hash'
+};
+
+export const FEE_HISTORY: ResultShape = {
+    oldestBlock: 'quantity',
+    baseFeePerGas: { array: 'quantity' },
+    baseFeePerBlobGas: { array: 'quantity' },
+    reward: { array: { array: 'quantity' } }
+};
+
+/** Result of `eth_getProof` */
+export const ACCOUNT_PROOF: ResultShape = {
+    address: 'address',
+    balance: 'wei',
+    nonce: 'quantity',
+    codeHash: 'hash',
+    storageHash: 'hash',
+    accountProof: { array: 'data' },
+    storageProof: { array: { object: { key: 'hash', value: 'bigQuantity', proof: { array: 'data' } } } }
+};
+
+/**
+ * Result schema per JSON-RPC method; methods not listed are returned unchanged
+ */
+export const RESULT_SCHEMAS: Partial<Record<keyof EthereumParams, FieldSpec>> = {
+    eth_blockNumber: 'quantity',
+    eth_chainId: 'quantity',
+    eth_gasPrice: 'quantity',
+    eth_maxPriorityFeePerGas: 'quantity',
+    eth_blobBaseFee: 'quantity',
+    eth_estimateGas: 'quantity',
+    eth_getTransactionCount: 'quantity',
+    eth_getBlockTransactionCountByHash: 'quantity',
+    eth_getBlockTransactionCountByNumber: 'quantity',
+    eth_getUncleCountByBlockHash: 'quantity',
+    eth_getUncleCountByBlockNumber: 'quantity',
+    net_peerCount: 'quantity',
+    eth_getBalance: 'wei',
+    eth_getBlockByNumber: { object: BLOCK },
+    eth_getBlockByHash: { object: BLOCK },
+    eth_getUncleByBlockHashAndIndex: { object: BLOCK },
+    eth_getUncleByBlockNumberAndIndex: { object: BLOCK },
+    eth_getTransactionByHash: { object: TRANSACTION },
+    eth_getTransactionByBlockHashAndIndex: { object: TRANSACTION },
+    eth_getTransactionByBlockNumberAndIndex: { object: TRANSACTION },
+    eth_getTransactionReceipt: { object: RECEIPT },
+    eth_getBlockReceipts: { array: { object: RECEIPT } },
+    eth_getLogs: { array: { object: LOG } },
+    eth_feeHistory: { object: FEE_HISTORY },
+    eth_getProof: { object: ACCOUNT_PROOF },
+    eth_getStorageAt: 'data',
+    eth_getCode: 'data',
+    eth_call: 'data',
+    eth_sendRawTransaction: 'hash'
+};
@@ -0,0 +1,113 @@
+import { Clock, EthereumParams, RetryPolicy } from './types.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 250,
+    maxDelayMs: 10000,
+    jitter: 0.5,
+    retryableStatuses: [408, 429, 500, 502, 503, 504],
+    retryableErrorCodes: ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']
+};
+
+/**
+ * Methods with side effects that must never be sent twice
+ */
+export const NON_IDEMPOTENT_METHODS: ReadonlySet<string> = new Set([
+    'eth_sendRawTransaction',
+    'eth_sendTransaction',
+    'eth_sign',
+    'eth_signTransaction',
+    'eth_newFilter',
+    'eth_newBlockFilter',
+    'eth_newPendingTransactionFilter',
+    'eth_uninstallFilter',
+    'eth_subscribe',
+    'eth_unsubscribe'
+]);
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    sleep: (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * Check whether a method can safely be retried
+ * @param method - JSON-RPC method
+ * @returns True unless the method has side effects
+ */
+export function isIdempotent(method: keyof EthereumParams): boolean {
+    return !NON_IDEMPOTENT_METHODS.has(String(method));
+}
+
+/**
+ * Check whether a failed HTTP call is worth retrying
+ * @param error - Error thrown by axios
+ * @param policy - Retry policy
+ * @returns True for retryable HTTP statuses and network errors
+ */
+export function isRetryableError(error: any, policy: RetryPolicy): boolean {
+    if (!error || !error.isAxiosError) return false;
+
+    const status = error.response?.status;
+    if (status !== undefined) {
+        return policy.retryableStatuses.includes(status);
+    }
+
+    return typeof error.code === 'string' && policy.retryableErrorCodes.includes(error.code);
+}
+
+/**
+ * Parse a `Retry-After` header
+ * @param header - Header value, either delay seconds or an HTTP date
+ * @param nowMs - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | undefined, nowMs: number): number | undefined {
+    if (!header) return undefined;
+
+    const trimmed = header.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.ceil(Number(trimmed) * 1000);
+    }
+
+    const date = Date.parse(trimmed);
+    if (isNaN(date)) return undefined;
+    return Math.max(0, date - nowMs);
+}
+
+/**
+ * Compute the exponential backoff delay before a retry
+ * @param attempt - Zero-based retry number
+ * @param policy - Retry policy
+ * @param random - Random source returning values in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    const jitter = Math.min(1, Math.max(0, policy.jitter));
+    return Math.round(exponential * (1 - jitter + jitter * random()));
+}
+
+/**
+ * Compute the delay before retrying a failed HTTP call, honouring `Retry-After`
+ * @param error - Error thrown by axios
+ * @param attempt - Zero-based retry number
+ * @param policy - Retry policy
+ * @param clock - Time source
+ * @param random - Random source returning values in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(
+    error: any,
+    attempt: number,
+    policy: RetryPolicy,
+    clock: Clock,
+    random: () => number = Math.random
+): number {
+    const headers = error?.response?.headers;
+    const retryAfter = parseRetryAfter(headers?.['retry-after'] ?? headers?.['Retry-After'], clock.now());
+    if (retryAfter !== undefined) {
+        return Math.min(policy.maxDelayMs, retryAfter);
+    }
+    return computeBackoff(attempt, policy, random);
+}
@@ -0,0 +1,214 @@
+import { decodeNamed, decodeParameters, formatSignature, parseAbi, selector } from './abi.js';
+import { AbiFragment, ValidationCloudError } from './types.js';
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Solidity panic codes and what raised them
+ */
+export const PANIC_CODES: Record<number, string> = {
+    0x00: 'generic compiler-inserted panic',
+    0x01: 'assertion failed',
+    0x11: 'arithmetic overflow or underflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'conversion to an invalid enum value',
+    0x22: 'incorrectly encoded storage byte array',
+    0x31: 'pop() on an empty array',
+    0x32: 'array index out of bounds',
+    0x41: 'too much memory allocated or array too large',
+    0x51: 'call to a zero-initialized internal function'
+};
+
+/**
+ * Custom errors decoded without an ABI: OpenZeppelin 5 token, access and utility errors
+ */
+export const KNOWN_ERROR_SIGNATURES = [
+    // ERC-20 (ERC-6093)
+    'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+    'error ERC20InvalidSender(address sender)',
+    'error ERC20InvalidReceiver(address receiver)',
+    'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+    'error ERC20InvalidApprover(address approver)',
+    'error ERC20InvalidSpender(address spender)',
+    // ERC-721 (ERC-6093)
+    'error ERC721InvalidOwner(address owner)',
+    'error ERC721NonexistentToken(uint256 tokenId)',
+    'error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)',
+    'error ERC721InvalidSender(address sender)',
+    'error ERC721InvalidReceiver(address receiver)',
+    'error ERC721InsufficientApproval(address operator, uint256 tokenId)',
+    'error ERC721InvalidApprover(address approver)',
+    'error ERC721InvalidOperator(address operator)',
+    // ERC-1155 (ERC-6093)
+    'error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)',
+    'error ERC1155MissingApprovalForAll(address operator, address owner)',
+    // Access control
+    'error OwnableUnauthorizedAccount(address account)',
+    'error OwnableInvalidOwner(address owner)',
+    'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+    // Utilities
+    'error ReentrancyGuardReentrantCall()',
+    'error EnforcedPause()',
+    'error ExpectedPause()',
+    'error SafeERC20FailedOperation(address token)',
+    'error AddressEmptyCode(address target)',
+    'error FailedCall()',
+    'error InsufficientBalance(uint256 balance, uint256 needed)'
+];
+
+/**
+ * A decoded revert payload
+ */
+export interface DecodedRevert {
+    /**
+     * `error` for `Error(string)`, `panic` for `Panic(uint256)`, `custom` for a
+     * matched custom error, `unknown` for an unmatched selector and `empty`
+     * for a revert without data
+     */
+    kind: 'error' | 'panic' | 'custom' | 'unknown' | 'empty';
+    /** One-line explanation */
+    message: string;
+    /** Four-byte selector */
+    selector?: string;
+    /** Canonical error signature */
+    signature?: string;
+    /** Reason string of `Error(string)` */
+    reason?: string;
+    /** Panic code and its meaning */
+    panic?: { code: number; description: string };
+    /** Custom error arguments keyed by name (or position) */
+    args?: Record<string, unknown>;
+    /** Raw revert data */
+    data: string;
+}
+
+function formatArgs(args: Record<string, unknown>): string {
+    return Object.entries(args).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(', ');
+}
+
+/**
+ * Matches revert data to `Error(string)`, `Panic(uint256)` or custom error fragments by selector
+ */
+export class RevertDecoder {
+    private readonly errors = new Map<string, AbiFragment[]>();
+
+    /**
+     * @param abi - Custom errors as a JSON ABI or error signatures; non-error entries are ignored
+     * @param includeKnownErrors - Whether to include {@link KNOWN_ERROR_SIGNATURES}
+     */
+    constructor(abi?: unknown, includeKnownErrors = true) {
+        // User errors go first so they win over built-ins with the same selector
+        if (abi !== undefined) {
+            this.add(parseAbi(abi));
+        }
+        if (includeKnownErrors) {
+            this.add(parseAbi(KNOWN_ERROR_SIGNATURES));
+        }
+    }
+
+    private add(fragments: AbiFragment[]): void {
+        for (const fragment of fragments) {
+            if (fragment.type !== 'error') continue;
+            const key = selector(fragment);
+            const candidates = this.errors.get(key) ?? [];
+            if (!candidates.some(candidate => formatSignature(candidate) === formatSignature(fragment))) {
+                candidates.push(fragment);
+                this.errors.set(key, candidates);
+            }
+        }
+    }
+
+    /**
+     * Decode revert data
+     * @param data - Hex revert payload
+     * @returns Decoded revert
+     */
+    decode(data: string): DecodedRevert {
+        const hex = data.toLowerCase();
+        if (hex === '0x' || hex === '') {
+            return { kind: 'empty', message: 'reverted without a reason', data };
+        }
+
+        const key = hex.slice(0, 10);
+        const payload = `0x${hex.slice(10)}`;
+        try {
+            if (key === ERROR_SELECTOR) {
+                const [reason] = decodeParameters([{ name: 'reason', type: 'string' }], payload) as [string];
+                return { kind: 'error', message: `reverted: ${reason}`, selector: key, signature: 'Error(string)', reason, data };
+            }
+            if (key === PANIC_SELECTOR) {
+                const [value] = decodeParameters([{ name: 'code', type: 'uint256' }], payload) as [string];
+                const code = Number(value);
+                const description = PANIC_CODES[code] ?? 'unknown panic code';
+                return {
+                    kind: 'panic',
+                    message: `panicked with code 0x${code.toString(16).padStart(2, '0')}: ${description}`,
+                    selector: key,
+                    signature: 'Panic(uint256)',
+                    panic: { code, description },
+                    data
+                };
+            }
+        } catch (error) {
+            // Malformed standard payloads fall through to unknown
+        }
+
+        for (const fragment of this.errors.get(key) ?? []) {
+            try {
+                const args = decodeNamed(fragment.inputs, payload);
+                const signature = formatSignature(fragment);
+                return {
+                    kind: 'custom',
+                    message: `reverted with ${fragment.name}(${formatArgs(args)})`,
+                    selector: key,
+                    signature,
+                    args,
+                    data
+                };
+            } catch (error) {
+                // Try the next candidate
+            }
+        }
+
+        return {
+            kind: 'unknown',
+            message: `reverted with unknown error selector ${key}; pass the contract ABI to decode it`,
+            selector: key,
+            data
+        };
+    }
+}
+
+/**
+ * Revert data carried by a node error, which providers put in `data` directly
+ * or nest one level down as `data.data`
+ * @param error - Node error
+ * @returns Hex revert data, if any
+ */
+export function revertDataOf(error: ValidationCloudError): string | undefined {
+    const data = error.data && typeof error.data === 'object' ? error.data.data : error.data;
+    return typeof data === 'string' && /^0x([0-9a-fA-F]{2})*$/.test(data) ? data : undefined;
+}
+
+/**
+ * Attach the decoded revert to a failed `eth_call` or `eth_estimateGas` error
+ * @param error - Error thrown by the request
+ * @param decoder - Revert decoder
+ * @returns A ValidationCloudError whose message explains the revert, or the original error
+ */
+export function decodeRevertError(error: unknown, decoder: RevertDecoder): unknown {
+    if (!(error instanceof ValidationCloudError) || error.details?.revert) return error;
+    const data = revertDataOf(error);
+    if (data === undefined) return error;
+
+    const revert = decoder.decode(data);
+    const decoded = new ValidationCloudError(
+        `${error.message} (${revert.message})`,
+        error.code,
+        { ...error.details, revert },
+        error.data
+    );
+    decoded.stack = error.stack;
+    return decoded;
+}
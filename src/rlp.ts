@@ -0,0 +1,115 @@
+import { EthereumErrorCode, ValidationCloudError } from './types.js';
+
+/**
+ * A decoded RLP item: a byte string or a list of items
+ */
+export type RlpItem = Uint8Array | RlpItem[];
+
+function rlpError(reason: string): ValidationCloudError {
+    return new ValidationCloudError(`Invalid RLP: ${reason}`, EthereumErrorCode.INVALID_PARAMS);
+}
+
+function readLength(bytes: Uint8Array, offset: number, size: number): number {
+    if (offset + size > bytes.length) throw rlpError('length prefix runs past the end of the input');
+    if (bytes[offset] === 0) throw rlpError('length prefix has leading zeros');
+    let length = 0;
+    for (let i = 0; i < size; i++) {
+        length = length * 256 + bytes[offset + i];
+    }
+    return length;
+}
+
+/**
+ * Decode one item starting at `offset`
+ * @returns The item and the offset just past it
+ */
+function decodeAt(bytes: Uint8Array, offset: number): [RlpItem, number] {
+    if (offset >= bytes.length) throw rlpError('unexpected end of input');
+    const prefix = bytes[offset];
+
+    if (prefix < 0x80) {
+        return [bytes.slice(offset, offset + 1), offset + 1];
+    }
+
+    let isList = false;
+    let start: number;
+    let length: number;
+    if (prefix <= 0xb7) {
+        start = offset + 1;
+        length = prefix - 0x80;
+        if (length === 1 && bytes[start] < 0x80) throw rlpError('single byte below 0x80 must not be prefixed');
+    } else if (prefix <= 0xbf) {
+        const size = prefix - 0xb7;
+        length = readLength(bytes, offset + 1, size);
+        if (length <= 55) throw rlpError('long string form used for a short string');
+        start = offset + 1 + size;
+    } else if (prefix <= 0xf7) {
+        isList = true;
+        start = offset + 1;
+        length = prefix - 0xc0;
+    } else {
+        isList = true;
+        const size = prefix - 0xf7;
+        length = readLength(bytes, offset + 1, size);
+        if (length <= 55) throw rlpError('long list form used for a short list');
+        start = offset + 1 + size;
+    }
+
+    const end = start + length;
+    if (end > bytes.length) throw rlpError('item runs past the end of the input');
+    if (!isList) return [bytes.slice(start, end), end];
+
+    const items: RlpItem[] = [];
+    let position = start;
+    while (position < end) {
+        const [item, next] = decodeAt(bytes, position);
+        items.push(item);
+        position = next;
+    }
+    if (position !== end) throw rlpError('list contents overrun their length');
+    return [items, end];
+}
+
+/**
+ * Decode an RLP-encoded item
+ * @param bytes - Encoded bytes
+ * @returns Decoded item
+ */
+export function decodeRlp(bytes: Uint8Array): RlpItem {
+    const [item, end] = decodeAt(bytes, 0);
+    if (end !== bytes.length) throw rlpError(`${bytes.length - end} trailing bytes`);
+    return item;
+}
+
+function encodeLength(length: number, offset: number): Uint8Array {
+    if (length <= 55) return Uint8Array.of(offset + length);
+    const lengthBytes: number[] = [];
+    for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+        lengthBytes.unshift(remaining % 256);
+    }
+    return Uint8Array.of(offset + 55 + lengthBytes.length, ...lengthBytes);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+/**
+ * RLP-encode an item
+ * @param item - Byte string or nested list of byte strings
+ * @returns Encoded bytes
+ */
+export function encodeRlp(item: RlpItem): Uint8Array {
+    if (Array.isArray(item)) {
+        const payload = concat(item.map(encodeRlp));
+        return concat([encodeLength(payload.length, 0xc0), payload]);
+    }
+    if (item.length === 1 && item[0] < 0x80) return item;
+    return concat([encodeLength(item.length, 0x80), item]);
+}
@@ -0,0 +1,549 @@
+import WebSocket from 'ws';
+import { ValidationCloudAPI } from './api.js';
+import { EthereumErrorCode, Logger, ValidationCloudError } from './types.js';
+import { toQuantity, transformResponse } from './utils.js';
+
+/**
+ * Subscription types of `eth_subscribe`
+ */
+export type SubscriptionKind = 'newHeads' | 'logs' | 'newPendingTransactions';
+
+/**
+ * Filter for `logs` subscriptions, as in `eth_getLogs` without a block range
+ */
+export interface LogSubscriptionFilter {
+    address?: string | string[];
+    topics?: (string | string[] | null)[];
+}
+
+/**
+ * Where a subscription's events come from
+ */
+export type SubscriptionSource = 'websocket' | 'polling';
+
+/**
+ * A live subscription
+ */
+export interface Subscription {
+    /** Current source; changes to `polling` if the WebSocket cannot be restored */
+    readonly source: SubscriptionSource;
+    /** Stop receiving events */
+    unsubscribe(): Promise<void>;
+}
+
+/**
+ * The part of a WebSocket the client uses, so tests can supply a fake
+ */
+export interface SocketLike {
+    send(data: string): void;
+    close(): void;
+    on(event: 'open', listener: () => void): unknown;
+    on(event: 'message', listener: (data: unknown) => void): unknown;
+    on(event: 'error', listener: (error: Error) => void): unknown;
+    on(event: 'close', listener: () => void): unknown;
+}
+
+/**
+ * Opens a WebSocket
+ */
+export type SocketFactory = (url: string, headers: Record<string, string>) => SocketLike;
+
+/**
+ * Settings for subscriptions
+ */
+export interface SubscriptionOptions {
+    /** WebSocket endpoint including any key in its path; subscriptions poll over HTTP when unset */
+    url?: string;
+    /** Headers sent with the WebSocket handshake */
+    headers?: Record<string, string>;
+    /** How often polling checks for new data (default 4000) */
+    pollIntervalMs?: number;
+    /** Reconnect attempts before WebSocket subscriptions switch to polling (default 5) */
+    maxReconnectAttempts?: number;
+    /** Delay before the first reconnect; doubles per attempt up to 30 s (default 1000) */
+    reconnectDelayMs?: number;
+    /** Time allowed for connecting and for each subscribe call (default 10000) */
+    requestTimeoutMs?: number;
+    /** Socket factory, mainly useful for tests */
+    createSocket?: SocketFactory;
+    logger?: Logger;
+}
+
+/** Most blocks polling reads in one round, so a long pause cannot trigger a flood of requests */
+const MAX_POLL_BLOCKS = 100;
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const defaultSocketFactory: SocketFactory = (url, headers) => new WebSocket(url, { headers }) as unknown as SocketLike;
+
+/**
+ * A subscription registered with the WebSocket client
+ */
+interface SocketSubscription {
+    params: unknown[];
+    /** Subscription ID the node assigned on the current connection */
+    remoteId?: string;
+    onEvent(result: unknown): void;
+    /** Called after the subscription was made again on a new connection */
+    onReconnected(): void;
+    /** Called when reconnecting has failed too often */
+    onFailure(error: Error): void;
+}
+
+interface PendingCall {
+    resolve(value: unknown): void;
+    reject(error: Error): void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * JSON-RPC over one WebSocket with `eth_subscribe` notifications. Reconnects
+ * with backoff when the socket drops and subscribes again, since subscription
+ * IDs do not survive a connection. The socket is closed while nothing is
+ * subscribed.
+ */
+class WebSocketClient {
+    private socket?: SocketLike;
+    private opening?: Promise<SocketLike>;
+    private nextId = 1;
+    private readonly calls = new Map<number, PendingCall>();
+    private readonly subscriptions = new Set<SocketSubscription>();
+    private readonly byRemoteId = new Map<string, SocketSubscription>();
+    private reconnectAttempts = 0;
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private closed = false;
+
+    constructor(
+        private readonly url: string,
+        private readonly headers: Record<string, string>,
+        private readonly options: Required<Pick<SubscriptionOptions, 'maxReconnectAttempts' | 'reconnectDelayMs' | 'requestTimeoutMs' | 'createSocket'>>,
+        private readonly logger?: Logger
+    ) {}
+
+    async subscribe(subscription: SocketSubscription): Promise<void> {
+        this.subscriptions.add(subscription);
+        try {
+            await this.register(subscription);
+        } catch (error) {
+            this.subscriptions.delete(subscription);
+            this.closeIfIdle();
+            throw error;
+        }
+    }
+
+    async unsubscribe(subscription: SocketSubscription): Promise<void> {
+        this.subscriptions.delete(subscription);
+        const { remoteId } = subscription;
+        if (remoteId !== undefined) {
+            this.byRemoteId.delete(remoteId);
+            if (this.socket) {
+                await this.call('eth_unsubscribe', [remoteId]).catch(error =>
+                    this.logger?.debug('eth_unsubscribe failed:', error));
+            }
+        }
+        this.closeIfIdle();
+    }
+
+    close(): void {
+        this.closed = true;
+        clearTimeout(this.reconnectTimer);
+        this.subscriptions.clear();
+        this.socket?.close();
+    }
+
+    private closeIfIdle(): void {
+        if (this.subscriptions.size === 0) {
+            this.socket?.close();
+        }
+    }
+
+    private async register(subscription: SocketSubscription): Promise<void> {
+        const remoteId = String(await this.call('eth_subscribe', subscription.params));
+        subscription.remoteId = remoteId;
+        this.byRemoteId.set(remoteId, subscription);
+    }
+
+    private connect(): Promise<SocketLike> {
+        if (this.socket) return Promise.resolve(this.socket);
+        this.opening ??= new Promise<SocketLike>((resolve, reject) => {
+            const socket = this.options.createSocket(this.url, this.headers);
+            let open = false;
+            const fail = (error: Error) => {
+                clearTimeout(timer);
+                this.opening = undefined;
+                reject(error);
+            };
+            const timer = setTimeout(() => {
+                fail(new ValidationCloudError('WebSocket connection timed out', EthereumErrorCode.INTERNAL_ERROR));
+                socket.close();
+            }, this.options.requestTimeoutMs);
+
+            socket.on('open', () => {
+                open = true;
+                clearTimeout(timer);
+                this.socket = socket;
+                this.opening = undefined;
+                resolve(socket);
+            });
+            socket.on('message', data => this.receive(String(data)));
+            socket.on('error', error => {
+                if (open) {
+                    this.logger?.warn('WebSocket error:', error);
+                } else {
+                    fail(error);
+                }
+            });
+            socket.on('close', () => {
+                if (open) {
+                    this.dropped(socket);
+                } else {
+                    fail(new ValidationCloudError('WebSocket closed before it opened', EthereumErrorCode.INTERNAL_ERROR));
+                }
+            });
+        });
+        return this.opening;
+    }
+
+    private async call(method: string, params: unknown[]): Promise<unknown> {
+        const socket = await this.connect();
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.calls.delete(id);
+                reject(new ValidationCloudError(`${method} timed out`, EthereumErrorCode.INTERNAL_ERROR));
+            }, this.options.requestTimeoutMs);
+            this.calls.set(id, { resolve, reject, timer });
+            socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+        });
+    }
+
+    private receive(text: string): void {
+        let message: any;
+        try {
+            message = JSON.parse(text);
+        } catch (error) {
+            this.logger?.warn('Ignoring WebSocket message that is not JSON');
+            return;
+        }
+
+        if (message?.method === 'eth_subscription') {
+            const subscription = this.byRemoteId.get(message.params?.subscription);
+            subscription?.onEvent(message.params.result);
+            return;
+        }
+
+        const call = this.calls.get(message?.id);
+        if (!call) return;
+        this.calls.delete(message.id);
+        clearTimeout(call.timer);
+        if (message.error) {
+            call.reject(new ValidationCloudError(message.error.message, message.error.code, undefined, message.error.data));
+        } else {
+            call.resolve(message.result);
+        }
+    }
+
+    private dropped(socket: SocketLike): void {
+        if (this.socket !== socket) return;
+        this.socket = undefined;
+        for (const call of this.calls.values()) {
+            clearTimeout(call.timer);
+            call.reject(new ValidationCloudError('WebSocket connection closed', EthereumErrorCode.INTERNAL_ERROR));
+        }
+        this.calls.clear();
+        this.byRemoteId.clear();
+        if (!this.closed && this.subscriptions.size > 0) {
+            this.scheduleReconnect();
+        }
+    }
+
+    private scheduleReconnect(): void {
+        if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
+            const error = new ValidationCloudError(
+                `WebSocket could not reconnect after ${this.reconnectAttempts} attempts`,
+                EthereumErrorCode.INTERNAL_ERROR
+            );
+            this.reconnectAttempts = 0;
+            const failed = [...this.subscriptions];
+            this.subscriptions.clear();
+            failed.forEach(subscription => subscription.onFailure(error));
+            return;
+        }
+        const delay = Math.min(this.options.reconnectDelayMs * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+        this.reconnectAttempts++;
+        this.logger?.warn(`WebSocket closed; reconnecting in ${delay} ms (attempt ${this.reconnectAttempts})`);
+        this.reconnectTimer = setTimeout(() => void this.reconnect(), delay);
+        this.reconnectTimer.unref?.();
+    }
+
+    private async reconnect(): Promise<void> {
+        this.reconnectTimer = undefined;
+        if (this.closed || this.subscriptions.size === 0) return;
+        try {
+            await this.connect();
+            await Promise.all([...this.subscriptions].map(subscription => this.register(subscription)));
+            this.reconnectAttempts = 0;
+            this.logger?.info(`WebSocket reconnected; resubscribed ${this.subscriptions.size} subscriptions`);
+            this.subscriptions.forEach(subscription => subscription.onReconnected());
+        } catch (error) {
+            this.logger?.warn('WebSocket reconnect failed:', error);
+            if (this.socket) {
+                // Closing leads back here through the close event
+                this.socket.close();
+            } else {
+                this.scheduleReconnect();
+            }
+        }
+    }
+}
+
+/**
+ * Polls over HTTP for what a subscription would deliver: new blocks with
+ * `eth_getBlockByNumber`, logs with `eth_getLogs` over the new blocks, and
+ * pending transactions with a pending transaction filter
+ */
+class Poller {
+    private timer?: ReturnType<typeof setInterval>;
+    private next = 0;
+    private filterId?: string;
+    private running = false;
+    private stopped = false;
+
+    constructor(
+        private readonly api: ValidationCloudAPI,
+        private readonly kind: SubscriptionKind,
+        private readonly filter: LogSubscriptionFilter | undefined,
+        private readonly onEvent: (event: unknown) => void,
+        private readonly intervalMs: number,
+        private readonly logger?: Logger
+    ) {}
+
+    /**
+     * @param fromBlock - First block to report; the next block by default
+     */
+    async start(fromBlock?: number): Promise<void> {
+        if (this.kind === 'newPendingTransactions') {
+            this.filterId = (await this.api.request({ method: 'eth_newPendingTransactionFilter', raw: true })).result;
+        } else {
+            this.next = fromBlock ?? (await this.api.request({ method: 'eth_blockNumber' })).result + 1;
+        }
+        this.timer = setInterval(() => void this.poll(), this.intervalMs);
+        this.timer.unref?.();
+    }
+
+    async stop(): Promise<void> {
+        this.stopped = true;
+        clearInterval(this.timer);
+        if (this.filterId !== undefined) {
+            await this.api.request({ method: 'eth_uninstallFilter', params: [this.filterId] })
+                .catch(error => this.logger?.debug('eth_uninstallFilter failed:', error));
+        }
+    }
+
+    /**
+     * Report blocks or logs from a block up to the current head once, without
+     * polling afterwards
+     * @param fromBlock - First block to report
+     * @returns Last block reported
+     */
+    async catchUp(fromBlock: number): Promise<number> {
+        this.next = fromBlock;
+        const { result: head } = await this.api.request({ method: 'eth_blockNumber' });
+        while (this.next <= head && !this.stopped) {
+            const before = this.next;
+            await this.readUpTo(head);
+            // The node does not serve the next block yet
+            if (this.next === before) break;
+        }
+        return this.next - 1;
+    }
+
+    /**
+     * Check once for new data; overlapping calls are skipped
+     */
+    async poll(): Promise<void> {
+        if (this.running || this.stopped) return;
+        this.running = true;
+        try {
+            if (this.filterId !== undefined) {
+                const { result } = await this.api.request({ method: 'eth_getFilterChanges', params: [this.filterId], raw: true });
+                (result ?? []).forEach((hash: string) => this.emit(hash));
+                return;
+            }
+
+            const { result: latest } = await this.api.request({ method: 'eth_blockNumber' });
+            await this.readUpTo(latest);
+        } catch (error) {
+            this.logger?.warn(`Polling for ${this.kind} failed:`, error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Report the next round of blocks or logs, up to `latest`
+     */
+    private async readUpTo(latest: number): Promise<void> {
+        if (latest < this.next) return;
+        const span = this.kind === 'logs' ? Math.min(MAX_POLL_BLOCKS, this.api.policy?.maxLogsBlockRange ?? Infinity) : MAX_POLL_BLOCKS;
+        const to = Math.min(latest, this.next + span - 1);
+        if (this.kind === 'newHeads') {
+            for (let number = this.next; number <= to && !this.stopped; number++) {
+                const { result: block } = await this.api.request({ method: 'eth_getBlockByNumber', params: [toQuantity(number), false] });
+                // Not served yet by this node; try again next round
+                if (!block) break;
+                const { transactions, uncles, withdrawals, size, totalDifficulty, ...head } = block;
+                this.next = number + 1;
+                this.emit(head);
+            }
+        } else {
+            const { result: logs } = await this.api.request({
+                method: 'eth_getLogs',
+                params: [{ ...this.filter, fromBlock: toQuantity(this.next), toBlock: toQuantity(to) }]
+            });
+            this.next = to + 1;
+            (logs ?? []).forEach((log: unknown) => this.emit(log));
+        }
+    }
+
+    private emit(event: unknown): void {
+        if (!this.stopped) this.onEvent(event);
+    }
+}
+
+/**
+ * Subscriptions for one network: `eth_subscribe` over a WebSocket when one is
+ * configured, otherwise polling over HTTP. After a reconnect, blocks and logs
+ * from while the socket was down are read over HTTP before live events
+ * resume; pending transactions from that time are lost. Subscriptions also
+ * switch to polling when the WebSocket cannot be reached or restored, resuming
+ * after the last block they reported. Events are converted as in
+ * `eth_getBlockByNumber` and `eth_getLogs` results; pending transactions are
+ * hashes.
+ */
+export class SubscriptionManager {
+    private readonly socket?: WebSocketClient;
+    private readonly active = new Set<Subscription>();
+
+    /**
+     * @param api - Client used for polling
+     * @param options - WebSocket endpoint, polling and reconnect settings
+     */
+    constructor(private readonly api: ValidationCloudAPI, private readonly options: SubscriptionOptions = {}) {
+        if (options.url) {
+            this.socket = new WebSocketClient(options.url, options.headers ?? {}, {
+                maxReconnectAttempts: options.maxReconnectAttempts ?? 5,
+                reconnectDelayMs: options.reconnectDelayMs ?? 1000,
+                requestTimeoutMs: options.requestTimeoutMs ?? 10000,
+                createSocket: options.createSocket ?? defaultSocketFactory
+            }, options.logger);
+        }
+    }
+
+    /**
+     * Subscribe to new blocks, logs or pending transactions
+     * @param kind - Subscription type
+     * @param filter - Address and topic filter for `logs`
+     * @param listener - Called with each converted event
+     * @returns The subscription; also falls back to polling when subscribing over the WebSocket fails
+     */
+    async subscribe(
+        kind: SubscriptionKind,
+        filter: LogSubscriptionFilter | undefined,
+        listener: (event: any) => void
+    ): Promise<Subscription> {
+        const logger = this.options.logger;
+        let source: SubscriptionSource = 'polling';
+        let stop: () => Promise<void> = async () => {};
+        let stopped = false;
+        let lastBlock: number | undefined;
+        /** Live events held back while a backfill runs */
+        let held: unknown[] | undefined;
+        let backfill: Poller | undefined;
+
+        const blockOf = (event: any) => kind === 'newHeads' ? event?.number : event?.blockNumber;
+        const deliver = (event: any) => {
+            if (stopped) return;
+            const block = blockOf(event);
+            if (typeof block === 'number') lastBlock = block;
+            listener(event);
+        };
+        const deliverLive = (event: unknown) => held ? held.push(event) : deliver(event);
+        const fillGap = async (fromBlock: number) => {
+            held = [];
+            backfill = new Poller(this.api, kind, filter, deliver, 0, logger);
+            let covered = fromBlock - 1;
+            try {
+                covered = await backfill.catchUp(fromBlock);
+            } catch (error) {
+                logger?.warn(`Could not read the ${kind} missed while the WebSocket was down:`, error);
+            } finally {
+                const live = held;
+                held = undefined;
+                backfill = undefined;
+                // Drop what the backfill already reported, but keep reorg removals
+                live.forEach((event: any) => {
+                    if (!(blockOf(event) <= covered) || event?.removed) deliver(event);
+                });
+            }
+        };
+        const poll = async (fromBlock?: number) => {
+            const poller = new Poller(this.api, kind, filter, deliver, this.options.pollIntervalMs ?? 4000, logger);
+            await poller.start(fromBlock);
+            source = 'polling';
+            stop = () => poller.stop();
+            if (stopped) await poller.stop();
+        };
+
+        if (this.socket) {
+            const entry: SocketSubscription = {
+                params: kind === 'logs' ? [kind, filter ?? {}] : [kind],
+                onEvent: result => deliverLive(kind === 'newHeads'
+                    ? transformResponse('eth_getBlockByNumber', result)
+                    : kind === 'logs' ? transformResponse('eth_getLogs', [result])[0] : result),
+                onReconnected: () => {
+                    if (stopped || held || kind === 'newPendingTransactions' || lastBlock === undefined) return;
+                    void fillGap(lastBlock + 1);
+                },
+                onFailure: error => {
+                    if (stopped) return;
+                    logger?.warn(`${error.message}; polling ${kind} over HTTP instead`);
+                    poll(lastBlock === undefined ? undefined : lastBlock + 1)
+                        .catch(pollError => logger?.error(`Could not poll ${kind}:`, pollError));
+                }
+            };
+            try {
+                await this.socket.subscribe(entry);
+                source = 'websocket';
+                stop = () => this.socket!.unsubscribe(entry);
+            } catch (error) {
+                logger?.warn(`Could not subscribe to ${kind} over the WebSocket, polling over HTTP instead:`, error);
+                await poll();
+            }
+        } else {
+            await poll();
+        }
+
+        const subscription: Subscription = {
+            get source() {
+                return source;
+            },
+            unsubscribe: async () => {
+                stopped = true;
+                this.active.delete(subscription);
+                await backfill?.stop();
+                await stop();
+            }
+        };
+        this.active.add(subscription);
+        return subscription;
+    }
+
+    /**
+     * End every subscription and close the WebSocket
+     */
+    async close(): Promise<void> {
+        await Promise.all([...this.active].map(subscription => subscription.unsubscribe()));
+        this.socket?.close();
+    }
+}
@@ -0,0 +1,154 @@
+import { ValidationCloudAPI } from './api.js';
+import { resolveAddressArgs, withEnsResolutions } from './ens.js';
+import { ADDRESS_ARGUMENT, BLOCK_TAG_ARGUMENT, addressArguments } from './methodTools.js';
+import {
+    TokenAllowance,
+    TokenBalance,
+    TokenMetadata,
+    getNft,
+    getTokenAllowance,
+    getTokenBalance,
+    getTokenBalances,
+    getTokenMetadata
+} from './tokens.js';
+import { NETWORK_ARGUMENT, ToolDefinition } from './tools.js';
+
+const TOKEN_ARGUMENT = { ...ADDRESS_ARGUMENT, description: 'Token contract address or ENS name' };
+
+/**
+ * A token tool whose address arguments may be ENS names
+ */
+function tokenTool(
+    tool: Omit<ToolDefinition, 'handler'> & { run(api: ValidationCloudAPI, args: Record<string, any>): Promise<unknown> }
+): ToolDefinition {
+    const { run, ...definition } = tool;
+    return {
+        ...definition,
+        async handler(input, context) {
+            const api = context.networks.get(input.network);
+            const { args, resolved } = await resolveAddressArgs(api, input, addressArguments(tool.inputSchema.properties ?? {}));
+            return withEnsResolutions(await run(api, args), resolved);
+        }
+    };
+}
+
+/**
+ * ERC-20 and ERC-721 reads without hand-built calldata
+ */
+export const TOKEN_TOOLS: ToolDefinition[] = [
+    tokenTool({
+        name: 'get_token_metadata',
+        description: 'Get the name, symbol, decimals and total supply of an ERC-20 or ERC-721 token, including legacy tokens that return bytes32 names',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                token: TOKEN_ARGUMENT,
+                block: { ...BLOCK_TAG_ARGUMENT, description: 'Block for the total supply; defaults to latest' },
+                network: NETWORK_ARGUMENT
+            },
+            required: ['token'],
+            additionalProperties: false
+        },
+        run(api, { token, block }) {
+            return getTokenMetadata(api, token, block);
+        },
+        summarize({ address, name, symbol, decimals, totalSupply }: TokenMetadata) {
+            return [
+                `${name ?? address}${symbol ? ` (${symbol})` : ''}`,
+                ...(decimals !== undefined ? [`${decimals} decimals`] : []),
+                ...(totalSupply ? [`total supply ${totalSupply.formatted ?? totalSupply.raw}`] : [])
+            ].join(', ');
+        }
+    }),
+    tokenTool({
+        name: 'get_token_balance',
+        description: 'Get the token balance of an address, as the raw integer and formatted with the token decimals',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                token: TOKEN_ARGUMENT,
+                owner: { ...ADDRESS_ARGUMENT, description: 'Holder address' },
+                block: BLOCK_TAG_ARGUMENT,
+                network: NETWORK_ARGUMENT
+            },
+            required: ['token', 'owner'],
+            additionalProperties: false
+        },
+        run(api, { token, owner, block }) {
+            return getTokenBalance(api, token, owner, block);
+        },
+        summarize({ token, owner, symbol, balance }: TokenBalance) {
+            return `${owner} holds ${balance.formatted ?? balance.raw} ${symbol ?? token}`;
+        }
+    }),
+    tokenTool({
+        name: 'get_token_balances',
+        description: 'Get the balances of several tokens for one address in one call; tokens that fail are reported with an error',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                owner: { ...ADDRESS_ARGUMENT, description: 'Holder address' },
+                tokens: {
+                    type: 'array',
+                    items: TOKEN_ARGUMENT,
+                    minItems: 1,
+                    maxItems: 100,
+                    description: 'Token contract addresses'
+                },
+                block: BLOCK_TAG_ARGUMENT,
+                network: NETWORK_ARGUMENT
+            },
+            required: ['owner', 'tokens'],
+            additionalProperties: false
+        },
+        run(api, { owner, tokens, block }) {
+            return getTokenBalances(api, owner, tokens, block);
+        }
+    }),
+    tokenTool({
+        name: 'get_token_allowance',
+        description: 'Get the ERC-20 allowance an owner granted to a spender, formatted with the token decimals',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                token: TOKEN_ARGUMENT,
+                owner: { ...ADDRESS_ARGUMENT, description: 'Address that granted the allowance' },
+                spender: { ...ADDRESS_ARGUMENT, description: 'Address allowed to spend' },
+                block: BLOCK_TAG_ARGUMENT,
+                network: NETWORK_ARGUMENT
+            },
+            required: ['token', 'owner', 'spender'],
+            additionalProperties: false
+        },
+        run(api, { token, owner, spender, block }) {
+            return getTokenAllowance(api, token, owner, spender, block);
+        },
+        summarize({ token, owner, spender, symbol, allowance }: TokenAllowance) {
+            return `${spender} may spend ${allowance.formatted ?? allowance.raw} ${symbol ?? token} of ${owner}`;
+        }
+    }),
+    tokenTool({
+        name: 'get_nft',
+        description: 'Get the current owner (ownerOf) and metadata URI (tokenURI) of an ERC-721 token',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                token: { ...ADDRESS_ARGUMENT, description: 'NFT contract address' },
+                tokenId: {
+                    description: 'Token ID as an integer, decimal or hex string',
+                    oneOf: [
+                        { type: 'integer', minimum: 0 },
+                        { type: 'string', pattern: '^(0x[0-9a-fA-F]+|\\d+)$' }
+                    ]
+                },
+                block: BLOCK_TAG_ARGUMENT,
+                network: NETWORK_ARGUMENT
+            },
+            required: ['token', 'tokenId'],
+            additionalProperties: false
+        },
+        run(api, { token, tokenId, block }) {
+            return getNft(api, token, tokenId, block);
+        }
+    })
+];
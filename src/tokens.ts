@@ -0,0 +1,447 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import { decodeParameters, encodeFunctionData, parseSignature, toChecksumAddress } from './abi.js';
+import { ValidationCloudAPI } from './api.js';
+import { toBlockParam } from './contract.js';
+import { AbiFragment, BatchResponseItem, EthereumErrorCode, NodeRequestParams, ValidationCloudError } from './types.js';
+import { formatUnits } from './utils.js';
+
+const TOKEN_FUNCTIONS = {
+    name: parseSignature('function name() view returns (string)'),
+    symbol: parseSignature('function symbol() view returns (string)'),
+    decimals: parseSignature('function decimals() view returns (uint8)'),
+    totalSupply: parseSignature('function totalSupply() view returns (uint256)'),
+    balanceOf: parseSignature('function balanceOf(address owner) view returns (uint256)'),
+    allowance: parseSignature('function allowance(address owner, address spender) view returns (uint256)'),
+    ownerOf: parseSignature('function ownerOf(uint256 tokenId) view returns (address)'),
+    tokenURI: parseSignature('function tokenURI(uint256 tokenId) view returns (string)')
+};
+
+/**
+ * Token metadata; fields the contract does not implement are left out
+ */
+export interface TokenMetadata {
+    /** Token contract address, checksummed */
+    address: string;
+    name?: string;
+    symbol?: string;
+    decimals?: number;
+    /** Total supply as a raw integer and, when decimals are known, in whole tokens */
+    totalSupply?: TokenAmount;
+}
+
+/**
+ * A token amount as the raw integer and in whole tokens
+ */
+export interface TokenAmount {
+    /** Raw integer amount, as a decimal string */
+    raw: string;
+    /** Amount divided by 10^decimals, when decimals are known */
+    formatted?: string;
+}
+
+export interface TokenBalance {
+    token: string;
+    owner: string;
+    symbol?: string;
+    decimals?: number;
+    balance: TokenAmount;
+}
+
+export interface TokenAllowance {
+    token: string;
+    owner: string;
+    spender: string;
+    symbol?: string;
+    decimals?: number;
+    allowance: TokenAmount;
+}
+
+export interface NftInfo {
+    token: string;
+    tokenId: string;
+    name?: string;
+    symbol?: string;
+    /** Current owner, absent if `ownerOf` reverted (e.g. burned or never minted) */
+    owner?: string;
+    tokenURI?: string;
+}
+
+type StaticMetadata = Omit<TokenMetadata, 'totalSupply'>;
+
+/** Name, symbol and decimals never change, so they are kept per client and contract */
+const metadataCache = new WeakMap<ValidationCloudAPI, Map<string, Promise<StaticMetadata>>>();
+
+/** Tokens read per JSON-RPC batch in multi-token queries, at up to four calls each */
+const BALANCES_PER_BATCH = 25;
+
+function normalizeAddress(address: string, label: string): string {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        throw new ValidationCloudError(`Invalid ${label} address: ${address}`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    return toChecksumAddress(address);
+}
+
+function callRequest(token: string, fragment: AbiFragment, args: unknown[], block: string): NodeRequestParams {
+    return { method: 'eth_call', params: [{ to: token, data: encodeFunctionData(fragment, args) }, block] };
+}
+
+/**
+ * Return data of a view call, treating reverts and empty results as "not implemented"
+ * @param result - Result of the call
+ * @param error - Error of the call, rethrown unless it is a revert
+ * @returns Raw return data, or undefined if the call reverted or returned nothing
+ */
+function returnData(result: unknown, error?: ValidationCloudError): string | undefined {
+    if (error) {
+        if (/revert/i.test(error.message)) return undefined;
+        throw error;
+    }
+    return typeof result === 'string' && result !== '0x' ? result : undefined;
+}
+
+/**
+ * Call a view function, treating reverts and empty results as "not implemented"
+ * @returns Raw return data, or undefined if the call reverted or returned nothing
+ */
+async function tryCall(
+    api: ValidationCloudAPI,
+    token: string,
+    fragment: AbiFragment,
+    args: unknown[],
+    block: string
+): Promise<string | undefined> {
+    try {
+        const { result } = await api.request(callRequest(token, fragment, args, block));
+        return returnData(result);
+    } catch (error) {
+        if (!(error instanceof ValidationCloudError)) throw error;
+        return returnData(undefined, error);
+    }
+}
+
+/**
+ * Decode a `string` return value, falling back to the `bytes32` that legacy
+ * tokens such as MKR return from `name()` and `symbol()`
+ * @param data - Raw return data
+ * @returns Decoded text, or undefined if neither form fits
+ */
+export function decodeStringOrBytes32(data: string | undefined): string | undefined {
+    if (data === undefined) return undefined;
+    try {
+        return decodeParameters([{ name: '', type: 'string' }], data)[0] as string;
+    } catch (error) {
+        // Not ABI-encoded as a string
+    }
+    if (data.length !== 66) return undefined;
+    const bytes = hexToBytes(data.slice(2));
+    const end = bytes.indexOf(0);
+    const text = new TextDecoder('utf-8', { fatal: false }).decode(bytes.slice(0, end < 0 ? 32 : end));
+    return text.length > 0 ? text : undefined;
+}
+
+function decodeUint(data: string | undefined): bigint | undefined {
+    if (data === undefined || data.length < 66) return undefined;
+    return BigInt(`0x${data.slice(2, 66)}`);
+}
+
+function amount(raw: bigint, decimals: number | undefined): TokenAmount {
+    return {
+        raw: raw.toString(),
+        ...(decimals !== undefined && { formatted: formatUnits(raw, decimals) })
+    };
+}
+
+async function loadStaticMetadata(api: ValidationCloudAPI, token: string): Promise<StaticMetadata> {
+    const [name, symbol, decimals] = await Promise.all([
+        tryCall(api, token, TOKEN_FUNCTIONS.name, [], 'latest'),
+        tryCall(api, token, TOKEN_FUNCTIONS.symbol, [], 'latest'),
+        tryCall(api, token, TOKEN_FUNCTIONS.decimals, [], 'latest')
+    ]);
+    return decodeStaticMetadata(token, name, symbol, decimals);
+}
+
+/**
+ * Build static metadata from the return data of `name()`, `symbol()` and `decimals()`
+ * @throws ValidationCloudError if the contract implements none of them
+ */
+function decodeStaticMetadata(
+    token: string,
+    name: string | undefined,
+    symbol: string | undefined,
+    decimals: string | undefined
+): StaticMetadata {
+    const nameValue = decodeStringOrBytes32(name);
+    const symbolValue = decodeStringOrBytes32(symbol);
+    const decimalsValue = decodeUint(decimals);
+    const metadata: StaticMetadata = {
+        address: token,
+        ...(nameValue !== undefined && { name: nameValue }),
+        ...(symbolValue !== undefined && { symbol: symbolValue }),
+        ...(decimalsValue !== undefined && decimalsValue <= 255n && { decimals: Number(decimalsValue) })
+    };
+    if (metadata.name === undefined && metadata.symbol === undefined && metadata.decimals === undefined) {
+        throw new ValidationCloudError(
+            `${token} returned no name, symbol or decimals; check that it is a token contract on this network`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+    return metadata;
+}
+
+function metadataCacheFor(api: ValidationCloudAPI): Map<string, Promise<StaticMetadata>> {
+    let cache = metadataCache.get(api);
+    if (!cache) {
+        cache = new Map();
+        metadataCache.set(api, cache);
+    }
+    return cache;
+}
+
+/**
+ * Name, symbol and decimals of a token, cached per client and contract
+ * @param api - API client
+ * @param token - Token contract address
+ */
+async function staticMetadata(api: ValidationCloudAPI, token: string): Promise<StaticMetadata> {
+    const cache = metadataCacheFor(api);
+    const key = token.toLowerCase();
+    let pending = cache.get(key);
+    if (!pending) {
+        pending = loadStaticMetadata(api, token);
+        cache.set(key, pending);
+        // Failures are not cached, so a later call can retry
+        pending.catch(() => cache!.delete(key));
+    }
+    return pending;
+}
+
+/**
+ * Read ERC-20 or ERC-721 metadata: name, symbol, decimals and total supply
+ * @param api - API client
+ * @param token - Token contract address
+ * @param block - Block for the total supply, defaults to latest
+ * @returns Metadata; unimplemented fields are omitted
+ */
+export async function getTokenMetadata(
+    api: ValidationCloudAPI,
+    token: string,
+    block?: string | number
+): Promise<TokenMetadata> {
+    const address = normalizeAddress(token, 'token');
+    const [metadata, totalSupply] = await Promise.all([
+        staticMetadata(api, address),
+        tryCall(api, address, TOKEN_FUNCTIONS.totalSupply, [], toBlockParam(block))
+    ]);
+    const supply = decodeUint(totalSupply);
+    return {
+        ...metadata,
+        ...(supply !== undefined && { totalSupply: amount(supply, metadata.decimals) })
+    };
+}
+
+async function readAmount(
+    api: ValidationCloudAPI,
+    token: string,
+    fragment: AbiFragment,
+    args: unknown[],
+    block?: string | number
+): Promise<bigint> {
+    return requireAmount(token, fragment, await tryCall(api, token, fragment, args, toBlockParam(block)));
+}
+
+function requireAmount(token: string, fragment: AbiFragment, data: string | undefined): bigint {
+    const value = decodeUint(data);
+    if (value === undefined) {
+        throw new ValidationCloudError(
+            `${fragment.name} reverted or returned no data for ${token}; check that it is a token contract`
+        );
+    }
+    return value;
+}
+
+function tokenBalance(token: string, owner: string, metadata: StaticMetadata, balance: bigint): TokenBalance {
+    return {
+        token,
+        owner,
+        ...(metadata.symbol !== undefined && { symbol: metadata.symbol }),
+        ...(metadata.decimals !== undefined && { decimals: metadata.decimals }),
+        balance: amount(balance, metadata.decimals)
+    };
+}
+
+/**
+ * Token balance of an address, formatted with the token's decimals
+ * @param api - API client
+ * @param token - Token contract address
+ * @param owner - Holder address
+ * @param block - Block to read at, defaults to latest
+ */
+export async function getTokenBalance(
+    api: ValidationCloudAPI,
+    token: string,
+    owner: string,
+    block?: string | number
+): Promise<TokenBalance> {
+    const address = normalizeAddress(token, 'token');
+    const holder = normalizeAddress(owner, 'owner');
+    const [metadata, balance] = await Promise.all([
+        staticMetadata(api, address),
+        readAmount(api, address, TOKEN_FUNCTIONS.balanceOf, [holder], block)
+    ]);
+    return tokenBalance(address, holder, metadata, balance);
+}
+
+/**
+ * ERC-20 allowance granted by an owner to a spender
+ * @param api - API client
+ * @param token - Token contract address
+ * @param owner - Address that granted the allowance
+ * @param spender - Address allowed to spend
+ * @param block - Block to read at, defaults to latest
+ */
+export async function getTokenAllowance(
+    api: ValidationCloudAPI,
+    token: string,
+    owner: string,
+    spender: string,
+    block?: string | number
+): Promise<TokenAllowance> {
+    const address = normalizeAddress(token, 'token');
+    const holder = normalizeAddress(owner, 'owner');
+    const allowed = normalizeAddress(spender, 'spender');
+    const [metadata, allowance] = await Promise.all([
+        staticMetadata(api, address),
+        readAmount(api, address, TOKEN_FUNCTIONS.allowance, [holder, allowed], block)
+    ]);
+    return {
+        token: address,
+        owner: holder,
+        spender: allowed,
+        ...(metadata.symbol !== undefined && { symbol: metadata.symbol }),
+        ...(metadata.decimals !== undefined && { decimals: metadata.decimals }),
+        allowance: amount(allowance, metadata.decimals)
+    };
+}
+
+type TokenBalanceResult = TokenBalance | { token: string; error: string };
+
+/**
+ * Balances of several tokens for one address; a failing token is reported
+ * in place instead of failing the whole query. The calls go out as JSON-RPC
+ * batches of {@link BALANCES_PER_BATCH} tokens, one batch at a time.
+ * @param api - API client
+ * @param owner - Holder address
+ * @param tokens - Token contract addresses
+ * @param block - Block to read at, defaults to latest
+ */
+export async function getTokenBalances(
+    api: ValidationCloudAPI,
+    owner: string,
+    tokens: string[],
+    block?: string | number
+): Promise<TokenBalanceResult[]> {
+    const holder = normalizeAddress(owner, 'owner');
+    const results: TokenBalanceResult[] = [];
+    for (let start = 0; start < tokens.length; start += BALANCES_PER_BATCH) {
+        results.push(...await readBalanceBatch(api, holder, tokens.slice(start, start + BALANCES_PER_BATCH), toBlockParam(block)));
+    }
+    return results;
+}
+
+/**
+ * Read the balances of a few tokens in one batch, adding `name()`, `symbol()`
+ * and `decimals()` for tokens whose metadata is not cached yet
+ */
+async function readBalanceBatch(
+    api: ValidationCloudAPI,
+    holder: string,
+    tokens: string[],
+    block: string
+): Promise<TokenBalanceResult[]> {
+    const cache = metadataCacheFor(api);
+    const reads = tokens.map(token => {
+        try {
+            const address = normalizeAddress(token, 'token');
+            const cached = cache.get(address.toLowerCase());
+            const fragments = cached ? [] : [TOKEN_FUNCTIONS.name, TOKEN_FUNCTIONS.symbol, TOKEN_FUNCTIONS.decimals];
+            return {
+                token,
+                address,
+                cached,
+                requests: [
+                    callRequest(address, TOKEN_FUNCTIONS.balanceOf, [holder], block),
+                    ...fragments.map(fragment => callRequest(address, fragment, [], 'latest'))
+                ]
+            };
+        } catch (error) {
+            return { token, error: error as ValidationCloudError };
+        }
+    });
+
+    const requests = reads.flatMap(read => read.requests ?? []);
+    let responses: BatchResponseItem[] = [];
+    try {
+        responses = requests.length > 0 ? await api.batchRequest(requests) : [];
+    } catch (error) {
+        if (!(error instanceof ValidationCloudError)) throw error;
+        return tokens.map(token => ({ token, error: error.message }));
+    }
+
+    let offset = 0;
+    return Promise.all(reads.map(async read => {
+        if (!read.requests) return { token: read.token, error: read.error.message };
+        const items = responses.slice(offset, offset += read.requests.length);
+        try {
+            const [balance, name, symbol, decimals] = items.map(item => returnData(
+                item.result,
+                item.error && new ValidationCloudError(item.error.message, item.error.code, undefined, item.error.data)
+            ));
+            const metadata = read.cached
+                ? await read.cached
+                : decodeStaticMetadata(read.address, name, symbol, decimals);
+            if (!read.cached) cache.set(read.address.toLowerCase(), Promise.resolve(metadata));
+            return tokenBalance(read.address, holder, metadata, requireAmount(read.address, TOKEN_FUNCTIONS.balanceOf, balance));
+        } catch (error) {
+            if (!(error instanceof ValidationCloudError)) throw error;
+            return { token: read.token, error: error.message };
+        }
+    }));
+}
+
+/**
+ * Owner and metadata URI of an ERC-721 token
+ * @param api - API client
+ * @param token - NFT contract address
+ * @param tokenId - Token ID as a decimal or hex string
+ * @param block - Block to read at, defaults to latest
+ */
+export async function getNft(
+    api: ValidationCloudAPI,
+    token: string,
+    tokenId: string | number,
+    block?: string | number
+): Promise<NftInfo> {
+    const address = normalizeAddress(token, 'token');
+    let id: bigint;
+    try {
+        id = BigInt(tokenId);
+    } catch (error) {
+        throw new ValidationCloudError(`Invalid token ID: ${tokenId}`, EthereumErrorCode.INVALID_PARAMS);
+    }
+
+    const blockParam = toBlockParam(block);
+    const [metadata, owner, uri] = await Promise.all([
+        staticMetadata(api, address).catch(() => undefined),
+        tryCall(api, address, TOKEN_FUNCTIONS.ownerOf, [id], blockParam),
+        tryCall(api, address, TOKEN_FUNCTIONS.tokenURI, [id], blockParam)
+    ]);
+    const tokenURI = decodeStringOrBytes32(uri);
+    return {
+        token: address,
+        tokenId: id.toString(),
+        ...(metadata?.name !== undefined && { name: metadata.name }),
+        ...(metadata?.symbol !== undefined && { symbol: metadata.symbol }),
+        ...(owner !== undefined && { owner: toChecksumAddress(`0x${owner.slice(26, 66)}`) }),
+        ...(tokenURI !== undefined && { tokenURI })
+    };
+}
@@ -0,0 +1,56 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ToolInputError, ToolRegistry } from './tools.js';
+import { Logger, PolicyViolationError } from './types.js';
+
+/**
+ * Serve the registry's tools on an MCP server
+ *
+ * Progress and logging notifications are sent as part of the tool call's
+ * request, so the Streamable HTTP transport delivers them on that request's
+ * response stream rather than the optional standalone GET stream.
+ * @param server - MCP server of one client session
+ * @param tools - Tools to list and call
+ * @param logger - Logger for requests and failed notifications
+ */
+export function registerToolHandlers(server: Server, tools: ToolRegistry, logger: Logger): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+        logger.info('Handling list_tools request');
+        return { tools: tools.list() };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        logger.info('Received tool call request:', JSON.stringify(request, null, 2));
+        const progressToken = request.params._meta?.progressToken;
+        try {
+            return await tools.call(request.params.name, request.params.arguments, {
+                signal: extra.signal,
+                ...(progressToken !== undefined && {
+                    progress: (progress: number, total?: number, message?: string) => {
+                        extra.sendNotification({
+                            method: 'notifications/progress',
+                            params: { progressToken, progress, total, ...(message !== undefined && { message }) }
+                        }).catch(error => logger.warn('Could not send progress notification:', error));
+                    }
+                }),
+                log: (data: unknown) => {
+                    extra.sendNotification({
+                        method: 'notifications/message',
+                        params: { level: 'info', logger: request.params.name, data }
+                    }).catch(error => logger.warn('Could not send logging notification:', error));
+                }
+            });
+        } catch (error) {
+            if (error instanceof PolicyViolationError) {
+                throw new McpError(ErrorCode.InvalidRequest, error.message, { policy: error.policy, method: error.method });
+            }
+            if (error instanceof ToolInputError) {
+                throw new McpError(
+                    error.reason === 'unknown_tool' ? ErrorCode.MethodNotFound : ErrorCode.InvalidParams,
+                    error.message
+                );
+            }
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,766 @@
+import { findBlockByTimestamp } from './blockSearch.js';
+import { ContractCallOptions, callContract } from './contract.js';
+import { resolveAddressArgs, resolveEnsParams, withEnsResolutions } from './ens.js';
+import { describeError } from './errors.js';
+import { EventDecoder, decodeResultLogs } from './events.js';
+import { inspectContract } from './inspect.js';
+import { JsonSchema, validateSchema } from './jsonSchema.js';
+import { LogFilter, scanLogs } from './logScanner.js';
+import { NetworkRegistry } from './networks.js';
+import { DEFAULT_MAX_BYTES, OutputOptions, requestFingerprint, shapeOutput } from './output.js';
+import { redactString } from './redact.js';
+import { RevertDecoder, decodeRevertError } from './revert.js';
+import { DecodedTransaction, PreflightReport, checkBeforeBroadcast, decodeRawTransaction, preflightTransaction } from './transaction.js';
+import { sendAndConfirm } from './transactionTracker.js';
+import { Logger, PolicyViolationError, ValidationCloudError } from './types.js';
+import { Unit, convertUnits, numberToDecimalString, summarizeResponse } from './utils.js';
+
+/**
+ * Services available to tool handlers
+ */
+export interface ToolContext {
+    networks: NetworkRegistry;
+    eventDecoder: EventDecoder;
+    revertDecoder: RevertDecoder;
+    logger: Logger;
+}
+
+/**
+ * Hooks for a single tool call, taken from the MCP request
+ */
+export interface ToolCallOptions {
+    /** Report progress; set when the client asked for progress notifications */
+    progress?: (progress: number, total?: number, message?: string) => void;
+    /** Send data to the client as an MCP logging notification */
+    log?: (data: unknown) => void;
+    /** Aborted when the client cancels the request */
+    signal?: AbortSignal;
+}
+
+/**
+ * An MCP tool: its listing and its handler
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: JsonSchema & { type: 'object' };
+    /**
+     * Run the tool with arguments that passed `inputSchema`
+     * @returns The tool result; ValidationCloudErrors become error results
+     */
+    handler(args: Record<string, any>, context: ToolContext, call: ToolCallOptions): Promise<unknown>;
+    /**
+     * Describe a result in one line; tools without a summariser get a generic one
+     * @param result - Value returned by the handler
+     * @param args - Arguments the tool was called with
+     */
+    summarize?(result: any, args: Record<string, any>): string | undefined;
+    /**
+     * Whether the result can be projected and paged with {@link OUTPUT_ARGUMENTS};
+     * the `result` field is shaped when there is one, otherwise the whole result
+     */
+    pageable?: boolean;
+}
+
+/**
+ * A text content block of a tool result
+ */
+export interface TextContent {
+    type: 'text';
+    text: string;
+}
+
+/**
+ * Result of a tool call in the shape the MCP server returns: a summary and
+ * the JSON as text content, and the JSON again as structured content for
+ * clients that read it
+ */
+export type ToolCallResult =
+    | { content: TextContent[]; structuredContent: Record<string, unknown> }
+    | { content: TextContent[]; isError: true };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Fallback summary naming the shape of a result
+ */
+function describeResult(name: string, result: unknown): string {
+    if (Array.isArray(result)) return `${name} returned ${result.length} items`;
+    if (isPlainObject(result)) return `${name} returned ${Object.keys(result).join(', ')}`;
+    const text = JSON.stringify(result) ?? 'nothing';
+    return `${name} returned ${text.length > 80 ? `${text.slice(0, 77)}...` : text}`;
+}
+
+/**
+ * Build a successful tool result
+ * @param result - Value returned by the handler; non-objects are wrapped as `{ result }`
+ * @param summary - One-line description shown before the JSON
+ */
+export function toolResult(result: unknown, summary: string): ToolCallResult {
+    const structuredContent = isPlainObject(result) ? result : { result };
+    return {
+        content: [
+            { type: 'text', text: summary },
+            { type: 'text', text: JSON.stringify(structuredContent) }
+        ],
+        structuredContent
+    };
+}
+
+/**
+ * Build a successful tool result, projected and cut to its size budget
+ * @param result - Value returned by the handler; its `result` field is shaped when it has one
+ * @param summary - Summary of the whole result, before it was cut
+ * @param output - Projection, budget and cursor
+ * @param request - Fingerprint of the call, for the cursor
+ */
+function pagedToolResult(result: unknown, summary: string, output: OutputOptions, request: string): ToolCallResult {
+    const structured = isPlainObject(result) ? result : { result };
+    const wrapped = 'result' in structured;
+    const shaped = shapeOutput(wrapped ? structured.result : structured, output, request);
+    const content = wrapped ? { ...structured, result: shaped.result } : shaped.result as Record<string, unknown>;
+    if (!shaped.page) {
+        return toolResult(content, summary);
+    }
+    return toolResult({ ...content, page: shaped.page }, `${summary} (${shaped.page.truncated ?? 'last page'})`);
+}
+
+/**
+ * A tool call that cannot run: an unknown tool or arguments that fail its schema
+ */
+export class ToolInputError extends Error {
+    constructor(message: string, public readonly reason: 'unknown_tool' | 'invalid_arguments') {
+        super(message);
+        this.name = 'ToolInputError';
+    }
+}
+
+/**
+ * Single source of tool listings and dispatch
+ */
+export class ToolRegistry {
+    private readonly tools = new Map<string, ToolDefinition>();
+
+    /**
+     * @param context - Services passed to every handler
+     * @param secrets - Values masked in error results
+     */
+    constructor(private readonly context: ToolContext, private readonly secrets: readonly string[] = []) {}
+
+    /**
+     * Add tools; a tool name may only be registered once
+     * @param tools - Tools to add
+     * @returns This registry
+     */
+    register(...tools: ToolDefinition[]): this {
+        for (const tool of tools) {
+            if (this.tools.has(tool.name)) {
+                throw new Error(`Tool ${tool.name} is already registered`);
+            }
+            this.tools.set(tool.name, tool.pageable
+                ? { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, ...OUTPUT_ARGUMENTS } } }
+                : tool);
+        }
+        return this;
+    }
+
+    /**
+     * Tool listings for a `tools/list` response
+     */
+    list(): { name: string; description: string; inputSchema: JsonSchema }[] {
+        return [...this.tools.values()].map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+    }
+
+    /**
+     * Validate the arguments and run a tool
+     * @param name - Tool name
+     * @param args - Tool arguments
+     * @param call - Progress and cancellation hooks for this call
+     * @returns Tool result, or an error result for Validation Cloud errors
+     * @throws ToolInputError for unknown tools and invalid arguments
+     * @throws PolicyViolationError when the request policy blocks the call
+     */
+    async call(name: string, args: Record<string, unknown> | undefined, call: ToolCallOptions = {}): Promise<ToolCallResult> {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            this.context.logger.error('Unknown tool requested:', name);
+            throw new ToolInputError(`Unknown tool: ${name}`, 'unknown_tool');
+        }
+
+        const input = args ?? {};
+        const errors = validateSchema(tool.inputSchema, input);
+        if (errors.length > 0) {
+            this.context.logger.error(`Invalid ${name} arguments:`, errors);
+            throw new ToolInputError(`Invalid arguments for ${name}: ${errors.join('; ')}`, 'invalid_arguments');
+        }
+
+        // Pageable tools get their output arguments taken off before the handler runs
+        const { fields, maxItems, maxBytes, cursor, ...toolArgs } = input as Record<string, any>;
+        const output: OutputOptions = { fields, maxItems, maxBytes, cursor };
+        try {
+            this.context.logger.info(`Processing ${name}`);
+            const result = await tool.handler(tool.pageable ? toolArgs : input, this.context, call);
+            let summary: string | undefined;
+            try {
+                summary = tool.summarize?.(result, input);
+            } catch (error) {
+                this.context.logger.warn(`Could not summarize ${name} result:`, error);
+            }
+            summary ??= describeResult(name, result);
+            return tool.pageable
+                ? pagedToolResult(result, summary, output, requestFingerprint(name, toolArgs))
+                : toolResult(result, summary);
+        } catch (error) {
+            this.context.logger.error(`${name} failed:`, error);
+            // Policy violations surface as protocol errors naming the rule
+            if (error instanceof ValidationCloudError && !(error instanceof PolicyViolationError)) {
+                return {
+                    content: [{ type: 'text', text: redactString(describeError(error), this.secrets) }],
+                    isError: true
+                };
+            }
+            throw error;
+        }
+    }
+}
+
+export const NETWORK_ARGUMENT: JsonSchema = {
+    type: 'string',
+    description: 'Configured network to query (see list_networks); defaults to the default network'
+};
+
+export const DECODE_LOGS_ARGUMENT: JsonSchema = {
+    type: 'boolean',
+    description: 'Decode eth_getLogs results and receipt logs into named events (default true)'
+};
+
+export const EVENT_ABI_ARGUMENT: JsonSchema = {
+    description: 'Extra events to decode logs with: a JSON ABI or a list of event signatures',
+    oneOf: [{ type: 'array' }, { type: 'string' }]
+};
+
+export const ERROR_ABI_ARGUMENT: JsonSchema = {
+    description: 'Custom errors to decode reverts with: a JSON ABI or a list of error signatures such as "error InsufficientBalance(uint256 available, uint256 required)"',
+    oneOf: [{ type: 'array' }, { type: 'string' }]
+};
+
+export const STATE_OVERRIDES_ARGUMENT: JsonSchema = {
+    type: 'object',
+    description: 'State to replace for the call, keyed by address: { balance, nonce, code, state, stateDiff }. balance and nonce may be decimal or hex; state and stateDiff map storage slots to 32-byte values'
+};
+
+export const BLOCK_OVERRIDES_ARGUMENT: JsonSchema = {
+    type: 'object',
+    description: 'Block header fields to replace for the call',
+    properties: {
+        number: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'string' }] },
+        time: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'string' }] },
+        gasLimit: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'string' }] },
+        baseFee: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'string' }] },
+        blobBaseFee: { oneOf: [{ type: 'integer', minimum: 0 }, { type: 'string' }] },
+        coinbase: { type: 'string' },
+        prevRandao: { type: 'string' }
+    },
+    additionalProperties: false
+};
+
+export const RAW_ARGUMENT: JsonSchema = {
+    type: 'boolean',
+    description: 'Return the result exactly as the node sent it, with quantities left as hex (default false)'
+};
+
+/**
+ * Arguments that control the size of pageable tool results
+ */
+export const OUTPUT_ARGUMENTS: Record<string, JsonSchema> = {
+    fields: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only return these fields; dotted paths reach into objects and arrays, e.g. ["number", "transactions.hash"]'
+    },
+    maxItems: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Most items to return from each array in the result, such as transactions, logs or withdrawals'
+    },
+    maxBytes: {
+        type: 'integer',
+        minimum: 1000,
+        description: `Approximate size limit of the result in bytes (default ${DEFAULT_MAX_BYTES}); arrays are cut to fit`
+    },
+    cursor: {
+        type: 'string',
+        description: 'Cursor from a truncated result; repeat the same arguments with it to get the next page'
+    }
+};
+
+const BLOCK_ARGUMENT: JsonSchema = {
+    description: 'Block number, hex quantity or tag',
+    oneOf: [{ type: 'string' }, { type: 'number' }]
+};
+
+const UNIT_ARGUMENT: JsonSchema = {
+    oneOf: [{ type: 'string', enum: ['wei', 'gwei', 'ether'] }, { type: 'integer', minimum: 0 }]
+};
+
+/**
+ * Decoder for a tool call: the shared one, or one with the caller's extra events
+ * @param abi - Extra events passed to the tool, if any
+ * @param context - Tool context
+ * @returns Event decoder
+ */
+export function eventDecoderFor(abi: unknown, context: ToolContext): EventDecoder {
+    return abi === undefined ? context.eventDecoder : new EventDecoder(abi);
+}
+
+/**
+ * Revert decoder for a tool call: the shared one, or one with the caller's custom errors
+ * @param abi - Custom errors passed to the tool, if any
+ * @param context - Tool context
+ * @returns Revert decoder
+ */
+export function revertDecoderFor(abi: unknown, context: ToolContext): RevertDecoder {
+    return abi === undefined ? context.revertDecoder : new RevertDecoder(abi);
+}
+
+/** Methods whose failures carry revert data */
+export const REVERTING_METHODS = new Set(['eth_call', 'eth_estimateGas']);
+
+/**
+ * General-purpose tools: raw JSON-RPC, batches, contracts, logs, units and server state
+ */
+export const CORE_TOOLS: ToolDefinition[] = [
+    {
+        name: 'ethereum_request',
+        description: 'Make any Ethereum JSON-RPC request using Validation Cloud. Prefer the dedicated get_* tools for common methods',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                method: { type: 'string', description: 'JSON-RPC method, e.g. eth_getStorageAt' },
+                params: { type: 'array', description: 'Positional method parameters' },
+                network: NETWORK_ARGUMENT,
+                decodeLogs: DECODE_LOGS_ARGUMENT,
+                abi: {
+                    description: 'Extra events and custom errors to decode logs and reverts with: a JSON ABI or a list of event and error signatures',
+                    oneOf: [{ type: 'array' }, { type: 'string' }]
+                },
+                raw: RAW_ARGUMENT,
+                preflight: {
+                    type: 'boolean',
+                    description: 'For eth_sendRawTransaction: decode the transaction and check it against the chain first, sending nothing if a check fails (default true)'
+                }
+            },
+            required: ['method']
+        },
+        pageable: true,
+        async handler({ method, params, network, decodeLogs = true, abi, raw = false, preflight = true }, context) {
+            const api = context.networks.get(network);
+            const checked = method === 'eth_sendRawTransaction' && preflight
+                ? await checkBeforeBroadcast(api, params?.[0])
+                : undefined;
+
+            const { params: resolvedParams, resolved } = await resolveEnsParams(api, method, params || []);
+            let results;
+            try {
+                results = await api.request({ method, params: resolvedParams, raw });
+            } catch (error) {
+                throw REVERTING_METHODS.has(method) ? decodeRevertError(error, revertDecoderFor(abi, context)) : error;
+            }
+            if (decodeLogs) {
+                results.result = decodeResultLogs(method, results.result, eventDecoderFor(abi, context));
+            }
+            context.logger.info('API request successful:', results);
+            return withEnsResolutions(
+                { result: results.result, ...(checked && { preflight: checked.preflight }) },
+                resolved
+            );
+        },
+        summarize({ result }, { method }) {
+            return summarizeResponse(method, result) ?? describeResult(method, result);
+        }
+    },
+    {
+        name: 'ethereum_batch_request',
+        description: 'Send several Ethereum JSON-RPC requests as one batch; each result or error is reported per request. Raw transactions are pre-flighted and left unsent if a check fails',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                requests: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            method: { type: 'string' },
+                            params: { type: 'array' }
+                        },
+                        required: ['method']
+                    },
+                    minItems: 1,
+                    maxItems: 100
+                },
+                network: NETWORK_ARGUMENT,
+                raw: {
+                    type: 'boolean',
+                    description: 'Return results exactly as the node sent them, with quantities left as hex (default false)'
+                }
+            },
+            required: ['requests']
+        },
+        pageable: true,
+        async handler({ requests, network, raw = false }, context) {
+            const api = context.networks.get(network);
+            const resolutions = await Promise.allSettled(requests.map(async ({ method, params }: { method: any; params?: any[] }) => {
+                if (method === 'eth_sendRawTransaction') await checkBeforeBroadcast(api, params?.[0]);
+                return resolveEnsParams(api, method, params || []);
+            }));
+
+            // A request whose ENS name does not resolve or whose transaction fails pre-flight is reported in place and not sent
+            const sendable = resolutions.flatMap((resolution, index) =>
+                resolution.status === 'fulfilled' ? [{ index, ...resolution.value }] : []);
+            const responses = sendable.length > 0
+                ? await api.batchRequest(sendable.map(({ index, params }) => ({ method: requests[index].method, params, raw })))
+                : [];
+            const results: unknown[] = resolutions.map((resolution, index) => resolution.status === 'rejected'
+                ? {
+                    method: requests[index].method,
+                    error: {
+                        ...(resolution.reason instanceof ValidationCloudError && { code: resolution.reason.code }),
+                        message: resolution.reason instanceof Error ? resolution.reason.message : String(resolution.reason)
+                    }
+                }
+                : undefined);
+            sendable.forEach(({ index, resolved }, position) => {
+                results[index] = withEnsResolutions(responses[position], resolved);
+            });
+            context.logger.info('Batch request completed:', results.length, 'responses');
+            return results;
+        },
+        summarize(results: any[]) {
+            const failed = results.filter(item => item.error).length;
+            return [
+                `${results.length} responses${failed > 0 ? `, ${failed} failed` : ''}:`,
+                ...results.map(item => `- ${item.method}: ${item.error
+                    ? `error: ${item.error.message}`
+                    : summarizeResponse(item.method, item.result) ?? 'ok'}`)
+            ].join('\n');
+        }
+    },
+    {
+        name: 'cache_stats',
+        description: 'Show response cache statistics per network, or clear the cache',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                action: {
+                    type: 'string',
+                    enum: ['stats', 'clear'],
+                    description: 'stats (default) or clear'
+                },
+                network: {
+                    type: 'string',
+                    description: 'Only this network; defaults to all configured networks'
+                }
+            }
+        },
+        async handler({ action = 'stats', network }, context) {
+            const names = network ? [network] : context.networks.names();
+            const stats: Record<string, unknown> = {};
+            for (const name of names) {
+                const api = context.networks.get(name);
+                if (action === 'clear') {
+                    api.clearCache();
+                }
+                stats[name] = api.cacheStats() ?? 'cache disabled';
+            }
+            return stats;
+        }
+    },
+    {
+        name: 'contract_call',
+        description: 'Call a contract view function: ABI-encodes the arguments, runs eth_call and decodes the named return values (integers as decimal strings)',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                address: { type: 'string', description: 'Contract address or ENS name' },
+                function: {
+                    description: 'Human-readable signature such as "function balanceOf(address owner) view returns (uint256)", a JSON ABI function fragment, or a function name when abi is given',
+                    oneOf: [{ type: 'string' }, { type: 'object' }]
+                },
+                abi: {
+                    description: 'Optional contract ABI (JSON array or string) to look the function up in and decode custom errors with',
+                    oneOf: [{ type: 'array' }, { type: 'string' }]
+                },
+                args: {
+                    description: 'Arguments in order, or an object keyed by parameter name. Integers may be numbers, decimal or hex strings',
+                    oneOf: [{ type: 'array' }, { type: 'object' }]
+                },
+                block: {
+                    description: 'Block number or tag (latest, finalized, safe, pending); defaults to latest',
+                    oneOf: [{ type: 'string' }, { type: 'number' }]
+                },
+                from: { type: 'string', description: 'Optional caller address or ENS name' },
+                value: { type: 'string', description: 'Optional wei value as a hex quantity' },
+                stateOverrides: STATE_OVERRIDES_ARGUMENT,
+                blockOverrides: BLOCK_OVERRIDES_ARGUMENT,
+                network: NETWORK_ARGUMENT
+            },
+            required: ['address', 'function']
+        },
+        async handler({ network, ...input }, context) {
+            const api = context.networks.get(network);
+            const { args: options, resolved } = await resolveAddressArgs(api, input, ['address', 'from']);
+            let result;
+            try {
+                result = await callContract(api, options as ContractCallOptions);
+            } catch (error) {
+                throw decodeRevertError(error, revertDecoderFor(options.abi, context));
+            }
+            context.logger.info('Contract call successful:', result.function);
+            return withEnsResolutions(result, resolved);
+        },
+        summarize({ function: signature, address, result }) {
+            const values = Object.entries(result ?? {}).map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+            return `${signature} on ${address} returned ${values.length > 0 ? values.join(', ') : 'no decoded values'}`;
+        }
+    },
+    {
+        name: 'inspect_contract',
+        description: 'Report what lives at an address instead of raw bytecode: EOA, contract or EIP-7702 delegated account; EIP-1967, EIP-1822, beacon and minimal proxies with their implementation; ERC-165 interfaces; function selectors from the dispatcher; and the compiler version and IPFS hash from the metadata trailer',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                address: { type: 'string', description: 'Address or ENS name' },
+                block: { ...BLOCK_ARGUMENT, description: 'Block number, hex quantity or tag; defaults to latest' },
+                network: NETWORK_ARGUMENT
+            },
+            required: ['address'],
+            additionalProperties: false
+        },
+        async handler({ network, ...input }, context) {
+            const api = context.networks.get(network);
+            const { args: { address, block }, resolved } = await resolveAddressArgs(api, input, ['address']);
+            return withEnsResolutions(await inspectContract(api, address, block), resolved);
+        },
+        summarize({ address, kind, delegatedTo, code, proxy, implementation, interfaces }) {
+            if (kind === 'eoa') return `${address} is an externally owned account`;
+            if (kind === 'delegated') return `${address} is an EIP-7702 account delegating to ${delegatedTo}`;
+            const compiler = (implementation ?? code)?.metadata?.compiler;
+            return [
+                `${address} is a contract (${code.codeSize} bytes${compiler ? `, ${compiler}` : ''})`,
+                ...(proxy ? [`${proxy.standard} proxy to ${proxy.implementation}`] : []),
+                `${(implementation ?? code).selectors.length} function selectors`,
+                ...(interfaces?.supported.length ? [`supports ${interfaces.supported.join(', ')}`] : [])
+            ].join(', ');
+        }
+    },
+    {
+        name: 'scan_logs',
+        description: 'Scan a block range for logs in adaptive chunks that shrink when the provider reports too many results. Returns logs in order, capped at maxResults, with a cursor to fetch the next page',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                fromBlock: { ...BLOCK_ARGUMENT, description: 'First block as a number, hex quantity or tag; defaults to toBlock' },
+                toBlock: { ...BLOCK_ARGUMENT, description: 'Last block as a number, hex quantity or tag; defaults to latest' },
+                address: {
+                    description: 'Contract address or list of addresses; ENS names are resolved',
+                    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }]
+                },
+                topics: {
+                    type: 'array',
+                    description: 'Topic filter as in eth_getLogs'
+                },
+                maxResults: {
+                    type: 'integer',
+                    minimum: 1,
+                    description: 'Maximum number of logs to return (default 1000)'
+                },
+                cursor: {
+                    type: 'string',
+                    description: 'Cursor from a previous scan_logs result; the other filter arguments are ignored'
+                },
+                decodeLogs: {
+                    type: 'boolean',
+                    description: 'Decode known events into an event field on each log (default true)'
+                },
+                abi: {
+                    description: 'Optional ABI (JSON array or event signatures) for decoding custom events',
+                    oneOf: [{ type: 'array' }, { type: 'string' }]
+                },
+                network: NETWORK_ARGUMENT
+            }
+        },
+        async handler({ fromBlock, toBlock, address, topics, maxResults, cursor, decodeLogs = true, abi, network }, context) {
+            const api = context.networks.get(network);
+            const { args: { address: resolvedAddress }, resolved } = await resolveAddressArgs(api, { address }, ['address']);
+            const result = await scanLogs(api, {
+                filter: { fromBlock, toBlock, address: resolvedAddress, topics } as LogFilter,
+                cursor,
+                maxResults
+            });
+            if (decodeLogs) {
+                result.logs = eventDecoderFor(abi, context).decodeLogs(result.logs);
+            }
+            context.logger.info('Log scan returned', result.logs.length, 'logs in', result.requests, 'requests');
+            return withEnsResolutions(result, resolved);
+        },
+        summarize({ logs, fromBlock, scannedTo, complete }) {
+            return `${summarizeResponse('eth_getLogs', logs)}; scanned blocks ${fromBlock} to ${scannedTo}`
+                + `${complete ? '' : ', more remain (pass the cursor to continue)'}`;
+        }
+    },
+    {
+        name: 'block_at_timestamp',
+        description: 'Find the block at or before (or at or after) a time, such as midnight UTC on a date, by searching block timestamps in a handful of requests',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                timestamp: {
+                    description: 'Unix time in seconds, or an ISO 8601 date such as 2024-01-01 or 2024-01-01T12:00:00Z; times without an offset are UTC',
+                    oneOf: [{ type: 'integer', minimum: 0 }, { type: 'string' }]
+                },
+                direction: {
+                    type: 'string',
+                    enum: ['before', 'after'],
+                    description: 'Return the last block at or before the time (before, the default) or the first block at or after it (after)'
+                },
+                network: NETWORK_ARGUMENT
+            },
+            required: ['timestamp'],
+            additionalProperties: false
+        },
+        async handler({ timestamp, direction, network }, context) {
+            const result = await findBlockByTimestamp(context.networks.get(network), timestamp, direction);
+            context.logger.info('Found block', result.block.number, 'in', result.requests, 'requests');
+            return result;
+        },
+        summarize({ block, date, direction, offsetSeconds }) {
+            const offset = offsetSeconds === 0 ? 'exactly at' : `${Math.abs(offsetSeconds)}s ${offsetSeconds < 0 ? 'before' : 'after'}`;
+            return `Block ${block.number} at ${block.date} is the ${direction === 'before' ? 'last' : 'first'} block ${offset} ${date}`;
+        }
+    },
+    {
+        name: 'convert_units',
+        description: 'Convert an amount exactly between wei, gwei, ether or any token decimals, e.g. 1.5 ether to wei or a raw token balance with 6 decimals to whole tokens',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                value: {
+                    description: 'Decimal amount such as "1.5", or a hex integer amount such as "0xde0b6b3a7640000"',
+                    oneOf: [{ type: 'string' }, { type: 'number' }]
+                },
+                from: { ...UNIT_ARGUMENT, description: 'Unit of value: wei, gwei, ether or a number of decimals' },
+                to: { ...UNIT_ARGUMENT, description: 'Unit to convert to: wei, gwei, ether or a number of decimals' }
+            },
+            required: ['value', 'from', 'to']
+        },
+        async handler({ value, from, to }) {
+            const amount = typeof value === 'number' ? numberToDecimalString(value) : String(value);
+            const result = convertUnits(amount, from as Unit, to as Unit);
+            return { value: amount, from, to, result };
+        },
+        summarize({ value, from, to, result }) {
+            return `${value} ${from} = ${result} ${to}`;
+        }
+    },
+    {
+        name: 'decode_raw_transaction',
+        description: 'Decode a signed raw transaction (legacy, EIP-2930, EIP-1559, EIP-4844 or EIP-7702), recover its sender and optionally check its chain ID, nonce, balance coverage and a dry run against the live chain',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                raw: {
+                    type: 'string',
+                    pattern: '^0x([0-9a-fA-F]{2})+$',
+                    description: 'Signed transaction bytes as passed to eth_sendRawTransaction'
+                },
+                preflight: {
+                    type: 'boolean',
+                    description: 'Check the transaction against the network (default true)'
+                },
+                network: NETWORK_ARGUMENT
+            },
+            required: ['raw']
+        },
+        async handler({ raw, preflight = true, network }, context) {
+            const transaction = decodeRawTransaction(raw);
+            if (!preflight) {
+                return { transaction };
+            }
+            return { transaction, preflight: await preflightTransaction(context.networks.get(network), transaction) };
+        },
+        summarize({ transaction, preflight }: { transaction: DecodedTransaction; preflight?: PreflightReport }) {
+            const target = transaction.to ? `to ${transaction.to}` : 'creating a contract';
+            const summary = `${transaction.typeName} transaction ${transaction.hash} from ${transaction.from} ${target}, `
+                + `nonce ${transaction.nonce}, value ${transaction.value.ether} ether`;
+            if (!preflight) return summary;
+            const failed = preflight.checks.filter(check => check.status === 'fail').map(check => check.message);
+            return `${summary}; pre-flight ${failed.length === 0 ? 'passed' : `failed: ${failed.join('; ')}`}`;
+        }
+    },
+    {
+        name: 'send_and_confirm',
+        description: 'Broadcast a signed raw transaction after pre-flight checks and wait for it: polls the receipt until the requested confirmations, detects replaced and dropped transactions, and returns the final status with the gas cost',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                raw: {
+                    type: 'string',
+                    pattern: '^0x([0-9a-fA-F]{2})+$',
+                    description: 'Signed transaction bytes'
+                },
+                confirmations: {
+                    type: 'integer',
+                    minimum: 1,
+                    maximum: 100,
+                    description: 'Blocks that must include the transaction, counting its own block (default 1)'
+                },
+                timeoutSeconds: {
+                    type: 'integer',
+                    minimum: 1,
+                    maximum: 3600,
+                    description: 'Stop waiting after this long and report a timeout status (default 300)'
+                },
+                pollIntervalSeconds: {
+                    type: 'number',
+                    minimum: 0.5,
+                    maximum: 60,
+                    description: 'Delay between receipt polls (default 4)'
+                },
+                preflight: {
+                    type: 'boolean',
+                    description: 'Decode and check the transaction first, sending nothing if a check fails (default true)'
+                },
+                network: NETWORK_ARGUMENT
+            },
+            required: ['raw']
+        },
+        async handler({ raw, confirmations, timeoutSeconds, pollIntervalSeconds, preflight, network }, context, call) {
+            const result = await sendAndConfirm(context.networks.get(network), raw, {
+                confirmations,
+                preflight,
+                ...(timeoutSeconds !== undefined && { timeoutMs: timeoutSeconds * 1000 }),
+                ...(pollIntervalSeconds !== undefined && { pollIntervalMs: pollIntervalSeconds * 1000 }),
+                onProgress: call.progress,
+                signal: call.signal
+            });
+            context.logger.info(`Transaction ${result.hash}: ${result.status}`);
+            return result;
+        },
+        summarize({ message }) {
+            return message;
+        }
+    },
+    {
+        name: 'list_networks',
+        description: 'List the configured networks with their endpoints and chain IDs verified via eth_chainId',
+        inputSchema: {
+            type: 'object',
+            properties: {}
+        },
+        async handler(_args, context) {
+            return context.networks.list();
+        }
+    }
+];
@@ -0,0 +1,386 @@
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { keccak256, toChecksumAddress } from './abi.js';
+import { ValidationCloudAPI } from './api.js';
+import { RevertDecoder, revertDataOf } from './revert.js';
+import { RlpItem, decodeRlp, encodeRlp } from './rlp.js';
+import { EthereumErrorCode, ValidationCloudError } from './types.js';
+import { formatUnits } from './utils.js';
+
+/** Blob gas consumed by each blob of an EIP-4844 transaction */
+const GAS_PER_BLOB = 131072n;
+
+const TYPE_NAMES: Record<number, string> = {
+    0: 'legacy',
+    1: 'eip2930',
+    2: 'eip1559',
+    3: 'eip4844',
+    4: 'eip7702'
+};
+
+/** Fields before the signature, per typed transaction envelope */
+const TYPED_FIELDS: Record<number, string[]> = {
+    1: ['chainId', 'nonce', 'gasPrice', 'gasLimit', 'to', 'value', 'data', 'accessList'],
+    2: ['chainId', 'nonce', 'maxPriorityFeePerGas', 'maxFeePerGas', 'gasLimit', 'to', 'value', 'data', 'accessList'],
+    3: [
+        'chainId', 'nonce', 'maxPriorityFeePerGas', 'maxFeePerGas', 'gasLimit', 'to', 'value', 'data', 'accessList',
+        'maxFeePerBlobGas', 'blobVersionedHashes'
+    ],
+    4: [
+        'chainId', 'nonce', 'maxPriorityFeePerGas', 'maxFeePerGas', 'gasLimit', 'to', 'value', 'data', 'accessList',
+        'authorizationList'
+    ]
+};
+
+/**
+ * A signed transaction decoded from its raw envelope
+ */
+export interface DecodedTransaction {
+    /** EIP-2718 type: 0 legacy, 1 EIP-2930, 2 EIP-1559, 3 EIP-4844, 4 EIP-7702 */
+    type: number;
+    typeName: string;
+    /** Transaction hash */
+    hash: string;
+    /** Sender recovered from the signature */
+    from: string;
+    /** Recipient, or null for contract creation */
+    to: string | null;
+    nonce: number;
+    value: { wei: string; ether: string };
+    /** Gas limit, as a decimal string */
+    gasLimit: string;
+    /** Fees in wei, as decimal strings */
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    maxFeePerBlobGas?: string;
+    /** Chain ID, absent for pre-EIP-155 legacy transactions */
+    chainId?: number;
+    data: string;
+    accessList?: { address: string; storageKeys: string[] }[];
+    blobVersionedHashes?: string[];
+    authorizationList?: { chainId: number; address: string; nonce: number; yParity: number; r: string; s: string }[];
+    signature: { v?: number; yParity: number; r: string; s: string };
+    /** Most the sender can be charged in wei: gas at the maximum fee, blob gas and value */
+    maxCost: string;
+}
+
+function txError(reason: string): ValidationCloudError {
+    return new ValidationCloudError(`Invalid raw transaction: ${reason}`, EthereumErrorCode.INVALID_PARAMS);
+}
+
+function bytesOf(item: RlpItem, field: string): Uint8Array {
+    if (Array.isArray(item)) throw txError(`${field} must be a byte string`);
+    return item;
+}
+
+function listOf(item: RlpItem, field: string): RlpItem[] {
+    if (!Array.isArray(item)) throw txError(`${field} must be a list`);
+    return item;
+}
+
+function toBigInt(item: RlpItem, field: string): bigint {
+    const bytes = bytesOf(item, field);
+    return bytes.length === 0 ? 0n : BigInt(`0x${bytesToHex(bytes)}`);
+}
+
+function toSafeNumber(item: RlpItem, field: string): number {
+    const value = toBigInt(item, field);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw txError(`${field} is too large`);
+    return Number(value);
+}
+
+function toHex(item: RlpItem, field: string): string {
+    return `0x${bytesToHex(bytesOf(item, field))}`;
+}
+
+function toAddress(item: RlpItem, field: string): string {
+    const bytes = bytesOf(item, field);
+    if (bytes.length !== 20) throw txError(`${field} must be 20 bytes`);
+    return toChecksumAddress(`0x${bytesToHex(bytes)}`);
+}
+
+function decodeAccessList(item: RlpItem): { address: string; storageKeys: string[] }[] {
+    return listOf(item, 'accessList').map(entry => {
+        const [address, keys] = listOf(entry, 'accessList entry');
+        return {
+            address: toAddress(address, 'accessList address'),
+            storageKeys: listOf(keys, 'storageKeys').map(key => toHex(key, 'storage key'))
+        };
+    });
+}
+
+function recoverSender(payload: Uint8Array, yParity: number, r: bigint, s: bigint): string {
+    if (yParity !== 0 && yParity !== 1) throw txError(`invalid signature parity ${yParity}`);
+    try {
+        const signature = new secp256k1.Signature(r, s).addRecoveryBit(yParity);
+        const publicKey = signature.recoverPublicKey(hexToBytes(keccak256(payload).slice(2))).toRawBytes(false);
+        return toChecksumAddress(`0x${keccak256(publicKey.slice(1)).slice(-40)}`);
+    } catch (error) {
+        throw txError('signature does not recover to a public key');
+    }
+}
+
+function withType(type: number, body: Uint8Array): Uint8Array {
+    const bytes = new Uint8Array(body.length + 1);
+    bytes[0] = type;
+    bytes.set(body, 1);
+    return bytes;
+}
+
+function encodeChainId(chainId: number): Uint8Array {
+    if (chainId === 0) return new Uint8Array();
+    const hex = chainId.toString(16);
+    return hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+}
+
+/**
+ * Decode a signed raw transaction of any supported type and recover its sender
+ * @param raw - Hex-encoded transaction as passed to `eth_sendRawTransaction`
+ * @returns Decoded transaction
+ */
+export function decodeRawTransaction(raw: string): DecodedTransaction {
+    if (typeof raw !== 'string' || !/^0x([0-9a-fA-F]{2})+$/.test(raw)) {
+        throw txError('expected 0x-prefixed hex bytes');
+    }
+    const bytes = hexToBytes(raw.slice(2));
+
+    let type: number;
+    let fields: Record<string, RlpItem> = {};
+    let signingPayload: Uint8Array;
+    let hashInput = bytes;
+    let yParity: number;
+    let v: number | undefined;
+    let r: bigint;
+    let s: bigint;
+    let chainId: number | undefined;
+
+    if (bytes[0] >= 0xc0) {
+        type = 0;
+        const items = listOf(decodeRlp(bytes), 'transaction');
+        if (items.length !== 9) throw txError(`legacy transactions have 9 fields, got ${items.length}`);
+        const names = ['nonce', 'gasPrice', 'gasLimit', 'to', 'value', 'data'];
+        names.forEach((name, index) => { fields[name] = items[index]; });
+
+        v = toSafeNumber(items[6], 'v');
+        r = toBigInt(items[7], 'r');
+        s = toBigInt(items[8], 's');
+        if (v === 27 || v === 28) {
+            yParity = v - 27;
+            signingPayload = encodeRlp(items.slice(0, 6));
+        } else if (v >= 35) {
+            chainId = Math.floor((v - 35) / 2);
+            yParity = (v - 35) % 2;
+            signingPayload = encodeRlp([...items.slice(0, 6), encodeChainId(chainId), new Uint8Array(), new Uint8Array()]);
+        } else {
+            throw txError(`invalid legacy v value ${v}`);
+        }
+    } else {
+        type = bytes[0];
+        const names = TYPED_FIELDS[type];
+        if (!names) throw txError(`unsupported transaction type ${type}`);
+
+        let items = listOf(decodeRlp(bytes.slice(1)), 'transaction');
+        // Blob transactions in network form wrap the body with blobs, commitments and proofs
+        if (type === 3 && Array.isArray(items[0])) {
+            items = items[0];
+            hashInput = withType(type, encodeRlp(items));
+        }
+        if (items.length !== names.length + 3) {
+            throw txError(`type ${type} transactions have ${names.length + 3} fields, got ${items.length}`);
+        }
+        names.forEach((name, index) => { fields[name] = items[index]; });
+
+        chainId = toSafeNumber(fields.chainId, 'chainId');
+        yParity = toSafeNumber(items[names.length], 'yParity');
+        r = toBigInt(items[names.length + 1], 'r');
+        s = toBigInt(items[names.length + 2], 's');
+        signingPayload = withType(type, encodeRlp(items.slice(0, names.length)));
+    }
+
+    const toBytes = bytesOf(fields.to, 'to');
+    const gasLimit = toBigInt(fields.gasLimit, 'gasLimit');
+    const value = toBigInt(fields.value, 'value');
+    const feeCap = toBigInt(fields.gasPrice ?? fields.maxFeePerGas, 'fee');
+    let maxCost = gasLimit * feeCap + value;
+
+    const transaction: DecodedTransaction = {
+        type,
+        typeName: TYPE_NAMES[type],
+        hash: keccak256(hashInput),
+        from: recoverSender(signingPayload, yParity, r, s),
+        to: toBytes.length === 0 ? null : toAddress(fields.to, 'to'),
+        nonce: toSafeNumber(fields.nonce, 'nonce'),
+        value: { wei: value.toString(), ether: formatUnits(value, 'ether') },
+        gasLimit: gasLimit.toString(),
+        ...(chainId !== undefined && { chainId }),
+        data: toHex(fields.data, 'data'),
+        signature: {
+            ...(v !== undefined && { v }),
+            yParity,
+            r: `0x${r.toString(16).padStart(64, '0')}`,
+            s: `0x${s.toString(16).padStart(64, '0')}`
+        },
+        maxCost: ''
+    };
+
+    if (fields.gasPrice) {
+        transaction.gasPrice = feeCap.toString();
+    } else {
+        transaction.maxFeePerGas = feeCap.toString();
+        transaction.maxPriorityFeePerGas = toBigInt(fields.maxPriorityFeePerGas, 'maxPriorityFeePerGas').toString();
+    }
+    if (fields.accessList) {
+        transaction.accessList = decodeAccessList(fields.accessList);
+    }
+    if (type === 3) {
+        if (transaction.to === null) throw txError('blob transactions cannot create contracts');
+        const maxFeePerBlobGas = toBigInt(fields.maxFeePerBlobGas, 'maxFeePerBlobGas');
+        transaction.maxFeePerBlobGas = maxFeePerBlobGas.toString();
+        transaction.blobVersionedHashes = listOf(fields.blobVersionedHashes, 'blobVersionedHashes')
+            .map(hash => toHex(hash, 'blob versioned hash'));
+        maxCost += BigInt(transaction.blobVersionedHashes.length) * GAS_PER_BLOB * maxFeePerBlobGas;
+    }
+    if (type === 4) {
+        transaction.authorizationList = listOf(fields.authorizationList, 'authorizationList').map(entry => {
+            const [authChainId, address, nonce, authParity, authR, authS] = listOf(entry, 'authorization');
+            return {
+                chainId: toSafeNumber(authChainId, 'authorization chainId'),
+                address: toAddress(address, 'authorization address'),
+                nonce: toSafeNumber(nonce, 'authorization nonce'),
+                yParity: toSafeNumber(authParity, 'authorization yParity'),
+                r: toHex(authR, 'authorization r'),
+                s: toHex(authS, 'authorization s')
+            };
+        });
+    }
+
+    transaction.maxCost = maxCost.toString();
+    return transaction;
+}
+
+/**
+ * Outcome of one pre-flight check: `fail` means the transaction would not be
+ * mined as intended, `warn` that it needs attention
+ */
+export interface PreflightCheck {
+    name: 'chainId' | 'nonce' | 'balance' | 'simulation';
+    status: 'pass' | 'warn' | 'fail';
+    message: string;
+}
+
+/**
+ * Results of checking a transaction against the live chain
+ */
+export interface PreflightReport {
+    /** Whether no check failed */
+    ok: boolean;
+    checks: PreflightCheck[];
+}
+
+async function checkChainId(api: ValidationCloudAPI, tx: DecodedTransaction): Promise<PreflightCheck> {
+    const { result: chainId } = await api.request({ method: 'eth_chainId' });
+    if (tx.chainId === undefined) {
+        return { name: 'chainId', status: 'warn', message: `No chain ID: the transaction can be replayed on any chain (node is on chain ${chainId})` };
+    }
+    return tx.chainId === chainId
+        ? { name: 'chainId', status: 'pass', message: `Chain ID ${chainId} matches the network` }
+        : { name: 'chainId', status: 'fail', message: `Transaction is signed for chain ${tx.chainId} but the network is chain ${chainId}` };
+}
+
+async function checkNonce(api: ValidationCloudAPI, tx: DecodedTransaction): Promise<PreflightCheck> {
+    const [{ result: mined }, { result: pending }] = await Promise.all([
+        api.request({ method: 'eth_getTransactionCount', params: [tx.from, 'latest'] }),
+        api.request({ method: 'eth_getTransactionCount', params: [tx.from, 'pending'] })
+    ]);
+    if (tx.nonce < mined) {
+        return { name: 'nonce', status: 'fail', message: `Nonce ${tx.nonce} is already used; the next nonce for ${tx.from} is ${pending}` };
+    }
+    if (tx.nonce < pending) {
+        return { name: 'nonce', status: 'warn', message: `Nonce ${tx.nonce} replaces a pending transaction; it needs a higher fee to be accepted` };
+    }
+    if (tx.nonce > pending) {
+        return { name: 'nonce', status: 'warn', message: `Nonce ${tx.nonce} leaves a gap; it will wait until nonces ${pending} to ${tx.nonce - 1} are used` };
+    }
+    return { name: 'nonce', status: 'pass', message: `Nonce ${tx.nonce} is the next nonce` };
+}
+
+async function checkBalance(api: ValidationCloudAPI, tx: DecodedTransaction): Promise<PreflightCheck> {
+    const { result } = await api.request({ method: 'eth_getBalance', params: [tx.from, 'latest'] });
+    const balance = BigInt(result.wei);
+    const maxCost = BigInt(tx.maxCost);
+    return balance >= maxCost
+        ? { name: 'balance', status: 'pass', message: `Balance ${result.ether} ETH covers the maximum cost of ${formatUnits(maxCost, 'ether')} ETH` }
+        : {
+            name: 'balance',
+            status: 'fail',
+            message: `Balance ${result.ether} ETH does not cover the maximum cost of ${formatUnits(maxCost, 'ether')} ETH (gas at the fee cap plus value)`
+        };
+}
+
+async function checkSimulation(api: ValidationCloudAPI, tx: DecodedTransaction): Promise<PreflightCheck> {
+    try {
+        await api.request({
+            method: 'eth_call',
+            params: [{
+                from: tx.from,
+                ...(tx.to && { to: tx.to }),
+                data: tx.data,
+                value: `0x${BigInt(tx.value.wei).toString(16)}`,
+                gas: `0x${BigInt(tx.gasLimit).toString(16)}`
+            }, 'latest']
+        });
+        return { name: 'simulation', status: 'pass', message: 'Dry run with eth_call succeeded' };
+    } catch (error) {
+        if (!(error instanceof ValidationCloudError)) throw error;
+        const data = revertDataOf(error);
+        const revert = data === undefined ? '' : ` (${new RevertDecoder().decode(data).message})`;
+        return { name: 'simulation', status: 'fail', message: `Dry run with eth_call failed: ${error.message}${revert}` };
+    }
+}
+
+/**
+ * Check a decoded transaction against the live chain: chain ID, nonce,
+ * balance coverage and a dry run with `eth_call`
+ * @param api - API client for the target network
+ * @param tx - Decoded transaction
+ * @returns One result per check
+ */
+export async function preflightTransaction(api: ValidationCloudAPI, tx: DecodedTransaction): Promise<PreflightReport> {
+    const checks = await Promise.all([
+        checkChainId(api, tx),
+        checkNonce(api, tx),
+        checkBalance(api, tx),
+        checkSimulation(api, tx)
+    ]);
+    return { ok: checks.every(check => check.status !== 'fail'), checks };
+}
+
+/**
+ * Decode and pre-flight a raw transaction before it is broadcast
+ * @param api - API client for the target network
+ * @param raw - Hex-encoded signed transaction
+ * @returns The decoded transaction and its pre-flight report
+ * @throws ValidationCloudError listing the failed checks, so nothing is sent
+ */
+export async function checkBeforeBroadcast(
+    api: ValidationCloudAPI,
+    raw: string
+): Promise<{ transaction: DecodedTransaction; preflight: PreflightReport }> {
+    // A blocked broadcast should fail on the policy, not on the checks
+    api.policy?.check('eth_sendRawTransaction', [raw]);
+
+    const transaction = decodeRawTransaction(raw);
+    const preflight = await preflightTransaction(api, transaction);
+    if (!preflight.ok) {
+        const failures = preflight.checks
+            .filter(check => check.status === 'fail')
+            .map(check => `- ${check.name}: ${check.message}`);
+        throw new ValidationCloudError(
+            `Pre-flight checks failed, transaction ${transaction.hash} from ${transaction.from} was not sent:\n${failures.join('\n')}`,
+            EthereumErrorCode.INVALID_PARAMS,
+            { transaction, preflight }
+        );
+    }
+    return { transaction, preflight };
+}
@@ -0,0 +1,261 @@
+import { ValidationCloudAPI } from './api.js';
+import { systemClock } from './retry.js';
+import { DecodedTransaction, PreflightReport, checkBeforeBroadcast, decodeRawTransaction } from './transaction.js';
+import { Clock, ValidationCloudError } from './types.js';
+import { formatUnits } from './utils.js';
+
+/**
+ * How a tracked transaction ended
+ * - `confirmed`: mined with status 1 and enough confirmations
+ * - `reverted`: mined with status 0 and enough confirmations
+ * - `replaced`: another transaction with the same sender and nonce was mined
+ * - `dropped`: the node no longer knows the transaction
+ * - `timeout`: still pending when the wait ended
+ */
+export type TransactionStatus = 'confirmed' | 'reverted' | 'replaced' | 'dropped' | 'timeout';
+
+export interface SendAndConfirmOptions {
+    /** Blocks that must include the transaction, counting its own block (default 1) */
+    confirmations?: number;
+    /** Delay between polls in milliseconds (default 4000) */
+    pollIntervalMs?: number;
+    /** Give up and report `timeout` after this many milliseconds (default 300000) */
+    timeoutMs?: number;
+    /** Consecutive polls the node may not know the transaction before it counts as dropped (default 5) */
+    maxMissingPolls?: number;
+    /** Pre-flight the transaction before sending it (default true) */
+    preflight?: boolean;
+    /** Called with the confirmation count whenever it reaches a new high, so reported progress only increases */
+    onProgress?: (confirmations: number, target: number) => void;
+    /** Stops waiting when aborted, also during a poll delay; the result is then `timeout` */
+    signal?: AbortSignal;
+    /** Time source, injectable for tests */
+    clock?: Clock;
+}
+
+export interface SendAndConfirmResult {
+    status: TransactionStatus;
+    hash: string;
+    from: string;
+    nonce: number;
+    /** What happened, in one sentence */
+    message: string;
+    confirmations: number;
+    /** Hash of the transaction that used the nonce, for `replaced` when it could be found */
+    replacedBy?: string;
+    blockNumber?: number;
+    blockHash?: string;
+    gasUsed?: string;
+    effectiveGasPrice?: string;
+    /** `effectiveGasPrice * gasUsed` */
+    gasCost?: { wei: string; ether: string };
+    receipt?: any;
+    preflight?: PreflightReport;
+}
+
+/** Node error messages for a transaction already in its pool */
+const ALREADY_KNOWN = /already known|known transaction|already imported/i;
+
+/**
+ * Wait for the poll interval, or less if the signal aborts first
+ */
+function pause(clock: Clock, ms: number, signal?: AbortSignal): Promise<void> {
+    if (!signal) return clock.sleep(ms);
+    return new Promise(resolve => {
+        const done = () => {
+            signal.removeEventListener('abort', done);
+            resolve();
+        };
+        signal.addEventListener('abort', done, { once: true });
+        if (signal.aborted) done();
+        clock.sleep(ms).then(done, done);
+    });
+}
+
+/**
+ * Find the transaction that used the nonce of a replaced one: bisect the
+ * sender's nonce over the blocks since the broadcast, then search the block
+ * where it moved past
+ * @returns Hash of the replacing transaction, or undefined if it could not be found
+ */
+async function findReplacement(
+    api: ValidationCloudAPI,
+    transaction: DecodedTransaction,
+    fromBlock: number,
+    toBlock: number
+): Promise<string | undefined> {
+    try {
+        let low = fromBlock;
+        let high = toBlock;
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            const { result: count } = await api.request({
+                method: 'eth_getTransactionCount',
+                params: [transaction.from, `0x${middle.toString(16)}`]
+            });
+            if (count > transaction.nonce) high = middle;
+            else low = middle + 1;
+        }
+        const { result: block } = await api.request({
+            method: 'eth_getBlockByNumber',
+            params: [`0x${low.toString(16)}`, true],
+            raw: true
+        });
+        const sender = transaction.from.toLowerCase();
+        const replacement = (block?.transactions ?? []).find((tx: any) =>
+            typeof tx === 'object' && tx.from?.toLowerCase() === sender && Number(tx.nonce) === transaction.nonce);
+        return replacement?.hash;
+    } catch (error) {
+        // Older state may be pruned on the node; the replacement is then reported without its hash
+        if (error instanceof ValidationCloudError) return undefined;
+        throw error;
+    }
+}
+
+/**
+ * Broadcast a raw transaction and wait until it has the requested number of
+ * confirmations, is replaced or dropped, or the wait times out
+ * @param api - API client for the target network
+ * @param raw - Hex-encoded signed transaction
+ * @param options - Wait settings
+ * @returns Final status with the receipt and gas cost once mined
+ */
+export async function sendAndConfirm(
+    api: ValidationCloudAPI,
+    raw: string,
+    options: SendAndConfirmOptions = {}
+): Promise<SendAndConfirmResult> {
+    const {
+        confirmations: target = 1,
+        pollIntervalMs = 4000,
+        timeoutMs = 300000,
+        maxMissingPolls = 5,
+        preflight = true,
+        onProgress,
+        signal,
+        clock = systemClock
+    } = options;
+
+    let transaction: DecodedTransaction;
+    let report: PreflightReport | undefined;
+    if (preflight) {
+        ({ transaction, preflight: report } = await checkBeforeBroadcast(api, raw));
+    } else {
+        transaction = decodeRawTransaction(raw);
+    }
+
+    let hash = transaction.hash;
+    try {
+        ({ result: hash } = await api.request({ method: 'eth_sendRawTransaction', params: [raw] }));
+    } catch (error) {
+        // A resend of a pooled transaction is tracked like a fresh send
+        if (!(error instanceof ValidationCloudError) || !ALREADY_KNOWN.test(error.message)) throw error;
+    }
+
+    const base = { hash, from: transaction.from, nonce: transaction.nonce, ...(report && { preflight: report }) };
+    const deadline = clock.now() + timeoutMs;
+    const { result: sentAt } = await api.request({ method: 'eth_blockNumber', fresh: true });
+    let missingPolls = 0;
+    let confirmations = 0;
+    // MCP progress must increase, so pending polls and reorgs report nothing new
+    let reported = -1;
+    const progress = (value: number) => {
+        if (value <= reported) return;
+        reported = value;
+        onProgress?.(value, target);
+    };
+
+    // Every read asks the node: a cached empty receipt or an old head would
+    // hide the transaction being mined
+    while (true) {
+        const { result: receipt } = await api.request({ method: 'eth_getTransactionReceipt', params: [hash], fresh: true });
+        if (receipt) {
+            missingPolls = 0;
+            const { result: head } = await api.request({ method: 'eth_blockNumber', fresh: true });
+            confirmations = Math.max(0, head - receipt.blockNumber + 1);
+
+            let canonical = true;
+            if (confirmations >= target) {
+                // A reorg may have replaced the receipt's block; keep waiting for the canonical receipt
+                const { result: block } = await api.request({
+                    method: 'eth_getBlockByNumber',
+                    params: [`0x${receipt.blockNumber.toString(16)}`, false],
+                    fresh: true
+                });
+                canonical = block?.hash === receipt.blockHash;
+                if (!canonical) confirmations = 0;
+            }
+            progress(Math.min(confirmations, target));
+
+            if (canonical && confirmations >= target) {
+                const gasUsed = BigInt(receipt.gasUsed);
+                const effectiveGasPrice = BigInt(receipt.effectiveGasPrice ?? 0);
+                const gasCost = gasUsed * effectiveGasPrice;
+                const status: TransactionStatus = receipt.status === 0 ? 'reverted' : 'confirmed';
+                return {
+                    ...base,
+                    status,
+                    message: `Transaction ${status} in block ${receipt.blockNumber} with ${confirmations} confirmation${confirmations === 1 ? '' : 's'}`,
+                    confirmations,
+                    blockNumber: receipt.blockNumber,
+                    blockHash: receipt.blockHash,
+                    gasUsed: gasUsed.toString(),
+                    effectiveGasPrice: effectiveGasPrice.toString(),
+                    gasCost: { wei: gasCost.toString(), ether: formatUnits(gasCost, 'ether') },
+                    receipt
+                };
+            }
+        } else {
+            confirmations = 0;
+            progress(0);
+
+            const { result: mined } = await api.request({
+                method: 'eth_getTransactionCount',
+                params: [transaction.from, 'latest'],
+                fresh: true
+            });
+            if (mined > transaction.nonce) {
+                // The nonce is used but our receipt is missing, so another transaction took it
+                const { result: again } = await api.request({ method: 'eth_getTransactionReceipt', params: [hash], fresh: true });
+                if (!again) {
+                    const { result: head } = await api.request({ method: 'eth_blockNumber', fresh: true });
+                    const replacedBy = await findReplacement(api, transaction, sentAt, head);
+                    return {
+                        ...base,
+                        status: 'replaced',
+                        message: replacedBy
+                            ? `Nonce ${transaction.nonce} of ${transaction.from} was used by transaction ${replacedBy}`
+                            : `Nonce ${transaction.nonce} of ${transaction.from} was used by a different transaction whose hash could not be found`,
+                        confirmations: 0,
+                        ...(replacedBy && { replacedBy })
+                    };
+                }
+                continue;
+            }
+
+            const { result: pending } = await api.request({ method: 'eth_getTransactionByHash', params: [hash], fresh: true });
+            missingPolls = pending ? 0 : missingPolls + 1;
+            if (missingPolls >= maxMissingPolls) {
+                return {
+                    ...base,
+                    status: 'dropped',
+                    message: `The node has not known the transaction for ${missingPolls} polls; it was dropped from the pool`,
+                    confirmations: 0
+                };
+            }
+        }
+
+        if (signal?.aborted || clock.now() + pollIntervalMs > deadline) {
+            return {
+                ...base,
+                status: 'timeout',
+                message: confirmations > 0
+                    ? `Stopped waiting with ${confirmations} of ${target} confirmations`
+                    : 'Stopped waiting while the transaction was still pending',
+                confirmations,
+                ...(receipt && { blockNumber: receipt.blockNumber, blockHash: receipt.blockHash, receipt })
+            };
+        }
+        await pause(clock, pollIntervalMs, signal);
+    }
+}
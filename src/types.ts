@@ -8,20 +8,151 @@ export interface Logger {
     error(message: string, ...args: any[]): void;
 }
 
+/**
+ * Time source used for retry delays and rate limiting, injectable for tests
+ */
+export interface Clock {
+    /** Current time in milliseconds */
+    now(): number;
+    /** Resolve after the given number of milliseconds */
+    sleep(ms: number): Promise<void>;
+}
+
+/**
+ * Retry policy for transient transport failures
+ */
+export interface RetryPolicy {
+    /** Maximum number of retries after the first attempt */
+    maxRetries: number;
+    /** Delay before the first retry in milliseconds, doubled on every retry */
+    baseDelayMs: number;
+    /** Upper bound for any single delay, including `Retry-After` */
+    maxDelayMs: number;
+    /** Fraction of each delay that is randomised, between 0 and 1 */
+    jitter: number;
+    /** HTTP status codes that are retried */
+    retryableStatuses: number[];
+    /** Network error codes that are retried */
+    retryableErrorCodes: string[];
+}
+
+/**
+ * Client-side token bucket settings
+ */
+export interface RateLimitConfig {
+    /** Sustained requests per second */
+    requestsPerSecond: number;
+    /** Maximum burst size, defaults to `requestsPerSecond` */
+    burst?: number;
+}
+
+/**
+ * Something that hands out request permits, such as a shared token bucket
+ */
+export interface RateLimiter {
+    /** Resolve once the given number of requests may be sent */
+    acquire(tokens?: number): Promise<void>;
+}
+
+/**
+ * Response cache limits and lifetimes
+ */
+export interface CacheOptions {
+    /** Maximum number of cached responses */
+    maxEntries?: number;
+    /** Maximum total size of cached responses, measured as JSON length */
+    maxBytes?: number;
+    /** Responses larger than this are never cached */
+    maxEntryBytes?: number;
+    /** Lifetime of responses that can still change, such as `latest` queries */
+    volatileTtlMs?: number;
+    /** How long the finalized block number is reused before it is fetched again */
+    finalizedHeadTtlMs?: number;
+}
+
+/**
+ * Response cache counters as reported by the `cache_stats` tool
+ */
+export interface CacheStats {
+    /** Number of cached responses */
+    entries: number;
+    /** Number of cached responses that never expire */
+    immutableEntries: number;
+    /** Total size of cached responses, measured as JSON length */
+    bytes: number;
+    /** Requests served from the cache */
+    hits: number;
+    /** Requests sent to the network */
+    misses: number;
+    /** Requests that joined an identical in-flight request */
+    coalesced: number;
+    /** Entries dropped to stay within the size limits */
+    evictions: number;
+    /** Requests currently in flight */
+    inFlight: number;
+    /** Last known finalized block number */
+    finalizedBlock?: number;
+    /** Configured entry limit */
+    maxEntries: number;
+    /** Configured size limit */
+    maxBytes: number;
+}
+
 /**
  * Custom error class for Validation Cloud API errors
  */
 export class ValidationCloudError extends Error {
-    /** HTTP status code if applicable */
+    /** HTTP status code, or JSON-RPC error code when the node returned an error object */
     code?: number;
     /** Additional error details */
     details?: Record<string, any>;
+    /** JSON-RPC error `data` payload, e.g. revert data */
+    data?: any;
 
-    constructor(message: string, code?: number, details?: Record<string, any>) {
+    constructor(message: string, code?: number, details?: Record<string, any>, data?: any) {
         super(message);
         this.name = 'ValidationCloudError';
         this.code = code;
         this.details = details;
+        this.data = data;
+    }
+}
+
+/**
+ * Rules limiting which requests the client sends
+ */
+export interface PolicyConfig {
+    /** Block every method that signs, sends or changes node state */
+    readOnly?: boolean;
+    /** Only these methods may be called; `*` matches any suffix, e.g. `eth_*` */
+    allowMethods?: string[];
+    /** These methods may never be called; wins over `allowMethods` */
+    denyMethods?: string[];
+    /** Allow broadcasting transactions; blocked unless set */
+    allowBroadcast?: boolean;
+    /** Largest block span of an `eth_getLogs` filter */
+    maxLogsBlockRange?: number;
+}
+
+/**
+ * The rule that blocked a request
+ */
+export type PolicyName = 'denyMethods' | 'allowMethods' | 'readOnly' | 'allowBroadcast' | 'maxLogsBlockRange';
+
+/**
+ * Raised before sending a request that the configured policy forbids
+ */
+export class PolicyViolationError extends ValidationCloudError {
+    /** The rule that blocked the request */
+    policy: PolicyName;
+    /** The blocked method */
+    method: string;
+
+    constructor(policy: PolicyName, method: string, message: string) {
+        super(`Blocked by policy "${policy}": ${message}`, EthereumErrorCode.INVALID_REQUEST);
+        this.name = 'PolicyViolationError';
+        this.policy = policy;
+        this.method = method;
     }
 }
 
@@ -33,10 +164,96 @@ export interface ValidationCloudConfig {
     apiKey: string;
     /** Optional base URL override */
     baseURL?: string;
+    /**
+     * Where to send the API key: appended to the URL path (default) or in a
+     * request header, which keeps it out of URLs entirely
+     */
+    apiKeyLocation?: 'path' | 'header';
+    /** Header name used when `apiKeyLocation` is `header` */
+    apiKeyHeader?: string;
     /** Request timeout in milliseconds */
     timeout?: number;
     /** Optional custom logger implementation */
     logger?: Logger;
+    /** Retry policy overrides, or `false` to disable retries */
+    retry?: Partial<RetryPolicy> | false;
+    /** Token bucket settings, or a limiter shared between clients */
+    rateLimit?: RateLimitConfig | RateLimiter;
+    /** Time source for retries, rate limiting and cache expiry */
+    clock?: Clock;
+    /** Enable the response cache with these options */
+    cache?: CacheOptions;
+    /** Restrict the methods and arguments this client sends */
+    policy?: PolicyConfig;
+    /** WebSocket endpoint for `eth_subscribe` without the API key; subscriptions poll over HTTP when unset */
+    webSocketURL?: string;
+    /** How often subscriptions poll over HTTP without a WebSocket, in milliseconds */
+    subscriptionPollIntervalMs?: number;
+}
+
+/**
+ * A named Validation Cloud endpoint
+ */
+export interface NetworkConfig {
+    /** Network name used to select it in tool calls, e.g. `sepolia` */
+    name: string;
+    /** Endpoint URL without the API key */
+    baseURL: string;
+    /** API key for this endpoint */
+    apiKey: string;
+    /** Chain ID the endpoint is expected to report */
+    expectedChainId?: number;
+    /** WebSocket endpoint without the API key, if the network has one */
+    webSocketURL?: string;
+}
+
+/**
+ * Status of a configured network as reported by the `list_networks` tool
+ */
+export interface NetworkStatus {
+    /** Network name */
+    name: string;
+    /** Endpoint URL without the API key */
+    baseURL: string;
+    /** Chain ID the endpoint is expected to report */
+    expectedChainId?: number;
+    /** Chain ID reported by `eth_chainId` */
+    chainId?: number;
+    /** Whether `eth_chainId` succeeded and matched the expected chain ID */
+    verified: boolean;
+    /** Whether this network is used when a call does not name one */
+    isDefault: boolean;
+    /** Reason verification failed */
+    error?: string;
+}
+
+/**
+ * Account state replaced for the duration of an `eth_call`, keyed by address
+ */
+export type StateOverrides = Record<string, {
+    /** Balance in wei, as a hex quantity */
+    balance?: string;
+    /** Nonce, as a hex quantity */
+    nonce?: string;
+    /** Runtime bytecode */
+    code?: string;
+    /** Replaces all storage: slot to 32-byte value */
+    state?: Record<string, string>;
+    /** Replaces only the given storage slots */
+    stateDiff?: Record<string, string>;
+}>;
+
+/**
+ * Block header fields replaced for the duration of an `eth_call`; quantities are hex
+ */
+export interface BlockOverrides {
+    number?: string;
+    time?: string;
+    gasLimit?: string;
+    coinbase?: string;
+    baseFee?: string;
+    blobBaseFee?: string;
+    prevRandao?: string;
 }
 
 /**
@@ -59,6 +276,8 @@ export type EthereumParams = {
     eth_getCode: [address: string, block: string | number];
     /** Get network version */
     net_version: [];
+    /** Get chain ID */
+    eth_chainId: [];
     /** Get current gas price */
     eth_gasPrice: [];
     /** Get logs matching filter */
@@ -80,7 +299,9 @@ export type EthereumParams = {
             value?: string;
             data?: string;
         },
-        block: string | number
+        block: string | number,
+        stateOverrides?: StateOverrides,
+        blockOverrides?: BlockOverrides
     ];
     /** Estimate gas for transaction */
     eth_estimateGas: [{
@@ -96,6 +317,38 @@ export type EthereumParams = {
     [key: string]: any[]; // Allow other methods
 };
 
+/**
+ * A parameter in a Solidity JSON ABI fragment
+ */
+export interface AbiParameter {
+    /** Parameter name, may be empty */
+    name?: string;
+    /** Solidity type, e.g. `uint256`, `address[]` or `tuple[2]` */
+    type: string;
+    /** Members of a tuple type */
+    components?: AbiParameter[];
+    /** Whether an event parameter is stored in a topic */
+    indexed?: boolean;
+}
+
+/**
+ * A function, event or error entry of a Solidity JSON ABI
+ */
+export interface AbiFragment {
+    /** Fragment kind */
+    type: 'function' | 'event' | 'error';
+    /** Function, event or error name */
+    name: string;
+    /** Input parameters */
+    inputs: AbiParameter[];
+    /** Return values of a function */
+    outputs?: AbiParameter[];
+    /** Function state mutability */
+    stateMutability?: string;
+    /** Whether an event omits its selector topic */
+    anonymous?: boolean;
+}
+
 /**
  * Parameters for Ethereum node requests
  */
@@ -104,6 +357,10 @@ export interface NodeRequestParams {
     method: keyof EthereumParams;
     /** Parameters for the method */
     params?: any[];
+    /** Return the result as the node sent it, without converting hex quantities */
+    raw?: boolean;
+    /** Ask the node even when the response cache holds an answer, for state that is being watched */
+    fresh?: boolean;
 }
 
 /**
@@ -124,12 +381,33 @@ export interface ValidationCloudResponse {
     };
 }
 
+/**
+ * One entry of a JSON-RPC batch response, matched to its request
+ */
+export interface BatchResponseItem {
+    /** JSON-RPC id assigned to the request */
+    id: number;
+    /** JSON-RPC method of the request */
+    method: keyof EthereumParams;
+    /** Transformed result if the request succeeded */
+    result?: any;
+    /** Error information if this request failed */
+    error?: {
+        code?: number;
+        message: string;
+        data?: any;
+        category?: NodeErrorCategory;
+    };
+}
+
 /**
  * Standard Ethereum JSON-RPC error codes
  */
 export enum EthereumErrorCode {
     /** Invalid JSON was received by the server */
     PARSE_ERROR = -32700,
+    /** The JSON sent is not a valid request object */
+    INVALID_REQUEST = -32600,
     /** Invalid method parameter(s) */
     INVALID_PARAMS = -32602,
     /** Method not found */
@@ -137,5 +415,33 @@ export enum EthereumErrorCode {
     /** Internal JSON-RPC error */
     INTERNAL_ERROR = -32603,
     /** Server error */
-    SERVER_ERROR = -32000
-}
\ No newline at end of file
+    SERVER_ERROR = -32000,
+    /** Requested resource not found (EIP-1474) */
+    RESOURCE_NOT_FOUND = -32001,
+    /** Requested resource not available (EIP-1474) */
+    RESOURCE_UNAVAILABLE = -32002,
+    /** Transaction creation failed (EIP-1474) */
+    TRANSACTION_REJECTED = -32003,
+    /** Method is not implemented (EIP-1474) */
+    METHOD_NOT_SUPPORTED = -32004,
+    /** Request exceeds a defined limit (EIP-1474) */
+    LIMIT_EXCEEDED = -32005,
+    /** Contract execution reverted */
+    EXECUTION_REVERTED = 3
+}
+
+/**
+ * Broad classes of node errors, used to explain failures to the model
+ */
+export type NodeErrorCategory =
+    | 'rate_limit'
+    | 'range_too_large'
+    | 'pruned_state'
+    | 'not_found'
+    | 'execution_reverted'
+    | 'transaction_rejected'
+    | 'method_not_supported'
+    | 'invalid_params'
+    | 'timeout'
+    | 'server_error'
+    | 'unknown';
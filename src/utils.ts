@@ -1,16 +1,21 @@
-import { EthereumParams } from './types.js';
+import { EthereumErrorCode, EthereumParams, ValidationCloudError } from './types.js';
+import { FieldSpec, RESULT_SCHEMAS } from './resultSchema.js';
 
 /**
  * Convert a hex string to a decimal number
  * @param hex - Hex string (with or without '0x' prefix)
  * @returns Decimal number
+ * @throws ValidationCloudError if the value exceeds `Number.MAX_SAFE_INTEGER`; use {@link hexToQuantity} or {@link hexToDecimalString} for those
  */
 export function hexToDecimal(hex: string | null | undefined): number {
-    if (!hex || hex === '0x') return 0;
-    // Remove '0x' prefix if present and convert to decimal
-    const cleanHex = hex.toString().replace('0x', '');
-    const result = parseInt(cleanHex, 16);
-    return isNaN(result) ? 0 : result;
+    const value = hexToQuantity(hex);
+    if (typeof value === 'string') {
+        throw new ValidationCloudError(
+            `${hex} exceeds Number.MAX_SAFE_INTEGER and cannot be converted to a number exactly`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+    return value;
 }
 
 /**
@@ -32,94 +37,350 @@ export function hexToDecimalString(hex: string | null | undefined): string {
     }
 }
 
+/**
+ * Convert a hex quantity to a number, or to a decimal string when it exceeds
+ * `Number.MAX_SAFE_INTEGER`
+ * @param hex - Hex quantity
+ * @returns Exact decimal value
+ */
+export function hexToQuantity(hex: string | null | undefined): number | string {
+    const value = hexToDecimalString(hex);
+    return BigInt(value) <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+/**
+ * Normalise a decimal or hex quantity to a JSON-RPC hex quantity
+ * @param value - Non-negative integer, decimal string or hex string
+ * @returns Hex quantity
+ * @throws ValidationCloudError if the value is not a non-negative integer
+ */
+export function toQuantity(value: number | string | bigint): string {
+    let quantity: bigint | undefined;
+    try {
+        quantity = BigInt(value);
+    } catch (error) {
+        quantity = undefined;
+    }
+    if (quantity === undefined || quantity < 0n) {
+        throw new ValidationCloudError(`Invalid quantity: ${value}`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    return `0x${quantity.toString(16)}`;
+}
+
+/**
+ * Named units and their number of decimals
+ */
+export const UNIT_DECIMALS = {
+    wei: 0,
+    gwei: 9,
+    ether: 18
+} as const;
+
+/**
+ * A named unit, or a number of decimals for tokens
+ */
+export type Unit = keyof typeof UNIT_DECIMALS | number;
+
+function unitDecimals(unit: Unit): number {
+    const decimals = typeof unit === 'number' ? unit : UNIT_DECIMALS[unit];
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+        throw new ValidationCloudError(
+            `Unknown unit "${unit}"; use wei, gwei, ether or a number of decimals`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+    return decimals;
+}
+
+/**
+ * Format an integer amount of the smallest unit as an exact decimal string
+ * @param value - Integer amount, as a bigint, decimal or hex string, or safe integer
+ * @param unit - Unit to format in, or its number of decimals
+ * @returns Decimal string without trailing zeros, e.g. `1.5`
+ */
+export function formatUnits(value: bigint | string | number, unit: Unit): string {
+    const decimals = unitDecimals(unit);
+    let amount: bigint;
+    try {
+        amount = BigInt(value);
+    } catch (error) {
+        throw new ValidationCloudError(`Invalid integer amount "${value}"`, EthereumErrorCode.INVALID_PARAMS);
+    }
+
+    const negative = amount < 0n;
+    const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - decimals);
+    const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Parse a decimal amount into an integer amount of the smallest unit
+ * @param value - Decimal string such as `1.5`
+ * @param unit - Unit the amount is given in, or its number of decimals
+ * @returns Integer amount
+ */
+export function parseUnits(value: string, unit: Unit): bigint {
+    const decimals = unitDecimals(unit);
+    const match = String(value).trim().match(/^(-)?(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[2] && !match[3])) {
+        throw new ValidationCloudError(`Invalid decimal amount "${value}"`, EthereumErrorCode.INVALID_PARAMS);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const significant = fraction.replace(/0+$/, '');
+    if (significant.length > decimals) {
+        throw new ValidationCloudError(
+            `"${value}" has more than ${decimals} decimal places`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+
+    const amount = BigInt(`${whole || '0'}${significant.padEnd(decimals, '0')}`);
+    return sign ? -amount : amount;
+}
+
+/**
+ * Write a number in plain decimal notation, as typed rather than as
+ * `1e+21` or `1e-7`
+ * @param value - Finite number
+ * @returns Decimal string such as `1000000000000000000000` or `0.0000001`
+ */
+export function numberToDecimalString(value: number): string {
+    if (!Number.isFinite(value)) {
+        throw new ValidationCloudError(`Invalid decimal amount "${value}"`, EthereumErrorCode.INVALID_PARAMS);
+    }
+    const match = String(value).match(/^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/);
+    if (!match) return String(value);
+
+    const [, sign, whole, fraction = '', exponent] = match;
+    const digits = `${whole}${fraction}`;
+    // Position of the decimal point within digits
+    const point = whole.length + Number(exponent);
+    const plain = point >= digits.length
+        ? digits.padEnd(point, '0')
+        : point <= 0
+            ? `0.${'0'.repeat(-point)}${digits}`
+            : `${digits.slice(0, point)}.${digits.slice(point)}`;
+    return `${sign}${plain}`;
+}
+
+/**
+ * Convert an amount between units exactly
+ * @param value - Decimal amount, or a hex integer amount
+ * @param from - Unit of `value`
+ * @param to - Unit to convert to
+ * @returns Decimal string in the target unit
+ */
+export function convertUnits(value: string, from: Unit, to: Unit): string {
+    const trimmed = String(value).trim();
+    // A hex value is a whole number of `from` units, so it is scaled to base units by `from`'s decimals
+    const amount = /^0x[0-9a-fA-F]+$/.test(trimmed)
+        ? BigInt(trimmed) * 10n ** BigInt(unitDecimals(from))
+        : parseUnits(trimmed, from);
+    return formatUnits(amount, to);
+}
+
 /**
  * Convert Wei (in hex) to Ether (in decimal)
  * @param weiHex - Wei amount in hex
- * @returns Ether amount as string with 18 decimal places
+ * @returns Exact ether amount as a decimal string
  */
 export function weiToEther(weiHex: string | null | undefined): string {
     if (!weiHex || weiHex === '0x') return '0';
     try {
-        const wei = BigInt(weiHex);
-        const ether = Number(wei) / 1e18;
-        return ether.toString();
+        return formatUnits(BigInt(weiHex), 'ether');
     } catch (error) {
         return '0';
     }
 }
 
 /**
- * Transform API response based on the method
+ * Convert a value according to its field schema
+ * @param spec - Field schema
+ * @param value - Raw value from the node
+ * @returns Converted value; values that do not match the schema are returned unchanged
+ */
+export function convertField(spec: FieldSpec, value: any): any {
+    if (value === null || value === undefined) return value;
+
+    if (typeof spec === 'string') {
+        if (typeof value !== 'string') return value;
+        switch (spec) {
+            case 'quantity':
+                return hexToQuantity(value);
+            case 'bigQuantity':
+                return hexToDecimalString(value);
+            case 'wei':
+                return {
+                    wei: hexToDecimalString(value),
+                    ether: weiToEther(value)
+                };
+            default:
+                return value;
+        }
+    }
+
+    if ('array' in spec) {
+        return Array.isArray(value) ? value.map(item => convertField(spec.array, item)) : value;
+    }
+
+    // Blocks list transaction hashes unless full transactions were requested
+    if (typeof value !== 'object' || Array.isArray(value)) return value;
+    const converted = { ...value };
+    for (const [field, fieldSpec] of Object.entries(spec.object)) {
+        if (field in converted) {
+            converted[field] = convertField(fieldSpec, converted[field]);
+        }
+    }
+    return converted;
+}
+
+/**
+ * Transform API response based on the method's schema in {@link RESULT_SCHEMAS}
  * @param method - The Ethereum JSON-RPC method
  * @param result - The raw result from the API
  * @returns Transformed result
  */
 export function transformResponse(method: keyof EthereumParams, result: any): any {
-    if (!result) return result;
-
-    switch (method) {
-        case 'eth_blockNumber':
-        case 'eth_gasPrice':
-        case 'eth_estimateGas':
-            return hexToDecimal(result);
-
-        case 'eth_getBalance':
-            if (typeof result !== 'string') return result;
-            return {
-                wei: hexToDecimalString(result),
-                ether: weiToEther(result)
-            };
-
-        case 'eth_getBlockByNumber':
-        case 'eth_getBlockByHash':
-            if (typeof result === 'object') {
-                return {
-                    ...result,
-                    ...(result.number && { number: hexToDecimal(result.number) }),
-                    ...(result.gasLimit && { gasLimit: hexToDecimal(result.gasLimit) }),
-                    ...(result.gasUsed && { gasUsed: hexToDecimal(result.gasUsed) }),
-                    ...(result.timestamp && { timestamp: hexToDecimal(result.timestamp) }),
-                    ...(result.transactions && {
-                        transactions: Array.isArray(result.transactions)
-                            ? result.transactions.map((tx: any) =>
-                                typeof tx === 'object' ? transformTransaction(tx) : tx
-                            )
-                            : result.transactions
-                    })
-                };
-            }
-            return result;
+    const spec = RESULT_SCHEMAS[method];
+    return spec ? convertField(spec, result) : result;
+}
+
+/** Quantity as a bigint, whether converted (number or decimal string) or raw hex */
+function bigQuantity(value: unknown): bigint | undefined {
+    if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+    try {
+        return BigInt(value);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/** Integer with thousands separators, e.g. `19,000,000` */
+function formatCount(value: unknown): string {
+    const amount = bigQuantity(value);
+    return amount === undefined ? String(value) : amount.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+/** Gas amount, abbreviated above a million, e.g. `12.3M` */
+function formatGas(value: unknown): string {
+    const amount = bigQuantity(value);
+    if (amount === undefined || amount < 1000000n) return formatCount(value);
+    return `${(Number(amount) / 1e6).toFixed(1)}M`;
+}
+
+/** Wei amount in ether, from a `{ wei, ether }` conversion or a raw quantity */
+function formatEther(value: unknown): string {
+    if (value && typeof value === 'object' && 'ether' in value) return `${(value as { ether: string }).ether} ether`;
+    const amount = bigQuantity(value);
+    return amount === undefined ? String(value) : `${formatUnits(amount, 'ether')} ether`;
+}
+
+function formatGwei(value: unknown): string {
+    const amount = bigQuantity(value);
+    return amount === undefined ? String(value) : `${formatUnits(amount, 'gwei')} gwei`;
+}
+
+function formatTime(value: unknown): string {
+    const seconds = bigQuantity(value);
+    return seconds === undefined ? String(value) : new Date(Number(seconds) * 1000).toISOString().replace('.000Z', 'Z');
+}
 
-        case 'eth_getTransactionByHash':
-        case 'eth_getTransactionReceipt':
-            return transformTransaction(result);
+function hexByteLength(value: unknown): number {
+    return typeof value === 'string' ? Math.max(0, (value.length - 2) / 2) : 0;
+}
 
-        default:
-            return result;
+function summarizeBlock(block: any): string {
+    if (!block) return 'Block not found';
+    const transactions = Array.isArray(block.transactions) ? block.transactions.length : 0;
+    const parts = [
+        `Block ${formatCount(block.number)} mined ${formatTime(block.timestamp)} with ${formatCount(transactions)} txs`,
+        `${formatGas(block.gasUsed)} gas used`
+    ];
+    if (block.baseFeePerGas !== undefined) {
+        parts.push(`base fee ${formatGwei(block.baseFeePerGas)}`);
     }
+    return parts.join(', ');
+}
+
+function summarizeTransaction(tx: any): string {
+    if (!tx) return 'Transaction not found';
+    const target = tx.to ? `to ${tx.to}` : 'creating a contract';
+    const where = tx.blockNumber === null || tx.blockNumber === undefined
+        ? 'pending'
+        : `in block ${formatCount(tx.blockNumber)}`;
+    const calldata = hexByteLength(tx.input);
+    return `Transaction from ${tx.from} ${target} sending ${formatEther(tx.value)}`
+        + `${calldata > 0 ? ` with ${formatCount(calldata)} bytes of calldata` : ''}, ${where}`;
+}
+
+function summarizeReceipt(receipt: any): string {
+    if (!receipt) return 'No receipt: the transaction is pending or unknown';
+    const status = bigQuantity(receipt.status);
+    const outcome = status === undefined ? 'Included' : status === 1n ? 'Succeeded' : 'Failed';
+    const logs = Array.isArray(receipt.logs) ? receipt.logs.length : 0;
+    return `${outcome} in block ${formatCount(receipt.blockNumber)}, ${formatCount(receipt.gasUsed)} gas used, ${logs} logs`
+        + `${receipt.contractAddress ? `, created contract ${receipt.contractAddress}` : ''}`;
+}
+
+function summarizeLogs(logs: any): string {
+    if (!Array.isArray(logs)) return 'No logs';
+    const blocks = logs.map(log => bigQuantity(log?.blockNumber)).filter((block): block is bigint => block !== undefined);
+    if (blocks.length === 0) return `${formatCount(logs.length)} logs`;
+    const first = blocks.reduce((a, b) => (b < a ? b : a));
+    const last = blocks.reduce((a, b) => (b > a ? b : a));
+    const decoded = logs.filter(log => log?.event).length;
+    return `${formatCount(logs.length)} logs from blocks ${formatCount(first)} to ${formatCount(last)}`
+        + `${decoded > 0 ? `, ${formatCount(decoded)} decoded` : ''}`;
 }
 
 /**
- * Transform transaction object properties from hex to decimal
- * @param tx - Transaction object
- * @returns Transformed transaction object
+ * One-line summaries of method results, keyed by method. Each accepts the
+ * converted result of {@link transformResponse} as well as the raw result.
  */
-function transformTransaction(tx: any): any {
-    if (!tx || typeof tx !== 'object') return tx;
-
-    return {
-        ...tx,
-        blockNumber: tx.blockNumber ? hexToDecimal(tx.blockNumber) : null,
-        transactionIndex: tx.transactionIndex ? hexToDecimal(tx.transactionIndex) : null,
-        gas: hexToDecimal(tx.gas),
-        gasPrice: tx.gasPrice ? hexToDecimal(tx.gasPrice) : null,
-        nonce: hexToDecimal(tx.nonce),
-        value: {
-            wei: hexToDecimalString(tx.value),
-            ether: weiToEther(tx.value)
-        },
-        ...(tx.gasUsed && { gasUsed: hexToDecimal(tx.gasUsed) }),
-        ...(tx.cumulativeGasUsed && { cumulativeGasUsed: hexToDecimal(tx.cumulativeGasUsed) }),
-        ...(tx.effectiveGasPrice && { effectiveGasPrice: hexToDecimal(tx.effectiveGasPrice) })
-    };
+export const RESULT_SUMMARIES: Partial<Record<keyof EthereumParams, (result: any) => string>> = {
+    eth_blockNumber: result => `Latest block is ${formatCount(result)}`,
+    eth_chainId: result => `Chain ID ${formatCount(result)}`,
+    eth_gasPrice: result => `Gas price ${formatGwei(result)}`,
+    eth_maxPriorityFeePerGas: result => `Priority fee ${formatGwei(result)}`,
+    eth_blobBaseFee: result => `Blob base fee ${formatGwei(result)}`,
+    eth_estimateGas: result => `Estimated gas ${formatCount(result)}`,
+    eth_getTransactionCount: result => `Transaction count (nonce) ${formatCount(result)}`,
+    eth_getBalance: result => `Balance ${formatEther(result)}`,
+    eth_getCode: result => hexByteLength(result) === 0
+        ? 'No code: an externally owned account'
+        : `Contract code, ${formatCount(hexByteLength(result))} bytes`,
+    eth_getStorageAt: result => `Storage value ${result}`,
+    eth_call: result => hexByteLength(result) === 0
+        ? 'Call returned no data'
+        : `Call returned ${formatCount(hexByteLength(result))} bytes`,
+    eth_sendRawTransaction: result => `Sent transaction ${result}`,
+    eth_getBlockByNumber: summarizeBlock,
+    eth_getBlockByHash: summarizeBlock,
+    eth_getTransactionByHash: summarizeTransaction,
+    eth_getTransactionReceipt: summarizeReceipt,
+    eth_getBlockReceipts: result => Array.isArray(result) ? `${formatCount(result.length)} receipts` : 'Block not found',
+    eth_getLogs: summarizeLogs,
+    eth_feeHistory: result => result
+        ? `Fee history for ${formatCount(Math.max(0, (result.baseFeePerGas?.length ?? 1) - 1))} blocks from block ${formatCount(result.oldestBlock)}`
+        : 'No fee history',
+    eth_syncing: result => result === false ? 'Node is in sync' : 'Node is syncing'
+};
+
+/**
+ * Summarise a method result in one line for a person or model to read
+ * @param method - The Ethereum JSON-RPC method
+ * @param result - The result, converted or raw
+ * @returns Summary, or undefined for methods without a summariser
+ */
+export function summarizeResponse(method: keyof EthereumParams, result: any): string | undefined {
+    const summarize = RESULT_SUMMARIES[method];
+    if (!summarize) return undefined;
+    try {
+        return summarize(result);
+    } catch (error) {
+        // A summary is a convenience; unexpected shapes fall back to the JSON
+        return undefined;
+    }
 }
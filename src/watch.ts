@@ -0,0 +1,200 @@
+import { encodeParameters, eventTopic, parseSignature } from './abi.js';
+import { ValidationCloudAPI } from './api.js';
+import { LogSubscriptionFilter, Subscription, SubscriptionKind, SubscriptionSource } from './subscriptions.js';
+import { AbiFragment, EthereumErrorCode, Logger, ValidationCloudError } from './types.js';
+
+/** Wait used when the caller sets none */
+export const DEFAULT_WATCH_SECONDS = 60;
+
+/** Longest a watch may wait */
+export const MAX_WATCH_SECONDS = 600;
+
+/** Asynchronous checks, such as transaction lookups, allowed at once; later events wait in a queue */
+const MAX_CONCURRENT_CHECKS = 8;
+
+/** Events that may wait for a check; events arriving when the queue is full are skipped */
+const MAX_QUEUED_EVENTS = 1000;
+
+/**
+ * How long to watch and what to do with each match
+ */
+export interface WatchOptions<T> {
+    /** Matches to wait for (default 1) */
+    count?: number;
+    /** Stop waiting after this many seconds (default {@link DEFAULT_WATCH_SECONDS}, at most {@link MAX_WATCH_SECONDS}) */
+    timeoutSeconds?: number;
+    /** Stops the watch when aborted */
+    signal?: AbortSignal;
+    /** Called with each match and the number of matches so far */
+    onMatch?: (match: T, matched: number) => void;
+    logger?: Logger;
+}
+
+/**
+ * Matches seen before the watch ended
+ */
+export interface WatchResult<T> {
+    matches: T[];
+    /** Matches that were asked for */
+    requested: number;
+    /** Why the watch ended */
+    ended: 'count' | 'timeout' | 'cancelled';
+    waitedSeconds: number;
+    /** Whether events came over the WebSocket or from polling when the watch ended */
+    source: SubscriptionSource;
+    /** Events not checked because the queue of events waiting for a check was full */
+    skipped?: number;
+}
+
+/**
+ * Subscribe and collect matching events until enough have matched, the
+ * timeout passes or the signal aborts
+ * @param api - Client to subscribe with
+ * @param kind - Subscription type
+ * @param filter - Address and topic filter for `logs`
+ * @param match - Returns the match for an event, or undefined to skip it; may be asynchronous
+ * @param options - Count, timeout, cancellation and per-match callback
+ * @returns Matches in arrival order
+ */
+export async function watchEvents<T>(
+    api: ValidationCloudAPI,
+    kind: SubscriptionKind,
+    filter: LogSubscriptionFilter | undefined,
+    match: (event: any) => T | undefined | Promise<T | undefined>,
+    options: WatchOptions<T> = {}
+): Promise<WatchResult<T>> {
+    const requested = options.count ?? 1;
+    const timeoutSeconds = Math.min(options.timeoutSeconds ?? DEFAULT_WATCH_SECONDS, MAX_WATCH_SECONDS);
+    const started = Date.now();
+    const matches: T[] = [];
+    const queue: unknown[] = [];
+    let checking = 0;
+    let skipped = 0;
+    let done = false;
+    let finish!: (reason: WatchResult<T>['ended']) => void;
+    const ended = new Promise<WatchResult<T>['ended']>(resolve => {
+        finish = reason => {
+            done = true;
+            resolve(reason);
+        };
+    });
+
+    const accept = (result: T | undefined) => {
+        if (result === undefined || done) return;
+        matches.push(result);
+        options.onMatch?.(result, matches.length);
+        if (matches.length >= requested) finish('count');
+    };
+    const check = (event: unknown) => {
+        try {
+            const result = match(event);
+            if (result instanceof Promise) {
+                checking++;
+                result
+                    .then(accept, error => options.logger?.warn(`Could not check ${kind} event:`, error))
+                    .finally(() => {
+                        checking--;
+                        drain();
+                    });
+            } else {
+                accept(result);
+            }
+        } catch (error) {
+            options.logger?.warn(`Could not check ${kind} event:`, error);
+        }
+    };
+    const drain = () => {
+        while (!done && checking < MAX_CONCURRENT_CHECKS && queue.length > 0) check(queue.shift());
+    };
+    const onEvent = (event: unknown) => {
+        if (done) return;
+        if (checking < MAX_CONCURRENT_CHECKS && queue.length === 0) {
+            check(event);
+        } else if (queue.length < MAX_QUEUED_EVENTS) {
+            queue.push(event);
+        } else {
+            skipped++;
+        }
+    };
+
+    const timer = setTimeout(() => finish('timeout'), timeoutSeconds * 1000);
+    const onAbort = () => finish('cancelled');
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) onAbort();
+
+    let subscription: Subscription | undefined;
+    try {
+        subscription = await api.subscribe(kind, filter, onEvent);
+        const reason = await ended;
+        return {
+            matches,
+            requested,
+            ended: reason,
+            waitedSeconds: Math.round((Date.now() - started) / 100) / 10,
+            source: subscription.source,
+            ...(skipped > 0 && { skipped })
+        };
+    } finally {
+        done = true;
+        queue.length = 0;
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        await subscription?.unsubscribe().catch(error => options.logger?.warn(`Could not unsubscribe from ${kind}:`, error));
+    }
+}
+
+/**
+ * Parse an event signature, with or without the `event` keyword
+ * @param signature - e.g. `Transfer(address indexed from, address indexed to, uint256 value)`
+ * @returns Event fragment
+ */
+export function parseEventSignature(signature: string): AbiFragment {
+    return parseSignature(/^\s*event\s/.test(signature) ? signature : `event ${signature}`);
+}
+
+/**
+ * Topic filter for an event: its topic followed by the given values of
+ * indexed arguments, so the node filters on them. Dynamic indexed values are
+ * stored hashed and are left to {@link matchesArgs}.
+ * @param fragment - Event fragment
+ * @param where - Argument values keyed by name
+ * @returns Topics for a log filter
+ * @throws ValidationCloudError when `where` names an argument the event does not have
+ */
+export function eventTopics(fragment: AbiFragment, where: Record<string, unknown> = {}): (string | null)[] {
+    const names = new Set(fragment.inputs.map(input => input.name));
+    const unknown = Object.keys(where).filter(key => !names.has(key));
+    if (unknown.length > 0) {
+        throw new ValidationCloudError(
+            `Event ${fragment.name} has no argument ${unknown.map(key => `"${key}"`).join(', ')}`,
+            EthereumErrorCode.INVALID_PARAMS
+        );
+    }
+
+    const topics: (string | null)[] = [eventTopic(fragment)];
+    for (const input of fragment.inputs.filter(input => input.indexed)) {
+        const value = input.name === undefined ? undefined : where[input.name];
+        const dynamic = input.type === 'string' || input.type === 'bytes' || input.type.startsWith('tuple') || input.type.endsWith(']');
+        topics.push(value === undefined || dynamic ? null : encodeParameters([input], [value]));
+    }
+    while (topics[topics.length - 1] === null) topics.pop();
+    return topics;
+}
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+    const numeric = /^(0x[0-9a-fA-F]+|-?\d+)$/;
+    if (numeric.test(String(actual)) && numeric.test(String(expected))) {
+        return BigInt(String(actual)) === BigInt(String(expected));
+    }
+    return String(actual).toLowerCase() === String(expected).toLowerCase();
+}
+
+/**
+ * Check decoded event arguments against expected values. Addresses and hex
+ * compare case-insensitively and integers compare by value.
+ * @param args - Decoded arguments
+ * @param where - Expected values keyed by argument name
+ */
+export function matchesArgs(args: Record<string, unknown>, where: Record<string, unknown>): boolean {
+    return Object.entries(where).every(([key, expected]) => key in args && sameValue(args[key], expected));
+}
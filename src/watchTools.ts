@@ -0,0 +1,216 @@
+import { ValidationCloudAPI } from './api.js';
+import { resolveAddress, resolveAddressArgs, withEnsResolutions } from './ens.js';
+import { EventDecoder } from './events.js';
+import { JsonSchema } from './jsonSchema.js';
+import { EVENT_ABI_ARGUMENT, NETWORK_ARGUMENT, ToolCallOptions, ToolDefinition, eventDecoderFor } from './tools.js';
+import { AbiFragment, EthereumErrorCode, ValidationCloudError } from './types.js';
+import { DEFAULT_WATCH_SECONDS, MAX_WATCH_SECONDS, WatchResult, eventTopics, matchesArgs, parseEventSignature, watchEvents } from './watch.js';
+
+/**
+ * Arguments shared by the watch tools
+ */
+const WATCH_ARGUMENTS: Record<string, JsonSchema> = {
+    count: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 100,
+        description: 'Matches to wait for before returning (default 1)'
+    },
+    timeoutSeconds: {
+        type: 'number',
+        minimum: 1,
+        maximum: MAX_WATCH_SECONDS,
+        description: `Return whatever has matched after this many seconds (default ${DEFAULT_WATCH_SECONDS})`
+    },
+    stream: {
+        type: 'boolean',
+        description: 'Also send each match as an MCP logging notification as soon as it arrives (default false). Progress notifications are sent whenever the client passes a progress token'
+    }
+};
+
+/**
+ * Per-match callback that reports progress and, when streaming, logs the match
+ */
+function reporter<T>(tool: string, call: ToolCallOptions, requested: number, stream: boolean, describe: (match: T) => string) {
+    return (match: T, matched: number) => {
+        call.progress?.(matched, requested, describe(match));
+        if (stream) call.log?.({ tool, match });
+    };
+}
+
+function summarizeWatch<T>(
+    { matches, requested, ended, waitedSeconds, source }: WatchResult<T>,
+    noun: [string, string],
+    describe: (match: T) => string
+): string {
+    const seen = matches.length === 0
+        ? `No ${noun[1]}`
+        : `${matches.length} ${matches.length === 1 ? noun[0] : noun[1]}: ${matches.slice(0, 3).map(describe).join(', ')}${matches.length > 3 ? ', ...' : ''}`;
+    const end = ended === 'count'
+        ? `after ${waitedSeconds} s`
+        : ended === 'timeout'
+            ? `before the timeout (${matches.length} of ${requested} after ${waitedSeconds} s)`
+            : `before the watch was cancelled`;
+    return `${seen} ${end}, via ${source}`;
+}
+
+/**
+ * Resolve ENS names given for the address arguments of an event
+ */
+async function resolveEventArgs(
+    api: ValidationCloudAPI,
+    fragment: AbiFragment,
+    where: Record<string, unknown>,
+    resolved: Record<string, string>
+): Promise<Record<string, unknown>> {
+    const expected = { ...where };
+    for (const { name, type } of fragment.inputs) {
+        const value = name === undefined ? undefined : expected[name];
+        if (name !== undefined && type === 'address' && typeof value === 'string') {
+            expected[name] = await resolveAddress(api, value, resolved);
+        }
+    }
+    return expected;
+}
+
+const describeBlock = (block: any) => `block ${Number(block.number).toLocaleString('en-US')}`;
+const describeLog = (log: any) => `${log.event?.name ?? 'log'} in tx ${String(log.transactionHash).slice(0, 10)}... (block ${log.blockNumber})`;
+const describeTransaction = (tx: any) => typeof tx === 'string' ? tx : `${tx.hash} from ${tx.from}${tx.to ? ` to ${tx.to}` : ''}`;
+
+/**
+ * Tools that wait for live chain events
+ */
+export const WATCH_TOOLS: ToolDefinition[] = [
+    {
+        name: 'watch_blocks',
+        description: 'Wait for the next new block or blocks and return their headers. Uses eth_subscribe over WebSocket, or polls when no WebSocket is available',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                ...WATCH_ARGUMENTS,
+                network: NETWORK_ARGUMENT
+            },
+            additionalProperties: false
+        },
+        async handler({ count, timeoutSeconds, stream = false, network }, context, call) {
+            return watchEvents(context.networks.get(network), 'newHeads', undefined, head => head, {
+                count,
+                timeoutSeconds,
+                signal: call.signal,
+                onMatch: reporter('watch_blocks', call, count ?? 1, stream, describeBlock),
+                logger: context.logger
+            });
+        },
+        summarize(result: WatchResult<any>) {
+            return summarizeWatch(result, ['new block', 'new blocks'], describeBlock);
+        }
+    },
+    {
+        name: 'watch_logs',
+        description: 'Wait for new logs matching a filter, e.g. the next Transfer to an address, and return them decoded. '
+            + 'Give an event signature with argument values in where; indexed arguments are filtered by the node. Logs removed by a reorg are skipped',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                address: {
+                    description: 'Contract address or list of addresses; ENS names are resolved',
+                    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }]
+                },
+                event: {
+                    type: 'string',
+                    description: 'Event signature with parameter names, e.g. "Transfer(address indexed from, address indexed to, uint256 value)"'
+                },
+                where: {
+                    type: 'object',
+                    description: 'Argument values the event must have, keyed by parameter name, e.g. {"to": "0x..."}; addresses may be ENS names. Requires event'
+                },
+                topics: {
+                    type: 'array',
+                    description: 'Topic filter as in eth_getLogs, instead of event'
+                },
+                abi: EVENT_ABI_ARGUMENT,
+                ...WATCH_ARGUMENTS,
+                network: NETWORK_ARGUMENT
+            },
+            additionalProperties: false
+        },
+        async handler({ address, event, where, topics, abi, count, timeoutSeconds, stream = false, network }, context, call) {
+            if (event !== undefined && topics !== undefined) {
+                throw new ValidationCloudError('Pass either event or topics, not both', EthereumErrorCode.INVALID_PARAMS);
+            }
+            if (where !== undefined && event === undefined) {
+                throw new ValidationCloudError('where needs the event signature to decode arguments', EthereumErrorCode.INVALID_PARAMS);
+            }
+
+            const api = context.networks.get(network);
+            const { args: { address: resolvedAddress }, resolved } = await resolveAddressArgs(api, { address }, ['address']);
+            const fragment = event === undefined ? undefined : parseEventSignature(event);
+            const expected = fragment && where ? await resolveEventArgs(api, fragment, where, resolved) : undefined;
+
+            const filter = {
+                ...(resolvedAddress !== undefined && { address: resolvedAddress }),
+                ...(fragment ? { topics: eventTopics(fragment, expected) } : topics !== undefined && { topics })
+            };
+            const decoder = fragment ? new EventDecoder([fragment], false) : eventDecoderFor(abi, context);
+            const result = await watchEvents(api, 'logs', filter, log => {
+                // Sent for logs of blocks a reorg took out of the chain
+                if (log.removed) return undefined;
+                const [decoded] = decoder.decodeLogs([log]);
+                if (expected && !(decoded.event && matchesArgs(decoded.event.args, expected))) return undefined;
+                return decoded;
+            }, {
+                count,
+                timeoutSeconds,
+                signal: call.signal,
+                onMatch: reporter('watch_logs', call, count ?? 1, stream, describeLog),
+                logger: context.logger
+            });
+            return withEnsResolutions(result, resolved);
+        },
+        summarize(result: WatchResult<any>) {
+            return summarizeWatch(result, ['matching log', 'matching logs'], describeLog);
+        }
+    },
+    {
+        name: 'watch_pending_transactions',
+        description: 'Wait for transactions to enter the mempool. Without from or to, returns hashes; '
+            + 'with them, each pending transaction is fetched to check it, which costs one request per transaction',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                from: { type: 'string', description: 'Sender address or ENS name' },
+                to: { type: 'string', description: 'Recipient address or ENS name' },
+                ...WATCH_ARGUMENTS,
+                network: NETWORK_ARGUMENT
+            },
+            additionalProperties: false
+        },
+        async handler({ from, to, count, timeoutSeconds, stream = false, network }, context, call) {
+            const api = context.networks.get(network);
+            const { args, resolved } = await resolveAddressArgs(api, { from, to }, ['from', 'to']);
+            const sender = args.from?.toLowerCase();
+            const recipient = args.to?.toLowerCase();
+
+            const match = sender === undefined && recipient === undefined
+                ? (hash: string) => hash
+                : async (hash: string) => {
+                    const { result: tx } = await api.request({ method: 'eth_getTransactionByHash', params: [hash] });
+                    if (!tx) return undefined;
+                    if (sender !== undefined && tx.from?.toLowerCase() !== sender) return undefined;
+                    if (recipient !== undefined && tx.to?.toLowerCase() !== recipient) return undefined;
+                    return tx;
+                };
+            const result = await watchEvents<unknown>(api, 'newPendingTransactions', undefined, match, {
+                count,
+                timeoutSeconds,
+                signal: call.signal,
+                onMatch: reporter('watch_pending_transactions', call, count ?? 1, stream, describeTransaction),
+                logger: context.logger
+            });
+            return withEnsResolutions(result, resolved);
+        },
+        summarize(result: WatchResult<any>) {
+            return summarizeWatch(result, ['pending transaction', 'pending transactions'], describeTransaction);
+        }
+    }
+];